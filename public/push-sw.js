@@ -0,0 +1,18 @@
+// Web Push service worker - shows reservation notifications sent by the
+// server (src/lib/notification-transports/web-push.ts) and opens their link.
+
+self.addEventListener("push", (event) => {
+    const data = event.data ? event.data.json() : {};
+    event.waitUntil(
+        self.registration.showNotification(data.title || "NearSpotty", {
+            body: data.body || "",
+            icon: "/favicon.ico",
+            data: { url: data.url || "/" }
+        })
+    );
+});
+
+self.addEventListener("notificationclick", (event) => {
+    event.notification.close();
+    event.waitUntil(self.clients.openWindow(event.notification.data?.url || "/"));
+});
@@ -0,0 +1,239 @@
+#!/usr/bin/env npx ts-node
+/**
+ * Per-Cover Fee Reconciliation Script
+ *
+ * Recounts a month's finished reservations per restaurant and compares them
+ * with the `cover_usage` meter and the invoice items already sent to Stripe.
+ *
+ * Usage:
+ *   npx ts-node scripts/reconcile-cover-fees.ts <YYYY-MM> [--fix]
+ *
+ * --fix rewrites the meter from the recount, sets `invoicedCents` to what
+ * Stripe actually holds and clears an interrupted run's `pendingInvoice`.
+ * Missing fees are invoiced by the next
+ * /api/cron/invoice-covers?period=<YYYY-MM> run; over-invoiced restaurants
+ * need a manual credit note.
+ *
+ * Examples:
+ *   npx ts-node scripts/reconcile-cover-fees.ts 2026-09
+ *   npx ts-node scripts/reconcile-cover-fees.ts 2026-09 --fix
+ */
+
+import * as admin from 'firebase-admin';
+import Stripe from 'stripe';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getBusinessLimits, ownerPlanOf } from '../src/lib/plan-limits';
+
+// Manual .env.local loading (avoids dotenv dependency)
+const envPath = path.resolve(__dirname, '../.env.local');
+if (fs.existsSync(envPath)) {
+    const envContent = fs.readFileSync(envPath, 'utf8');
+    envContent.split('\n').forEach(line => {
+        const [key, ...valueParts] = line.split('=');
+        if (key && !key.startsWith('#')) {
+            const value = valueParts.join('=').trim();
+            if (value && !process.env[key.trim()]) {
+                process.env[key.trim()] = value.replace(/^["']|["']$/g, '');
+            }
+        }
+    });
+}
+
+// Initialize Firebase Admin
+if (!admin.apps.length) {
+    const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+    if (!privateKey || !process.env.FIREBASE_ADMIN_PROJECT_ID || !process.env.FIREBASE_ADMIN_CLIENT_EMAIL) {
+        console.error('❌ Missing Firebase Admin credentials in .env.local');
+        console.error('Required: FIREBASE_ADMIN_PROJECT_ID, FIREBASE_ADMIN_CLIENT_EMAIL, FIREBASE_ADMIN_PRIVATE_KEY');
+        process.exit(1);
+    }
+
+    admin.initializeApp({
+        credential: admin.credential.cert({
+            projectId: process.env.FIREBASE_ADMIN_PROJECT_ID,
+            clientEmail: process.env.FIREBASE_ADMIN_CLIENT_EMAIL,
+            privateKey: privateKey,
+        }),
+    });
+}
+
+if (!process.env.STRIPE_SECRET_KEY) {
+    console.error('❌ Missing STRIPE_SECRET_KEY in .env.local');
+    process.exit(1);
+}
+
+const db = admin.firestore();
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: '2026-01-28.clover' });
+
+// Keep in sync with src/lib/cover-billing.ts
+const COVER_USAGE_COLLECTION = 'cover_usage';
+const COVER_FEE_METADATA_KIND = 'cover_fees';
+
+interface Tally {
+    ownerId: string;
+    placeId: string;
+    placeName: string;
+    covers: number;
+    reservations: number;
+    feeCents: number;
+    unmetered: number;   // Finished bookings without a coverFee
+}
+
+async function ownerFeeCents(ownerId: string, cache: Map<string, admin.firestore.DocumentData | undefined>): Promise<number> {
+    if (!cache.has(ownerId)) cache.set(ownerId, (await db.collection('users').doc(ownerId).get()).data());
+    const owner = cache.get(ownerId);
+    return Math.round(getBusinessLimits(ownerPlanOf(owner)).perCoverFee * 100);
+}
+
+async function stripeInvoicedCents(customerId: string, period: string): Promise<Map<string, number>> {
+    const byPlace = new Map<string, number>();
+    for await (const item of stripe.invoiceItems.list({ customer: customerId, limit: 100 })) {
+        if (item.metadata?.kind !== COVER_FEE_METADATA_KIND || item.metadata.period !== period) continue;
+        byPlace.set(item.metadata.placeId, (byPlace.get(item.metadata.placeId) || 0) + item.amount);
+    }
+    return byPlace;
+}
+
+async function reconcile(period: string, fix: boolean) {
+    try {
+        console.log(`🔍 Reconciling per-cover fees for ${period}${fix ? ' (fixing)' : ''}...`);
+
+        // 1. Recount finished bookings by service date
+        const reservationsSnap = await db.collection('reservations')
+            .where('dateKey', '>=', `${period}-01`)
+            .where('dateKey', '<=', `${period}-31`)
+            .get();
+
+        const restaurants = new Map<string, admin.firestore.DocumentData | undefined>();
+        const owners = new Map<string, admin.firestore.DocumentData | undefined>();
+        const tallies = new Map<string, Tally>();
+
+        for (const doc of reservationsSnap.docs) {
+            const reservation = doc.data();
+            if (reservation.status !== 'finished' || reservation.source === 'walk_in') continue;
+
+            if (!restaurants.has(reservation.placeId)) {
+                restaurants.set(reservation.placeId, (await db.collection('restaurants').doc(reservation.placeId).get()).data());
+            }
+            const ownerId: string | undefined = restaurants.get(reservation.placeId)?.ownerId;
+            if (!ownerId) {
+                console.warn(`⚠️  ${doc.id}: restaurant ${reservation.placeId} has no owner, skipped`);
+                continue;
+            }
+
+            const tally = tallies.get(reservation.placeId) || {
+                ownerId,
+                placeId: reservation.placeId,
+                placeName: reservation.placeName || '',
+                covers: 0,
+                reservations: 0,
+                feeCents: 0,
+                unmetered: 0,
+            };
+            tally.covers += reservation.guests || 0;
+            tally.reservations++;
+            if (reservation.coverFee) {
+                tally.feeCents += reservation.coverFee.cents;
+            } else {
+                // Finished before metering existed - bill at the owner's current rate
+                tally.feeCents += (await ownerFeeCents(ownerId, owners)) * (reservation.guests || 0);
+                tally.unmetered++;
+            }
+            tallies.set(reservation.placeId, tally);
+        }
+
+        // 2. Compare with the meter and Stripe
+        const usageSnap = await db.collection(COVER_USAGE_COLLECTION).where('period', '==', period).get();
+        const meters = new Map(usageSnap.docs.map(doc => [doc.data().placeId as string, doc]));
+        const placeIds = new Set([...tallies.keys(), ...meters.keys()]);
+        const stripeByCustomer = new Map<string, Map<string, number>>();
+
+        let mismatches = 0;
+        for (const placeId of placeIds) {
+            const tally = tallies.get(placeId);
+            const meter = meters.get(placeId)?.data();
+            const ownerId: string = tally?.ownerId || meter?.ownerId;
+
+            if (!owners.has(ownerId)) owners.set(ownerId, (await db.collection('users').doc(ownerId).get()).data());
+            const customerId: string | undefined = owners.get(ownerId)?.stripeCustomerId;
+            if (customerId && !stripeByCustomer.has(customerId)) {
+                stripeByCustomer.set(customerId, await stripeInvoicedCents(customerId, period));
+            }
+            const stripeCents = customerId ? stripeByCustomer.get(customerId)!.get(placeId) || 0 : 0;
+
+            const expected = { covers: tally?.covers || 0, reservations: tally?.reservations || 0, feeCents: tally?.feeCents || 0 };
+            const metered = { covers: meter?.covers || 0, reservations: meter?.reservations || 0, feeCents: meter?.feeCents || 0 };
+            const invoicedCents: number = meter?.invoicedCents || 0;
+
+            const issues: string[] = [];
+            if (expected.covers !== metered.covers || expected.feeCents !== metered.feeCents || expected.reservations !== metered.reservations) {
+                issues.push(`meter ${metered.covers} covers/${metered.feeCents}¢, recount ${expected.covers} covers/${expected.feeCents}¢`);
+            }
+            if (tally?.unmetered) issues.push(`${tally.unmetered} booking(s) finished without a coverFee`);
+            if (stripeCents !== invoicedCents) issues.push(`invoicedCents ${invoicedCents}¢, Stripe holds ${stripeCents}¢`);
+            if (meter?.pendingInvoice) issues.push(`invoice run interrupted with ${meter.pendingInvoice.cents}¢ pending since ${meter.pendingInvoice.createdAt}`);
+            if (!customerId && expected.feeCents > 0) issues.push('owner has no Stripe customer');
+            if (stripeCents > expected.feeCents) issues.push(`over-invoiced by ${stripeCents - expected.feeCents}¢ - issue a credit note`);
+
+            const name = tally?.placeName || meter?.placeName || placeId;
+            if (issues.length === 0) {
+                console.log(`✅ ${name}: ${expected.covers} covers, ${expected.feeCents}¢, invoiced ${stripeCents}¢`);
+                continue;
+            }
+
+            mismatches++;
+            console.log(`❌ ${name} (${placeId}):`);
+            issues.forEach(issue => console.log(`   - ${issue}`));
+
+            if (fix) {
+                await db.collection(COVER_USAGE_COLLECTION).doc(`${placeId}_${period}`).set({
+                    ownerId,
+                    placeId,
+                    placeName: name,
+                    period,
+                    ...expected,
+                    invoicedCents: stripeCents,
+                    pendingInvoice: admin.firestore.FieldValue.delete(),
+                    updatedAt: new Date().toISOString(),
+                }, { merge: true });
+                console.log('   🔧 Meter rewritten');
+            }
+        }
+
+        console.log('');
+        console.log(`${placeIds.size} restaurant(s), ${mismatches} mismatch(es)`);
+        if (fix && mismatches > 0) {
+            console.log(`Run /api/cron/invoice-covers?period=${period} to invoice what is still missing.`);
+        }
+        process.exit(mismatches > 0 && !fix ? 2 : 0);
+    } catch (error) {
+        console.error('❌ Reconciliation failed:', error);
+        process.exit(1);
+    }
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const period = args.find(arg => !arg.startsWith('--'));
+
+if (!period) {
+    console.log('Usage: npx ts-node scripts/reconcile-cover-fees.ts <YYYY-MM> [--fix]');
+    console.log('');
+    console.log('Arguments:');
+    console.log('  YYYY-MM  - Month of the service dates to reconcile');
+    console.log('  --fix    - Rewrite the meter from the recount and Stripe');
+    console.log('');
+    console.log('Examples:');
+    console.log('  npx ts-node scripts/reconcile-cover-fees.ts 2026-09');
+    console.log('  npx ts-node scripts/reconcile-cover-fees.ts 2026-09 --fix');
+    process.exit(1);
+}
+
+if (!/^\d{4}-\d{2}$/.test(period)) {
+    console.error('❌ Invalid period. Must be YYYY-MM');
+    process.exit(1);
+}
+
+reconcile(period, args.includes('--fix'));
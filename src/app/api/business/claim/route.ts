@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
 import Stripe from "stripe";
+import { LocationError, assertCanClaimLocation } from "@/lib/locations";
 
 export async function POST(req: Request) {
     try {
@@ -102,6 +103,16 @@ export async function POST(req: Request) {
             }
         }
 
+        // 3.5 One restaurant per owner unless the plan has multiLocation (locations.ts)
+        try {
+            await assertCanClaimLocation(uid, placeId, userData);
+        } catch (error) {
+            if (error instanceof LocationError) {
+                return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+            }
+            throw error;
+        }
+
         // 4. Claim & Save Details
         const claimData = {
             isClaimed: true,
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { CopyLocationSchema, LocationError, copyLocationSettings } from "@/lib/locations";
+
+/**
+ * POST /api/business/locations/copy
+ * Enterprise owners copy menus / hours / pricing from one location to others
+ * (locations.ts).
+ *
+ * Body: { sourcePlaceId, targetPlaceIds: string[], sections: ("menus" | "hours" | "pricing")[] }
+ */
+export async function POST(request: NextRequest) {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let uid: string;
+    try {
+        uid = (await getAdminAuth().verifyIdToken(authHeader.split("Bearer ")[1])).uid;
+    } catch {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validation = CopyLocationSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid copy request", details: validation.error.format() }, { status: 400 });
+    }
+
+    try {
+        const result = await copyLocationSettings(uid, validation.data);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        if (error instanceof LocationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Locations] Copy failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildFeed } from "@/lib/calendar-feeds";
+
+interface RouteContext {
+    params: Promise<{ token: string }>;
+}
+
+/**
+ * GET /api/calendar/<token>.ics - the owner's iCal subscription feed. The
+ * token is the only credential (calendar apps can't send auth headers).
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    const { token } = await params;
+
+    try {
+        const calendar = await buildFeed(token.replace(/\.ics$/, ""));
+        if (!calendar) return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+
+        return new NextResponse(calendar, {
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": 'inline; filename="reservations.ics"',
+                "Cache-Control": "private, max-age=300"
+            }
+        });
+    } catch (error) {
+        console.error("[Calendar] Feed failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
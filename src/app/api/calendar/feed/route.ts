@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { ReservationError } from "@/lib/reservations";
+import { getFeedToken, revokeFeed, rotateFeedToken } from "@/lib/calendar-feeds";
+
+async function authenticate(request: NextRequest) {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) return null;
+    try {
+        return await getAdminAuth().verifyIdToken(authHeader.split("Bearer ")[1]);
+    } catch {
+        return null;
+    }
+}
+
+function feedUrl(request: NextRequest, token: string): string {
+    return `${process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin}/api/calendar/${token}.ics`;
+}
+
+function errorResponse(error: unknown) {
+    if (error instanceof ReservationError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error("[Calendar] Feed management failed:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+}
+
+/**
+ * Owner iCal feed per restaurant (calendar-feeds.ts).
+ *
+ * GET    ?placeId= - current feed URL (null when there is none)
+ * POST   {placeId} - create the feed or rotate its secret URL
+ * DELETE ?placeId= - turn the feed off
+ */
+export async function GET(request: NextRequest) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const placeId = request.nextUrl.searchParams.get("placeId");
+    if (!placeId) return NextResponse.json({ error: "placeId is required" }, { status: 400 });
+
+    try {
+        const token = await getFeedToken(decoded.uid, placeId);
+        return NextResponse.json({ url: token ? feedUrl(request, token) : null });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.placeId !== "string" || !body.placeId) {
+        return NextResponse.json({ error: "placeId is required" }, { status: 400 });
+    }
+
+    try {
+        const token = await rotateFeedToken(decoded.uid, body.placeId);
+        console.log(`[Calendar] 🔑 New feed URL for ${body.placeId}`);
+        return NextResponse.json({ url: feedUrl(request, token) });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const placeId = request.nextUrl.searchParams.get("placeId");
+    if (!placeId) return NextResponse.json({ error: "placeId is required" }, { status: 400 });
+
+    try {
+        await revokeFeed(decoded.uid, placeId);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { invoiceCoverUsage } from "@/lib/cover-billing";
+
+/**
+ * Per-Cover Fee Invoicing Cron Job
+ *
+ * Frequency: Daily (first days of the month close the previous one)
+ * Action: Adds each restaurant's uninvoiced per-cover fees for a month to the
+ * owner's next Stripe invoice. Defaults to last month; `?period=YYYY-MM`
+ * re-runs another one. Idempotent.
+ */
+
+export async function GET(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret && request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const now = new Date();
+    const lastMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+    const period = new URL(request.url).searchParams.get("period") || lastMonth.toISOString().slice(0, 7);
+    if (!/^\d{4}-\d{2}$/.test(period)) {
+        return NextResponse.json({ error: "period must be YYYY-MM" }, { status: 400 });
+    }
+
+    try {
+        const summary = await invoiceCoverUsage(period);
+        console.log(`[CoverBilling] ${period}: ${summary.invoiced} invoiced, ${summary.upToDate} up to date, ${summary.unbillable.length} unbillable`);
+        return NextResponse.json({ status: "success", ...summary });
+    } catch (error) {
+        console.error(`[CoverBilling] Invoicing ${period} failed:`, error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sweepWaitlist } from "@/lib/waitlist";
+
+/**
+ * Waitlist Cron Job
+ *
+ * Frequency: Every 5 minutes (offers are held for WAITLIST_HOLD_MINUTES)
+ * Action: Expires unanswered offers, closes entries for past dates and
+ * offers freed tables to the next waiting parties.
+ */
+
+export async function GET(request: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret && request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const summary = await sweepWaitlist();
+        console.log(`[Waitlist] Sweep: ${summary.expired} offers expired, ${summary.closed} entries closed, ${summary.offers} new offers`);
+        return NextResponse.json({ status: "success", ...summary });
+    } catch (error) {
+        console.error("[Waitlist] Sweep failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
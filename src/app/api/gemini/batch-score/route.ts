@@ -7,16 +7,13 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { getAdminDb, getAdminAuth } from "@/lib/firebase-admin";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import { checkUserLimit } from "@/lib/user-limits";
 import crypto from "crypto";
 import { GeminiScore } from "@/types";
 import { logGeminiUsage, calculateCost } from "@/lib/gemini"; // ✅ Updated import
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
-const model = genAI.getGenerativeModel({ model: "gemini-3-flash-preview" });
+import { getLlmClient, stripJsonFences } from "@/lib/llm-client";
 
 // Cache duration: 7 days
 const CACHE_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
@@ -182,6 +179,7 @@ Output Schema:
         // Timeout Handling using Promise.race (since signal might not be supported)
         const GEMINI_TIMEOUT_MS = 60000;
 
+        const client = getLlmClient('batch-lite');
         let timeoutId: NodeJS.Timeout | null = null;
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const timeoutPromise = new Promise<never>((_, reject) => {
@@ -189,38 +187,34 @@ Output Schema:
         });
 
         try {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const racePromise = Promise.race([
-                model.generateContent({
-                    contents: [{ role: "user", parts: [{ text: prompt }] }],
+            const result = await Promise.race([
+                client.generate({
+                    operation: 'batch-lite',
+                    prompt,
+                    input: { places: uncachedPlaces, profile: userProfile }
                 }),
                 timeoutPromise
             ]);
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const result = await racePromise as any;
             if (timeoutId) clearTimeout(timeoutId); // ✅ Clear timeout on success
 
-            const response = await result.response;
-            const text = response.text();
+            const text = result.text;
 
             // ✅ Track Usage
-            const metadata = await response.usageMetadata;
-            if (metadata) {
-                await logGeminiUsage({
-                    operation: 'batch-lite',
-                    tokensUsed: metadata.totalTokenCount || 0,
-                    candidateCount: uncachedPlaces.length,
-                    userId: userId || 'anonymous',
-                    success: true,
-                    latencyMs: Date.now() - startTime,
-                    cost: calculateCost(metadata.totalTokenCount || 0),
-                    timestamp: new Date()
-                });
-            }
+            await logGeminiUsage({
+                operation: 'batch-lite',
+                tokensUsed: result.tokensUsed,
+                candidateCount: uncachedPlaces.length,
+                userId: userId || 'anonymous',
+                success: true,
+                latencyMs: Date.now() - startTime,
+                cost: calculateCost(result.tokensUsed, result.provider),
+                timestamp: new Date(),
+                provider: result.provider,
+                model: result.model
+            });
 
             // Parse response
-            const jsonStr = text.replace(/```json\n?|\n?```/g, "").trim();
+            const jsonStr = stripJsonFences(text);
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             let scores: any[];
 
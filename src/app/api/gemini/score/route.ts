@@ -1,12 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { getAdminDb, getAdminAuth } from "@/lib/firebase-admin";
 import { checkUserLimit } from "@/lib/user-limits";
+import { getLlmClient, stripJsonFences } from "@/lib/llm-client";
 import crypto from "crypto";
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
-const model = genAI.getGenerativeModel({ model: "gemini-3-flash-preview" });
-
 // Cache validity duration: 30 days
 const CACHE_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
 
@@ -124,13 +121,14 @@ export async function POST(request: NextRequest) {
       }
     `;
 
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const text = response.text();
+        const result = await getLlmClient('place-score').generate({
+            operation: 'place-score',
+            prompt,
+            input: { name, profile: dietary, reviewText }
+        });
 
         // Clean up markdown code blocks if present
-        const jsonStr = text.replace(/```json\n?|\n?```/g, "").trim();
-        const json = JSON.parse(jsonStr);
+        const json = JSON.parse(stripJsonFences(result.text));
 
         // Ensure matchScore is in valid range
         if (typeof json.matchScore === 'number') {
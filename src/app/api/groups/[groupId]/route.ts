@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
+import {
+    GROUPS_COLLECTION,
+    MAX_GROUP_SIZE,
+    DiningGroupError,
+    GuestSchema,
+    findInvite,
+    getGroupForUser,
+    inviteEmailOf,
+    newGuestId,
+    newInvite,
+    withMemberIndexes
+} from "@/lib/dining-groups";
+import type { DiningGroup, GroupMember } from "@/types";
+
+interface RouteContext {
+    params: Promise<{ groupId: string }>;
+}
+
+const UpdateGroupSchema = z.object({
+    name: z.string().trim().min(1).max(60).optional(),
+    addGuests: z.array(GuestSchema).default([]),
+    inviteEmails: z.array(z.string().trim().toLowerCase().email()).default([]),
+    removeMemberIds: z.array(z.string().max(64)).default([])
+});
+
+const MembershipActionSchema = z.object({
+    action: z.enum(["accept", "decline", "leave"])
+});
+
+async function authenticate(request: NextRequest) {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) return null;
+    try {
+        return await getAdminAuth().verifyIdToken(authHeader.split("Bearer ")[1]);
+    } catch {
+        return null;
+    }
+}
+
+function errorResponse(error: unknown, context: string) {
+    if (error instanceof DiningGroupError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error(`[Groups] ${context} failed:`, error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+}
+
+/**
+ * PATCH /api/groups/[groupId] - organizer renames, adds guests/invites, removes members.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { groupId } = await params;
+    const validation = UpdateGroupSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid update", details: validation.error.format() }, { status: 400 });
+    }
+    const { name, addGuests, inviteEmails, removeMemberIds } = validation.data;
+
+    try {
+        const group = await getGroupForUser(groupId, decoded.uid);
+        if (group.ownerId !== decoded.uid) {
+            throw new DiningGroupError(403, "NOT_ORGANIZER", "Only the organizer can edit this group");
+        }
+
+        const invitees = [...new Set(inviteEmails)]
+            .filter(email => email !== decoded.email?.toLowerCase())
+            .map(newInvite)
+            .filter(invitee => !group.members.some(m => m.id === invitee.id));
+
+        const members: GroupMember[] = [
+            ...group.members.filter(m => !removeMemberIds.includes(m.id)),
+            ...invitees,
+            ...addGuests.map(guest => ({
+                id: newGuestId(),
+                kind: "guest" as const,
+                status: "accepted" as const,
+                ...guest
+            }))
+        ];
+
+        if (1 + members.length > MAX_GROUP_SIZE) {
+            throw new DiningGroupError(400, "GROUP_TOO_LARGE", `A group can have at most ${MAX_GROUP_SIZE} diners`);
+        }
+
+        const update = { ...withMemberIndexes(members), ...(name ? { name } : {}) };
+        await getAdminDb().collection(GROUPS_COLLECTION).doc(groupId).update(update);
+
+        return NextResponse.json({ group: { ...group, ...update } });
+    } catch (error) {
+        return errorResponse(error, "Update");
+    }
+}
+
+/**
+ * POST /api/groups/[groupId] - invitee accepts/declines, member leaves.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { groupId } = await params;
+    const validation = MembershipActionSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+    const { action } = validation.data;
+
+    try {
+        const db = getAdminDb();
+        const ref = db.collection(GROUPS_COLLECTION).doc(groupId);
+
+        await db.runTransaction(async (transaction) => {
+            const snap = await transaction.get(ref);
+            if (!snap.exists) throw new DiningGroupError(404, "GROUP_NOT_FOUND", "Dining group not found");
+
+            const group = { ...snap.data(), id: snap.id } as DiningGroup;
+            const member = action === "leave"
+                ? group.members.find(m => m.kind === "user" && m.id === decoded.uid && m.status === "accepted")
+                : findInvite(group, decoded.uid, inviteEmailOf(decoded));
+            if (!member) {
+                throw new DiningGroupError(409, "INVALID_MEMBERSHIP", action === "leave" ? "You are not a member of this group" : "No pending invite for this group");
+            }
+
+            // An email invite becomes the user's membership; the address is dropped
+            const accepted: GroupMember = {
+                id: decoded.uid,
+                kind: "user",
+                displayName: decoded.name || member.displayName,
+                status: "accepted",
+                dietary: [],
+                allergies: []
+            };
+            const members = action === "accept"
+                ? group.members
+                    .filter(m => m.id !== decoded.uid || m === member)
+                    .map(m => m === member ? accepted : m)
+                : group.members.filter(m => m !== member);
+
+            transaction.update(ref, withMemberIndexes(members));
+        });
+
+        console.log(`[Groups] ${decoded.uid} ${action} ${groupId}`);
+        return NextResponse.json({ success: true, action });
+    } catch (error) {
+        return errorResponse(error, "Membership");
+    }
+}
+
+/**
+ * DELETE /api/groups/[groupId] - organizer only.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { groupId } = await params;
+
+    try {
+        const group = await getGroupForUser(groupId, decoded.uid);
+        if (group.ownerId !== decoded.uid) {
+            throw new DiningGroupError(403, "NOT_ORGANIZER", "Only the organizer can delete this group");
+        }
+        await getAdminDb().collection(GROUPS_COLLECTION).doc(groupId).delete();
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return errorResponse(error, "Delete");
+    }
+}
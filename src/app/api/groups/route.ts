@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
+import {
+    GROUPS_COLLECTION,
+    MAX_GROUP_SIZE,
+    DiningGroupError,
+    GuestSchema,
+    inviteEmailOf,
+    newGuestId,
+    newInvite,
+    withMemberIndexes
+} from "@/lib/dining-groups";
+import type { DiningGroup, GroupMember } from "@/types";
+
+const CreateGroupSchema = z.object({
+    name: z.string().trim().min(1).max(60),
+    guests: z.array(GuestSchema).default([]),
+    inviteEmails: z.array(z.string().trim().toLowerCase().email()).default([])
+});
+
+async function authenticate(request: NextRequest) {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) return null;
+    try {
+        return await getAdminAuth().verifyIdToken(authHeader.split("Bearer ")[1]);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * GET /api/groups - groups the user organizes or joined, plus pending invites.
+ */
+export async function GET(request: NextRequest) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const collection = getAdminDb().collection(GROUPS_COLLECTION);
+        const email = inviteEmailOf(decoded);
+        const [owned, joined, invitedById, invitedByEmail] = await Promise.all([
+            collection.where("ownerId", "==", decoded.uid).get(),
+            collection.where("memberUserIds", "array-contains", decoded.uid).get(),
+            collection.where("invitedUserIds", "array-contains", decoded.uid).get(),
+            email ? collection.where("invitedEmails", "array-contains", email).get() : null
+        ]);
+
+        const toGroup = (doc: FirebaseFirestore.QueryDocumentSnapshot) => ({ ...doc.data(), id: doc.id }) as DiningGroup;
+        const invited = new Map([...invitedById.docs, ...(invitedByEmail?.docs || [])].map(doc => [doc.id, toGroup(doc)]));
+
+        return NextResponse.json({
+            groups: [...owned.docs, ...joined.docs].map(toGroup),
+            invites: [...invited.values()].map(g => ({ id: g.id, name: g.name, ownerName: g.ownerName }))
+        });
+    } catch (error) {
+        console.error("[Groups] List failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/groups - create a group with guests and/or email invites.
+ */
+export async function POST(request: NextRequest) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const validation = CreateGroupSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid group", details: validation.error.format() }, { status: 400 });
+    }
+
+    const { name, guests, inviteEmails } = validation.data;
+    const emails = [...new Set(inviteEmails)].filter(email => email !== decoded.email?.toLowerCase());
+    if (1 + guests.length + emails.length > MAX_GROUP_SIZE) {
+        return NextResponse.json({ error: `A group can have at most ${MAX_GROUP_SIZE} diners`, code: "GROUP_TOO_LARGE" }, { status: 400 });
+    }
+
+    try {
+        const invitees = emails.map(newInvite);
+        const ownerDoc = await getAdminDb().collection("users").doc(decoded.uid).get();
+        const now = new Date().toISOString();
+
+        const members: GroupMember[] = [
+            ...invitees,
+            ...guests.map(guest => ({
+                id: newGuestId(),
+                kind: "guest" as const,
+                status: "accepted" as const,
+                ...guest
+            }))
+        ];
+
+        const ref = getAdminDb().collection(GROUPS_COLLECTION).doc();
+        const group: DiningGroup = {
+            id: ref.id,
+            ownerId: decoded.uid,
+            ownerName: ownerDoc.data()?.displayName || decoded.name || "Organizer",
+            name,
+            ...withMemberIndexes(members),
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await ref.set(group);
+        console.log(`[Groups] ${decoded.uid} created ${ref.id}: ${guests.length} guests, ${invitees.length} invites`);
+        return NextResponse.json({ group });
+    } catch (error) {
+        if (error instanceof DiningGroupError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Groups] Create failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
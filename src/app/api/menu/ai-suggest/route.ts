@@ -1,9 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { getAdminDb } from "@/lib/firebase-admin";
-
-const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || "";
-const genAI = new GoogleGenerativeAI(apiKey);
+import { getLlmClient, stripJsonFences } from "@/lib/llm-client";
 
 export async function POST(request: NextRequest) {
     try {
@@ -87,29 +84,6 @@ export async function POST(request: NextRequest) {
         const topCuisines = getTopItems(cuisineCounts, 5);
         const topAllergens = getTopItems(allergenCounts, 3);
 
-        // Use Mock if no key
-        if (!apiKey) {
-            console.warn("No Gemini API Key found. Using mock suggestions.");
-            return NextResponse.json({
-                suggestions: [
-                    "Add more vegetarian options to appeal to health-conscious diners",
-                    "Consider gluten-free alternatives for pasta dishes",
-                    "Expand vegan dessert selection"
-                ],
-                customerCount: userIds.size,
-                insights: {
-                    topDietary,
-                    topCuisines,
-                    topAllergens
-                }
-            });
-        }
-
-        const model = genAI.getGenerativeModel({
-            model: "gemini-3-flash-preview",
-            generationConfig: { responseMimeType: "application/json" }
-        });
-
         const prompt = `You are an expert restaurant menu consultant analyzing customer preference data.
 
 Restaurant Profile:
@@ -137,9 +111,14 @@ Format your response as JSON:
 }
 `;
 
-        const result = await model.generateContent(prompt);
-        const text = result.response.text();
-        const data = JSON.parse(text);
+        // Falls back to the rule-based mock client when no LLM is configured (CI/Dev)
+        const result = await getLlmClient('menu-suggest').generate({
+            operation: 'menu-suggest',
+            prompt,
+            json: true,
+            input: { cuisineType, topDietary, topCuisines, topAllergens }
+        });
+        const data = JSON.parse(stripJsonFences(result.text));
 
         return NextResponse.json({
             suggestions: data.suggestions,
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
+import { extractJsonLd, findMenuLinks, parseMenuJsonLd } from "@/lib/menu-import";
+import { fetchPublicText, parsePublicUrl } from "@/lib/public-fetch";
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+const MAX_MENU_PAGES = 3;
+
+async function authenticate(request: NextRequest) {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) return null;
+    try {
+        return await getAdminAuth().verifyIdToken(authHeader.split("Bearer ")[1]);
+    } catch {
+        return null;
+    }
+}
+
+// The site is owner-entered - public-fetch.ts keeps the server off internal hosts
+function fetchPage(url: URL): Promise<string | null> {
+    return fetchPublicText(url, {
+        headers: { "User-Agent": "NearSpotty-MenuImport/1.0", Accept: "text/html,application/ld+json" },
+        timeoutMs: FETCH_TIMEOUT_MS,
+        maxBytes: MAX_PAGE_BYTES
+    });
+}
+
+/**
+ * POST /api/menu/import - reads schema.org Menu JSON-LD from the restaurant's
+ * own website (plus `hasMenu` pages it links to) for the import preview.
+ * Nothing is saved; the owner merges from MenuImportDialog.
+ */
+export async function POST(request: NextRequest) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.placeId !== "string" || !body.placeId) {
+        return NextResponse.json({ error: "placeId is required" }, { status: 400 });
+    }
+
+    try {
+        const restaurant = (await getAdminDb().collection("restaurants").doc(body.placeId).get()).data();
+        if (!restaurant || restaurant.ownerId !== decoded.uid) {
+            return NextResponse.json({ error: "Only the owner can import a menu", code: "FORBIDDEN" }, { status: 403 });
+        }
+
+        const website = parsePublicUrl(restaurant.website || restaurant.details?.website || "");
+        if (!website) {
+            return NextResponse.json({ error: "Add your website in Settings first", code: "NO_WEBSITE" }, { status: 400 });
+        }
+
+        const html = await fetchPage(website);
+        if (!html) {
+            return NextResponse.json({ error: "Your website couldn't be loaded", code: "WEBSITE_UNREACHABLE" }, { status: 502 });
+        }
+
+        const documents = extractJsonLd(html);
+        const menuPages = findMenuLinks(documents)
+            .map(link => parsePublicUrl(new URL(link, website).toString()))
+            .filter((url): url is URL => !!url && url.toString() !== website.toString())
+            .slice(0, MAX_MENU_PAGES);
+        for (const page of menuPages) {
+            const pageHtml = await fetchPage(page).catch(() => null);
+            if (pageHtml) documents.push(...extractJsonLd(pageHtml));
+        }
+
+        const result = parseMenuJsonLd(documents);
+        console.log(`[MenuImport] 🌐 ${body.placeId}: ${result.items.length} items from ${website.hostname} (${menuPages.length} menu pages)`);
+
+        if (result.items.length === 0) {
+            return NextResponse.json({
+                error: "No schema.org menu found on your website - try a spreadsheet or paste the menu text",
+                code: "NO_MENU_MARKUP"
+            }, { status: 404 });
+        }
+        return NextResponse.json({ ...result, source: website.toString() });
+    } catch (error) {
+        console.error("[MenuImport] Website import failed:", error);
+        return NextResponse.json({ error: "Your website couldn't be loaded", code: "WEBSITE_UNREACHABLE" }, { status: 502 });
+    }
+}
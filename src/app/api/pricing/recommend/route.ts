@@ -1,30 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || "";
-const genAI = new GoogleGenerativeAI(apiKey);
+import { getLlmClient, stripJsonFences } from "@/lib/llm-client";
 
 export async function POST(request: NextRequest) {
     try {
         const { location, cuisineType, avgCheckSize, seats, priceLevel } = await request.json();
 
-        // Use Mock if no key (safe for CI/Dev without keys)
-        if (!apiKey) {
-            console.warn("No Gemini API Key found. Using mock data.");
-            return NextResponse.json({
-                recommendedDeposit: Math.round(avgCheckSize * 0.2), // 20% of check
-                reasoning: "Standard deposit ratio for this price point to ensure commitment.",
-                projectedNoShowRate: 4.5,
-                projectedBookingRate: 92.0,
-                marketContext: { similarCount: 15 }
-            });
-        }
-
-        const model = genAI.getGenerativeModel({
-            model: "gemini-3-flash-preview",
-            generationConfig: { responseMimeType: "application/json" }
-        });
-
         const priceLevelDesc = priceLevel === 4 ? "Very Expensive (€€€€)" :
             priceLevel === 3 ? "Expensive (€€€)" :
                 priceLevel === 2 ? "Moderate (€€)" : "Inexpensive (€)";
@@ -61,9 +41,14 @@ export async function POST(request: NextRequest) {
         }
         `;
 
-        const result = await model.generateContent(prompt);
-        const text = result.response.text();
-        const data = JSON.parse(text);
+        // Falls back to the rule-based mock client when no LLM is configured (CI/Dev)
+        const result = await getLlmClient('pricing').generate({
+            operation: 'pricing',
+            prompt,
+            json: true,
+            input: { location, cuisineType, avgCheckSize, seats, priceLevel }
+        });
+        const data = JSON.parse(stripJsonFences(result.text));
 
         return NextResponse.json(data);
 
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
+import { ReservationError, RESERVATIONS_COLLECTION, assignTables } from "@/lib/reservations";
+import { MAX_COMBINED_TABLES } from "@/lib/floor-plan";
+
+const AssignTableSchema = z.object({
+    reservationId: z.string().min(1),
+    // Omitted = let the server pick the best fit again
+    tableIds: z.array(z.string().min(1)).min(1).max(MAX_COMBINED_TABLES).optional()
+});
+
+/**
+ * POST /api/reservations/assign-table - owner override of a booking's table(s).
+ */
+export async function POST(request: NextRequest) {
+    const token = request.headers.get("Authorization")?.split("Bearer ")[1];
+    if (!token) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validation = AssignTableSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid table assignment", details: validation.error.format() }, { status: 400 });
+    }
+
+    try {
+        const { uid } = await getAdminAuth().verifyIdToken(token);
+        const { reservationId, tableIds } = validation.data;
+
+        const db = getAdminDb();
+        const reservation = (await db.collection(RESERVATIONS_COLLECTION).doc(reservationId).get()).data();
+        if (!reservation) {
+            return NextResponse.json({ error: "Reservation not found" }, { status: 404 });
+        }
+
+        const restaurant = (await db.collection("restaurants").doc(reservation.placeId).get()).data();
+        if (restaurant?.ownerId !== uid) {
+            return NextResponse.json({ error: "You are not the owner of this restaurant" }, { status: 403 });
+        }
+
+        const assigned = await assignTables(reservationId, tableIds);
+        return NextResponse.json({ success: true, tableIds: assigned });
+    } catch (error) {
+        if (error instanceof ReservationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Reservations] Table assignment failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
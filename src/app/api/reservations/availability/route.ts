@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { MAX_PARTY_SIZE, ReservationError, getAvailability } from "@/lib/reservations";
+
+const AvailabilityQuerySchema = z.object({
+    placeId: z.string().trim().min(1).max(300),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    guests: z.coerce.number().int().min(1).max(MAX_PARTY_SIZE),
+    exclude: z.string().min(1).optional()    // Booking being modified
+});
+
+/**
+ * GET /api/reservations/availability?placeId=&date=YYYY-MM-DD&guests=2[&exclude=reservationId]
+ * Slot grid for the booking modal. Public - shows no booking details.
+ */
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const validation = AvailabilityQuerySchema.safeParse({
+        placeId: params.get("placeId"),
+        date: params.get("date"),
+        guests: params.get("guests") || "2",
+        exclude: params.get("exclude") || undefined
+    });
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid availability request", details: validation.error.format() }, { status: 400 });
+    }
+
+    try {
+        const { placeId, date, guests, exclude } = validation.data;
+        return NextResponse.json(await getAvailability(placeId, date, guests, exclude));
+    } catch (error) {
+        if (error instanceof ReservationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Reservations] Availability failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { ModifyReservationSchema, ReservationError, modifyReservation } from "@/lib/reservations";
+
+/**
+ * POST /api/reservations/modify - guest moves their booking to another
+ * date, time or party size (within the restaurant's change window).
+ */
+export async function POST(request: NextRequest) {
+    const token = request.headers.get("Authorization")?.split("Bearer ")[1];
+    if (!token) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validation = ModifyReservationSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid change", details: validation.error.format() }, { status: 400 });
+    }
+
+    try {
+        const { uid } = await getAdminAuth().verifyIdToken(token);
+        const result = await modifyReservation(uid, validation.data);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        if (error instanceof ReservationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Reservations] Modify failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
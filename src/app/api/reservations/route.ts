@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { CreateReservationSchema, ReservationError, createReservation, transitionReservation } from "@/lib/reservations";
+import { createDepositCheckout } from "@/lib/deposits";
+
+async function authenticate(request: NextRequest) {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) return null;
+    try {
+        return await getAdminAuth().verifyIdToken(authHeader.split("Bearer ")[1]);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * POST /api/reservations - book a table. Availability is re-checked in the
+ * booking transaction, so two diners can't take the last table. Venues with a
+ * deposit also return `checkoutUrl` for the guest to pay it.
+ */
+export async function POST(request: NextRequest) {
+    const decoded = await authenticate(request);
+    if (!decoded) return NextResponse.json({ error: "Please log in to book a table" }, { status: 401 });
+
+    const validation = CreateReservationSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid reservation", details: validation.error.format() }, { status: 400 });
+    }
+
+    try {
+        const reservation = await createReservation({ uid: decoded.uid, email: decoded.email }, validation.data);
+        console.log(`[Reservations] ✅ ${decoded.uid} booked ${validation.data.placeId} ${validation.data.date} ${validation.data.time} (${validation.data.guests}p)`);
+
+        if (reservation.depositAmount > 0) {
+            try {
+                const checkoutUrl = await createDepositCheckout({
+                    reservationId: reservation.id,
+                    placeName: reservation.placeName,
+                    amount: reservation.depositAmount,
+                    customerEmail: decoded.email,
+                    origin: request.headers.get("origin") || process.env.NEXT_PUBLIC_APP_URL || ""
+                });
+                return NextResponse.json({ reservation, checkoutUrl });
+            } catch (depositError) {
+                console.error("[Reservations] Deposit checkout failed:", depositError);
+                // Don't leave a table held for a booking that can't be paid
+                await transitionReservation(reservation.id, null, "rejected", "Deposit checkout could not be started").catch(() => null);
+                return NextResponse.json({ error: "We couldn't start the deposit payment - please try again", code: "DEPOSIT_CHECKOUT_FAILED" }, { status: 502 });
+            }
+        }
+
+        return NextResponse.json({ reservation });
+    } catch (error) {
+        if (error instanceof ReservationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Reservations] Create failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
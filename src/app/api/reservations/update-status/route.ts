@@ -1,65 +1,64 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { ReservationError, UpdateReservationStatusSchema, assignTables, transitionReservation } from "@/lib/reservations";
+import { settleDeposit } from "@/lib/deposits";
+import { promoteWaitlist } from "@/lib/waitlist";
+import type { DepositStatus } from "@/types";
 
+/**
+ * POST /api/reservations/update-status - move a booking through its lifecycle.
+ * Owners confirm, seat, finish, reject or cancel; diners can cancel their own.
+ */
 export async function POST(request: NextRequest) {
-    try {
-        const { reservationId, status, rejectionReason } = await request.json();
-
-        if (!reservationId || !status) {
-            return NextResponse.json({ error: "Missing reservationId or status" }, { status: 400 });
-        }
-
-        if (!['confirmed', 'rejected', 'finished', 'cancelled'].includes(status)) {
-            return NextResponse.json({ error: "Invalid status" }, { status: 400 });
-        }
+    const token = request.headers.get("Authorization")?.split("Bearer ")[1];
+    if (!token) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
-        // 1. Authenticate user
-        const token = request.headers.get("Authorization")?.split("Bearer ")[1];
-        if (!token) {
-            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-        }
+    const validation = UpdateReservationStatusSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid status update", details: validation.error.format() }, { status: 400 });
+    }
 
-        const decodedToken = await getAdminAuth().verifyIdToken(token);
-        const uid = decodedToken.uid;
+    try {
+        const { uid } = await getAdminAuth().verifyIdToken(token);
+        const { reservationId, status, reason } = validation.data;
 
-        // 2. Fetch Reservation to verify ownership
-        const db = getAdminDb();
-        const resRef = db.collection("reservations").doc(reservationId);
-        const resSnap = await resRef.get();
+        const result = await transitionReservation(reservationId, uid, status, reason);
 
-        if (!resSnap.exists) {
-            return NextResponse.json({ error: "Reservation not found" }, { status: 404 });
+        // Seat confirmed bookings at the best-fitting table(s) - best effort
+        let tableIds: string[] | null = null;
+        if (status === "confirmed" && !result.hasTables) {
+            try {
+                tableIds = await assignTables(reservationId);
+            } catch (assignError) {
+                console.warn("[Reservations] Auto table assignment failed:", assignError);
+            }
         }
 
-        const reservation = resSnap.data();
-
-        // 3. Verify Owner owns the restaurant
-        // Fetch restaurant to check ownerId
-        const restaurantRef = db.collection("restaurants").doc(reservation?.placeId);
-        const restaurantSnap = await restaurantRef.get();
-        const restaurant = restaurantSnap.data();
-
-        if (restaurant?.ownerId !== uid) {
-            // Also allow admin? For now only owner.
-            return NextResponse.json({ error: "You are not the owner of this restaurant" }, { status: 403 });
+        // Capture on no-show, void or refund otherwise - best effort, the webhook reconciles
+        let depositStatus: DepositStatus | null = null;
+        try {
+            depositStatus = await settleDeposit(reservationId, status);
+        } catch (depositError) {
+            console.error(`[Reservations] Deposit settlement failed for ${reservationId}:`, depositError);
         }
 
-        // 4. Update Status
-        const updateData: Record<string, unknown> = {
-            status,
-            updatedAt: new Date().toISOString()
-        };
-
-        if (status === 'rejected' && rejectionReason) {
-            updateData.rejectionReason = rejectionReason;
+        // Offer the freed table to the waitlist - best effort, the cron retries
+        if (["rejected", "cancelled_by_guest", "cancelled_by_venue"].includes(status) && result.dateKey) {
+            try {
+                await promoteWaitlist(result.placeId, result.dateKey);
+            } catch (waitlistError) {
+                console.error("[Reservations] Waitlist promotion failed:", waitlistError);
+            }
         }
 
-        await resRef.update(updateData);
-
-        return NextResponse.json({ success: true, status });
-
+        return NextResponse.json({ success: true, status, from: result.from, by: result.by, tableIds, depositStatus });
     } catch (error) {
-        console.error("Reservation Update Error:", error);
+        if (error instanceof ReservationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Reservations] Status update failed:", error);
         return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
     }
 }
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { ReservationError, WalkInSchema, createWalkIn } from "@/lib/reservations";
+
+/**
+ * POST /api/reservations/walk-in - owner seats a party without a booking.
+ */
+export async function POST(request: NextRequest) {
+    const token = request.headers.get("Authorization")?.split("Bearer ")[1];
+    if (!token) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validation = WalkInSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid walk-in", details: validation.error.format() }, { status: 400 });
+    }
+
+    try {
+        const { uid } = await getAdminAuth().verifyIdToken(token);
+        const walkIn = await createWalkIn(uid, validation.data);
+        return NextResponse.json({ success: true, ...walkIn });
+    } catch (error) {
+        if (error instanceof ReservationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Reservations] Walk-in failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
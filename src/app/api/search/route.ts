@@ -4,7 +4,42 @@ import { reserveUserCredit, refundUserCredit } from "@/lib/user-limits";
 import { scorePlacesWithDeepContext, scoutTopCandidates, PlaceWithContext, LightCandidate } from "@/lib/gemini";
 import { getCachedRestaurantsByLocation, getEnrichedRestaurants, resolveRestaurantImage, saveRestaurantToCache } from "@/lib/restaurant-cache";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit"; // ✅ Rate Limit Import
-import type { Restaurant, UserCredits } from "@/types";
+import { getPlacesProvider, type ProviderPlace } from "@/lib/places-provider";
+import { haversineDistance, type LatLng } from "@/lib/geo";
+import { parseSearchIntent, getIntentMatchTerm, isExcludedByIntent, type SearchIntent } from "@/lib/search-intent";
+import { evaluateOpenAt, getRestaurantOpeningHours } from "@/lib/opening-hours";
+import { servedMenus } from "@/lib/menu-schedule";
+import {
+    claimContinuation,
+    completeContinuation,
+    createSearchSession,
+    loadSearchSession,
+    planContinuation,
+    SearchSessionError,
+    type ScoredEntry
+} from "@/lib/search-session";
+import type { GeminiScore, MenuItem, OpenStatus, Restaurant, RestaurantMenu, UserCredits } from "@/types";
+import type { SearchStreamEvent } from "@/types/search-stream";
+import { ndjsonResponse } from "@/lib/ndjson";
+import {
+    decodePolyline,
+    encodePolyline,
+    measureDetour,
+    pathLength,
+    sampleCorridor,
+    simplifyPath,
+    DEFAULT_CORRIDOR_METERS,
+    MAX_CORRIDOR_METERS
+} from "@/lib/route-corridor";
+import {
+    getGroupForUser,
+    mergeGroupPreferences,
+    resolveGroupDiners,
+    DiningGroupError,
+    type GroupDiner
+} from "@/lib/dining-groups";
+import { findReplayableSearch, recordSearch, searchPreferencesKey, type SearchInputs } from "@/lib/search-history";
+import { applyMenuAllergenCheck, canonicalAllergies, checkMenuAllergens, toAllergenIds, type MenuAllergenCheck } from "@/lib/allergens";
 import { z } from "zod"; // ✅ NEW: Zod validation
 
 /**
@@ -15,144 +50,38 @@ import { z } from "zod"; // ✅ NEW: Zod validation
  * 2. scoutTopCandidates()  -> Gemini selects TOP 6 (dietary-aware)
  * 3. enrichWinners()       -> Fetch RICH details for 6 only (expensive)
  * 4. Transaction           -> Deduct credit, run deep scoring
- * 5. Return TOP 5 results + credit state
+ * 5. Return TOP 5 results + credit state + cursor
+ * 6. ?cursor=...            -> "Load more" from the stored pool (see search-session.ts)
+ *
+ * Route mode (?polyline= or ?originLat/originLng/destLat/destLng, + ?corridor=)
+ * runs Stage 1 per corridor sample and ranks by match score minus detour.
+ *
+ * Signed-in searches are kept in users/{uid}/searches; a scored search repeated
+ * within the replay window is answered from there for free (?fresh=1 re-runs).
+ *
+ * Group mode (?group=<id>, organizer only) merges every diner's constraints and
+ * scores each place per member (see dining-groups.ts). Charged to the organizer.
+ *
+ * Claimed restaurants with an allergen-labelled menu are checked dish by dish
+ * (allergens.ts): places with no safe dish are dropped before the scout and
+ * again before deep scoring, and the scores are corrected afterwards.
+ *
+ * ?stream=1 streams NDJSON events as each stage completes (candidates -> scout
+ * picks -> enriched -> scores -> done), see SearchStreamEvent.
  * 
  * COST SAVINGS: ~70% reduction (6 rich fetches vs 20)
+ *
+ * Place lookups go through getPlacesProvider() (Google / Overpass / fixture),
+ * so the whole funnel can run offline with PLACES_PROVIDER=fixture.
  */
 
-// Stage 1: Light fields for discovery (~$0.003/call)
-const LIGHT_FIELD_MASK = [
-    "places.id",
-    "places.displayName",
-    "places.types",
-    "places.rating",
-    "places.userRatingCount",
-    "places.location"
-].join(",");
-
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const RICH_FIELD_MASK = [
-    "places.id",
-    "places.displayName",
-    "places.formattedAddress",
-    "places.location",
-    "places.photos",
-    "places.rating",
-    "places.userRatingCount",
-    "places.priceLevel",
-    "places.types",
-    "places.editorialSummary",
-    "places.reviews",
-    "places.regularOpeningHours"
-].join(",");
-
 const BATCH_SIZE = 20;       // Discovery batch
 const SCOUT_TOP_N = 6;       // AI Scout picks top N for enrichment
 const TOP_RESULTS = 5;       // Final results to user
+const DETOUR_PENALTY_PER_KM = 5;  // Route mode: match points lost per km of detour
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const STALE_DAYS = 14;       // Enrichment threshold
 
-// =============================================================================
-// SEARCH INTENT PARSING (NLP Helper)
-// =============================================================================
-
-interface ParsedSearchIntent {
-    cleanKeyword: string;        // Keyword without radius info, for Google & Gemini
-    detectedRadius: number | null; // Radius in METERS (null = use default)
-    hasSuperlative: boolean;     // "best", "najlepšia", "amazing" etc.
-    rawQuery: string;            // Original user query for Gemini context
-}
-
-/**
- * Parses complex natural language search input.
- * Extracts radius with unit conversion and detects quality superlatives.
- * 
- * @example
- * parseSearchIntent("pizza 3 miles from me best one ever")
- * → { cleanKeyword: "pizza best one ever", detectedRadius: 4828.02, hasSuperlative: true, rawQuery: "..." }
- */
-function parseSearchIntent(rawQuery: string): ParsedSearchIntent {
-    let query = rawQuery.trim();
-    let detectedRadius: number | null = null;
-
-    // --- Regex patterns with unit conversion factors ---
-    const unitPatterns: { pattern: RegExp; factor: number }[] = [
-        // Meters: "500m", "500 m", "500 meters", "500 metrov"
-        {
-            pattern: /(\d+(?:[.,]\d+)?)\s*(m(?:eters?|etrov)?)\b/gi,
-            factor: 1
-        },
-        // Kilometers: "5km", "5 km", "5 kilometers", "5 kilometrov"
-        {
-            pattern: /(\d+(?:[.,]\d+)?)\s*(km|kilometers?|kilometrov?)\b/gi,
-            factor: 1000
-        },
-        // Miles: "3mi", "3 miles", "3 mile", "3 míle", "3 míľ"
-        {
-            pattern: /(\d+(?:[.,]\d+)?)\s*(mi(?:les?)?|míle?|míľ)\b/gi,
-            factor: 1609.34
-        }
-    ];
-
-    // --- Extract and convert radius ---
-    for (const { pattern, factor } of unitPatterns) {
-        const match = pattern.exec(query);
-        if (match) {
-            // Normalize decimal separator: "1,5" → "1.5"
-            const numStr = match[1].replace(",", ".");
-            const value = parseFloat(numStr);
-
-            if (!isNaN(value) && value > 0) {
-                detectedRadius = Math.round(value * factor); // Convert to meters
-                // Remove the radius substring from the query
-                query = query.replace(match[0], " ").trim();
-                console.log(`[SearchIntent] Detected radius: ${value} × ${factor} = ${detectedRadius}m`);
-                break; // Only process first match
-            }
-        }
-    }
-
-    // --- Detect superlatives (quality modifiers) ---
-    const superlativePatterns = [
-        // English
-        /\b(best|amazing|incredible|fantastic|top.?tier|premium|excellent|perfect|outstanding)\b/gi,
-        // Slovak
-        /\b(najlepš[íia]|úžasn[áéýy]|skvel[áéýy]|perfektn[áéýy]|výborn[áéýy]|super|top)\b/gi
-    ];
-
-    const hasSuperlative = superlativePatterns.some(p => p.test(query));
-
-    // --- Clean up the keyword ---
-    // Remove common filler phrases (English & Slovak)
-    const fillerPatterns = [
-        /\b(i want|i need|give me|show me|find me|looking for)\b/gi,
-        /\b(chcem|potrebujem|daj mi|ukáž mi|nájdi mi|hľadám)\b/gi,
-        /\b(from me|near me|close to me|nearby)\b/gi,
-        /\b(odo mňa|blízko mňa|v okolí|v blízkosti)\b/gi,
-        /\b(make it|make them)\b/gi,
-        /\b(nech je to|urob to)\b/gi,
-        /\b(one ever|in my life|of all time)\b/gi,
-        /\b(v živote|aké som mal|zo všetkých)\b/gi
-    ];
-
-    let cleanKeyword = query;
-    for (const filler of fillerPatterns) {
-        cleanKeyword = cleanKeyword.replace(filler, " ");
-    }
-
-    // Normalize whitespace
-    cleanKeyword = cleanKeyword.replace(/\s+/g, " ").trim();
-
-    console.log(`[SearchIntent] Raw: "${rawQuery}" → Clean: "${cleanKeyword}", Radius: ${detectedRadius}m, Superlative: ${hasSuperlative}`);
-
-    return {
-        cleanKeyword,
-        detectedRadius,
-        hasSuperlative,
-        rawQuery
-    };
-}
-
 // =============================================================================
 // STEP 1: LIGHT CANDIDATE DISCOVERY (Cheap Fields Only)
 // =============================================================================
@@ -173,16 +102,20 @@ import { getNearbyGridKeys, PlacesCacheEntry } from "@/types/cached-places";
  * 
  * Filters:
  * - Permanently/temporarily closed businesses
- * - Price level outside user budget
+ * - Price level outside user budget (query price beats profile budget)
  * - Non-restaurant types (gas stations, lodging, etc.)
+ * - Terms excluded in the query ("no sushi")
+ * - Places known to be closed at the requested time ("open now", "sunday 22:00")
  * 
  * @param candidates - Raw light candidates from discovery
  * @param userBudget - User budget preference ('low' | 'medium' | 'high' | 'any')
+ * @param intent - Parsed search intent
  * @returns Filtered candidates suitable for enrichment
  */
 function filterLightCandidates(
     candidates: LightCandidate[],
-    userBudget: string
+    userBudget: string,
+    intent: SearchIntent
 ): { filtered: LightCandidate[]; removed: number } {
     const startCount = candidates.length;
 
@@ -194,7 +127,8 @@ function filterLightCandidates(
         'any': [1, 2, 3, 4]   // All ranges
     };
 
-    const allowedPriceLevels = budgetRanges[userBudget] || budgetRanges['any'];
+    const allowedPriceLevels = intent.price?.priceLevels || budgetRanges[userBudget] || budgetRanges['any'];
+    const checkPrice = intent.price !== null || userBudget !== 'any';
 
     // Non-restaurant types to exclude
     const excludedTypes = new Set([
@@ -217,9 +151,9 @@ function filterLightCandidates(
         }
 
         // Filter 2: Price level check (only if available from cache)
-        if (candidate.priceLevel !== undefined && userBudget !== 'any') {
+        if (candidate.priceLevel !== undefined && checkPrice) {
             if (!allowedPriceLevels.includes(candidate.priceLevel)) {
-                console.log(`[PreFilter] ❌ Price mismatch: ${candidate.name} (Level ${candidate.priceLevel}, Budget: ${userBudget})`);
+                console.log(`[PreFilter] ❌ Price mismatch: ${candidate.name} (Level ${candidate.priceLevel}, Allowed: ${allowedPriceLevels.join(',')})`);
                 return false;
             }
         }
@@ -231,6 +165,24 @@ function filterLightCandidates(
             return false;
         }
 
+        // Filter 4: Excluded terms from the query ("no sushi", "bez pizze")
+        if (isExcludedByIntent(intent, candidate.name, candidate.types)) {
+            console.log(`[PreFilter] ❌ Excluded by query: ${candidate.name} (${intent.excludedTerms.join(', ')})`);
+            return false;
+        }
+
+        // Filter 5: Requested open-at time - only drop places we KNOW are closed
+        if (intent.openAt) {
+            const status = evaluateOpenAt(candidate.openingHours, intent.openAt);
+            const isClosed = status.known
+                ? !status.isOpen
+                : intent.openAt.now && candidate.currentOpeningHours?.openNow === false;
+            if (isClosed) {
+                console.log(`[PreFilter] ❌ Closed at requested time: ${candidate.name}`);
+                return false;
+            }
+        }
+
         return true;
     });
 
@@ -256,11 +208,10 @@ async function findLightCandidates(
     lat: number,
     lng: number,
     radius: number,
-    keyword: string
+    intent: SearchIntent
 ): Promise<LightDiscoveryResult> {
-    const GOOGLE_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY;
-    if (!GOOGLE_API_KEY) throw new Error("Missing NEXT_PUBLIC_GOOGLE_MAPS_KEY");
-
+    const keyword = intent.cleanKeyword;
+    const matchTerm = getIntentMatchTerm(intent);
     const candidates: LightCandidate[] = [];
     const isPioneer = false;
     let source: "firestore" | "google" | "hybrid" = "firestore";
@@ -283,11 +234,10 @@ async function findLightCandidates(
 
         if (distance <= radius) {
             // Keyword filter
-            if (keyword) {
+            if (matchTerm) {
                 const name = restaurant.details.name.toLowerCase();
                 const types = restaurant.details.types.join(" ").toLowerCase();
-                const k = keyword.toLowerCase();
-                if (!name.includes(k) && !types.includes(k)) continue;
+                if (!name.includes(matchTerm) && !types.includes(matchTerm)) continue;
             }
 
             candidates.push({
@@ -303,7 +253,8 @@ async function findLightCandidates(
                 currentOpeningHours: restaurant.details.openingHours ? {
                     openNow: restaurant.details.openingHours.openNow,
                     weekdayDescriptions: restaurant.details.openingHours.weekdayDescriptions
-                } : undefined
+                } : undefined,
+                openingHours: getRestaurantOpeningHours(restaurant)
             });
             existingIds.add(restaurant.placeId);
             geohashHits++;
@@ -348,11 +299,10 @@ async function findLightCandidates(
 
                 if (distance <= radius) {
                     // Keyword Filter
-                    if (keyword) {
+                    if (matchTerm) {
                         const name = place.basic_info.name.toLowerCase();
                         const types = place.basic_info.types.join(" ").toLowerCase();
-                        const k = keyword.toLowerCase();
-                        if (!name.includes(k) && !types.includes(k)) continue;
+                        if (!name.includes(matchTerm) && !types.includes(matchTerm)) continue;
                     }
 
                     candidates.push({
@@ -401,72 +351,54 @@ async function findLightCandidates(
     const remaining = BATCH_SIZE - candidates.length;
 
     if (remaining > 0) {
-        console.log(`[Light] Need ${remaining} more. Fetching from Google Places API (STRICT radius ${radius}m)...`);
+        const provider = getPlacesProvider();
+        console.log(`[Light] Need ${remaining} more. Fetching from ${provider.name} provider (STRICT radius ${radius}m)...`);
         source = candidates.length > 0 ? "hybrid" : "google";
 
-        let endpoint = "https://places.googleapis.com/v1/places:searchNearby";
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const requestBody: any = {
-            maxResultCount: Math.min(remaining, 20) // Adaptive fetch - only what we need!
-        };
-
-        // CRITICAL FIX: searchText uses locationBias (supports circle)
-        // searchNearby uses locationRestriction (also supports circle)
-        // Both have Haversine post-filter for STRICT enforcement
-
-        // Google API max radius is 50km - cap it for API call, but keep original for post-filter
-        const apiRadius = Math.min(radius, 50000);
+        // Google API max radius is 50km - providers cap it for the API call, but keep original for post-filter
         if (radius > 50000) {
-            console.log(`[Light] User requested ${radius}m, but Google API max is 50km. Using 50km for API, ${radius}m for post-filter.`);
+            console.log(`[Light] User requested ${radius}m, but API max is 50km. Using 50km for API, ${radius}m for post-filter.`);
         }
 
-        if (keyword) {
-            endpoint = "https://places.googleapis.com/v1/places:searchText";
-            requestBody.textQuery = keyword;
-            if (lat !== 0 && lng !== 0) {
-                // searchText: Use locationBias (locationRestriction only supports rectangle)
-                requestBody.locationBias = {
-                    circle: { center: { latitude: lat, longitude: lng }, radius: apiRadius }
-                };
-            }
-        } else {
-            requestBody.includedTypes = ["restaurant"];
-            // searchNearby: locationRestriction with circle is valid
-            requestBody.locationRestriction = {
-                circle: { center: { latitude: lat, longitude: lng }, radius: apiRadius }
-            };
-        }
-
-        const googleRes = await fetch(endpoint, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "X-Goog-Api-Key": GOOGLE_API_KEY,
-                "X-Goog-FieldMask": LIGHT_FIELD_MASK
-            },
-            body: JSON.stringify(requestBody)
-        });
+        // searchText uses locationBias (supports circle)
+        // searchNearby uses locationRestriction (also supports circle)
+        // Both have Haversine post-filter for STRICT enforcement
+        let googlePlaces: ProviderPlace[];
 
-        if (!googleRes.ok) {
-            const errorText = await googleRes.text();
-            console.error(`[Light] Google API error: ${googleRes.status}`, errorText);
-            // Return what we have from Firestore if Google fails
+        try {
+            googlePlaces = keyword
+                ? await provider.searchText({
+                    query: keyword,
+                    lat,
+                    lng,
+                    radius,
+                    maxResults: remaining, // Adaptive fetch - only what we need!
+                    includedType: intent.cuisineType || undefined,
+                    openNow: intent.openAt?.now || undefined,
+                    priceLevels: intent.price?.priceLevels
+                })
+                : await provider.searchNearby({
+                    lat,
+                    lng,
+                    radius,
+                    maxResults: remaining,
+                    includedTypes: ["restaurant"]
+                });
+        } catch (providerErr) {
+            console.error(`[Light] ${provider.name} provider error:`, providerErr);
+            // Return what we have from Firestore if the provider fails
             if (candidates.length > 0) {
                 return { candidates, isPioneer, source: "firestore" };
             }
-            throw new Error(`Google Places API error: ${googleRes.status}`);
+            throw providerErr;
         }
 
-        const googleData = await googleRes.json();
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const googlePlaces: any[] = googleData.places || [];
-
         // =====================================================================
         // AGGRESSIVE CACHING: Save ALL places BEFORE filtering by radius
         // This maximizes ROI on expensive Google API calls
         // =====================================================================
 
-        console.log(`[Light] Received ${googlePlaces.length} places from Google, caching ALL...`);
+        console.log(`[Light] Received ${googlePlaces.length} places from ${provider.name}, caching ALL...`);
 
         // Cache ALL Google results to restaurants/ for future searches
         const cachePromises = googlePlaces.map(async (place) => {
@@ -552,50 +484,79 @@ async function findLightCandidates(
 }
 
 /**
- * Survival Search: Finds the single nearest place ignoring restrictive radius.
- * Used when standard search returns 0 results to offer a "Decision Point".
+ * Route mode Stage 1: light discovery per corridor sample. Every sample goes
+ * through findLightCandidates, so geohash + grid caches are used per segment
+ * and the provider is only hit for gaps. Keeps places within the corridor,
+ * closest to the route first.
  */
-async function findSurvivalCandidate(lat: number, lng: number): Promise<LightCandidate | null> {
-    const GOOGLE_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY;
-    if (!GOOGLE_API_KEY) return null;
+async function findRouteCandidates(
+    path: LatLng[],
+    corridor: number,
+    intent: SearchIntent
+): Promise<LightDiscoveryResult> {
+    const samples = sampleCorridor(path, corridor);
+    console.log(`[Route] ${samples.centers.length} corridor samples of ${samples.radius}m, width ${corridor}m, route ${Math.round(pathLength(path))}m`);
 
-    console.log(`[Survival] Searching for nearest place (any radius)...`);
+    const results = await Promise.all(samples.centers.map(async (sample) => {
+        try {
+            return await findLightCandidates(sample.lat, sample.lng, samples.radius, intent);
+        } catch (err) {
+            console.warn(`[Route] Sample (${sample.lat.toFixed(4)}, ${sample.lng.toFixed(4)}) failed:`, err);
+            return null;
+        }
+    }));
 
-    const endpoint = "https://places.googleapis.com/v1/places:searchNearby";
-    const requestBody = {
-        maxResultCount: 1,
-        includedTypes: ["restaurant"],
-        rankPreference: "DISTANCE",
-        locationRestriction: {
-            circle: {
-                center: { latitude: lat, longitude: lng },
-                radius: 50000 // 50km max for "survival"
-            }
+    const merged = new Map<string, LightCandidate>();
+    const sources = new Set<LightDiscoveryResult["source"]>();
+    for (const result of results) {
+        if (!result) continue;
+        sources.add(result.source);
+        for (const candidate of result.candidates) {
+            if (!merged.has(candidate.place_id)) merged.set(candidate.place_id, candidate);
         }
+    }
+
+    const candidates = [...merged.values()]
+        .map(candidate => {
+            const { detourMeters, progressMeters } = measureDetour(candidate.location, path);
+            // `distance` doubles as detour so existing distance sorts/labels stay meaningful
+            return { ...candidate, distance: detourMeters, detourMeters, routeProgressMeters: progressMeters };
+        })
+        .filter(candidate => candidate.detourMeters <= corridor * 2)
+        .sort((a, b) => a.detourMeters - b.detourMeters)
+        .slice(0, BATCH_SIZE);
+
+    console.log(`[Route] ${merged.size} unique places, ${candidates.length} within corridor`);
+
+    return {
+        candidates,
+        isPioneer: false,
+        source: sources.size === 1 ? [...sources][0] : (sources.size > 1 ? "hybrid" : "firestore")
     };
+}
+
+/**
+ * Survival Search: Finds the single nearest place ignoring restrictive radius.
+ * Used when standard search returns 0 results to offer a "Decision Point".
+ */
+async function findSurvivalCandidate(lat: number, lng: number): Promise<LightCandidate | null> {
+    console.log(`[Survival] Searching for nearest place (any radius)...`);
 
     try {
-        const res = await fetch(endpoint, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "X-Goog-Api-Key": GOOGLE_API_KEY,
-                "X-Goog-FieldMask": LIGHT_FIELD_MASK
-            },
-            body: JSON.stringify(requestBody)
+        const places = await getPlacesProvider().searchNearby({
+            lat,
+            lng,
+            radius: 50000, // 50km max for "survival"
+            maxResults: 1,
+            includedTypes: ["restaurant"],
+            rankBy: "distance"
         });
 
-        if (!res.ok) {
-            console.warn(`[Survival] API Error: ${res.status}`);
-            return null;
-        }
-
-        const data = await res.json();
-        const places = data.places || [];
-
         if (places.length > 0) {
             const p = places[0];
-            const dist = haversineDistance(lat, lng, p.location.latitude, p.location.longitude);
+            const placeLat = p.location?.latitude || 0;
+            const placeLng = p.location?.longitude || 0;
+            const dist = haversineDistance(lat, lng, placeLat, placeLng);
             console.log(`[Survival] Found: ${p.displayName?.text} at ${Math.round(dist)}m`);
 
             // Note: Place will be cached when getPlaceDetails is called during enrichment
@@ -606,7 +567,7 @@ async function findSurvivalCandidate(lat: number, lng: number): Promise<LightCan
                 types: p.types || [],
                 rating: p.rating,
                 userRatingCount: p.userRatingCount,
-                location: { lat: p.location.latitude, lng: p.location.longitude },
+                location: { lat: placeLat, lng: placeLng },
                 distance: dist
             };
         }
@@ -633,30 +594,88 @@ interface EnrichedPlace extends PlaceWithContext {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     reviews?: any[];
     websiteUri?: string;
+    opening_hours?: { open_now: boolean; weekday_text?: string[] };
+    openStatus?: OpenStatus;           // Status right now (place-card hints)
+    requestedOpenStatus?: OpenStatus;  // Status at the time asked for in the query
+    ai_score?: GeminiScore;
+    detourMeters?: number;             // Route mode only
+    routeProgressMeters?: number;
 }
 
 /**
  * Helper to map Restaurant -> EnrichedPlace for Gemini
  */
-function mapToEnrichedPlaces(restaurants: Restaurant[]): EnrichedPlace[] {
-    return restaurants.map(r => ({
-        place_id: r.placeId,
-        name: r.details.name,
-        location: r.details.geometry.location,
-        types: r.details.types,
-        rating: r.details.rating,
-        price_level: mapPriceLevelToNumber(r.details.priceLevel),
-        vicinity: r.details.address,
-        formatted_address: r.details.formattedAddress || r.details.address,
-        geometry: r.details.geometry,
-        user_ratings_total: r.details.userRatingCount,
-        imageSrc: resolveRestaurantImage(r),
-        editorialSummary: r.details.editorialSummary,
-        reviews: r.details.reviews || [],
-        websiteUri: r.details.website,
-        servesVegetarianFood: r.details.types.includes("vegetarian_restaurant") ||
-            r.details.types.includes("vegan_restaurant")
-    }));
+function mapToEnrichedPlaces(restaurants: Restaurant[], intent: SearchIntent): EnrichedPlace[] {
+    return restaurants.map(r => {
+        const hours = getRestaurantOpeningHours(r);
+        const openStatus = evaluateOpenAt(hours);
+
+        return {
+            place_id: r.placeId,
+            name: r.details.name,
+            location: r.details.geometry.location,
+            types: r.details.types,
+            rating: r.details.rating,
+            price_level: mapPriceLevelToNumber(r.details.priceLevel),
+            vicinity: r.details.address,
+            formatted_address: r.details.formattedAddress || r.details.address,
+            geometry: r.details.geometry,
+            user_ratings_total: r.details.userRatingCount,
+            imageSrc: resolveRestaurantImage(r),
+            editorialSummary: r.details.editorialSummary,
+            reviews: r.details.reviews || [],
+            websiteUri: r.details.website,
+            servesVegetarianFood: r.details.types.includes("vegetarian_restaurant") ||
+                r.details.types.includes("vegan_restaurant"),
+            opening_hours: r.details.openingHours || openStatus.known ? {
+                // Engine result beats Google's openNow snapshot from cache time
+                open_now: openStatus.known ? openStatus.isOpen : !!r.details.openingHours?.openNow,
+                weekday_text: r.details.openingHours?.weekdayDescriptions
+            } : undefined,
+            openStatus: openStatus.known ? openStatus : undefined,
+            requestedOpenStatus: intent.openAt && !intent.openAt.now ? evaluateOpenAt(hours, intent.openAt) : undefined
+        };
+    });
+}
+
+/**
+ * Route mode: attaches detour + progress along the route. No-op without a route.
+ */
+function withRouteDetours(places: EnrichedPlace[], routePath: LatLng[] | null): EnrichedPlace[] {
+    if (!routePath) return places;
+    return places.map(p => {
+        const { detourMeters, progressMeters } = measureDetour(p.geometry.location, routePath);
+        return { ...p, detourMeters, routeProgressMeters: progressMeters };
+    });
+}
+
+/**
+ * Route mode: ranks by match score minus DETOUR_PENALTY_PER_KM per km of detour,
+ * so a 90% match 6km off the road loses to an 80% match right on it.
+ */
+function rankByDetour(places: EnrichedPlace[]): EnrichedPlace[] {
+    if (!places.some(p => p.detourMeters !== undefined)) return places;
+
+    const routeScore = (p: EnrichedPlace) =>
+        (p.ai_score?.matchScore ?? 50) - DETOUR_PENALTY_PER_KM * (p.detourMeters || 0) / 1000;
+
+    return [...places].sort((a, b) => routeScore(b) - routeScore(a));
+}
+
+/**
+ * Down-ranks places known to be closed at the requested time (stable - AI order is kept
+ * within the open and closed groups). Enriched data has full periods, so this catches
+ * places the light pre-filter could not judge.
+ */
+function rankByOpenAt(places: EnrichedPlace[], intent: SearchIntent): EnrichedPlace[] {
+    if (!intent.openAt) return places;
+
+    const isClosed = (p: EnrichedPlace) => {
+        const status = intent.openAt!.now ? p.openStatus : p.requestedOpenStatus;
+        return !!status?.known && !status.isOpen;
+    };
+
+    return [...places.filter(p => !isClosed(p)), ...places.filter(isClosed)];
 }
 
 // Helper to handle price level mapping
@@ -673,6 +692,7 @@ function mapPriceLevelToNumber(priceLevel: any): number | undefined {
 
 interface SearchTransaction {
     results: EnrichedPlace[];
+    overflow: EnrichedPlace[];  // Scored beyond TOP_RESULTS - kept for "load more"
     credits: {
         remaining: number;
         limit: number;
@@ -683,10 +703,89 @@ interface SearchTransaction {
     pioneerBonus: boolean;
 }
 
+/**
+ * Deterministic allergen check for claimed places with a labelled menu: all
+ * published menus together (a diner may come at any day-part), or the item
+ * list (`restaurants/{placeId}/menu`, legacy `menu.items`) before menus exist.
+ * No entry = nothing to go on. Read errors degrade to AI-only checks.
+ */
+async function loadMenuAllergenChecks(placeIds: string[], allergies: string[]): Promise<Map<string, MenuAllergenCheck>> {
+    const checks = new Map<string, MenuAllergenCheck>();
+    if (placeIds.length === 0 || toAllergenIds(allergies).length === 0) return checks;
+
+    try {
+        const db = getAdminDb();
+        const snaps = await db.getAll(...placeIds.map(id => db.collection("restaurants").doc(id)));
+        await Promise.all(snaps.filter(snap => snap.data()?.isClaimed).map(async snap => {
+            const [menuSnap, menusSnap] = await Promise.all([snap.ref.collection("menu").get(), snap.ref.collection("menus").get()]);
+            const draftItems: MenuItem[] = menuSnap.empty
+                ? snap.data()?.menu?.items || []
+                : menuSnap.docs.map(d => ({ id: d.id, ...d.data() } as MenuItem));
+            const menus = menusSnap.docs.map(d => ({ id: d.id, ...d.data() } as RestaurantMenu));
+            const items = servedMenus(menus, draftItems).flatMap(menu => menu.items);
+            const check = checkMenuAllergens(items, allergies);
+            if (check.verdict !== "unknown") checks.set(snap.id, check);
+        }));
+    } catch (err) {
+        console.warn("[MenuAllergens] Failed to load menus:", err);
+    }
+
+    const unsafe = [...checks.values()].filter(c => c.verdict === "unsafe").length;
+    if (checks.size > 0) console.log(`[MenuAllergens] ${checks.size} labelled menus, ${unsafe} without a safe dish`);
+    return checks;
+}
+
+/**
+ * Scores enriched places with the RAW query for context, drops unsafe ones and
+ * sorts by match (closed-at-requested-time last). Throws if the LLM call fails.
+ */
+async function scoreEnrichedPlaces(
+    candidates: EnrichedPlace[],
+    userPreferences: UserPreferences,
+    keyword: string,
+    searchIntent: SearchIntent,
+    groupDiners: GroupDiner[] = []
+): Promise<EnrichedPlace[]> {
+    // If user used superlatives, Gemini will prioritize high-quality results
+    const hasSuperlative = searchIntent.hasSuperlative;
+    const queryForGemini = searchIntent.rawQuery || keyword;
+    console.log(`[Search] Gemini context: "${queryForGemini}", Superlative mode: ${hasSuperlative}`);
+
+    // Labelled menus: no safe dish = not worth scoring; the rest go to Gemini with their safe dishes
+    const menuChecks = await loadMenuAllergenChecks(candidates.map(p => p.place_id), userPreferences.allergies);
+    candidates = candidates
+        .map(p => ({ ...p, menuAllergens: menuChecks.get(p.place_id) }))
+        .filter(p => p.menuAllergens?.verdict !== "unsafe");
+
+    const scoresMap = await scorePlacesWithDeepContext(
+        candidates,
+        {
+            ...userPreferences,
+            hasSuperlative,  // Pass to Gemini for quality-first ranking
+            rawQuery: queryForGemini,
+            intent: searchIntent,
+            group: groupDiners.length > 0 ? groupDiners : undefined  // Per-member fits + group score
+        },
+        queryForGemini
+    );
+
+    let scored = candidates;
+    if (scoresMap.size > 0) {
+        scored = candidates
+            .map((p) => {
+                const score = scoresMap.get(p.place_id);
+                return { ...p, ai_score: score && applyMenuAllergenCheck(score, p.menuAllergens) };
+            })
+            .filter((p) => p.ai_score && !p.ai_score.safetyFlag) // Remove unsafe
+            .sort((a, b) => (b.ai_score?.matchScore || 0) - (a.ai_score?.matchScore || 0));
+    }
+
+    return rankByOpenAt(rankByDetour(scored), searchIntent);
+}
+
 /**
  * Execute search transaction: deduct credit, score with Gemini, return TOP 5.
- * @param rawQuery - Original user query for AI context
- * @param hasSuperlative - Whether user requested "best", "amazing" etc.
+ * @param searchIntent - Parsed query (raw query, superlatives, constraints) for AI context
  */
 async function executeSearchTransaction(
     userId: string,
@@ -694,8 +793,8 @@ async function executeSearchTransaction(
     userPreferences: UserPreferences,
     keyword: string,
     isPioneer: boolean,
-    rawQuery: string = "",
-    hasSuperlative: boolean = false
+    searchIntent: SearchIntent,
+    groupDiners: GroupDiner[] = []
 ): Promise<SearchTransaction> {
     const db = getAdminDb();
     const userRef = db.collection("users").doc(userId);
@@ -711,30 +810,8 @@ async function executeSearchTransaction(
     let scoredResults = candidates;
 
     // --- Run Gemini Scoring with RAW query for context ---
-    // If user used superlatives, Gemini will prioritize high-quality results
-    const queryForGemini = rawQuery || keyword;
-    console.log(`[Search] Gemini context: "${queryForGemini}", Superlative mode: ${hasSuperlative}`);
-
     try {
-        const scoresMap = await scorePlacesWithDeepContext(
-            candidates,
-            {
-                ...userPreferences,
-                hasSuperlative,  // Pass to Gemini for quality-first ranking
-                rawQuery: queryForGemini
-            },
-            queryForGemini
-        );
-
-        if (scoresMap.size > 0) {
-            scoredResults = candidates
-                .map((p) => ({
-                    ...p,
-                    ai_score: scoresMap.get(p.place_id)
-                }))
-                .filter((p) => p.ai_score && !p.ai_score.safetyFlag) // Remove unsafe
-                .sort((a, b) => (b.ai_score?.matchScore || 0) - (a.ai_score?.matchScore || 0));
-        }
+        scoredResults = await scoreEnrichedPlaces(candidates, userPreferences, keyword, searchIntent, groupDiners);
     } catch (error) {
         console.error("[Search] Gemini scoring failed:", error);
         geminiSuccess = false;
@@ -788,6 +865,7 @@ async function executeSearchTransaction(
 
     return {
         results: scoredResults.slice(0, TOP_RESULTS),
+        overflow: geminiSuccess ? scoredResults.slice(TOP_RESULTS).filter(p => p.ai_score) : [],
         credits: {
             remaining: geminiSuccess ? (pioneerBonus ? finalCredits.remaining : reservation.remaining) : finalCredits.remaining,
             limit: finalCredits.limit,
@@ -886,6 +964,110 @@ function mapLightCandidateToPlace(candidate: LightCandidate): {
     };
 }
 
+// =============================================================================
+// LOAD MORE (Search Session Continuation)
+// =============================================================================
+
+const toScoredEntries = (places: EnrichedPlace[]): ScoredEntry[] =>
+    places.flatMap(p => p.ai_score ? [{ placeId: p.place_id, score: p.ai_score }] : []);
+
+/**
+ * Serves the next page of a paid search from its stored pool - no discovery, no scout.
+ * Credit rules are documented in search-session.ts.
+ */
+async function handleSearchContinuation(userId: string, cursor: string): Promise<NextResponse> {
+    const { sessionId, session } = await loadSearchSession(cursor, userId);
+    const plan = planContinuation(session, TOP_RESULTS, SCOUT_TOP_N);
+
+    // --- Reserve credit BEFORE claiming, so a 402 leaves the page claimable ---
+    let creditCharged = false;
+    if (plan.kind === "score" && plan.chargesCredit) {
+        const reservation = await reserveUserCredit(userId);
+        if (!reservation.authorized) {
+            throw new SearchSessionError(402, "LIMIT_REACHED", "Monthly limit reached");
+        }
+        creditCharged = true;
+    }
+
+    const refundCharge = async (reason: string) => {
+        if (!creditCharged) return;
+        try {
+            await refundUserCredit(userId);
+            creditCharged = false;
+            console.log(`[LoadMore] Refunded credit for user ${userId}: ${reason}`);
+        } catch (refundErr) {
+            console.error("[LoadMore] Failed to refund credit:", refundErr);
+        }
+    };
+
+    try {
+        await claimContinuation(sessionId, session.page, plan);
+    } catch (error) {
+        await refundCharge("page already claimed");
+        throw error;
+    }
+    const page = session.page + 1;
+    const routePath = session.routePolyline ? decodePolyline(session.routePolyline) : null;
+
+    let results: EnrichedPlace[];
+    let leftovers: ScoredEntry[] = [];
+    let geminiSuccess = true;
+
+    if (plan.kind === "scored") {
+        // Already paid for - re-read from cache and re-attach the stored scores
+        const scores = new Map(plan.entries.map(e => [e.placeId, e.score]));
+        const restaurants = await getEnrichedRestaurants(plan.entries.map(e => e.placeId));
+        const rescored = withRouteDetours(mapToEnrichedPlaces(restaurants, session.intent), routePath)
+            .map(p => ({ ...p, ai_score: scores.get(p.place_id) }))
+            .sort((a, b) => (b.ai_score?.matchScore || 0) - (a.ai_score?.matchScore || 0));
+        results = rankByOpenAt(rankByDetour(rescored), session.intent);
+    } else {
+        const restaurants = await getEnrichedRestaurants(plan.placeIds);
+        const enriched = withRouteDetours(mapToEnrichedPlaces(restaurants, session.intent), routePath);
+
+        try {
+            const scored = await scoreEnrichedPlaces(enriched, session.preferences, session.keyword, session.intent, session.group);
+            results = scored.slice(0, TOP_RESULTS);
+            leftovers = toScoredEntries(scored.slice(TOP_RESULTS));
+        } catch (error) {
+            console.error("[LoadMore] Scoring failed:", error);
+            geminiSuccess = false;
+            await refundCharge("scoring failed");
+            results = rankByOpenAt(rankByDetour(enriched), session.intent).slice(0, TOP_RESULTS);
+        }
+    }
+
+    const { nextCursor, nextCostsCredit } = await completeContinuation(
+        sessionId,
+        page,
+        results.map(p => p.place_id),
+        leftovers
+    );
+    console.log(`[LoadMore] Page ${page}: ${results.length} results (${plan.kind}), charged=${creditCharged}, more=${!!nextCursor}`);
+
+    const credits = await checkUserHasCredits(userId);
+    const response: SearchResponse = {
+        results,
+        credits: {
+            remaining: credits.remaining,
+            limit: credits.limit,
+            used: credits.used,
+            tier: credits.tier
+        },
+        source: session.source,
+        page,
+        nextCursor,
+        nextCostsCredit,
+        creditCharged
+    };
+
+    if (!geminiSuccess) {
+        response.geminiError = "Oops! Gemini stabbed us in the back. Here's your credit back! 🔄";
+    }
+
+    return NextResponse.json(response);
+}
+
 // =============================================================================
 // MAIN HANDLER
 // =============================================================================
@@ -897,12 +1079,47 @@ interface UserPreferences {
     budget: string;
 }
 
+/**
+ * Merges dietary constraints typed into the query ("vegan", "bezlepkové")
+ * into the stored profile. Gluten/lactose are modeled as allergies downstream.
+ */
+function applyIntentToPreferences(prefs: UserPreferences, intent: SearchIntent): UserPreferences {
+    const dietary = [...prefs.dietary];
+    const allergies = [...prefs.allergies];
+    const addUnique = (list: string[], value: string) => {
+        if (!list.some(v => v.toLowerCase().includes(value))) list.push(value);
+    };
+
+    for (const tag of intent.dietary) {
+        if (tag === "gluten_free") addUnique(allergies, "gluten");
+        else if (tag === "lactose_free") addUnique(allergies, "lactose");
+        else addUnique(dietary, tag);
+    }
+
+    return { ...prefs, dietary, allergies };
+}
+
+type SearchEmitter = (event: SearchStreamEvent<{ place_id: string }>) => void;
+
+/**
+ * GET /api/search - plain JSON, or NDJSON stage events with ?stream=1.
+ * The streamed `done` event carries exactly the JSON the plain request returns.
+ */
 export async function GET(request: NextRequest) {
-    try {
-        // --- 0. Environment Check ---
-        const GOOGLE_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY;
-        if (!GOOGLE_API_KEY) throw new Error("MISSING ENV VAR: NEXT_PUBLIC_GOOGLE_MAPS_KEY");
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get("stream") !== "1") {
+        return runSearch(request, () => { });
+    }
+
+    return ndjsonResponse<SearchStreamEvent<{ place_id: string }>>(async (emit) => {
+        const response = await runSearch(request, emit);
+        emit({ type: "done", status: response.status, body: await response.json() });
+    });
+}
 
+async function runSearch(request: NextRequest, emit: SearchEmitter): Promise<NextResponse> {
+    try {
         // --- 1. Rate Limiting & Authentication & User Profile ---
         // Moved Auth UP so we can use Tier for Rate Limiting
 
@@ -911,6 +1128,7 @@ export async function GET(request: NextRequest) {
         let rateLimitConfig = RATE_LIMITS.SEARCH.GUEST;
 
         let userId: string | null = null;
+        let userDisplayName = "You";
         let userPreferences: UserPreferences = {
             allergies: [],
             dietary: [],
@@ -930,12 +1148,13 @@ export async function GET(request: NextRequest) {
                 const userDoc = await getAdminDb().collection("users").doc(userId).get();
                 if (userDoc.exists) {
                     const userData = userDoc.data();
+                    userDisplayName = userData?.displayName || decodedToken.name || "You";
 
                     // preferences
                     const prefs = userData?.preferences || userData?.profile?.preferences;
                     if (prefs) {
                         userPreferences = {
-                            allergies: Array.isArray(prefs.allergies) ? prefs.allergies : (prefs.allergies ? [prefs.allergies] : []),
+                            allergies: canonicalAllergies(prefs.allergies),  // Ids; older free text is parsed
                             dietary: Array.isArray(prefs.dietary) ? prefs.dietary : [],
                             cuisines: Array.isArray(prefs.cuisines) ? prefs.cuisines : [],
                             budget: prefs.budget || "any"
@@ -973,19 +1192,52 @@ export async function GET(request: NextRequest) {
         // --- 1. Parse Request Parameters (Input Validation) ---
         const { searchParams } = new URL(request.url);
 
+        // --- "Load more": continue a stored search session instead of a new search ---
+        const cursor = searchParams.get("cursor");
+        if (cursor) {
+            if (!userId) {
+                return NextResponse.json({ error: "Sign in to load more results", code: "UNAUTHORIZED" }, { status: 401 });
+            }
+            try {
+                return await handleSearchContinuation(userId, cursor);
+            } catch (err) {
+                if (err instanceof SearchSessionError) {
+                    return NextResponse.json({ error: err.message, code: err.code }, { status: err.status });
+                }
+                throw err;
+            }
+        }
+
         // ✅ NEW: Zod Validation
         const SearchQuerySchema = z.object({
             lat: z.coerce.number().min(-90).max(90),
             lng: z.coerce.number().min(-180).max(180),
             radius: z.coerce.number().min(100).max(50000).default(5000),
-            keyword: z.string().max(100).regex(/^[a-zA-Z0-9\s\-\.,!áčďéíľňóšťúýžÁČĎÉÍĽŇÓŠŤÚÝŽ]*$/, "Invalid characters in keyword").optional()
+            keyword: z.string().max(100).regex(/^[a-zA-Z0-9\s\-\.,!:€'áäčďéíĺľňóôŕšťúýžÁÄČĎÉÍĹĽŇÓÔŔŠŤÚÝŽ]*$/, "Invalid characters in keyword").optional(),
+            // Route mode: encoded polyline OR origin + destination
+            polyline: z.string().max(20000).regex(/^[\x3F-\x7E]*$/, "Invalid polyline").optional(),
+            originLat: z.coerce.number().min(-90).max(90).optional(),
+            originLng: z.coerce.number().min(-180).max(180).optional(),
+            destLat: z.coerce.number().min(-90).max(90).optional(),
+            destLng: z.coerce.number().min(-180).max(180).optional(),
+            corridor: z.coerce.number().min(200).max(MAX_CORRIDOR_METERS).default(DEFAULT_CORRIDOR_METERS),
+            group: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, "Invalid group").optional(),
+            fresh: z.literal("1").optional()   // Skip the free history replay
         });
 
         const validation = SearchQuerySchema.safeParse({
             lat: searchParams.get("lat"),
             lng: searchParams.get("lng"),
             radius: searchParams.get("radius"),
-            keyword: searchParams.get("keyword")
+            keyword: searchParams.get("keyword"),
+            polyline: searchParams.get("polyline") ?? undefined,
+            originLat: searchParams.get("originLat") ?? undefined,
+            originLng: searchParams.get("originLng") ?? undefined,
+            destLat: searchParams.get("destLat") ?? undefined,
+            destLng: searchParams.get("destLng") ?? undefined,
+            corridor: searchParams.get("corridor") ?? undefined,
+            group: searchParams.get("group") ?? undefined,
+            fresh: searchParams.get("fresh") ?? undefined
         });
 
         if (!validation.success) {
@@ -1000,18 +1252,125 @@ export async function GET(request: NextRequest) {
         let radius = validatedRadius; // Can be overridden by NLP
         const rawKeyword = validation.data.keyword || "";
 
-        // --- 1b. Parse Natural Language Search Intent ---
+        // --- 1a. Route mode (search along A -> B instead of a circle) ---
+        const { polyline, originLat, originLng, destLat, destLng, corridor } = validation.data;
+        let routePath: LatLng[] | null = null;
+        if (polyline) {
+            routePath = decodePolyline(polyline);
+        } else if (originLat !== undefined && originLng !== undefined && destLat !== undefined && destLng !== undefined) {
+            routePath = [{ lat: originLat, lng: originLng }, { lat: destLat, lng: destLng }];
+        }
+
+        if (routePath && routePath.length < 2) {
+            return NextResponse.json({
+                error: "Route needs at least two points",
+                code: "INVALID_ROUTE"
+            }, { status: 400 });
+        }
+
+        // Echoed back so the map can draw the corridor
+        const routeInfo = routePath ? { path: simplifyPath(routePath, 250), corridor } : undefined;
+
+        // --- 1b. Group mode (one search for everyone at the table) ---
+        let groupDiners: GroupDiner[] = [];
+        let groupInfo: SearchResponse["group"];
+        if (validation.data.group) {
+            if (!userId) {
+                return NextResponse.json({ error: "Sign in to search as a group", code: "UNAUTHORIZED" }, { status: 401 });
+            }
+            try {
+                const group = await getGroupForUser(validation.data.group, userId);
+                if (group.ownerId !== userId) {
+                    throw new DiningGroupError(403, "NOT_ORGANIZER", "Only the organizer can search for this group");
+                }
+                groupDiners = await resolveGroupDiners(group, {
+                    memberId: userId,
+                    displayName: userDisplayName,
+                    ...userPreferences
+                });
+            } catch (err) {
+                if (err instanceof DiningGroupError) {
+                    return NextResponse.json({ error: err.message, code: err.code }, { status: err.status });
+                }
+                throw err;
+            }
+
+            // Every member's allergy becomes a hard filter for the whole search
+            userPreferences = mergeGroupPreferences(groupDiners);
+            groupInfo = {
+                id: validation.data.group,
+                members: groupDiners.map(d => ({ memberId: d.memberId, displayName: d.displayName }))
+            };
+            console.log(`[Search] Group mode: ${groupDiners.length} diners, allergies=[${userPreferences.allergies.join(", ")}]`);
+        }
+
+        // --- 1c. Parse Natural Language Search Intent ---
         const searchIntent = parseSearchIntent(rawKeyword);
         const keyword = searchIntent.cleanKeyword; // Clean keyword for Google
 
+        // Dietary words in the query ("vegan brunch") count like profile preferences
+        userPreferences = applyIntentToPreferences(userPreferences, searchIntent);
+
         // Apply detected radius from query (e.g., "pizza 3 miles from me")
         if (searchIntent.detectedRadius !== null) {
             radius = searchIntent.detectedRadius;
             console.log(`[Search] Using radius from query: ${radius}m`);
         }
 
-        // ... (User preferences fetched above) ...
-        // Duplicated logic removed.
+        // --- 1d. Repeat search? Serve the scored results from history (no credit) ---
+        const historyInputs: SearchInputs = {
+            keyword: rawKeyword,
+            location: { lat, lng },
+            radius,
+            route: routePath ? { origin: routePath[0], destination: routePath[routePath.length - 1], corridor } : null,
+            groupId: validation.data.group || null,
+            preferencesKey: searchPreferencesKey(userPreferences, groupDiners)
+        };
+
+        if (userId && !validation.data.fresh) {
+            const replay = await findReplayableSearch(userId, historyInputs).catch(err => {
+                console.warn("[Search] History lookup failed:", err);
+                return null;
+            });
+
+            if (replay) {
+                console.log(`[Search] ♻️ Replaying "${rawKeyword}" from history (scored ${Math.round((Date.now() - replay.scoredAt!) / 60000)} min ago)`);
+                // Menus may have changed since scoring - re-run the deterministic allergen check
+                const menuChecks = await loadMenuAllergenChecks(replay.results.map(p => p.place_id), userPreferences.allergies);
+                const replayed = replay.results
+                    .map(p => {
+                        const score = replay.scores[p.place_id];
+                        return { ...p, ai_score: score && applyMenuAllergenCheck(score, menuChecks.get(p.place_id)) };
+                    })
+                    .filter(p => !p.ai_score?.safetyFlag);
+                const status = await checkUserHasCredits(userId);
+                const response: SearchResponse = {
+                    results: replayed,
+                    credits: {
+                        remaining: status.remaining,
+                        limit: status.limit,
+                        used: status.used,
+                        tier: status.tier
+                    },
+                    source: "history",
+                    route: routeInfo,
+                    group: groupInfo,
+                    fromHistory: true,
+                    cachedAt: new Date(replay.scoredAt!).toISOString(),
+                    nextCursor: null
+                };
+                return NextResponse.json(response);
+            }
+        }
+
+        const saveToHistory = async (results: unknown[], source: string, scored: boolean) => {
+            if (!userId) return;
+            try {
+                await recordSearch(userId, historyInputs, { intent: searchIntent, results, source, scored });
+            } catch (err) {
+                console.warn("[Search] Failed to record search history:", err);
+            }
+        };
 
 
         // =========================================================================
@@ -1020,7 +1379,27 @@ export async function GET(request: NextRequest) {
 
         // --- STAGE 1: Light Discovery (20 candidates, cheap fields) ---
         console.log(`[Stage1] Light discovery for: "${keyword}" at (${lat}, ${lng}) radius ${radius}m`);
-        const { candidates: lightCandidates, isPioneer, source, discardedCandidates } = await findLightCandidates(lat, lng, radius, keyword);
+        emit({ type: "stage", stage: "discovery" });
+        const { candidates: lightCandidates, isPioneer, source, discardedCandidates } = routePath
+            ? await findRouteCandidates(routePath, corridor, searchIntent)
+            : await findLightCandidates(lat, lng, radius, searchIntent);
+
+        if (lightCandidates.length === 0 && routePath) {
+            const status = await checkUserHasCredits(userId);
+            return NextResponse.json({
+                status: 'ZERO_RESULTS',
+                results: [],
+                credits: {
+                    remaining: status.remaining,
+                    limit: status.limit,
+                    used: status.used,
+                    tier: status.tier
+                },
+                source: "empty",
+                route: routeInfo,
+                message: `No restaurants found within ${corridor}m of your route.`
+            });
+        }
 
         if (lightCandidates.length === 0) {
             console.log(`[Stage1] 0 results found. Checking fallbacks...`);
@@ -1114,6 +1493,8 @@ export async function GET(request: NextRequest) {
                 .slice(0, 20)
                 .map(mapLightCandidateToPlace);
 
+            await saveToHistory(basicResults, source, false);
+
             return NextResponse.json({
                 results: basicResults,
                 credits: {
@@ -1138,8 +1519,11 @@ export async function GET(request: NextRequest) {
 
         // --- PRE-ENRICHMENT FILTER: Remove unsuitable restaurants BEFORE AI ---
         // Filters closed, price mismatches, non-restaurants to reduce Gemini costs
-        const filterResult = filterLightCandidates(lightCandidates, userPreferences.budget);
-        const filteredCandidates = filterResult.filtered;
+        const filterResult = filterLightCandidates(lightCandidates, userPreferences.budget, searchIntent);
+
+        // Claimed places whose own menu has no dish free of the diner's allergens never reach the scout
+        const menuChecks = await loadMenuAllergenChecks(filterResult.filtered.map(c => c.place_id), userPreferences.allergies);
+        const filteredCandidates = filterResult.filtered.filter(c => menuChecks.get(c.place_id)?.verdict !== "unsafe");
 
         if (filteredCandidates.length === 0) {
             console.warn(`[PreFilter] All ${lightCandidates.length} candidates filtered out!`);
@@ -1158,11 +1542,14 @@ export async function GET(request: NextRequest) {
         }
 
         console.log(`[PreFilter] Using ${filteredCandidates.length} filtered candidates for AI pipeline`);
+        emit({ type: "candidates", results: filteredCandidates.map(mapLightCandidateToPlace) });
+        emit({ type: "stage", stage: "scout" });
 
         // --- STAGE 2: AI Scout (Select top 6 with dietary awareness) ---
         const scoutProfile = {
             ...userPreferences,
-            hasSuperlative: searchIntent.hasSuperlative
+            hasSuperlative: searchIntent.hasSuperlative,
+            intent: searchIntent
         };
 
         const scoutResult = await scoutTopCandidates(filteredCandidates, keyword, scoutProfile);
@@ -1211,7 +1598,11 @@ export async function GET(request: NextRequest) {
                         distance: survivalLight.distance,
                         reason: scoutResult.survivalOption.reason
                     } : null,
-                    expandOption: {
+                    expandOption: routePath ? {
+                        // Route mode: widen the corridor instead of the circle
+                        label: `Widen route corridor to ${(Math.min(corridor + PEEK_AHEAD_DISTANCE, MAX_CORRIDOR_METERS) / 1000).toFixed(1)}km`,
+                        newRadius: Math.min(corridor + PEEK_AHEAD_DISTANCE, MAX_CORRIDOR_METERS)
+                    } : {
                         label: `Search for exact match (+${PEEK_AHEAD_DISTANCE / 1000}km)`,
                         newRadius: radius + PEEK_AHEAD_DISTANCE
                     }
@@ -1235,16 +1626,21 @@ export async function GET(request: NextRequest) {
             winnerIds = filteredCandidates.map(c => c.place_id).slice(0, SCOUT_TOP_N);
         }
 
+        emit({ type: "scout", placeIds: winnerIds });
+        emit({ type: "stage", stage: "enrichment" });
+
         // --- 5. Enrich Winners (Stage 3) ---
         // Smart cache-first enrichment with light→rich upgrade logic
         const enrichedRestaurants = await getEnrichedRestaurants(winnerIds);
 
         // Map to EnrichedPlace for transaction handler
-        const enrichedCandidates = mapToEnrichedPlaces(enrichedRestaurants);
+        const enrichedCandidates = withRouteDetours(mapToEnrichedPlaces(enrichedRestaurants, searchIntent), routePath);
         console.log(`[Search] Enriched ${enrichedCandidates.length} winners`);
+        emit({ type: "enriched", results: enrichedCandidates });
 
         // --- 6. Execute Transaction (Cost & Scoring) ---
         if (userId) {
+            emit({ type: "stage", stage: "scoring" });
             try {
                 const transaction = await executeSearchTransaction(
                     userId,
@@ -1252,16 +1648,52 @@ export async function GET(request: NextRequest) {
                     userPreferences,
                     keyword,
                     isPioneer,
-                    searchIntent.rawQuery,      // Raw query for Gemini context
-                    searchIntent.hasSuperlative // Quality preference flag
+                    searchIntent,               // Raw query, superlatives & constraints for Gemini
+                    groupDiners                 // Empty unless ?group= - credit still comes from userId
                 );
 
+                emit({
+                    type: "scores",
+                    scores: Object.fromEntries(
+                        transaction.results.flatMap(p => p.ai_score ? [[p.place_id, p.ai_score]] : [])
+                    )
+                });
+
+                // Keep the paid-for pool for "load more" (scored leftovers + unenriched candidates)
+                let nextCursor: string | null = null;
+                if (transaction.geminiSuccess) {
+                    try {
+                        nextCursor = await createSearchSession({
+                            userId,
+                            keyword,
+                            intent: searchIntent,
+                            preferences: userPreferences,
+                            source,
+                            routePolyline: routePath ? encodePolyline(routePath) : undefined,
+                            group: groupDiners.length > 0 ? groupDiners : undefined,
+                            servedIds: transaction.results.map(p => p.place_id),
+                            scoredQueue: toScoredEntries(transaction.overflow),
+                            pendingIds: filteredCandidates
+                                .map(c => c.place_id)
+                                .filter(id => !winnerIds.includes(id))
+                        });
+                    } catch (sessionErr) {
+                        console.warn("[Search] Failed to create search session:", sessionErr);
+                    }
+                }
+
+                await saveToHistory(transaction.results, source, transaction.geminiSuccess);
+
                 // Build response
                 const response: SearchResponse = {
                     results: transaction.results,
                     credits: transaction.credits,
                     source,
-                    pioneerBonus: transaction.pioneerBonus
+                    pioneerBonus: transaction.pioneerBonus,
+                    route: routeInfo,
+                    group: groupInfo,
+                    nextCursor,
+                    nextCostsCredit: false // The first continuation is always covered
                 };
 
                 if (!transaction.geminiSuccess) {
@@ -1290,9 +1722,10 @@ export async function GET(request: NextRequest) {
 
         // --- 6. Unauthenticated: Return basic results without AI ---
         return NextResponse.json({
-            results: enrichedCandidates.slice(0, TOP_RESULTS),
+            results: rankByOpenAt(rankByDetour(enrichedCandidates), searchIntent).slice(0, TOP_RESULTS),
             credits: { remaining: 0, limit: 0, used: 0, tier: "guest" },
             source,
+            route: routeInfo,
             message: "Sign in to unlock AI-powered personalized recommendations!"
         });
 
@@ -1326,6 +1759,14 @@ interface SearchResponse {
     geminiError?: string;
     message?: string;
     smartSuggestion?: SmartSuggestion;
+    page?: number;
+    route?: { path: LatLng[]; corridor: number };  // Route mode: path to draw on the map
+    group?: { id: string; members: { memberId: string; displayName: string }[] };  // Group mode
+    nextCursor?: string | null;      // Opaque "load more" cursor (null = pool exhausted)
+    nextCostsCredit?: boolean;       // Loading the next page reserves a credit
+    creditCharged?: boolean;         // This continuation page reserved a credit
+    fromHistory?: boolean;           // Replayed from users/{uid}/searches - no credit used
+    cachedAt?: string;               // When the replayed results were scored
 }
 
 interface SmartSuggestion {
@@ -1367,23 +1808,5 @@ interface DecisionRequiredResponse {
 }
 
 
-/**
- * Haversine formula to calculate distance between two coordinates.
- */
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = toRad(lat2 - lat1);
-    const dLon = toRad(lon2 - lon1);
-    const a = Math.sin(dLat / 2) ** 2 +
-        Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-        Math.sin(dLon / 2) ** 2;
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-}
-
-function toRad(deg: number): number {
-    return deg * (Math.PI / 180);
-}
-
 // End of file cleanup
 
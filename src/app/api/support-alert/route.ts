@@ -1,29 +1,65 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { getEmailTransport } from "@/lib/notification-transport";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 
-// Support alert endpoint for critical failures
-// In production, this would send emails via SendGrid/Resend/etc.
+const SUPPORT_EMAIL = process.env.SUPPORT_EMAIL || "support@nearspotty.online";
+
+// Short single-line labels - they end up in the email subject
+const SupportAlertSchema = z.object({
+    type: z.string().trim().min(1).max(60).regex(/^[\w .:-]+$/),
+    plan: z.string().trim().max(30).regex(/^[\w .:-]*$/).optional()
+});
+
+// Support alert endpoint for critical failures - emailed to SUPPORT_EMAIL.
+// Signed-in users only; who it is about comes from the ID token, not the body.
 export async function POST(req: Request) {
+    const token = req.headers.get("Authorization")?.split("Bearer ")[1];
+    if (!token) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validation = SupportAlertSchema.safeParse(await req.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid alert", details: validation.error.format() }, { status: 400 });
+    }
+
+    let userId: string;
+    let userEmail: string;
     try {
-        const body = await req.json();
-        const { type, userId, userEmail, plan } = body;
+        const decoded = await getAdminAuth().verifyIdToken(token);
+        userId = decoded.uid;
+        userEmail = decoded.email || "no email";
+    } catch {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { limitReached, reset } = await checkRateLimit(`support_alert_${userId}`, RATE_LIMITS.SUPPORT.ALERT);
+    if (limitReached) {
+        return NextResponse.json({
+            error: "Too many requests. Please try again later.",
+            reset: new Date(reset).toISOString()
+        }, { status: 429 });
+    }
+
+    try {
+        const { type, plan = "unknown" } = validation.data;
+        const timestamp = new Date().toISOString();
 
-        // Log the alert for now (in production, send email)
         console.error("🚨 SUPPORT ALERT:", {
             type,
             userId,
             userEmail,
             plan,
-            timestamp: new Date().toISOString(),
+            timestamp,
         });
 
-        // TODO: Integrate with email service
-        // Example with Resend:
-        // await resend.emails.send({
-        //     from: 'alerts@nearspotty.online',
-        //     to: 'support@nearspotty.online',
-        //     subject: `Alert: ${type} for user ${userEmail}`,
-        //     html: `<p>User ${userEmail} (${userId}) experienced a ${type} error while trying to subscribe to ${plan} plan.</p>`
-        // });
+        await getEmailTransport().sendEmail({
+            to: SUPPORT_EMAIL,
+            subject: `Alert: ${type} for user ${userEmail}`,
+            text: `User ${userEmail} (${userId}) experienced a ${type} error while trying to subscribe to ${plan} plan.\n\n${timestamp}`
+        });
 
         return NextResponse.json({ success: true });
     } catch (error) {
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { ReservationError, assignTables, transitionReservation } from "@/lib/reservations";
+import { createDepositCheckout } from "@/lib/deposits";
+import { RespondWaitlistSchema, promoteWaitlist, respondToWaitlist } from "@/lib/waitlist";
+
+/**
+ * POST /api/waitlist/respond - guest accepts or declines a held table, or
+ * leaves the waitlist. Deposit venues return `checkoutUrl` on accept.
+ */
+export async function POST(request: NextRequest) {
+    const token = request.headers.get("Authorization")?.split("Bearer ")[1];
+    if (!token) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validation = RespondWaitlistSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid response", details: validation.error.format() }, { status: 400 });
+    }
+
+    try {
+        const { uid, email } = await getAdminAuth().verifyIdToken(token);
+        const { entryId, action } = validation.data;
+        const { status, entry, depositDue } = await respondToWaitlist(uid, entryId, action);
+        const reservationId = entry.offer?.reservationId || null;
+
+        if (status === "accepted" && reservationId) {
+            if (depositDue > 0) {
+                try {
+                    const checkoutUrl = await createDepositCheckout({
+                        reservationId,
+                        placeName: entry.placeName,
+                        amount: depositDue,
+                        customerEmail: email,
+                        origin: request.headers.get("origin") || process.env.NEXT_PUBLIC_APP_URL || ""
+                    });
+                    return NextResponse.json({ success: true, status, reservationId, checkoutUrl });
+                } catch (depositError) {
+                    console.error("[Waitlist] Deposit checkout failed:", depositError);
+                    // Don't keep a table held for a booking that can't be paid
+                    await transitionReservation(reservationId, null, "rejected", "Deposit checkout could not be started").catch(() => null);
+                    return NextResponse.json({ error: "We couldn't start the deposit payment - please book again", code: "DEPOSIT_CHECKOUT_FAILED" }, { status: 502 });
+                }
+            }
+
+            try {
+                await assignTables(reservationId);
+            } catch (assignError) {
+                console.warn("[Waitlist] Auto table assignment failed:", assignError);
+            }
+        }
+
+        // The declined table goes to the next party - best effort, the cron retries
+        if (status === "declined") {
+            await promoteWaitlist(entry.placeId, entry.date).catch(promoteError =>
+                console.error("[Waitlist] Promotion after decline failed:", promoteError));
+        }
+
+        return NextResponse.json({ success: true, status, reservationId });
+    } catch (error) {
+        if (error instanceof ReservationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Waitlist] Response failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { ReservationError } from "@/lib/reservations";
+import { JoinWaitlistSchema, joinWaitlist } from "@/lib/waitlist";
+
+/**
+ * POST /api/waitlist - join the waitlist for a fully booked date and time
+ * window. The guest is offered a held table when one frees up.
+ */
+export async function POST(request: NextRequest) {
+    const token = request.headers.get("Authorization")?.split("Bearer ")[1];
+    if (!token) {
+        return NextResponse.json({ error: "Please log in to join the waitlist" }, { status: 401 });
+    }
+
+    const validation = JoinWaitlistSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+        return NextResponse.json({ error: "Invalid waitlist request", details: validation.error.format() }, { status: 400 });
+    }
+
+    try {
+        const { uid, email } = await getAdminAuth().verifyIdToken(token);
+        const entry = await joinWaitlist({ uid, email }, validation.data);
+        return NextResponse.json({ success: true, entry });
+    } catch (error) {
+        if (error instanceof ReservationError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error("[Waitlist] Join failed:", error);
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Stripe from "stripe";
+import { fakeDocs } from "@/test/fake-firestore";
+import { isStripeMockRunning, stripeMockRequests } from "@/test/stripe-mock";
+
+const { transitionReservation } = vi.hoisted(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = "whsec_test";
+    return { transitionReservation: vi.fn() };
+});
+
+vi.mock("stripe", async () => (await import("@/test/stripe-mock")).stripeMockModule());
+vi.mock("@/lib/firebase-admin", async () => (await import("@/test/fake-firestore")).firebaseAdminModule());
+vi.mock("@/lib/reservations", () => ({
+    RESERVATIONS_COLLECTION: "reservations",
+    transitionReservation
+}));
+
+import { POST } from "./route";
+
+const stripeMockUp = await isStripeMockRunning();
+
+// Signed the way Stripe signs, so the route's constructEvent really verifies it
+const signer = new Stripe("sk_test_123");
+
+const metadata = { kind: "reservation_deposit", reservationId: "res_1" };
+
+function webhookRequest(type: string, object: Record<string, unknown>, secret = "whsec_test") {
+    const payload = JSON.stringify({ id: "evt_1", object: "event", type, data: { object } });
+    return new Request("http://localhost/api/webhooks/stripe", {
+        method: "POST",
+        headers: { "stripe-signature": signer.webhooks.generateTestHeaderString({ payload, secret }) },
+        body: payload
+    });
+}
+
+// A deposit event that only touches Firestore - fails until the booking exists
+function holdDropped() {
+    return webhookRequest("payment_intent.canceled", { id: "pi_1", metadata, cancellation_reason: "automatic" });
+}
+
+function seed() {
+    fakeDocs.set("reservations/res_1", {
+        status: "pending",
+        deposit: { status: "authorized", amount: 2000, currency: "eur", paymentIntentId: "pi_1" }
+    });
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    fakeDocs.clear();
+    stripeMockRequests.length = 0;
+});
+
+describe("POST /api/webhooks/stripe - deposits", () => {
+    it("marks the event processed once the deposit handler succeeds", async () => {
+        seed();
+
+        const res = await POST(holdDropped());
+
+        expect(res.status).toBe(200);
+        expect(fakeDocs.has("webhook_events/evt_1")).toBe(true);
+        expect(fakeDocs.get("reservations/res_1")?.deposit).toMatchObject({ holdExpired: true });
+    });
+
+    it("skips an event that was already processed", async () => {
+        seed();
+        await POST(holdDropped());
+        fakeDocs.set("reservations/res_1", { status: "pending", deposit: { status: "authorized" } });
+
+        const res = await POST(holdDropped());
+
+        expect(res.status).toBe(200);
+        expect(fakeDocs.get("reservations/res_1")?.deposit).not.toHaveProperty("holdExpired");
+    });
+
+    it("releases the event when the deposit handler fails so Stripe's retry is processed", async () => {
+        const failed = await POST(holdDropped());
+        expect(failed.status).toBe(500);
+        expect(fakeDocs.has("webhook_events/evt_1")).toBe(false);
+
+        seed();
+        const retried = await POST(holdDropped());
+
+        expect(retried.status).toBe(200);
+        expect(fakeDocs.has("webhook_events/evt_1")).toBe(true);
+        expect(fakeDocs.get("reservations/res_1")?.deposit).toMatchObject({ holdExpired: true });
+    });
+
+    it("rejects a request whose signature does not verify", async () => {
+        seed();
+
+        const res = await POST(webhookRequest("payment_intent.canceled", { id: "pi_1", metadata }, "whsec_other"));
+
+        expect(res.status).toBe(400);
+        expect(fakeDocs.has("webhook_events/evt_1")).toBe(false);
+    });
+
+    it.skipIf(!stripeMockUp)("authorizes the deposit when checkout completes (stripe-mock)", async () => {
+        fakeDocs.set("reservations/res_1", { status: "pending", deposit: { status: "requires_payment", amount: 2000, currency: "eur" } });
+
+        const res = await POST(webhookRequest("checkout.session.completed", { metadata, payment_intent: "pi_1", customer: "cus_1" }));
+
+        expect(res.status).toBe(200);
+        expect(stripeMockRequests).toMatchObject([{ method: "GET", path: "/v1/payment_intents/pi_1" }]);
+        expect(fakeDocs.get("reservations/res_1")?.deposit).toMatchObject({ status: "authorized", customerId: "cus_1" });
+    });
+});
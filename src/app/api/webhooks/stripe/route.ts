@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { getAdminDb } from "@/lib/firebase-admin";
 import { getTierFromPriceId } from "@/lib/plan-limits";
+import { handleDepositEvent } from "@/lib/deposits";
+import { LocationError, assertCanClaimLocation } from "@/lib/locations";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
     apiVersion: "2026-01-28.clover",
@@ -122,8 +124,16 @@ export async function POST(request: Request) {
 
     // --- IDEMPOTENCY CHECK ---
     // --- IDEMPOTENCY CHECK (TRANSACTIONAL) ---
+    // The marker claims the event while it is handled; a failing handler
+    // releases it so Stripe's retry is processed instead of skipped.
     const db = getAdminDb();
     const eventRef = db.collection('webhook_events').doc(event.id);
+    const failed = async (error: string) => {
+        await eventRef.delete().catch((err: unknown) => {
+            console.error(`[Stripe Webhook] ❌ Could not release event ${event.id}:`, err);
+        });
+        return NextResponse.json({ error }, { status: 500 });
+    };
 
     try {
         await db.runTransaction(async (t) => {
@@ -146,6 +156,16 @@ export async function POST(request: Request) {
     }
     // -------------------------
 
+    // --- RESERVATION DEPOSITS (tagged via metadata.kind, see deposits.ts) ---
+    try {
+        if (await handleDepositEvent(event)) {
+            return NextResponse.json({ received: true });
+        }
+    } catch (err: unknown) {
+        console.error(`[Stripe Webhook] ❌ Deposit handling failed for ${event.type}:`, err);
+        return failed("Deposit processing failed");
+    }
+
     // --- IGNORE NOISY EVENTS ---
     const IGNORED_EVENTS = [
         "invoice.created",
@@ -332,7 +352,7 @@ export async function POST(request: Request) {
             }
         } catch (error) {
             console.error(`[Stripe Webhook] ❌ Error processing invoice.paid:`, error);
-            return NextResponse.json({ error: "Invoice processing failed" }, { status: 500 });
+            return failed("Invoice processing failed");
         }
     }
 
@@ -450,8 +470,18 @@ export async function POST(request: Request) {
                     updatedAt: new Date().toISOString()
                 }, { merge: true });
 
-                // HANDLE CLAIMING IF PLACE ID PRESENT
+                // HANDLE CLAIMING IF PLACE ID PRESENT (a second restaurant needs multiLocation - locations.ts)
+                let canClaim = !!placeIdToClaim;
                 if (placeIdToClaim) {
+                    try {
+                        await assertCanClaimLocation(userId, placeIdToClaim, { subscription: { tier: derivedTier } });
+                    } catch (claimError) {
+                        if (!(claimError instanceof LocationError)) throw claimError;
+                        console.warn(`[Stripe Webhook] ⚠️ Not claiming ${placeIdToClaim} for ${userId}: ${claimError.message}`);
+                        canClaim = false;
+                    }
+                }
+                if (placeIdToClaim && canClaim) {
                     console.log(`[Stripe Webhook] 🏠 Auto-claiming place ${placeIdToClaim} for user ${userId}`);
                     const placeRef = getAdminDb().collection("restaurants").doc(placeIdToClaim);
                     await placeRef.set({
@@ -473,7 +503,7 @@ export async function POST(request: Request) {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
         } catch (err: any) {
             console.error("❌ [Stripe Webhook] CRITICAL ERROR in checkout.session.completed:", err);
-            return NextResponse.json({ error: "Webhook Handler Failed" }, { status: 500 });
+            return failed("Webhook Handler Failed");
         }
     }
 
@@ -20,9 +20,11 @@ import {
     ArrowRight,
     Check,
     X,
-    LogOut
+    LogOut,
+    CalendarClock,
+    Building2
 } from "lucide-react";
-import { doc, getDoc, collection, query, getDocs, orderBy, Timestamp, where } from "firebase/firestore";
+import { doc, getDoc, getDocs, updateDoc, collection, query, onSnapshot, orderBy, Timestamp, where, type DocumentData } from "firebase/firestore";
 import { db, auth } from "@/lib/firebase";
 import { signOut } from "firebase/auth";
 import { useRouter } from "next/navigation";
@@ -33,6 +35,21 @@ import PricingSettings from "@/components/dashboard/PricingSettings";
 import { MenuEditor } from "@/components/dashboard/MenuEditor";
 import { RestaurantEditor } from "@/components/dashboard/RestaurantEditor";
 import { TableManager } from "@/components/dashboard/TableManager";
+import { TableAssignment } from "@/components/dashboard/TableAssignment";
+import { SeatingRulesEditor } from "@/components/dashboard/SeatingRulesEditor";
+import { ReservationPolicyEditor } from "@/components/dashboard/ReservationPolicyEditor";
+import { GuestUpdates } from "@/components/dashboard/GuestUpdates";
+import { CoverBilling } from "@/components/dashboard/CoverBilling";
+import { WaitlistPanel } from "@/components/dashboard/WaitlistPanel";
+import { ServiceView } from "@/components/dashboard/ServiceView";
+import { CalendarFeedSettings } from "@/components/dashboard/CalendarFeedSettings";
+import { LocationSwitcher } from "@/components/dashboard/LocationSwitcher";
+import { LocationsOverview } from "@/components/dashboard/LocationsOverview";
+import { StatusHistory } from "@/components/reservation/StatusHistory";
+import { getDiningMinutes, resolveSeatingRules } from "@/lib/seating-rules";
+import type { OpeningHoursSource } from "@/lib/opening-hours";
+import { DEPOSIT_STATUS_LABELS, RESERVATION_STATUS_COLORS, RESERVATION_STATUS_LABELS, formatDeposit, getNextStatuses } from "@/lib/reservation-status";
+import type { FloorTable, OwnerLocation, ReservationDeposit, ReservationHistoryEntry, ReservationStatus, ReservationWaitlistOffer, SeatingRules } from "@/types";
 import { OpeningHoursEditor } from "@/components/dashboard/OpeningHoursEditor";
 
 interface Reservation {
@@ -44,13 +61,45 @@ interface Reservation {
     guests: number;
     time: string;
     placeId: string;
-    status: 'pending' | 'confirmed' | 'cancelled' | 'rejected';
+    status: ReservationStatus;
+    tableIds?: string[];
+    dateKey?: string;
+    startMinutes?: number;
+    endMinutes?: number;
+    source?: "walk_in";
+    historyLog?: ReservationHistoryEntry[];
+    deposit?: ReservationDeposit;
+    waitlistOffer?: ReservationWaitlistOffer;
+}
+
+// Owner actions after confirmation (pending bookings get Confirm / Reject)
+const LIFECYCLE_ACTIONS: Partial<Record<ReservationStatus, string>> = {
+    seated: "Seat",
+    finished: "Finish",
+    no_show: "No-show",
+    cancelled_by_venue: "Cancel"
+};
+
+// Shared with the guest, so ask why
+const NEEDS_REASON: ReservationStatus[] = ["rejected", "cancelled_by_venue"];
+
+type DashboardTab = 'overview' | 'locations' | 'service' | 'menu' | 'tables' | 'hours' | 'pricing' | 'subscription' | 'settings';
+
+function toOwnerLocation(placeId: string, data: DocumentData | undefined): OwnerLocation {
+    return {
+        placeId,
+        name: data?.name || data?.details?.name || "",
+        address: data?.address || data?.details?.address || data?.details?.formattedAddress || ""
+    };
 }
 
 export default function BusinessDashboard() {
     const { user } = useAuth();
     const router = useRouter();
     const [reservations, setReservations] = useState<Reservation[]>([]);
+    const [floorPlan, setFloorPlan] = useState<FloorTable[]>([]);
+    const [seatingRules, setSeatingRules] = useState<SeatingRules>(resolveSeatingRules(null));
+    const [timeSource, setTimeSource] = useState<Pick<OpeningHoursSource, "timeZone" | "utcOffsetMinutes">>({});
     const [loading, setLoading] = useState(true);
     const [portalLoading, setPortalLoading] = useState(false);
     const [stats, setStats] = useState({
@@ -58,7 +107,10 @@ export default function BusinessDashboard() {
         pending: 0,
         confirmed: 0
     });
-    const [activeTab, setActiveTab] = useState<'overview' | 'menu' | 'tables' | 'hours' | 'pricing' | 'subscription' | 'settings'>('overview');
+    const [activeTab, setActiveTab] = useState<DashboardTab>('overview');
+    // Every restaurant the owner holds (Enterprise multi-location, locations.ts); restaurantData is the active one
+    const [locations, setLocations] = useState<OwnerLocation[]>([]);
+    const [business, setBusiness] = useState<DocumentData | null>(null);
     const [restaurantData, setRestaurantData] = useState({
         placeId: "",
         name: "",
@@ -193,88 +245,151 @@ export default function BusinessDashboard() {
                 setUserPlan(tier);
                 setStripeCustomerId(userData.stripeCustomerId || subscription.stripeCustomerId || null);
 
-                if (userData.business) {
-                    const b = userData.business;
-                    setRestaurantData(prev => ({
-                        ...prev,
-                        placeId: b.placeId,
-                        name: b.name || prev.name,
-                        address: b.address || prev.address,
-                        avgCheck: b.avgCheck || prev.avgCheck,
-                        cuisine: b.cuisineTypes?.join(", ") || b.cuisine || prev.cuisine,
-                        location: b.location || prev.location,
-                        seats: b.tableConfig?.totalSeats || b.seats || prev.seats,
-                        priceLevel: b.price_level || prev.priceLevel
-                    }));
+                // Locations = restaurants carrying this owner's uid; the dashboard opens on business.placeId
+                let owned: OwnerLocation[] = [];
+                try {
+                    const ownedSnap = await getDocs(query(collection(db, "restaurants"), where("ownerId", "==", user.uid)));
+                    owned = ownedSnap.docs.map(d => toOwnerLocation(d.id, d.data()));
+                } catch (error) {
+                    console.error("Error loading locations:", error);
                 }
-            }
-        };
+                const preferred = userData.business?.placeId;
+                const activePlaceId = owned.some(l => l.placeId === preferred) ? preferred : owned[0]?.placeId || preferred;
 
-        const fetchReservations = async () => {
-            try {
-                const myDoc = await getDoc(doc(db, "users", user.uid));
-                if (!myDoc.exists()) return;
-
-                const userData = myDoc.data();
-                const businessPlaceId = userData.business?.placeId;
-
-                if (!businessPlaceId) {
+                if (!activePlaceId) {
                     console.warn("No business placeId found for user. Redirecting to onboarding.");
                     window.location.href = "/business-onboarding";
                     return;
                 }
 
+                setBusiness(userData.business || null);
+                setLocations(owned);
+                setRestaurantData(prev => ({ ...prev, placeId: activePlaceId }));
+            } else {
+                setLoading(false);
+            }
+        };
+
+        fetchBusinessData();
+    }, [user]);
+
+    useEffect(() => {
+        const placeId = restaurantData.placeId;
+        if (!user || !placeId) return;
+
+        // Live: new bookings, guest changes and service actions show up without a reload
+        let unsubscribe: (() => void) | undefined;
+        let cancelled = false;
+
+        const subscribeReservations = async () => {
+            try {
+                const restaurantSnap = await getDoc(doc(db, "restaurants", placeId));
+                if (cancelled) return;
+                const restaurant = restaurantSnap.data();
+                setFloorPlan(restaurant?.tableConfig?.tables || []);
+                setSeatingRules(resolveSeatingRules(restaurant?.seatingRules));
+                setTimeSource({ timeZone: restaurant?.timeZone, utcOffsetMinutes: restaurant?.details?.utcOffsetMinutes });
+
+                // Onboarding profile fills the gaps for the location it was created for
+                const b = business?.placeId === placeId ? business : {};
+                const location = toOwnerLocation(placeId, restaurant);
+                const tables = restaurant?.tableConfig;
+                setRestaurantData(prev => ({
+                    ...prev,
+                    name: location.name || b.name || "",
+                    address: location.address || b.address || "",
+                    avgCheck: restaurant?.avgCheck || b.avgCheck || prev.avgCheck,
+                    cuisine: restaurant?.cuisineTypes?.join(", ") || b.cuisineTypes?.join(", ") || b.cuisine || prev.cuisine,
+                    location: (typeof restaurant?.location === "string" && restaurant.location) || b.location || prev.location,
+                    seats: (tables ? tables.totalTables * tables.seatsPerTable : 0) || b.tableConfig?.totalSeats || b.seats || prev.seats,
+                    priceLevel: restaurant?.price_level || b.price_level || prev.priceLevel
+                }));
+
                 // Query reservations for this restaurant
                 // Note: Requires a composite index on [placeId, date]
                 const q = query(
                     collection(db, "reservations"),
-                    where("placeId", "==", businessPlaceId),
+                    where("placeId", "==", placeId),
                     orderBy("date", "desc")
                 );
 
-                const querySnapshot = await getDocs(q);
-                const data = querySnapshot.docs.map(doc => ({
-                    id: doc.id,
-                    ...doc.data()
-                })) as Reservation[];
-
-                setReservations(data);
-                setStats({
-                    total: data.length,
-                    pending: data.filter(r => r.status === 'pending').length,
-                    confirmed: data.filter(r => r.status === 'confirmed').length
+                unsubscribe = onSnapshot(q, (querySnapshot) => {
+                    const data = querySnapshot.docs.map(doc => ({
+                        id: doc.id,
+                        ...doc.data()
+                    })) as Reservation[];
+
+                    setReservations(data);
+                    setStats({
+                        total: data.length,
+                        pending: data.filter(r => r.status === 'pending').length,
+                        confirmed: data.filter(r => r.status === 'confirmed').length
+                    });
+                    setLoading(false);
+                }, (error) => {
+                    console.error("Error listening to reservations:", error);
+
+                    // Friendly error specifically for index requirement
+                    if (error.code === 'failed-precondition') {
+                        toast.error("Missing index. Check console for link.");
+                    } else {
+                        toast.error("Failed to load dashboard data");
+                    }
+                    setLoading(false);
                 });
             } catch (error) {
                 console.error("Error fetching reservations:", error);
-
-                // Friendly error specifically for index requirement
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                if ((error as any).code === 'failed-precondition') {
-                    toast.error("Missing index. Check console for link.");
-                } else {
-                    toast.error("Failed to load dashboard data");
-                }
-            } finally {
+                toast.error("Failed to load dashboard data");
                 setLoading(false);
             }
         };
 
-        fetchBusinessData();
-        fetchReservations();
-    }, [user]);
+        subscribeReservations();
+
+        return () => {
+            cancelled = true;
+            unsubscribe?.();
+        };
+    }, [user, restaurantData.placeId, business]);
+
+    const canAddLocations = BUSINESS_LIMITS[userPlan].multiLocation;
+    const showLocations = canAddLocations || locations.length > 1;
+
+    const switchLocation = async (placeId: string) => {
+        if (!user || placeId === restaurantData.placeId) return;
+        setLoading(true);
+        setReservations([]);
+        setRestaurantData(prev => ({ ...prev, placeId }));
+        try {
+            // Reopen on this location next time
+            await updateDoc(doc(db, "users", user.uid), { "business.placeId": placeId });
+        } catch (error) {
+            console.warn("Failed to remember the selected location:", error);
+        }
+    };
+
+    // "19:00–20:30" - stored end time, or the current turn-time rules for older bookings
+    const formatSitting = (res: Reservation) => {
+        const [h, m] = res.time.split(":").map(Number);
+        if (isNaN(h) || isNaN(m)) return res.time;
+        const start = h * 60 + m;
+        const end = (res.endMinutes ?? start + getDiningMinutes(seatingRules, res.guests, start)) % (24 * 60);
+        return `${res.time}–${String(Math.floor(end / 60)).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`;
+    };
+
+    const setTableIds = (reservationId: string, tableIds: string[]) => {
+        setReservations(prev => prev.map(r => r.id === reservationId ? { ...r, tableIds } : r));
+    };
 
-    const handleStatusUpdate = async (reservationId: string, newStatus: 'confirmed' | 'rejected') => {
+    const handleStatusUpdate = async (reservationId: string, newStatus: ReservationStatus) => {
         if (!user) return;
 
-        // Optimistic update
-        setReservations(prev => prev.map(r =>
-            r.id === reservationId ? { ...r, status: newStatus } : r
-        ));
-        setStats(prev => ({
-            ...prev,
-            pending: prev.pending - 1,
-            confirmed: newStatus === 'confirmed' ? prev.confirmed + 1 : prev.confirmed
-        }));
+        let reason: string | undefined;
+        if (NEEDS_REASON.includes(newStatus)) {
+            const input = prompt(`Reason for the guest (optional) - ${RESERVATION_STATUS_LABELS[newStatus].toLowerCase()}:`);
+            if (input === null) return;
+            reason = input.trim() || undefined;
+        }
 
         try {
             const token = await user.getIdToken();
@@ -284,22 +399,52 @@ export default function BusinessDashboard() {
                     "Content-Type": "application/json",
                     "Authorization": `Bearer ${token}`
                 },
-                body: JSON.stringify({ reservationId, status: newStatus })
+                body: JSON.stringify({ reservationId, status: newStatus, reason })
             });
 
+            const data = await res.json();
             if (!res.ok) {
-                const data = await res.json();
                 toast.error(data.error || "Failed to update status");
-                // Revert on error (could be improved by refetching)
-            } else {
-                toast.success(`Reservation ${newStatus}`);
+                return;
             }
+
+            // The snapshot listener picks up the new status, tables and deposit
+            toast.success(`Reservation: ${RESERVATION_STATUS_LABELS[newStatus].toLowerCase()}`);
         } catch (error) {
             console.error("Status update error:", error);
             toast.error("Failed to call API");
         }
     };
 
+    const lifecycleActions = (res: Reservation) => getNextStatuses(res.status, "owner")
+        .filter(status => LIFECYCLE_ACTIONS[status])
+        .map(status => (
+            <Button
+                key={status}
+                size="sm"
+                variant="outline"
+                className={`h-7 text-xs ${status === 'cancelled_by_venue' ? 'text-red-600 hover:text-red-700 border-red-200' : ''}`}
+                onClick={() => handleStatusUpdate(res.id, status)}
+            >
+                {LIFECYCLE_ACTIONS[status]}
+            </Button>
+        ));
+
+    const hasTable = (res: Reservation) => res.status === 'confirmed' || res.status === 'seated';
+
+    // Owners can't confirm until the guest has paid (deposits.ts) or accepted a waitlist offer (waitlist.ts)
+    const confirmBlocker = (res: Reservation): string | undefined => {
+        if (res.waitlistOffer && !res.waitlistOffer.acceptedAt) return "Held for a waitlisted guest until they accept";
+        if (res.deposit?.status === 'requires_payment') return "Waiting for the guest's deposit";
+        return undefined;
+    };
+
+    const depositNote = (res: Reservation) => res.deposit && (
+        <span className={`text-xs ${res.deposit.status === 'captured' ? 'text-orange-600' : 'text-muted-foreground'}`}>
+            {DEPOSIT_STATUS_LABELS[res.deposit.status]} · {formatDeposit(res.deposit.amount)}
+        </span>
+    );
+
 
 
     if (loading) {
@@ -321,7 +466,19 @@ export default function BusinessDashboard() {
                                 <h1 className="text-3xl font-bold tracking-tight">{restaurantData.name || "Business Dashboard"}</h1>
                                 <p className="text-muted-foreground mt-1">Manage your restaurant and track upcoming reservations.</p>
                             </div>
-                            <div className="flex items-center gap-4">
+                            <div className="flex flex-wrap items-center gap-4">
+                                {showLocations && (
+                                    <LocationSwitcher
+                                        locations={locations}
+                                        activePlaceId={restaurantData.placeId}
+                                        canAddLocations={canAddLocations}
+                                        onSwitch={switchLocation}
+                                        onAdded={(location) => {
+                                            setLocations(prev => [...prev, location]);
+                                            switchLocation(location.placeId);
+                                        }}
+                                    />
+                                )}
                                 <Badge variant="outline" className={`px-4 py-1 text-sm bg-background ${userPlan !== "free" ? "border-primary" : ""}`}>
                                     <Sparkles className="h-4 w-4 mr-2 text-primary fill-primary/20" />
                                     {userPlan === "free" ? "Free Plan" : `${userPlan.charAt(0).toUpperCase() + userPlan.slice(1)} Plan`}
@@ -350,6 +507,8 @@ export default function BusinessDashboard() {
                         <div className="flex gap-2 p-1 bg-gray-100 rounded-2xl w-fit overflow-x-auto scrollbar-hide touch-pan-x max-w-full">
                             {[
                                 { id: 'overview', label: 'Overview', icon: Users },
+                                ...(showLocations ? [{ id: 'locations', label: 'Locations', icon: Building2 }] : []),
+                                { id: 'service', label: 'Today', icon: CalendarClock },
                                 { id: 'menu', label: 'Menu', icon: Sparkles },
                                 { id: 'tables', label: 'Tables', icon: Users },
                                 { id: 'hours', label: 'Hours', icon: Clock },
@@ -359,7 +518,7 @@ export default function BusinessDashboard() {
                             ].map(tab => (
                                 <button
                                     key={tab.id}
-                                    onClick={() => setActiveTab(tab.id as 'overview' | 'menu' | 'tables' | 'hours' | 'pricing' | 'subscription' | 'settings')}
+                                    onClick={() => setActiveTab(tab.id as DashboardTab)}
                                     className={`flex items-center gap-2 px-6 py-2.5 rounded-xl font-bold text-sm transition-all whitespace-nowrap ${activeTab === tab.id ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
                                 >
                                     <tab.icon className="h-4 w-4" />
@@ -368,6 +527,19 @@ export default function BusinessDashboard() {
                             ))}
                         </div>
 
+                        {activeTab === 'locations' && locations.length > 0 && (
+                            <motion.section initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+                                <LocationsOverview
+                                    locations={locations}
+                                    canCopy={canAddLocations}
+                                    onOpenLocation={(placeId) => {
+                                        switchLocation(placeId);
+                                        setActiveTab('overview');
+                                    }}
+                                />
+                            </motion.section>
+                        )}
+
                         {activeTab === 'menu' && restaurantData.placeId && (
                             <motion.section initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
                                 <MenuEditor placeId={restaurantData.placeId} />
@@ -384,6 +556,10 @@ export default function BusinessDashboard() {
                         {activeTab === 'tables' && restaurantData.placeId && (
                             <motion.section initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
                                 <TableManager placeId={restaurantData.placeId} />
+                                <div className="mt-6 max-w-3xl space-y-6">
+                                    <SeatingRulesEditor placeId={restaurantData.placeId} />
+                                    <ReservationPolicyEditor placeId={restaurantData.placeId} />
+                                </div>
                             </motion.section>
                         )}
 
@@ -594,13 +770,22 @@ export default function BusinessDashboard() {
                                         </CardFooter>
                                     </Card>
                                 </div>
+
+                                {user && (
+                                    <div className="mt-6">
+                                        <CoverBilling uid={user.uid} plan={userPlan} />
+                                    </div>
+                                )}
                             </motion.section>
                         )}
 
                         {activeTab === 'settings' && (
                             <motion.section initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="max-w-3xl">
                                 {restaurantData.placeId ? (
-                                    <RestaurantEditor placeId={restaurantData.placeId} />
+                                    <div className="space-y-6">
+                                        <RestaurantEditor placeId={restaurantData.placeId} />
+                                        <CalendarFeedSettings placeId={restaurantData.placeId} />
+                                    </div>
                                 ) : (
                                     <div className="text-center py-10">
                                         <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
@@ -610,6 +795,19 @@ export default function BusinessDashboard() {
                             </motion.section>
                         )}
 
+                        {activeTab === 'service' && restaurantData.placeId && (
+                            <motion.section initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+                                <ServiceView
+                                    placeId={restaurantData.placeId}
+                                    reservations={reservations}
+                                    floorPlan={floorPlan}
+                                    seatingRules={seatingRules}
+                                    timeSource={timeSource}
+                                    onStatusUpdate={handleStatusUpdate}
+                                />
+                            </motion.section>
+                        )}
+
                         {activeTab === 'overview' && (
                             <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-8">
 
@@ -647,6 +845,10 @@ export default function BusinessDashboard() {
                                     </Card>
                                 </div>
 
+                                {user && <GuestUpdates uid={user.uid} />}
+
+                                {restaurantData.placeId && <WaitlistPanel placeId={restaurantData.placeId} />}
+
                                 {/* Reservations List */}
                                 <Card className="border-none shadow-sm">
                                     <CardHeader>
@@ -673,12 +875,8 @@ export default function BusinessDashboard() {
                                                                             <p className="text-sm text-gray-600">{res.customerEmail}</p>
                                                                             <p className="text-sm text-gray-600">{res.customerPhone}</p>
                                                                         </div>
-                                                                        <Badge className={
-                                                                            res.status === 'confirmed' ? 'bg-green-100 text-green-700 border-none' :
-                                                                                res.status === 'pending' ? 'bg-yellow-100 text-yellow-700 border-none' :
-                                                                                    'bg-red-100 text-red-700 border-none'
-                                                                        }>
-                                                                            {res.status}
+                                                                        <Badge className={`${RESERVATION_STATUS_COLORS[res.status] || 'bg-gray-100 text-gray-700'} border-none`}>
+                                                                            {RESERVATION_STATUS_LABELS[res.status] || res.status}
                                                                         </Badge>
                                                                     </div>
                                                                     <div className="flex items-center gap-4 text-sm text-gray-600">
@@ -688,12 +886,21 @@ export default function BusinessDashboard() {
                                                                         </div>
                                                                         <div className="flex items-center gap-1">
                                                                             <Clock className="h-4 w-4" />
-                                                                            <span>{res.time}</span>
+                                                                            <span>{formatSitting(res)}</span>
                                                                         </div>
                                                                         <div className="flex items-center gap-1">
                                                                             <Users className="h-4 w-4" />
                                                                             <span>{res.guests}</span>
                                                                         </div>
+                                                                        {floorPlan.length > 0 && hasTable(res) && (
+                                                                            <TableAssignment
+                                                                                reservationId={res.id}
+                                                                                guests={res.guests}
+                                                                                tableIds={res.tableIds}
+                                                                                floorPlan={floorPlan}
+                                                                                onAssigned={(ids) => setTableIds(res.id, ids)}
+                                                                            />
+                                                                        )}
                                                                     </div>
                                                                     {res.status === 'pending' && (
                                                                         <div className="flex gap-2 pt-2">
@@ -710,6 +917,8 @@ export default function BusinessDashboard() {
                                                                                 size="sm"
                                                                                 variant="outline"
                                                                                 className="flex-1 text-green-600 hover:text-green-700 hover:bg-green-50 border-green-200"
+                                                                                disabled={!!confirmBlocker(res)}
+                                                                                title={confirmBlocker(res)}
                                                                                 onClick={() => handleStatusUpdate(res.id, 'confirmed')}
                                                                             >
                                                                                 <Check className="h-4 w-4 mr-1" />
@@ -717,6 +926,11 @@ export default function BusinessDashboard() {
                                                                             </Button>
                                                                         </div>
                                                                     )}
+                                                                    <div className="flex flex-wrap items-center gap-2">
+                                                                        {res.status !== 'pending' && lifecycleActions(res)}
+                                                                        <StatusHistory historyLog={res.historyLog} viewer="owner" />
+                                                                        {depositNote(res)}
+                                                                    </div>
                                                                 </div>
                                                             </Card>
                                                         ))}
@@ -730,6 +944,7 @@ export default function BusinessDashboard() {
                                                                     <th className="px-6 py-3 font-semibold">Customer</th>
                                                                     <th className="px-6 py-3 font-semibold">Date & Time</th>
                                                                     <th className="px-6 py-3 font-semibold text-center">Party</th>
+                                                                    {floorPlan.length > 0 && <th className="px-6 py-3 font-semibold">Table</th>}
                                                                     <th className="px-6 py-3 font-semibold">Contact</th>
                                                                     <th className="px-6 py-3 font-semibold">Status</th>
                                                                     <th className="px-6 py-3 font-semibold text-right">Actions</th>
@@ -742,24 +957,37 @@ export default function BusinessDashboard() {
                                                                         <td className="px-6 py-4 whitespace-nowrap">
                                                                             <div className="flex flex-col">
                                                                                 <span className="font-medium">{res.date.toDate().toLocaleDateString()}</span>
-                                                                                <span className="text-gray-500 text-xs">{res.time}</span>
+                                                                                <span className="text-gray-500 text-xs">{formatSitting(res)}</span>
                                                                             </div>
                                                                         </td>
                                                                         <td className="px-6 py-4 text-center">
                                                                             <Badge variant="secondary" className="font-bold">{res.guests} pers.</Badge>
                                                                         </td>
+                                                                        {floorPlan.length > 0 && (
+                                                                            <td className="px-6 py-4">
+                                                                                {hasTable(res) && (
+                                                                                    <TableAssignment
+                                                                                        reservationId={res.id}
+                                                                                        guests={res.guests}
+                                                                                        tableIds={res.tableIds}
+                                                                                        floorPlan={floorPlan}
+                                                                                        onAssigned={(ids) => setTableIds(res.id, ids)}
+                                                                                    />
+                                                                                )}
+                                                                            </td>
+                                                                        )}
                                                                         <td className="px-6 py-4 text-xs text-gray-500">
                                                                             <div>{res.customerEmail}</div>
                                                                             <div>{res.customerPhone}</div>
                                                                         </td>
                                                                         <td className="px-6 py-4">
-                                                                            <Badge className={
-                                                                                res.status === 'confirmed' ? 'bg-green-100 text-green-700 hover:bg-green-200 border-none' :
-                                                                                    res.status === 'pending' ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200 border-none' :
-                                                                                        'bg-red-100 text-red-700 border-none'
-                                                                            }>
-                                                                                {res.status}
-                                                                            </Badge>
+                                                                            <div className="flex items-center gap-1">
+                                                                                <Badge className={`${RESERVATION_STATUS_COLORS[res.status] || 'bg-gray-100 text-gray-700'} border-none whitespace-nowrap`}>
+                                                                                    {RESERVATION_STATUS_LABELS[res.status] || res.status}
+                                                                                </Badge>
+                                                                                <StatusHistory historyLog={res.historyLog} viewer="owner" />
+                                                                            </div>
+                                                                            {depositNote(res)}
                                                                         </td>
                                                                         <td className="px-6 py-4 text-right">
                                                                             {res.status === 'pending' && (
@@ -776,12 +1004,17 @@ export default function BusinessDashboard() {
                                                                                         size="sm"
                                                                                         variant="outline"
                                                                                         className="h-8 w-8 p-0 text-green-600 hover:text-green-700 hover:bg-green-50 border-green-200"
+                                                                                        disabled={!!confirmBlocker(res)}
+                                                                                        title={confirmBlocker(res)}
                                                                                         onClick={() => handleStatusUpdate(res.id, 'confirmed')}
                                                                                     >
                                                                                         <Check className="h-4 w-4" />
                                                                                     </Button>
                                                                                 </div>
                                                                             )}
+                                                                            {res.status !== 'pending' && (
+                                                                                <div className="flex justify-end gap-1">{lifecycleActions(res)}</div>
+                                                                            )}
                                                                         </td>
                                                                     </tr>
                                                                 ))}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { doc, getDoc } from "firebase/firestore";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/components/auth-provider";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MatchScoreBadge } from "@/components/search/MatchScoreBadge";
+import { CategoryPlaceholder } from "@/components/CategoryPlaceholder";
+import { Bookmark, Lock, MapPin, Share2, Star } from "lucide-react";
+import type { GeminiScore, SavedList, UserPreferences } from "@/types";
+
+interface SharedListClientProps {
+    list: SavedList;
+}
+
+const SCORE_BATCH_SIZE = 10;  // batch-score accepts up to 10 places per call
+
+/**
+ * Public list view. Signed-in viewers get match scores for their own profile.
+ */
+export default function SharedListClient({ list }: SharedListClientProps) {
+    const { user } = useAuth();
+    const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+    const [scores, setScores] = useState<Record<string, GeminiScore>>({});
+    const [scoring, setScoring] = useState(false);
+    const [limitReached, setLimitReached] = useState(false);
+
+    useEffect(() => {
+        if (!user) return;
+        getDoc(doc(db, "users", user.uid, "preferences", "main"))
+            .then(snap => { if (snap.exists()) setPreferences(snap.data() as UserPreferences); })
+            .catch(error => console.error("[SharedList] Failed to load preferences:", error));
+    }, [user]);
+
+    // Score the list for the viewer (cached per profile on the server)
+    useEffect(() => {
+        if (!user || !preferences || list.places.length === 0) return;
+        let cancelled = false;
+
+        const scoreList = async () => {
+            setScoring(true);
+            try {
+                const token = await user.getIdToken();
+                for (let i = 0; i < list.places.length && !cancelled; i += SCORE_BATCH_SIZE) {
+                    const res = await fetch("/api/gemini/batch-score", {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                        body: JSON.stringify({
+                            places: list.places.slice(i, i + SCORE_BATCH_SIZE).map(p => ({
+                                place_id: p.placeId,
+                                name: p.name,
+                                types: p.types,
+                                rating: p.rating,
+                                vicinity: p.address
+                            })),
+                            userProfile: preferences,
+                            userId: user.uid
+                        })
+                    });
+                    const data = await res.json();
+                    if (data.limitReached) {
+                        setLimitReached(true);
+                        return;
+                    }
+                    if (!cancelled && data.results) {
+                        const batch: Record<string, GeminiScore> = {};
+                        data.results.forEach((r: { place_id: string; score: GeminiScore }) => {
+                            batch[r.place_id] = r.score;
+                        });
+                        setScores(prev => ({ ...prev, ...batch }));
+                    }
+                }
+            } catch (error) {
+                console.error("[SharedList] Scoring failed:", error);
+            } finally {
+                if (!cancelled) setScoring(false);
+            }
+        };
+
+        scoreList();
+        return () => { cancelled = true; };
+    }, [user, preferences, list.places]);
+
+    const handleShare = async () => {
+        const url = window.location.href;
+        try {
+            if (navigator.share) {
+                await navigator.share({ title: list.name, url });
+            } else {
+                await navigator.clipboard.writeText(url);
+                toast.success("Link copied");
+            }
+        } catch {
+            // Share sheet dismissed
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-10 px-4">
+            <div className="max-w-3xl mx-auto space-y-6">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <Bookmark className="h-4 w-4" /> List by {list.ownerName}
+                        </p>
+                        <h1 className="text-3xl font-bold text-gray-900">{list.name}</h1>
+                        {list.description && <p className="text-gray-600 mt-1">{list.description}</p>}
+                        <p className="text-xs text-gray-400 mt-1">{list.places.length} places</p>
+                    </div>
+                    <Button variant="outline" size="sm" className="gap-2 shrink-0" onClick={handleShare}>
+                        <Share2 className="h-4 w-4" /> Share
+                    </Button>
+                </div>
+
+                {!user && (
+                    <Card className="p-4 text-sm flex items-center justify-between gap-4 bg-primary/5 border-primary/20">
+                        <span>Sign in to see how well each place matches your diet.</span>
+                        <Link href="/login"><Button size="sm">Sign in</Button></Link>
+                    </Card>
+                )}
+                {limitReached && (
+                    <p className="text-sm text-amber-600 flex items-center gap-1">
+                        <Lock className="h-4 w-4" /> AI scan limit reached - scores are paused.
+                    </p>
+                )}
+
+                {list.places.length === 0 ? (
+                    <Card className="p-12 text-center text-muted-foreground">This list is empty.</Card>
+                ) : (
+                    <div className="grid gap-3">
+                        {list.places.map(place => {
+                            const score = scores[place.placeId];
+                            return (
+                                <Link key={place.placeId} href={`/place/${place.placeId}`} prefetch={false}>
+                                    <Card className="overflow-hidden hover:shadow-md transition-shadow">
+                                        <div className="flex">
+                                            <div className="w-28 h-24 shrink-0 bg-gray-200">
+                                                {place.photoUrl ? (
+                                                    // eslint-disable-next-line @next/next/no-img-element
+                                                    <img src={place.photoUrl} alt={place.name} className="w-full h-full object-cover" loading="lazy" />
+                                                ) : (
+                                                    <CategoryPlaceholder types={place.types} className="w-full h-full" />
+                                                )}
+                                            </div>
+                                            <CardContent className="flex-1 p-3 flex items-center gap-3 min-w-0">
+                                                <div className="flex-1 min-w-0">
+                                                    <h3 className="font-semibold truncate">{place.name}</h3>
+                                                    {place.rating !== undefined && (
+                                                        <p className="text-xs text-yellow-500 font-bold flex items-center">
+                                                            {place.rating} <Star className="h-3 w-3 fill-current ml-0.5" />
+                                                        </p>
+                                                    )}
+                                                    {place.address && (
+                                                        <p className="text-xs text-muted-foreground flex items-center mt-1">
+                                                            <MapPin className="h-3 w-3 mr-1 shrink-0" />
+                                                            <span className="truncate">{place.address}</span>
+                                                        </p>
+                                                    )}
+                                                    {score?.shortReason && (
+                                                        <p className="text-xs text-gray-600 mt-1 line-clamp-1">{score.shortReason}</p>
+                                                    )}
+                                                </div>
+                                                {score && typeof score.matchScore === "number" ? (
+                                                    <MatchScoreBadge score={score.matchScore} size="sm" />
+                                                ) : scoring ? (
+                                                    <div className="w-10 h-10 rounded-full bg-gray-200 animate-pulse shrink-0" />
+                                                ) : null}
+                                            </CardContent>
+                                        </div>
+                                    </Card>
+                                </Link>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
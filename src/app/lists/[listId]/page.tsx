@@ -0,0 +1,77 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getAdminDb } from "@/lib/firebase-admin";
+import type { SavedList } from "@/types";
+import SharedListClient from "./list-client";
+
+interface PageProps {
+    params: Promise<{ listId: string }>;
+}
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+// Shared by generateMetadata and the page - one Firestore read per request
+const getPublicList = cache(async (listId: string): Promise<SavedList | null> => {
+    try {
+        const snap = await getAdminDb().collection("lists").doc(listId).get();
+        if (!snap.exists) return null;
+        const list = { ...snap.data(), id: snap.id } as SavedList;
+        // Admin SDK bypasses rules - only public lists are rendered here
+        return list.isPublic ? list : null;
+    } catch (error) {
+        console.error("[SharedList] Failed to load list:", error);
+        return null;
+    }
+});
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+    const { listId } = await params;
+    const list = await getPublicList(listId);
+
+    if (!list) {
+        return { title: "List not available | NearSpotty", robots: { index: false } };
+    }
+
+    const title = `${list.name} · ${list.places.length} places | NearSpotty`;
+    const description = list.description
+        || `${list.ownerName}'s list: ${list.places.slice(0, 3).map(p => p.name).join(", ")}${list.places.length > 3 ? "…" : ""}`;
+    const image = list.places.find(p => p.photoUrl)?.photoUrl;
+
+    return {
+        metadataBase: new URL(APP_URL),
+        title,
+        description,
+        openGraph: {
+            title,
+            description,
+            url: `/lists/${list.id}`,
+            siteName: "NearSpotty",
+            type: "website",
+            ...(image ? { images: [{ url: image }] } : {})
+        },
+        twitter: {
+            card: image ? "summary_large_image" : "summary",
+            title,
+            description
+        }
+    };
+}
+
+export default async function SharedListPage({ params }: PageProps) {
+    const { listId } = await params;
+    const list = await getPublicList(listId);
+
+    if (!list) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center p-8 text-center bg-gray-50">
+                <p className="text-lg text-muted-foreground mb-4">
+                    This list doesn&apos;t exist or is private.
+                </p>
+                <Link href="/search" className="text-primary hover:underline">Discover places</Link>
+            </div>
+        );
+    }
+
+    return <SharedListClient list={list} />;
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { useAuth } from "@/components/auth-provider";
+import ProtectedRoute from "@/components/protected-route";
+import RoleGuard from "@/components/RoleGuard";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Bookmark, Link2, Loader2, Pencil, Trash2, X } from "lucide-react";
+import { deleteList, getListShareUrl, getUserLists, removePlaceFromList, updateList } from "@/lib/saved-lists";
+import type { SavedList } from "@/types";
+
+export default function SavedListsPage() {
+    const { user } = useAuth();
+    const [lists, setLists] = useState<SavedList[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState("");
+    const [draftDescription, setDraftDescription] = useState("");
+
+    useEffect(() => {
+        if (!user) return;
+        getUserLists(user.uid)
+            .then(setLists)
+            .catch(error => console.error("[SavedLists] Failed to load:", error))
+            .finally(() => setLoading(false));
+    }, [user]);
+
+    const patchLocal = (listId: string, patch: Partial<SavedList>) => {
+        setLists(prev => prev.map(l => l.id === listId ? { ...l, ...patch } : l));
+    };
+
+    const startEditing = (list: SavedList) => {
+        setEditingId(list.id);
+        setDraftName(list.name);
+        setDraftDescription(list.description || "");
+    };
+
+    const handleSaveDetails = async (listId: string) => {
+        const name = draftName.trim().slice(0, 60);
+        if (!name) return;
+        try {
+            await updateList(listId, { name, description: draftDescription.trim() });
+            patchLocal(listId, { name, description: draftDescription.trim() });
+            setEditingId(null);
+        } catch (error) {
+            console.error("[SavedLists] Update failed:", error);
+            toast.error("Failed to save list");
+        }
+    };
+
+    const handleTogglePublic = async (list: SavedList) => {
+        try {
+            await updateList(list.id, { isPublic: !list.isPublic });
+            patchLocal(list.id, { isPublic: !list.isPublic });
+        } catch (error) {
+            console.error("[SavedLists] Visibility change failed:", error);
+            toast.error("Failed to change visibility");
+        }
+    };
+
+    const handleCopyLink = async (listId: string) => {
+        await navigator.clipboard.writeText(getListShareUrl(listId));
+        toast.success("Share link copied");
+    };
+
+    const handleRemovePlace = async (listId: string, placeId: string) => {
+        try {
+            await removePlaceFromList(listId, placeId);
+            setLists(prev => prev.map(l => l.id === listId ? { ...l, places: l.places.filter(p => p.placeId !== placeId) } : l));
+        } catch (error) {
+            console.error("[SavedLists] Remove failed:", error);
+            toast.error("Failed to remove place");
+        }
+    };
+
+    const handleDelete = async (listId: string) => {
+        if (!confirm("Delete this list?")) return;
+        try {
+            await deleteList(listId);
+            setLists(prev => prev.filter(l => l.id !== listId));
+        } catch (error) {
+            console.error("[SavedLists] Delete failed:", error);
+            toast.error("Failed to delete list");
+        }
+    };
+
+    return (
+        <ProtectedRoute>
+            <RoleGuard allowedRole="diner">
+                <div className="min-h-screen bg-gray-50 py-10 px-4">
+                    <div className="max-w-4xl mx-auto space-y-8">
+                        <div className="flex justify-between items-center">
+                            <h1 className="text-3xl font-bold text-gray-900">Saved Lists</h1>
+                            <Link href="/search">
+                                <Button variant="outline">Find More Places</Button>
+                            </Link>
+                        </div>
+
+                        {loading ? (
+                            <div className="flex justify-center p-12">
+                                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                            </div>
+                        ) : lists.length === 0 ? (
+                            <Card className="p-12 text-center">
+                                <div className="flex flex-col items-center space-y-4">
+                                    <Bookmark className="h-12 w-12 text-gray-300" />
+                                    <h2 className="text-xl font-medium">No lists yet</h2>
+                                    <p className="text-muted-foreground">Tap the bookmark on any place to start a list.</p>
+                                </div>
+                            </Card>
+                        ) : (
+                            <div className="grid gap-4">
+                                {lists.map(list => (
+                                    <Card key={list.id}>
+                                        <CardContent className="p-6 space-y-4">
+                                            {editingId === list.id ? (
+                                                <div className="space-y-2">
+                                                    <Input value={draftName} onChange={(e) => setDraftName(e.target.value)} maxLength={60} placeholder="List name" />
+                                                    <Input value={draftDescription} onChange={(e) => setDraftDescription(e.target.value)} maxLength={200} placeholder="Description (optional)" />
+                                                    <div className="flex gap-2">
+                                                        <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>Cancel</Button>
+                                                        <Button size="sm" onClick={() => handleSaveDetails(list.id)} disabled={!draftName.trim()}>Save</Button>
+                                                    </div>
+                                                </div>
+                                            ) : (
+                                                <div className="flex items-start justify-between gap-4">
+                                                    <div className="min-w-0">
+                                                        <h3 className="text-xl font-bold text-gray-900 truncate">{list.name}</h3>
+                                                        {list.description && <p className="text-sm text-gray-600">{list.description}</p>}
+                                                        <p className="text-xs text-gray-400">{list.places.length} places</p>
+                                                    </div>
+                                                    <div className="flex gap-1 shrink-0">
+                                                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => startEditing(list)} title="Rename">
+                                                            <Pencil className="h-4 w-4 text-gray-500" />
+                                                        </Button>
+                                                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(list.id)} title="Delete list">
+                                                            <Trash2 className="h-4 w-4 text-gray-500" />
+                                                        </Button>
+                                                    </div>
+                                                </div>
+                                            )}
+
+                                            <div className="flex flex-wrap items-center gap-3 text-sm">
+                                                <label className="flex items-center gap-2">
+                                                    <Switch checked={list.isPublic} onCheckedChange={() => handleTogglePublic(list)} />
+                                                    {list.isPublic ? "Public - anyone with the link can view" : "Private"}
+                                                </label>
+                                                {list.isPublic && (
+                                                    <>
+                                                        <Button size="sm" variant="outline" className="gap-2" onClick={() => handleCopyLink(list.id)}>
+                                                            <Link2 className="h-4 w-4" /> Copy link
+                                                        </Button>
+                                                        <Link href={`/lists/${list.id}`} className="text-primary hover:underline">Open</Link>
+                                                    </>
+                                                )}
+                                            </div>
+
+                                            {list.places.length > 0 && (
+                                                <ul className="divide-y border rounded-xl">
+                                                    {list.places.map(place => (
+                                                        <li key={place.placeId} className="flex items-center gap-3 p-2.5">
+                                                            <Link href={`/place/${place.placeId}`} className="flex-1 min-w-0 hover:text-primary">
+                                                                <p className="font-medium text-sm truncate">{place.name}</p>
+                                                                {place.address && <p className="text-xs text-gray-500 truncate">{place.address}</p>}
+                                                            </Link>
+                                                            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleRemovePlace(list.id, place.placeId)} title="Remove">
+                                                                <X className="h-4 w-4 text-gray-400" />
+                                                            </Button>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </RoleGuard>
+        </ProtectedRoute>
+    );
+}
@@ -5,11 +5,12 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { doc, setDoc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/components/auth-provider";
+import { useI18n } from "@/components/i18n-provider";
+import { ALLERGEN_IDS, allergenLabel } from "@/lib/allergens";
 import ProtectedRoute from "@/components/protected-route";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Slider } from "@/components/ui/slider";
-import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { motion, AnimatePresence } from "framer-motion";
 import toast, { Toaster } from "react-hot-toast";
@@ -37,6 +38,7 @@ const CUISINE_OPTIONS = ["Italian", "Mexican", "Japanese", "Indian", "Chinese",
  */
 function OnboardingForm() {
     const { user, userRole } = useAuth();
+    const { locale } = useI18n();
     const router = useRouter();
     const searchParams = useSearchParams();
     const redirectPath = searchParams.get("redirect");
@@ -45,7 +47,7 @@ function OnboardingForm() {
     const [loading, setLoading] = useState(false);
     const [formData, setFormData] = useState({
         dietary: [] as string[],
-        allergies: "",
+        allergies: [] as string[],
         cuisines: [] as string[],
         radius: 5,
         budget: "any" as 'low' | 'medium' | 'high' | 'any',
@@ -129,7 +131,7 @@ function OnboardingForm() {
                 </CardTitle>
                 <CardDescription>
                     {step === 0 && "Select the dietary requirements you follow."}
-                    {step === 1 && "List any allergies we should watch out for."}
+                    {step === 1 && "Select any allergies we should watch out for."}
                     {step === 2 && "Customize your search experience."}
                 </CardDescription>
             </CardHeader>
@@ -178,16 +180,24 @@ function OnboardingForm() {
                             exit={{ opacity: 0, x: -20 }}
                             className="space-y-4"
                         >
-                            <div className="space-y-2">
-                                <Textarea
-                                    id="allergies"
-                                    placeholder="e.g. Peanuts, Shellfish, Soy..."
-                                    className="min-h-[150px]"
-                                    value={formData.allergies}
-                                    onChange={(e) => updateFormData("allergies", e.target.value)}
-                                />
-                                <p className="text-sm text-gray-500">Our AI will specifically check reviews for mentions of these allergens.</p>
+                            <div className="flex flex-wrap gap-2">
+                                {ALLERGEN_IDS.map((allergen) => {
+                                    const isSelected = formData.allergies.includes(allergen);
+                                    return (
+                                        <div
+                                            key={allergen}
+                                            onClick={() => {
+                                                const current = formData.allergies;
+                                                updateFormData("allergies", isSelected ? current.filter(a => a !== allergen) : [...current, allergen]);
+                                            }}
+                                            className={`px-3 py-1.5 rounded-full text-sm font-medium border cursor-pointer transition-colors ${isSelected ? 'bg-primary text-primary-foreground border-primary' : 'bg-background hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                                        >
+                                            {allergenLabel(allergen, locale)}
+                                        </div>
+                                    );
+                                })}
                             </div>
+                            <p className="text-sm text-gray-500">Restaurants with an allergen-labelled menu are checked dish by dish; for the rest our AI checks reviews for mentions of these allergens.</p>
                         </motion.div>
                     )}
 
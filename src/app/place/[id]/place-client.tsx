@@ -12,7 +12,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Loader2, Star, MapPin, Phone, Globe, Clock, ArrowLeft, Sparkles, CheckCircle2, XCircle, Utensils, CalendarDays, Share2, Info, Image as ImageIcon } from "lucide-react";
 import { ReservationModal } from "@/components/reservation/reservation-modal";
 import { MatchScoreBadge } from "@/components/search/MatchScoreBadge";
+import { SaveToListButton } from "@/components/search/SaveToListButton";
 import PlaceLightbox from "@/components/search/PlaceLightbox";
+import { PlaceMenu } from "@/components/search/PlaceMenu";
 
 interface PlaceDetailsClientProps {
     place: Place;
@@ -117,6 +119,10 @@ export default function PlaceDetailsClient({ place }: PlaceDetailsClientProps) {
                     </Button>
                 </div>
 
+                <div className="absolute top-4 right-4 z-10">
+                    <SaveToListButton place={place} variant="button" className="bg-white/90 hover:bg-white" />
+                </div>
+
                 <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-6 md:p-10 pt-20">
                     <div className="container mx-auto max-w-5xl">
                         <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
@@ -301,19 +307,23 @@ export default function PlaceDetailsClient({ place }: PlaceDetailsClientProps) {
                         {/* TAB CONTENT: MENU */}
                         {activeTab === 'menu' && (
                             <div className="space-y-6">
-                                <div className="text-center py-10 bg-white border rounded-xl border-dashed">
-                                    <Utensils className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
-                                    <h3 className="text-lg font-medium">Menu</h3>
-                                    {place.website ? (
-                                        <div className="mt-4">
-                                            <Button variant="outline" onClick={() => window.open(place.website, '_blank')}>
-                                                Verify Menu on Website
-                                            </Button>
-                                        </div>
-                                    ) : (
-                                        <p className="text-sm text-muted-foreground mt-2">No online menu detected. Try calling the venue.</p>
-                                    )}
-                                </div>
+                                {place.menus?.length ? (
+                                    <PlaceMenu menus={place.menus} timeZone={place.timeZone} />
+                                ) : (
+                                    <div className="text-center py-10 bg-white border rounded-xl border-dashed">
+                                        <Utensils className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                                        <h3 className="text-lg font-medium">Menu</h3>
+                                        {place.website ? (
+                                            <div className="mt-4">
+                                                <Button variant="outline" onClick={() => window.open(place.website, '_blank')}>
+                                                    Verify Menu on Website
+                                                </Button>
+                                            </div>
+                                        ) : (
+                                            <p className="text-sm text-muted-foreground mt-2">No online menu detected. Try calling the venue.</p>
+                                        )}
+                                    </div>
+                                )}
 
                                 {aiScore?.recommendedDish && (
                                     <div className="bg-orange-50 p-4 rounded-lg border border-orange-100">
@@ -10,7 +10,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/components/auth-provider";
+import { useI18n } from "@/components/i18n-provider";
+import { ALLERGEN_IDS, allergenLabel, toAllergenIds } from "@/lib/allergens";
 import ProtectedRoute from "@/components/protected-route";
+import { SearchHistory } from "@/components/search/SearchHistory";
+import { NotificationSettings } from "@/components/profile/NotificationSettings";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Calendar, CreditCard, LogOut, LayoutDashboard, ChevronLeft } from "lucide-react";
@@ -28,9 +32,10 @@ const DIETARY_OPTIONS = [
 
 export default function ProfilePage() {
     const { user, userRole } = useAuth();
+    const { locale } = useI18n();
     const [loading, setLoading] = useState(false);
     const [dietary, setDietary] = useState<string[]>([]);
-    const [allergies, setAllergies] = useState("");
+    const [allergies, setAllergies] = useState<string[]>([]);
     const [budget, setBudget] = useState<'low' | 'medium' | 'high' | 'any'>('any');
     const router = useRouter();
 
@@ -40,7 +45,8 @@ export default function ProfilePage() {
                 if (snap.exists()) {
                     const data = snap.data();
                     setDietary(data.preferences?.dietary || []);
-                    setAllergies(data.preferences?.allergies || "");
+                    // Older profiles keep allergies as free text
+                    setAllergies(toAllergenIds(data.preferences?.allergies));
                     setBudget(data.preferences?.budget || 'any');
                 }
             });
@@ -77,6 +83,10 @@ export default function ProfilePage() {
         setDietary(prev => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]);
     };
 
+    const toggleAllergy = (id: string) => {
+        setAllergies(prev => prev.includes(id) ? prev.filter(a => a !== id) : [...prev, id]);
+    };
+
     const handleLogout = async () => {
         try {
             await signOut(auth);
@@ -141,13 +151,19 @@ export default function ProfilePage() {
                                         ))}
                                     </div>
                                     <div className="space-y-2">
-                                        <Label htmlFor="allergies">Allergies</Label>
-                                        <Input
-                                            id="allergies"
-                                            value={allergies}
-                                            onChange={(e) => setAllergies(e.target.value)}
-                                            placeholder="e.g. Nuts, Soy"
-                                        />
+                                        <Label>Allergies</Label>
+                                        <div className="flex flex-wrap gap-2">
+                                            {ALLERGEN_IDS.map(id => (
+                                                <button
+                                                    key={id}
+                                                    type="button"
+                                                    onClick={() => toggleAllergy(id)}
+                                                    className={`px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-all ${allergies.includes(id) ? 'bg-destructive border-destructive text-white shadow-lg shadow-destructive/20' : 'bg-white border-gray-100 text-gray-400 hover:border-gray-200'}`}
+                                                >
+                                                    {allergenLabel(id, locale)}
+                                                </button>
+                                            ))}
+                                        </div>
                                     </div>
 
                                     <div className="space-y-2">
@@ -202,6 +218,10 @@ export default function ProfilePage() {
                         </CardContent>
                     </Card>
 
+                    {user && <NotificationSettings uid={user.uid} role={userRole} />}
+
+                    {user && <SearchHistory userId={user.uid} />}
+
                     <Button variant="outline" onClick={handleLogout} className="w-full h-14 rounded-full font-bold border-2 border-gray-100 text-gray-500 hover:bg-destructive hover:text-white transition-all">
                         <LogOut className="h-5 w-5 mr-3" /> Sign Out from NearSpotty
                     </Button>
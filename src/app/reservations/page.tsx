@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { collection, query, where, orderBy, getDocs } from "firebase/firestore";
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { collection, query, where, orderBy, getDocs, doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/components/auth-provider";
 import ProtectedRoute from "@/components/protected-route";
@@ -9,9 +10,17 @@ import RoleGuard from "@/components/RoleGuard";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader2, Calendar, Users, Clock, ExternalLink } from "lucide-react";
+import { Loader2, Calendar, Users, Clock, ExternalLink, Info } from "lucide-react";
 import { format } from "date-fns";
 import Link from "next/link";
+import toast from "react-hot-toast";
+import { StatusHistory } from "@/components/reservation/StatusHistory";
+import { ModifyReservationDialog } from "@/components/reservation/ModifyReservationDialog";
+import { WaitlistEntries } from "@/components/reservation/WaitlistEntries";
+import { AddToCalendarButton } from "@/components/reservation/AddToCalendarButton";
+import { DEPOSIT_STATUS_LABELS, RESERVATION_STATUS_COLORS, RESERVATION_STATUS_LABELS, canTransition, formatDeposit } from "@/lib/reservation-status";
+import { canGuestChange, getChangeDeadline, resolveReservationPolicy } from "@/lib/reservation-policy";
+import type { ReservationDeposit, ReservationHistoryEntry, ReservationPolicy, ReservationStatus, ReservationWaitlistOffer } from "@/types";
 
 import { Timestamp } from "firebase/firestore";
 
@@ -20,16 +29,31 @@ interface Reservation {
     placeId: string;
     placeName: string;
     date: Timestamp;
+    dateKey?: string;        // Missing on bookings made before server-side booking
     time: string;
     guests: number;
-    status: string;
+    status: ReservationStatus;
+    historyLog?: ReservationHistoryEntry[];
+    deposit?: ReservationDeposit;
+    waitlistOffer?: ReservationWaitlistOffer;
     createdAt: Timestamp;
 }
 
-export default function ReservationsPage() {
+/** Reason the restaurant gave for the current status, if any */
+function latestReason(res: Reservation): string | undefined {
+    const last = res.historyLog?.[res.historyLog.length - 1];
+    return last?.status === res.status && last.by === "owner" ? last.reason : undefined;
+}
+
+function ReservationsContent() {
     const { user } = useAuth();
+    const searchParams = useSearchParams();
     const [reservations, setReservations] = useState<Reservation[]>([]);
     const [loading, setLoading] = useState(true);
+    const [policies, setPolicies] = useState<Record<string, ReservationPolicy>>({});
+    const [modifying, setModifying] = useState<Reservation | null>(null);
+    const [cancellingId, setCancellingId] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
 
     useEffect(() => {
         const fetchReservations = async () => {
@@ -46,6 +70,11 @@ export default function ReservationsPage() {
                     list.push({ id: doc.id, ...doc.data() } as Reservation);
                 });
                 setReservations(list);
+
+                // Change windows of the restaurants with upcoming bookings
+                const placeIds = [...new Set(list.filter(r => canTransition(r.status, "cancelled_by_guest", "diner")).map(r => r.placeId))];
+                const snaps = await Promise.all(placeIds.map(id => getDoc(doc(db, "restaurants", id))));
+                setPolicies(Object.fromEntries(snaps.map(snap => [snap.id, resolveReservationPolicy(snap.data()?.reservationPolicy)])));
             } catch (error) {
                 console.error("Error fetching reservations:", error);
             } finally {
@@ -54,7 +83,113 @@ export default function ReservationsPage() {
         };
 
         fetchReservations();
-    }, [user]);
+    }, [user, reloadKey]);
+
+    // Back from Stripe Checkout (deposits.ts)
+    useEffect(() => {
+        const deposit = searchParams.get("deposit");
+        if (deposit === "success") toast.success("Deposit received - the restaurant will confirm your booking shortly");
+        if (deposit === "cancelled") toast.error("Deposit not paid - the table is released once the payment window closes");
+    }, [searchParams]);
+
+    const changeState = (res: Reservation): { allowed: boolean; deadline: Date } | null => {
+        if (!canTransition(res.status, "cancelled_by_guest", "diner")) return null;
+        const policy = resolveReservationPolicy(policies[res.placeId]);
+        const startsAt = res.date.toDate();
+        return { allowed: canGuestChange(policy, startsAt), deadline: getChangeDeadline(policy, startsAt) };
+    };
+
+    const appendHistory = (res: Reservation, entry: Omit<ReservationHistoryEntry, "by" | "uid" | "timestamp">): ReservationHistoryEntry[] => [
+        ...(res.historyLog || []),
+        { ...entry, by: "diner", uid: user?.uid || null, timestamp: new Date().toISOString() }
+    ];
+
+    const handleCancel = async (res: Reservation) => {
+        if (!user || !confirm(`Cancel your reservation at ${res.placeName}?`)) return;
+
+        setCancellingId(res.id);
+        try {
+            const token = await user.getIdToken();
+            const response = await fetch("/api/reservations/update-status", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                body: JSON.stringify({ reservationId: res.id, status: "cancelled_by_guest" })
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                toast.error(data.error || "Failed to cancel reservation");
+                return;
+            }
+
+            setReservations(prev => prev.map(r => r.id === res.id
+                ? { ...r, status: "cancelled_by_guest", historyLog: appendHistory(r, { status: "cancelled_by_guest", from: r.status }) }
+                : r));
+            toast.success("Reservation cancelled");
+        } catch (error) {
+            console.error("Cancel error:", error);
+            toast.error("Failed to cancel reservation");
+        } finally {
+            setCancellingId(null);
+        }
+    };
+
+    // Cancel / Modify for bookings the guest can still change
+    const guestActions = (res: Reservation) => {
+        if (res.waitlistOffer && !res.waitlistOffer.acceptedAt) {
+            return <p className="text-xs text-muted-foreground">Waitlist offer - accept or decline it above</p>;
+        }
+        const change = changeState(res);
+        if (!change) return null;
+
+        return (
+            <div className="flex flex-col gap-2 md:items-end">
+                <div className="flex gap-2">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1 md:flex-none"
+                        disabled={!change.allowed || cancellingId === res.id}
+                        onClick={() => handleCancel(res)}
+                    >
+                        {cancellingId === res.id && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                        Cancel
+                    </Button>
+                    <Button
+                        size="sm"
+                        className="flex-1 md:flex-none"
+                        disabled={!change.allowed || !res.dateKey}
+                        onClick={() => setModifying(res)}
+                    >
+                        Modify
+                    </Button>
+                </div>
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Info className="h-3 w-3" />
+                    {change.allowed
+                        ? `Changes possible until ${format(change.deadline, "d MMM, HH:mm")}`
+                        : "Too late to change online - please call the restaurant"}
+                </p>
+            </div>
+        );
+    };
+
+    const handleModified = (res: Reservation, change: { date: string; time: string; guests: number; status: ReservationStatus }) => {
+        // Midday keeps the card on the right calendar day until the next reload
+        const [y, m, d] = change.date.split("-").map(Number);
+        setReservations(prev => prev.map(r => r.id === res.id ? {
+            ...r,
+            date: Timestamp.fromDate(new Date(y, m - 1, d, 12)),
+            dateKey: change.date,
+            time: change.time,
+            guests: change.guests,
+            status: change.status,
+            historyLog: appendHistory(r, {
+                status: change.status,
+                from: r.status,
+                change: `${r.dateKey} ${r.time}, ${r.guests} guests → ${change.date} ${change.time}, ${change.guests} guests`
+            })
+        } : r));
+    };
 
     return (
         <ProtectedRoute>
@@ -68,6 +203,8 @@ export default function ReservationsPage() {
                             </Link>
                         </div>
 
+                        <WaitlistEntries onChanged={() => setReloadKey(k => k + 1)} />
+
                         {loading ? (
                             <div className="flex justify-center p-12">
                                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -104,10 +241,19 @@ export default function ReservationsPage() {
                                                     <div className="space-y-3">
                                                         <div className="flex items-center gap-2">
                                                             <h3 className="text-xl font-bold text-gray-900">{res.placeName}</h3>
-                                                            <Badge variant="outline" className="capitalize bg-green-50 text-green-700 border-green-200">
-                                                                {res.status}
+                                                            <Badge variant="outline" className={`border-none ${RESERVATION_STATUS_COLORS[res.status] || "bg-gray-100 text-gray-700"}`}>
+                                                                {RESERVATION_STATUS_LABELS[res.status] || res.status}
                                                             </Badge>
+                                                            <StatusHistory historyLog={res.historyLog} viewer="diner" />
                                                         </div>
+                                                        {res.deposit && (
+                                                            <p className="text-sm text-gray-600">
+                                                                {DEPOSIT_STATUS_LABELS[res.deposit.status]}: {formatDeposit(res.deposit.amount)}
+                                                            </p>
+                                                        )}
+                                                        {latestReason(res) && (
+                                                            <p className="text-sm text-gray-600">Restaurant note: “{latestReason(res)}”</p>
+                                                        )}
 
                                                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm text-gray-600">
                                                             <div className="flex items-center gap-2">
@@ -122,13 +268,12 @@ export default function ReservationsPage() {
                                                                 <ExternalLink className="h-4 w-4" />
                                                                 View Details
                                                             </Link>
+                                                            {res.date.toDate() > new Date() && (
+                                                                <AddToCalendarButton reservationId={res.id} className="col-span-full justify-self-start" />
+                                                            )}
                                                         </div>
                                                     </div>
-                                                    <div className="flex gap-2">
-                                                        {/* Mock actions */}
-                                                        <Button variant="outline" size="sm" className="flex-1 md:flex-none">Cancel</Button>
-                                                        <Button size="sm" className="flex-1 md:flex-none">Modify</Button>
-                                                    </div>
+                                                    {guestActions(res)}
                                                 </div>
                                             </CardContent>
                                         </div>
@@ -138,7 +283,24 @@ export default function ReservationsPage() {
                         )}
                     </div>
                 </div>
+                {modifying?.dateKey && (
+                    <ModifyReservationDialog
+                        key={modifying.id}
+                        reservation={{ ...modifying, dateKey: modifying.dateKey }}
+                        open
+                        onOpenChange={(open) => { if (!open) setModifying(null); }}
+                        onModified={(change) => handleModified(modifying, change)}
+                    />
+                )}
             </RoleGuard>
         </ProtectedRoute>
     );
 }
+
+export default function ReservationsPage() {
+    return (
+        <Suspense fallback={<div className="flex justify-center p-12"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>}>
+            <ReservationsContent />
+        </Suspense>
+    );
+}
@@ -7,7 +7,7 @@ import PlaceCard from "@/components/search/place-card";
 import LocationModal from "@/components/search/LocationModal";
 import { Button } from "@/components/ui/button";
 import { Place } from "@/types/place";
-import { MapPin, Sparkles, Lock } from "lucide-react";
+import { MapPin, Sparkles, Lock, Loader2 } from "lucide-react";
 import { useState, useEffect, useCallback, useRef } from "react";
 import toast from "react-hot-toast";
 import { useAuth } from "@/components/auth-provider";
@@ -25,10 +25,50 @@ import { CommunicativeLoader } from "@/components/ui/CommunicativeLoader";
 import { SmartDiscoveryAlert } from "@/components/search/SmartDiscoveryAlert";
 import { PioneerOverlay } from "@/components/PioneerOverlay";
 import { DecisionView, DecisionChoices } from "@/components/search/DecisionView";
+import { NDJSON_CONTENT_TYPE, readNdjson } from "@/lib/ndjson";
+import type { SearchStreamEvent } from "@/types/search-stream";
+import { RouteInput, type RouteEndpoints } from "@/components/search/RouteInput";
+import { GroupPicker } from "@/components/search/GroupPicker";
 
 // Score map type for storing scores by place_id
 type ScoreMap = Record<string, GeminiScore>;
 
+// Route search request: endpoints + optional corridor width override (meters)
+type RouteRequest = RouteEndpoints & { corridor?: number };
+
+/**
+ * Reads ?from=lat,lng&to=lat,lng (+ fromName/toName) into route endpoints.
+ */
+function parseRouteParams(params: URLSearchParams): RouteEndpoints | null {
+    const parse = (value: string | null, name: string | null) => {
+        const [lat, lng] = (value || "").split(",").map(Number);
+        if (!Number.isFinite(lat) || !Number.isFinite(lng) || !value) return null;
+        return { lat, lng, name: name || `${lat.toFixed(3)}, ${lng.toFixed(3)}`, placeId: "" };
+    };
+    const origin = parse(params.get("from"), params.get("fromName"));
+    const destination = parse(params.get("to"), params.get("toName"));
+    return origin && destination ? { origin, destination } : null;
+}
+
+/**
+ * Driving route polyline from the Maps JS Directions service. Null when the
+ * service is unavailable - the API then searches along the straight line.
+ */
+async function getRoutePolyline(route: RouteEndpoints): Promise<string | null> {
+    try {
+        const { DirectionsService } = await google.maps.importLibrary("routes") as google.maps.RoutesLibrary;
+        const result = await new DirectionsService().route({
+            origin: { lat: route.origin.lat, lng: route.origin.lng },
+            destination: { lat: route.destination.lat, lng: route.destination.lng },
+            travelMode: google.maps.TravelMode.DRIVING
+        });
+        return result.routes[0]?.overview_polyline || null;
+    } catch (error) {
+        console.warn("[SearchPage] Directions unavailable, using straight line:", error);
+        return null;
+    }
+}
+
 export default function SearchPage() {
     const { user } = useAuth();
     const router = useRouter();
@@ -44,9 +84,12 @@ export default function SearchPage() {
             selectedCategory,
             // scrollPosition,
             searchQuery,
-            isLoading: loading
+            isLoading: loading,
+            searchStage
         },
         setPlaces: setStorePlaces,
+        streamPlaces,
+        setSearchStage,
         updateScores: updateStoreScores,
         setCategory: setStoreCategory,
         setLocation: setStoreLocation,
@@ -76,6 +119,22 @@ export default function SearchPage() {
     const [relevanceStatus, setRelevanceStatus] = useState<string>("match");
     const [currentRadius, setCurrentRadius] = useState(5000);
 
+    // "Load more" (server-side search session)
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [nextCostsCredit, setNextCostsCredit] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
+
+    // Route search (A -> B)
+    const [activeRoute, setActiveRoute] = useState<RouteEndpoints | null>(null);
+    const [routePath, setRoutePath] = useState<{ lat: number; lng: number }[] | null>(null);
+    const routeLine = useRef<google.maps.Polyline | null>(null);
+
+    // Group dining (?group=<id>) - scored against every diner, charged to the organizer
+    const activeGroupId = searchParams.get("group");
+
+    // History "re-run with fresh data" (?fresh=1) - applies to the next fetch only
+    const forceFresh = useRef(false);
+
     // Pioneer Bonus Overlay
     const [showPioneerOverlay, setShowPioneerOverlay] = useState(false);
 
@@ -153,8 +212,13 @@ export default function SearchPage() {
         // const lat = searchParams.get("lat"); // Ignored for auto-fetch
         // const lng = searchParams.get("lng"); // Ignored for auto-fetch
 
-        // Only auto-trigger if we have an intent (query/category)
-        if (q || category) {
+        const route = parseRouteParams(searchParams);
+        setActiveRoute(route);
+        forceFresh.current = searchParams.get("fresh") === "1";
+        const radiusParam = parseInt(searchParams.get("radius") || "", 10);
+
+        // Only auto-trigger if we have an intent (query/category/route)
+        if (q || category || route) {
             const lat = searchParams.get("lat");
             const lng = searchParams.get("lng");
             const location = (lat && lng)
@@ -163,7 +227,10 @@ export default function SearchPage() {
 
             fetchPlaces(
                 location,
-                q || category || undefined
+                q || category || undefined,
+                undefined,
+                Number.isFinite(radiusParam) ? radiusParam : undefined,
+                route
             );
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -208,7 +275,7 @@ export default function SearchPage() {
         fetchUserData();
     }, [user]);
 
-    const fetchPlaces = useCallback(async (location?: { lat: number; lng: number }, query?: string, cityIdOverride?: string, radius: number = 5000) => {
+    const fetchPlaces = useCallback(async (location?: { lat: number; lng: number }, query?: string, cityIdOverride?: string, radius: number = 5000, route?: RouteRequest | null) => {
         if (!user) {
             toast.error("Please log in to search");
             return;
@@ -220,6 +287,9 @@ export default function SearchPage() {
         setRelevanceStatus("match");
         setCurrentRadius(radius); // Sync local state
         setDecisionData(null); // Clear any previous decision point
+        setNextCursor(null);
+        setNextCostsCredit(false);
+        setRoutePath(null);
 
         try {
             const token = await user.getIdToken();
@@ -230,8 +300,27 @@ export default function SearchPage() {
             if (activeCityId) params.append("cityId", activeCityId);
 
             params.append("radius", radius.toString());
+            if (activeGroupId) params.append("group", activeGroupId);
+            if (forceFresh.current) {
+                params.append("fresh", "1");
+                forceFresh.current = false;
+            }
 
-            if (location) {
+            if (route) {
+                // Route mode: road polyline if Directions is available, else straight A -> B
+                const polyline = await getRoutePolyline(route);
+                if (polyline) {
+                    params.append("polyline", polyline);
+                } else {
+                    params.append("originLat", route.origin.lat.toString());
+                    params.append("originLng", route.origin.lng.toString());
+                    params.append("destLat", route.destination.lat.toString());
+                    params.append("destLng", route.destination.lng.toString());
+                }
+                if (route.corridor) params.append("corridor", route.corridor.toString());
+                params.append("lat", route.origin.lat.toString());
+                params.append("lng", route.origin.lng.toString());
+            } else if (location) {
                 params.append("lat", location.lat.toString());
                 params.append("lng", location.lng.toString());
             } else {
@@ -241,12 +330,61 @@ export default function SearchPage() {
                 }
             }
 
+            params.append("stream", "1");
+
             const res = await fetch(`/api/search?${params.toString()}`, {
                 headers: { 'Authorization': `Bearer ${token}` }
             });
-            const data = await res.json();
 
-            if (res.status === 402 || data.code === 'LIMIT_REACHED' || (data.usage && data.usage.limitReached)) {
+            // Streamed search: render each pipeline stage as it lands, `done` carries the final body
+            let status = res.status;
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            let data: any = null;
+
+            if (res.headers.get("Content-Type")?.includes(NDJSON_CONTENT_TYPE)) {
+                let streamed: Place[] = [];
+
+                await readNdjson<SearchStreamEvent>(res, (event) => {
+                    switch (event.type) {
+                        case "stage":
+                            setSearchStage(event.stage);
+                            break;
+                        case "candidates":
+                            // Not a basic result - AI data is on its way
+                            streamed = event.results.map(p => ({ ...p, isGeneric: false }));
+                            streamPlaces(streamed);
+                            break;
+                        case "scout": {
+                            const picks = new Set(event.placeIds);
+                            streamed = [
+                                ...streamed.filter(p => picks.has(p.place_id)),
+                                ...streamed.filter(p => !picks.has(p.place_id))
+                            ];
+                            streamPlaces(streamed);
+                            break;
+                        }
+                        case "enriched": {
+                            const enrichedIds = new Set(event.results.map(p => p.place_id));
+                            streamed = [...event.results, ...streamed.filter(p => !enrichedIds.has(p.place_id))];
+                            streamPlaces(streamed);
+                            break;
+                        }
+                        case "scores":
+                            setScores(event.scores);
+                            break;
+                        case "done":
+                            status = event.status;
+                            data = event.body;
+                            break;
+                    }
+                });
+
+                if (!data) throw new Error("Search stream ended without a result");
+            } else {
+                data = await res.json();
+            }
+
+            if (status === 402 || data.code === 'LIMIT_REACHED' || (data.usage && data.usage.limitReached)) {
                 setLimitReached(true);
                 setRemainingScans(0);
                 setPlaces([]); // Clear results to force focus on upgrade
@@ -256,7 +394,7 @@ export default function SearchPage() {
                 setLimitReached(false);
             }
 
-            if (res.status === 401) {
+            if (status === 401) {
                 toast.error("Session expired.");
                 return;
             }
@@ -315,6 +453,14 @@ export default function SearchPage() {
                 // Set Smart Discovery State
                 setRelevanceStatus(data.relevanceStatus || "match");
                 setDiscoveryMessage(data.discoveryMessage || null);
+                setNextCursor(data.nextCursor || null);
+                setNextCostsCredit(!!data.nextCostsCredit);
+                setRoutePath(data.route?.path || null);
+
+                if (data.fromHistory && data.cachedAt) {
+                    const minutes = Math.max(1, Math.round((Date.now() - new Date(data.cachedAt).getTime()) / 60000));
+                    toast(`Showing your results from ${minutes} min ago - no credit used`, { icon: "♻️" });
+                }
 
                 setPlaces(data.results);
                 if (mapInstance && data.results.length > 0) {
@@ -329,8 +475,9 @@ export default function SearchPage() {
                     if (hasValidBounds) mapInstance.fitBounds(bounds);
                 }
             } else if (data.status === 'ZERO_RESULTS') {
-                toast("No places found nearby", { icon: "🔍" });
+                toast(route ? "No places found along this route" : "No places found nearby", { icon: "🔍" });
                 setPlaces([]);
+                setRoutePath(data.route?.path || null);
             } else {
                 toast.error("No results found");
             }
@@ -340,7 +487,63 @@ export default function SearchPage() {
         } finally {
             setLoading(false);
         }
-    }, [center, cityId, mapInstance, user, setPlaces, setLoading, setScores, storeStartSearch]);
+    }, [center, cityId, activeGroupId, mapInstance, user, setPlaces, setLoading, setScores, storeStartSearch, streamPlaces, setSearchStage]);
+
+    // Load more: next page from the same search session (no new discovery)
+    const loadMore = useCallback(async () => {
+        if (!user || !nextCursor || loadingMore) return;
+
+        setLoadingMore(true);
+        try {
+            const token = await user.getIdToken();
+            const res = await fetch(`/api/search?cursor=${encodeURIComponent(nextCursor)}`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await res.json();
+
+            if (res.status === 402 || data.code === 'LIMIT_REACHED') {
+                setLimitReached(true);
+                setRemainingScans(0);
+                toast("AI scan limit reached.", { icon: "🔒" });
+                return;
+            }
+
+            if (!res.ok) {
+                // Expired / stale cursor - the pool is gone, hide the button
+                setNextCursor(null);
+                toast.error(data.error || "Failed to load more results");
+                return;
+            }
+
+            if (data.credits) {
+                setRemainingScans(data.credits.remaining);
+                if (data.credits.remaining === 0 && data.credits.tier === 'free') {
+                    setLimitReached(true);
+                }
+            }
+
+            const newScores: ScoreMap = {};
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (data.results || []).forEach((p: any) => {
+                if (p.ai_score) newScores[p.place_id] = p.ai_score;
+            });
+            if (Object.keys(newScores).length > 0) {
+                setScores(newScores);
+            }
+
+            const knownIds = new Set(places.map(p => p.place_id));
+            setPlaces([...places, ...(data.results || []).filter((p: Place) => !knownIds.has(p.place_id))]);
+            setNextCursor(data.nextCursor || null);
+            setNextCostsCredit(!!data.nextCostsCredit);
+
+            if (data.geminiError) toast.error(data.geminiError);
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to load more results");
+        } finally {
+            setLoadingMore(false);
+        }
+    }, [user, nextCursor, loadingMore, places, setPlaces, setScores]);
 
     // Auto-score logic
     const autoScorePlaces = useCallback(async (placesToScore: Place[]) => {
@@ -395,7 +598,8 @@ export default function SearchPage() {
     }, [user, preferences, limitReached, updateStoreScores]);
 
     useEffect(() => {
-        if (places.length > 0 && !limitReached && preferences) {
+        // Streamed partial results are scored by the search itself - wait for `done`
+        if (places.length > 0 && !limitReached && preferences && !loading) {
             // Check if we already have scores for these places to avoid re-scoring on reload?
             // Store persists scores.
             const needsScoring = places.some(p => !scores[p.place_id]);
@@ -403,7 +607,7 @@ export default function SearchPage() {
                 autoScorePlaces(places.filter(p => !scores[p.place_id]));
             }
         }
-    }, [places, limitReached, preferences, autoScorePlaces, scores]);
+    }, [places, limitReached, preferences, autoScorePlaces, scores, loading]);
 
     // Map Markers
     useEffect(() => {
@@ -448,9 +652,54 @@ export default function SearchPage() {
         const params = new URLSearchParams(searchParams.toString());
         if (searchQuery) params.set("q", searchQuery);
         else params.delete("q");
+        params.delete("fresh");
         router.push(`/search?${params.toString()}`);
     };
 
+    const handleRouteSearch = useCallback((route: RouteEndpoints) => {
+        const params = new URLSearchParams(searchParams.toString());
+        params.set("from", `${route.origin.lat},${route.origin.lng}`);
+        params.set("to", `${route.destination.lat},${route.destination.lng}`);
+        params.set("fromName", route.origin.name);
+        params.set("toName", route.destination.name);
+        if (searchQuery) params.set("q", searchQuery);
+        router.push(`/search?${params.toString()}`);
+    }, [searchParams, searchQuery, router]);
+
+    const handleGroupChange = useCallback((groupId: string | null) => {
+        const params = new URLSearchParams(searchParams.toString());
+        if (groupId) params.set("group", groupId);
+        else params.delete("group");
+        if (searchQuery) params.set("q", searchQuery);
+        router.push(`/search?${params.toString()}`);
+    }, [searchParams, searchQuery, router]);
+
+    const handleClearRoute = useCallback(() => {
+        const params = new URLSearchParams(searchParams.toString());
+        ["from", "to", "fromName", "toName"].forEach(key => params.delete(key));
+        setRoutePath(null);
+        router.push(`/search?${params.toString()}`);
+    }, [searchParams, router]);
+
+    // Draw the searched route on the map
+    useEffect(() => {
+        routeLine.current?.setMap(null);
+        routeLine.current = null;
+        if (!mapInstance || !routePath || routePath.length < 2) return;
+
+        routeLine.current = new google.maps.Polyline({
+            path: routePath,
+            strokeColor: "#2563eb",
+            strokeOpacity: 0.8,
+            strokeWeight: 4,
+            map: mapInstance
+        });
+
+        const bounds = new google.maps.LatLngBounds();
+        routePath.forEach(point => bounds.extend(point));
+        mapInstance.fitBounds(bounds);
+    }, [mapInstance, routePath]);
+
     const handleUseLocation = useCallback(async () => {
         if (!navigator.geolocation) {
             setLocationModalOpen(true);
@@ -622,6 +871,16 @@ export default function SearchPage() {
                                 </div>
                             )}
 
+                            <GroupPicker activeGroupId={activeGroupId} onChange={handleGroupChange} disabled={loading} />
+
+                            <RouteInput
+                                key={activeRoute ? `${activeRoute.origin.lat},${activeRoute.destination.lat}` : "no-route"}
+                                initialRoute={activeRoute}
+                                onSubmit={handleRouteSearch}
+                                onClear={handleClearRoute}
+                                disabled={loading}
+                            />
+
                             {places.length === 0 && !loading && !decisionData && (
                                 <div className="flex-1 flex flex-col items-center justify-start pt-8 px-4 space-y-6 animate-in fade-in zoom-in duration-500">
                                     <div className="flex items-center gap-2 px-4 py-2 bg-primary/5 rounded-full border border-primary/20">
@@ -655,7 +914,8 @@ export default function SearchPage() {
                                 </div>
                             )}
 
-                            {loading && <CommunicativeLoader />}
+                            {loading && places.length === 0 && <CommunicativeLoader stage={searchStage} />}
+                            {loading && places.length > 0 && <CommunicativeLoader stage={searchStage} compact />}
 
                             {/* Decision Point UI (Lazy Decision Point) */}
                             {!loading && decisionData && (
@@ -668,9 +928,13 @@ export default function SearchPage() {
                                         router.push(`/place/${id}`);
                                     }}
                                     onExpandRadius={(newRadius) => {
-                                        // Trigger new search with expanded radius
+                                        // Trigger new search with expanded radius (route mode: wider corridor)
                                         setDecisionData(null);
-                                        fetchPlaces(undefined, searchQuery || undefined, undefined, newRadius);
+                                        if (activeRoute) {
+                                            fetchPlaces(undefined, searchQuery || undefined, undefined, currentRadius, { ...activeRoute, corridor: newRadius });
+                                        } else {
+                                            fetchPlaces(undefined, searchQuery || undefined, undefined, newRadius);
+                                        }
                                     }}
                                 />
                             )}
@@ -690,7 +954,7 @@ export default function SearchPage() {
                                             place={place}
                                             preferences={preferences}
                                             score={scores[place.place_id]}
-                                            scoringLoading={scoringLoading}
+                                            scoringLoading={scoringLoading || (loading && !scores[place.place_id])}
                                             limitReached={limitReached}
                                             onBeforeNavigate={() => {
                                                 const container = document.querySelector('[data-results-container]');
@@ -704,6 +968,18 @@ export default function SearchPage() {
                                         />
                                     </div>
                                 ))}
+
+                                {!loading && nextCursor && places.length > 0 && (
+                                    <div className="flex flex-col items-center gap-1 py-2">
+                                        <Button variant="outline" onClick={loadMore} disabled={loadingMore || (nextCostsCredit && limitReached)}>
+                                            {loadingMore && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                                            Show more results
+                                        </Button>
+                                        <span className="text-xs text-muted-foreground">
+                                            {nextCostsCredit && subscriptionTier !== 'premium' ? "Uses 1 AI credit" : "Free - included in this search"}
+                                        </span>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
@@ -725,6 +1001,11 @@ export default function SearchPage() {
                             setSearchQuery={setSearchQuery}
                             onClear={handleClearSearch}
                             onSearch={handleSearch}
+                            activeRoute={activeRoute}
+                            onRouteSearch={handleRouteSearch}
+                            onClearRoute={handleClearRoute}
+                            activeGroupId={activeGroupId}
+                            onGroupChange={handleGroupChange}
                             onCategorySelect={handleCategorySearch}
                             selectedCategory={selectedCategory}
                             scores={scores}
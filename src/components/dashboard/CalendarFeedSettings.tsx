@@ -0,0 +1,134 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CalendarSync, Copy, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useAuth } from "@/components/auth-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface CalendarFeedSettingsProps {
+    placeId: string;
+}
+
+/**
+ * Secret iCal subscription URL with the restaurant's confirmed bookings
+ * (calendar-feeds.ts). Rotating it locks out everyone who had the old one.
+ */
+export function CalendarFeedSettings({ placeId }: CalendarFeedSettingsProps) {
+    const { user } = useAuth();
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchFeed = async () => {
+            if (!user) return;
+            try {
+                const token = await user.getIdToken();
+                const res = await fetch(`/api/calendar/feed?placeId=${encodeURIComponent(placeId)}`, {
+                    headers: { Authorization: `Bearer ${token}` }
+                });
+                const data = await res.json();
+                if (res.ok) setUrl(data.url);
+            } catch (error) {
+                console.error("Error fetching calendar feed:", error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchFeed();
+    }, [user, placeId]);
+
+    const request = async (method: "POST" | "DELETE") => {
+        if (!user) return;
+        setBusy(true);
+        try {
+            const token = await user.getIdToken();
+            const res = await fetch(
+                method === "POST" ? "/api/calendar/feed" : `/api/calendar/feed?placeId=${encodeURIComponent(placeId)}`,
+                {
+                    method,
+                    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                    ...(method === "POST" ? { body: JSON.stringify({ placeId }) } : {})
+                }
+            );
+            const data = await res.json();
+            if (!res.ok) {
+                toast.error(data.error || "Failed to update the calendar feed");
+                return;
+            }
+            setUrl(method === "POST" ? data.url : null);
+            toast.success(method === "POST" ? "Calendar link ready" : "Calendar feed turned off");
+        } catch (error) {
+            console.error("Calendar feed error:", error);
+            toast.error("Failed to update the calendar feed");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRotate = () => {
+        if (url && !confirm("Create a new link? Calendars subscribed to the current one stop updating.")) return;
+        request("POST");
+    };
+
+    const handleCopy = async () => {
+        if (!url) return;
+        await navigator.clipboard.writeText(url);
+        toast.success("Link copied");
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <CalendarSync className="h-5 w-5 text-primary" />
+                    Calendar Feed
+                </CardTitle>
+                <CardDescription>
+                    Subscribe to your confirmed bookings in Google Calendar, Apple Calendar or Outlook. Changes and cancellations show up on the next refresh.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {loading ? (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <>
+                        {url && (
+                            <div className="flex gap-2">
+                                <Input readOnly value={url} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                                <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                                    <Copy className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                            Anyone with this link can see guest names and phone numbers - share it only with your team.
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            <Button onClick={handleRotate} disabled={busy}>
+                                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                {url ? "New Link" : "Create Calendar Link"}
+                            </Button>
+                            {url && (
+                                <>
+                                    <Button variant="outline" asChild>
+                                        <a href={url.replace(/^https?:/, "webcal:")}>Subscribe</a>
+                                    </Button>
+                                    <Button variant="ghost" disabled={busy} onClick={() => request("DELETE")}>
+                                        Turn Off
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
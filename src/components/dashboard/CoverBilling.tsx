@@ -0,0 +1,118 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { Loader2, Receipt } from "lucide-react";
+import { db } from "@/lib/firebase";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BUSINESS_LIMITS, type BusinessPlan } from "@/lib/plan-limits";
+import type { CoverUsage } from "@/types";
+
+const PERIODS_SHOWN = 3;
+
+interface CoverBillingProps {
+    uid: string;
+    plan: BusinessPlan;
+}
+
+function formatFee(cents: number): string {
+    return `€${(cents / 100).toFixed(2)}`;
+}
+
+function periodLabel(period: string): string {
+    const [year, month] = period.split("-").map(Number);
+    return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+}
+
+function invoiceBadge(usage: CoverUsage[], isCurrent: boolean) {
+    const fee = usage.reduce((sum, u) => sum + u.feeCents, 0);
+    const invoiced = usage.reduce((sum, u) => sum + (u.invoicedCents || 0), 0);
+    if (isCurrent) return <Badge className="bg-blue-100 text-blue-700">In progress</Badge>;
+    if (invoiced >= fee) return <Badge className="bg-green-100 text-green-700">Invoiced</Badge>;
+    return <Badge className="bg-yellow-100 text-yellow-700">On next invoice</Badge>;
+}
+
+/**
+ * Per-cover fee breakdown (`cover_usage`) by month and restaurant. Fees are
+ * added to the next subscription invoice after the month closes.
+ */
+export function CoverBilling({ uid, plan }: CoverBillingProps) {
+    const [loading, setLoading] = useState(true);
+    const [usage, setUsage] = useState<CoverUsage[]>([]);
+
+    useEffect(() => {
+        const fetchUsage = async () => {
+            try {
+                // Single-field filter - sorting client-side avoids a composite index
+                const snap = await getDocs(query(collection(db, "cover_usage"), where("ownerId", "==", uid)));
+                setUsage(snap.docs.map(d => ({ id: d.id, ...d.data() }) as CoverUsage));
+            } catch (error) {
+                console.error("Error fetching cover usage:", error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        if (uid) fetchUsage();
+    }, [uid]);
+
+    const now = new Date();
+    const currentPeriod = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+    const periods = Array.from(new Set([currentPeriod, ...usage.map(u => u.period)]))
+        .sort()
+        .reverse()
+        .slice(0, PERIODS_SHOWN);
+
+    return (
+        <Card className="border-none shadow-sm">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Receipt className="h-5 w-5 text-primary" />
+                    Per-Cover Fees
+                </CardTitle>
+                <CardDescription>
+                    Each guest of a finished booking is billed at your plan&apos;s rate (currently €{BUSINESS_LIMITS[plan].perCoverFee.toFixed(2)}). A month&apos;s fees are added to your next subscription invoice.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {loading ? (
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto text-primary" />
+                ) : periods.map(period => {
+                    const rows = usage.filter(u => u.period === period);
+                    const covers = rows.reduce((sum, u) => sum + u.covers, 0);
+                    const fee = rows.reduce((sum, u) => sum + u.feeCents, 0);
+
+                    return (
+                        <div key={period} className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <p className="font-medium">{periodLabel(period)}</p>
+                                {invoiceBadge(rows, period === currentPeriod)}
+                            </div>
+                            {rows.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No finished bookings yet</p>
+                            ) : (
+                                <ul className="text-sm divide-y rounded-xl bg-gray-50">
+                                    {rows.map(u => (
+                                        <li key={u.id} className="flex justify-between px-4 py-2">
+                                            <span>{u.placeName || u.placeId}</span>
+                                            <span className="text-gray-600">
+                                                {u.covers} covers · {u.reservations} bookings · <span className="font-semibold text-gray-900">{formatFee(u.feeCents)}</span>
+                                            </span>
+                                        </li>
+                                    ))}
+                                    {rows.length > 1 && (
+                                        <li className="flex justify-between px-4 py-2 font-semibold">
+                                            <span>Total</span>
+                                            <span>{covers} covers · {formatFee(fee)}</span>
+                                        </li>
+                                    )}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { FloorTable } from "@/types";
+
+interface FloorPlanCanvasProps {
+    tables: FloorTable[];
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    onMove: (id: string, x: number, y: number) => void;
+}
+
+const ZONE_COLORS: Record<string, string> = {
+    main: "bg-white border-gray-400",
+    terrace: "bg-green-50 border-green-500",
+    bar: "bg-amber-50 border-amber-500",
+    window: "bg-sky-50 border-sky-500",
+    private: "bg-purple-50 border-purple-500"
+};
+
+function tableSize(table: FloorTable): { width: number; height: number } {
+    const base = 36 + Math.min(table.maxCovers, 12) * 4;
+    return table.shape === "rect" ? { width: base * 1.6, height: base } : { width: base, height: base };
+}
+
+/**
+ * Drag-and-drop floor plan. Positions are percentages of the canvas so the
+ * plan scales with the screen.
+ */
+export function FloorPlanCanvas({ tables, selectedId, onSelect, onMove }: FloorPlanCanvasProps) {
+    const canvasRef = useRef<HTMLDivElement>(null);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+
+    const toPercent = (clientX: number, clientY: number) => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const clamp = (v: number) => Math.round(Math.min(97, Math.max(3, v)) * 10) / 10;
+        return {
+            x: clamp(((clientX - rect.left) / rect.width) * 100),
+            y: clamp(((clientY - rect.top) / rect.height) * 100)
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent, id: string) => {
+        e.stopPropagation();
+        (e.target as HTMLElement).setPointerCapture(e.pointerId);
+        setDraggingId(id);
+        onSelect(id);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!draggingId) return;
+        const { x, y } = toPercent(e.clientX, e.clientY);
+        onMove(draggingId, x, y);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        if (!draggingId) return;
+        (e.target as HTMLElement).releasePointerCapture(e.pointerId);
+        setDraggingId(null);
+    };
+
+    const selected = tables.find(t => t.id === selectedId);
+
+    return (
+        <div
+            ref={canvasRef}
+            className="relative w-full h-[420px] rounded-xl border-2 border-dashed border-gray-200 bg-[radial-gradient(circle,_#e5e7eb_1px,_transparent_1px)] [background-size:20px_20px] touch-none select-none overflow-hidden"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerDown={() => onSelect(null)}
+        >
+            {/* Combination links of the selected table */}
+            <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                {selected?.combinableWith.map(otherId => {
+                    const other = tables.find(t => t.id === otherId);
+                    if (!other) return null;
+                    return (
+                        <line
+                            key={otherId}
+                            x1={`${selected.x}%`} y1={`${selected.y}%`}
+                            x2={`${other.x}%`} y2={`${other.y}%`}
+                            className="stroke-primary"
+                            strokeWidth={2}
+                            strokeDasharray="4 4"
+                        />
+                    );
+                })}
+            </svg>
+
+            {tables.map(table => {
+                const { width, height } = tableSize(table);
+                return (
+                    <div
+                        key={table.id}
+                        onPointerDown={(e) => handlePointerDown(e, table.id)}
+                        style={{ left: `${table.x}%`, top: `${table.y}%`, width, height }}
+                        className={`absolute -translate-x-1/2 -translate-y-1/2 border-2 flex flex-col items-center justify-center text-[11px] leading-tight cursor-grab active:cursor-grabbing shadow-sm
+                            ${table.shape === "round" ? "rounded-full" : "rounded-lg"}
+                            ${ZONE_COLORS[table.zone] || ZONE_COLORS.main}
+                            ${table.id === selectedId ? "ring-2 ring-primary ring-offset-1" : ""}
+                            ${table.bookable ? "" : "opacity-60 border-dashed"}`}
+                    >
+                        <span className="font-bold">{table.name}</span>
+                        <span className="text-gray-500">{table.minCovers}-{table.maxCovers}</span>
+                    </div>
+                );
+            })}
+
+            {tables.length === 0 && (
+                <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                    Add your first table to start drawing the floor plan.
+                </p>
+            )}
+        </div>
+    );
+}
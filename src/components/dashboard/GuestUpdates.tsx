@@ -0,0 +1,78 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, doc, getDocs, limit, orderBy, query, updateDoc } from "firebase/firestore";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, Check } from "lucide-react";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { UserNotification } from "@/types";
+
+/**
+ * Unread guest cancellations and changes (`users/{uid}/notifications`).
+ * Hidden when there is nothing new.
+ */
+export function GuestUpdates({ uid }: { uid: string }) {
+    const [notifications, setNotifications] = useState<UserNotification[]>([]);
+
+    useEffect(() => {
+        const fetchNotifications = async () => {
+            try {
+                // Recent ones only - filtering unread client-side avoids a composite index
+                const snap = await getDocs(query(
+                    collection(db, "users", uid, "notifications"),
+                    orderBy("createdAt", "desc"),
+                    limit(20)
+                ));
+                setNotifications(snap.docs
+                    .map(d => ({ id: d.id, ...d.data() }) as UserNotification)
+                    .filter(n => !n.read));
+            } catch (error) {
+                console.error("Error fetching notifications:", error);
+            }
+        };
+
+        if (uid) fetchNotifications();
+    }, [uid]);
+
+    const markAllRead = async () => {
+        const unread = notifications;
+        setNotifications([]);
+        try {
+            await Promise.all(unread.map(n => updateDoc(doc(db, "users", uid, "notifications", n.id), { read: true })));
+        } catch (error) {
+            console.error("Error marking notifications read:", error);
+            toast.error("Failed to update notifications");
+            setNotifications(unread);
+        }
+    };
+
+    if (notifications.length === 0) return null;
+
+    return (
+        <Card className="border-none shadow-sm border-l-4 border-l-primary">
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                    <Bell className="h-4 w-4 text-primary" />
+                    Guest updates ({notifications.length})
+                </CardTitle>
+                <Button size="sm" variant="ghost" className="h-8 text-xs gap-1" onClick={markAllRead}>
+                    <Check className="h-3.5 w-3.5" /> Mark all read
+                </Button>
+            </CardHeader>
+            <CardContent>
+                <ul className="space-y-2">
+                    {notifications.map(n => (
+                        <li key={n.id} className="text-sm">
+                            <span className="font-semibold">{n.title}</span>
+                            <span className="text-muted-foreground"> · {formatDistanceToNow(new Date(n.createdAt), { addSuffix: true })}</span>
+                            <p className="text-gray-600">{n.body}</p>
+                        </li>
+                    ))}
+                </ul>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, MapPin, Plus } from "lucide-react";
+import toast from "react-hot-toast";
+import { useAuth } from "@/components/auth-provider";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClaimSearch } from "@/components/onboarding/ClaimSearch";
+import type { OwnerLocation } from "@/types";
+
+interface LocationSwitcherProps {
+    locations: OwnerLocation[];
+    activePlaceId: string;
+    canAddLocations: boolean;                  // BUSINESS_LIMITS[plan].multiLocation
+    onSwitch: (placeId: string) => void;
+    onAdded: (location: OwnerLocation) => void;
+}
+
+/**
+ * Dashboard header control for owners with several restaurants: switch the
+ * location every tab works on, or claim another one (Enterprise).
+ */
+export function LocationSwitcher({ locations, activePlaceId, canAddLocations, onSwitch, onAdded }: LocationSwitcherProps) {
+    const { user } = useAuth();
+    const [addOpen, setAddOpen] = useState(false);
+    const [selected, setSelected] = useState<OwnerLocation | null>(null);
+    const [claiming, setClaiming] = useState(false);
+
+    const handleClaim = async () => {
+        if (!user || !selected) return;
+        if (locations.some(location => location.placeId === selected.placeId)) {
+            toast.error("You already manage this restaurant");
+            return;
+        }
+
+        setClaiming(true);
+        try {
+            const token = await user.getIdToken();
+            const res = await fetch("/api/business/claim", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "Authorization": `Bearer ${token}`
+                },
+                body: JSON.stringify({
+                    placeId: selected.placeId,
+                    details: { name: selected.name, address: selected.address }
+                })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                toast.error(data.error || "Failed to claim restaurant");
+                return;
+            }
+
+            toast.success(`${selected.name} added to your locations`);
+            onAdded(selected);
+            setAddOpen(false);
+            setSelected(null);
+        } catch (error) {
+            console.error("Claim location error:", error);
+            toast.error("Failed to claim restaurant");
+        } finally {
+            setClaiming(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <Select value={activePlaceId} onValueChange={onSwitch}>
+                <SelectTrigger className="w-[220px] bg-background">
+                    <MapPin className="h-4 w-4 mr-2 text-muted-foreground shrink-0" />
+                    <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                    {locations.map(location => (
+                        <SelectItem key={location.placeId} value={location.placeId}>
+                            {location.name || location.placeId}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {canAddLocations && (
+                <Button variant="outline" size="sm" onClick={() => setAddOpen(true)}>
+                    <Plus className="h-4 w-4 mr-1" /> Location
+                </Button>
+            )}
+
+            <Dialog open={addOpen} onOpenChange={setAddOpen}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Add a Location</DialogTitle>
+                        <DialogDescription>
+                            Search for the restaurant to claim it. You can copy menus, hours and pricing from another location afterwards.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <ClaimSearch onSelect={(place) => setSelected({ placeId: place.placeId, name: place.name, address: place.address })} />
+                    {selected && (
+                        <p className="text-sm text-muted-foreground">
+                            <span className="font-medium text-foreground">{selected.name}</span> · {selected.address}
+                        </p>
+                    )}
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setAddOpen(false)}>Cancel</Button>
+                        <Button onClick={handleClaim} disabled={!selected || claiming}>
+                            {claiming && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Claim Restaurant
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { collection, getDocs, orderBy, query, Timestamp, where } from "firebase/firestore";
+import { ArrowRight, Copy, Loader2, RefreshCw } from "lucide-react";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/components/auth-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { getLocalTime } from "@/lib/opening-hours";
+import { RESERVATION_STATUS_COLORS, RESERVATION_STATUS_LABELS } from "@/lib/reservation-status";
+import {
+    LOCATION_STATS_DAYS,
+    combineLocationStats,
+    formatRate,
+    summarizeLocation,
+    type LocationStats
+} from "@/lib/location-stats";
+import type { OwnerLocation, ReservationStatus } from "@/types";
+
+const UPCOMING_LIMIT = 15;
+
+const COPY_SECTIONS = [
+    { id: "menus", label: "Menus", hint: "Replaces the drafts of the same menus; publish at each location" },
+    { id: "hours", label: "Opening hours", hint: "Weekly hours, exceptions and timezone" },
+    { id: "pricing", label: "Pricing", hint: "Deposit strategy and cancellation policy" }
+] as const;
+
+type CopySectionId = typeof COPY_SECTIONS[number]["id"];
+
+interface LocationReservation {
+    id: string;
+    placeId: string;
+    customerName: string;
+    guests: number;
+    time: string;
+    status: ReservationStatus;
+    dateKey: string;
+}
+
+interface LocationsOverviewProps {
+    locations: OwnerLocation[];
+    canCopy: boolean;                          // BUSINESS_LIMITS[plan].multiLocation
+    onOpenLocation: (placeId: string) => void;
+}
+
+/**
+ * Multi-location overview: reservation numbers per location and combined
+ * (location-stats.ts), the next bookings across all of them, and copying
+ * menus / hours / pricing between locations (POST /api/business/locations/copy).
+ */
+export function LocationsOverview({ locations, canCopy, onOpenLocation }: LocationsOverviewProps) {
+    const { user } = useAuth();
+    const [reservations, setReservations] = useState<LocationReservation[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const [sourceId, setSourceId] = useState(locations[0]?.placeId || "");
+    const [targetIds, setTargetIds] = useState<string[]>([]);
+    const [sections, setSections] = useState<CopySectionId[]>(["menus"]);
+    const [copying, setCopying] = useState(false);
+
+    const loadReservations = useCallback(async () => {
+        setLoading(true);
+        const since = new Date(Date.now() - LOCATION_STATS_DAYS * 24 * 60 * 60 * 1000);
+        try {
+            // One query per location - firestore.rules check ownership per restaurant
+            const snaps = await Promise.all(locations.map(location => getDocs(query(
+                collection(db, "reservations"),
+                where("placeId", "==", location.placeId),
+                where("date", ">=", Timestamp.fromDate(since)),
+                orderBy("date", "desc")
+            ))));
+            setReservations(snaps.flatMap(snap => snap.docs.map(doc => {
+                const data = doc.data();
+                return {
+                    id: doc.id,
+                    placeId: data.placeId,
+                    customerName: data.customerName,
+                    guests: Number(data.guests) || 0,
+                    time: data.time,
+                    status: data.status,
+                    dateKey: data.dateKey || getLocalTime((data.date as Timestamp).toDate()).date
+                };
+            })));
+        } catch (error) {
+            console.error("Error loading location reservations:", error);
+            toast.error("Failed to load reservations across locations");
+        } finally {
+            setLoading(false);
+        }
+    }, [locations]);
+
+    useEffect(() => {
+        loadReservations();
+    }, [loadReservations]);
+
+    const todayKey = getLocalTime(new Date()).date;
+    const statsByLocation = new Map<string, LocationStats>(locations.map(location => [
+        location.placeId,
+        summarizeLocation(reservations.filter(res => res.placeId === location.placeId), todayKey)
+    ]));
+    const totals = combineLocationStats([...statsByLocation.values()]);
+
+    const upcoming = reservations
+        .filter(res => (res.status === "pending" || res.status === "confirmed") && res.dateKey >= todayKey)
+        .sort((a, b) => a.dateKey.localeCompare(b.dateKey) || a.time.localeCompare(b.time))
+        .slice(0, UPCOMING_LIMIT);
+    const nameOf = (placeId: string) => locations.find(location => location.placeId === placeId)?.name || placeId;
+
+    const toggle = <T extends string>(list: T[], value: T) =>
+        list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+    const handleCopy = async () => {
+        if (!user) return;
+        const targets = targetIds.filter(id => id !== sourceId);
+        if (targets.length === 0 || sections.length === 0) {
+            toast.error("Pick what to copy and at least one other location");
+            return;
+        }
+        if (!confirm(`Copy ${sections.join(", ")} from ${nameOf(sourceId)} to ${targets.length} location(s)? Their current settings are replaced.`)) return;
+
+        setCopying(true);
+        try {
+            const token = await user.getIdToken();
+            const res = await fetch("/api/business/locations/copy", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "Authorization": `Bearer ${token}`
+                },
+                body: JSON.stringify({ sourcePlaceId: sourceId, targetPlaceIds: targets, sections })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                toast.error(data.error || "Failed to copy settings");
+                return;
+            }
+            toast.success(`Copied to ${data.targets} location(s)`);
+            setTargetIds([]);
+        } catch (error) {
+            console.error("Copy settings error:", error);
+            toast.error("Failed to copy settings");
+        } finally {
+            setCopying(false);
+        }
+    };
+
+    const statCells = (stats: LocationStats) => (
+        <>
+            <td className="px-4 py-3 text-right">{stats.bookings}</td>
+            <td className="px-4 py-3 text-right">{stats.covers}</td>
+            <td className="px-4 py-3 text-right">{stats.pending}</td>
+            <td className="px-4 py-3 text-right">{stats.upcoming}</td>
+            <td className="px-4 py-3 text-right">{formatRate(stats.noShows, stats.sittings)}</td>
+            <td className="px-4 py-3 text-right">{formatRate(stats.cancelled, stats.bookings)}</td>
+        </>
+    );
+
+    return (
+        <div className="space-y-6">
+            <Card className="border-none shadow-sm">
+                <CardHeader className="flex flex-row items-start justify-between">
+                    <div>
+                        <CardTitle>All Locations</CardTitle>
+                        <CardDescription>Bookings from the last {LOCATION_STATS_DAYS} days and everything ahead.</CardDescription>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={loadReservations} disabled={loading}>
+                        <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} /> Refresh
+                    </Button>
+                </CardHeader>
+                <CardContent className="p-0 overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b bg-muted/40 text-muted-foreground">
+                                <th className="px-4 py-3 text-left font-medium">Location</th>
+                                <th className="px-4 py-3 text-right font-medium">Bookings</th>
+                                <th className="px-4 py-3 text-right font-medium">Covers served</th>
+                                <th className="px-4 py-3 text-right font-medium">Pending</th>
+                                <th className="px-4 py-3 text-right font-medium">Upcoming</th>
+                                <th className="px-4 py-3 text-right font-medium">No-shows</th>
+                                <th className="px-4 py-3 text-right font-medium">Cancelled</th>
+                                <th className="px-4 py-3" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {locations.map(location => (
+                                <tr key={location.placeId} className="border-b">
+                                    <td className="px-4 py-3">
+                                        <div className="font-medium">{location.name || location.placeId}</div>
+                                        <div className="text-xs text-muted-foreground truncate max-w-[240px]">{location.address}</div>
+                                    </td>
+                                    {statCells(statsByLocation.get(location.placeId)!)}
+                                    <td className="px-4 py-3 text-right">
+                                        <Button variant="ghost" size="sm" onClick={() => onOpenLocation(location.placeId)}>
+                                            Open <ArrowRight className="h-4 w-4 ml-1" />
+                                        </Button>
+                                    </td>
+                                </tr>
+                            ))}
+                            <tr className="bg-muted/20 font-semibold">
+                                <td className="px-4 py-3">Total</td>
+                                {statCells(totals)}
+                                <td />
+                            </tr>
+                        </tbody>
+                    </table>
+                </CardContent>
+            </Card>
+
+            <Card className="border-none shadow-sm">
+                <CardHeader>
+                    <CardTitle>Next Bookings</CardTitle>
+                    <CardDescription>Pending and confirmed reservations across all locations.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+                    ) : upcoming.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-6">No upcoming bookings.</p>
+                    ) : (
+                        <div className="divide-y">
+                            {upcoming.map(res => (
+                                <div key={res.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                                    <div>
+                                        <p className="font-medium">{res.customerName} · {res.guests} guests</p>
+                                        <p className="text-xs text-muted-foreground">{nameOf(res.placeId)} · {res.dateKey} {res.time}</p>
+                                    </div>
+                                    <Badge className={`${RESERVATION_STATUS_COLORS[res.status] || 'bg-gray-100 text-gray-700'} border-none whitespace-nowrap`}>
+                                        {RESERVATION_STATUS_LABELS[res.status] || res.status}
+                                    </Badge>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card className="border-none shadow-sm">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2"><Copy className="h-5 w-5 text-primary" /> Copy Between Locations</CardTitle>
+                    <CardDescription>Set a location up once and roll it out to the others.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-5">
+                    {!canCopy ? (
+                        <p className="text-sm text-muted-foreground">Copying settings between locations is part of the Enterprise plan.</p>
+                    ) : (
+                        <>
+                            <div className="space-y-2">
+                                <Label>From</Label>
+                                <select
+                                    value={sourceId}
+                                    onChange={(e) => setSourceId(e.target.value)}
+                                    className="h-9 w-full max-w-sm rounded-md border px-2 text-sm bg-background"
+                                >
+                                    {locations.map(location => <option key={location.placeId} value={location.placeId}>{location.name || location.placeId}</option>)}
+                                </select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Copy</Label>
+                                {COPY_SECTIONS.map(section => (
+                                    <label key={section.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                                        <Checkbox checked={sections.includes(section.id)} onCheckedChange={() => setSections(toggle(sections, section.id))} />
+                                        <span>
+                                            {section.label}
+                                            <span className="block text-xs text-muted-foreground">{section.hint}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>To</Label>
+                                {locations.filter(location => location.placeId !== sourceId).map(location => (
+                                    <label key={location.placeId} className="flex items-center gap-2 text-sm cursor-pointer">
+                                        <Checkbox checked={targetIds.includes(location.placeId)} onCheckedChange={() => setTargetIds(toggle(targetIds, location.placeId))} />
+                                        {location.name || location.placeId}
+                                    </label>
+                                ))}
+                            </div>
+
+                            <Button onClick={handleCopy} disabled={copying || targetIds.filter(id => id !== sourceId).length === 0 || sections.length === 0}>
+                                {copying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Copy className="h-4 w-4 mr-2" />}
+                                Copy Settings
+                            </Button>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { Check } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useI18n } from "@/components/i18n-provider";
+import { ALLERGEN_IDS, EU_ALLERGENS, allergenLabel, toAllergenIds, type AllergenId } from "@/lib/allergens";
+import { MENU_CATEGORIES } from "@/lib/menu";
+import type { MenuItem } from "@/types";
+
+interface MenuAllergenMatrixProps {
+    items: MenuItem[];
+    onChange: (item: MenuItem) => Promise<void>;
+}
+
+/**
+ * Whole-menu allergen grid - one row per dish, one column per allergen
+ * (EU 14 numbered as printed on menus, then the extras). Clicking a cell
+ * toggles the allergen and saves the item.
+ */
+export function MenuAllergenMatrix({ items, onChange }: MenuAllergenMatrixProps) {
+    const { locale } = useI18n();
+    const [saving, setSaving] = useState<string | null>(null);
+
+    const rows = [...items].sort((a, b) =>
+        MENU_CATEGORIES.indexOf(a.category) - MENU_CATEGORIES.indexOf(b.category) || a.name.localeCompare(b.name)
+    );
+    const untagged = items.filter(item => item.category !== "Drinks" && toAllergenIds(item.allergens).length === 0).length;
+
+    const toggle = async (item: MenuItem, allergen: AllergenId) => {
+        const current = toAllergenIds(item.allergens);
+        const allergens = current.includes(allergen) ? current.filter(a => a !== allergen) : [...current, allergen];
+        setSaving(item.id);
+        try {
+            await onChange({ ...item, allergens: toAllergenIds(allergens) });
+        } finally {
+            setSaving(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b bg-muted/40">
+                            <th className="text-left font-medium p-3 sticky left-0 bg-muted/40 min-w-[180px]">Dish</th>
+                            {ALLERGEN_IDS.map(id => {
+                                const euNumber = (EU_ALLERGENS as readonly string[]).indexOf(id) + 1;
+                                return (
+                                    <th key={id} className="p-2 font-medium text-xs text-muted-foreground align-bottom">
+                                        <div className="flex flex-col items-center gap-1">
+                                            {euNumber > 0 && <span className="text-[10px]">{euNumber}</span>}
+                                            <span className="[writing-mode:vertical-rl] rotate-180 whitespace-nowrap">{allergenLabel(id, locale)}</span>
+                                        </div>
+                                    </th>
+                                );
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(item => {
+                            const contained = toAllergenIds(item.allergens);
+                            return (
+                                <tr key={item.id} className={`border-b last:border-0 ${saving === item.id ? "opacity-50" : ""}`}>
+                                    <td className="p-3 sticky left-0 bg-background">
+                                        <div className="font-medium">{item.name}</div>
+                                        <div className="text-xs text-muted-foreground">{item.category}</div>
+                                    </td>
+                                    {ALLERGEN_IDS.map(id => (
+                                        <td key={id} className="p-1 text-center">
+                                            <button
+                                                type="button"
+                                                disabled={saving === item.id}
+                                                onClick={() => toggle(item, id)}
+                                                title={allergenLabel(id, locale)}
+                                                className={`h-7 w-7 rounded-md border inline-flex items-center justify-center transition-colors ${contained.includes(id) ? "bg-destructive/10 border-destructive/50 text-destructive" : "hover:bg-muted"}`}
+                                            >
+                                                {contained.includes(id) && <Check className="h-3.5 w-3.5" />}
+                                            </button>
+                                        </td>
+                                    ))}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                {untagged > 0 && (
+                    <p className="p-3 text-xs text-muted-foreground border-t">
+                        {untagged} {untagged === 1 ? "dish has" : "dishes have"} no allergens marked. Search treats dishes without marks as unknown and never suggests them to diners with allergies.
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Plus, Trash2, Edit2, Loader2, Sparkles, Lightbulb, Lock, Info } from "lucide-react";
+import { Plus, Trash2, Edit2, Loader2, Sparkles, Lightbulb, Lock, Info, Upload, Grid3x3 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -24,30 +24,62 @@ import { doc, getDoc, collection, getDocs, setDoc, deleteDoc, writeBatch } from
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { Badge } from "@/components/ui/badge";
 import { BUSINESS_LIMITS } from "@/lib/plan-limits";
-
-interface MenuItem {
-    id: string;
-    name: string;
-    description?: string;
-    price: number;
-    weight?: string;
-    imageUrl?: string;
-    allergens?: string[];
-    dietary?: string[];
-    category: string;
+import { DEFAULT_MENU_ID, MENU_CATEGORIES as CATEGORIES, MENU_DIETARY as DIETARY, groupMenuByCategory, menuIdOf } from "@/lib/menu";
+import { ALLERGEN_IDS as ALLERGENS, allergenLabel, toAllergenIds } from "@/lib/allergens";
+import { useI18n } from "@/components/i18n-provider";
+import { MenuImportDialog } from "@/components/dashboard/MenuImportDialog";
+import { MenuAllergenMatrix } from "@/components/dashboard/MenuAllergenMatrix";
+import { MenuPublishing } from "@/components/dashboard/MenuPublishing";
+import type { MenuItem, MenuVersion, RestaurantMenu } from "@/types";
+
+/**
+ * Older items hold free-form labels ("Dairy", "Nuts") - shown and saved as
+ * canonical ids from here on.
+ */
+function withCanonicalAllergens(item: MenuItem): MenuItem {
+    return { ...item, allergens: toAllergenIds(item.allergens) };
 }
 
-const CATEGORIES = ["Starters", "Mains", "Desserts", "Drinks", "Specials"];
-const ALLERGENS = ["Gluten", "Dairy", "Nuts", "Soy", "Eggs", "Fish", "Shellfish"];
-const DIETARY = ["Vegetarian", "Vegan", "Gluten-Free", "Spicy", "Paleo", "Keto", "Lactose-Free", "Kosher", "Halal"];
+/**
+ * Restaurants from before named menus get one always-on "Menu" holding the
+ * existing items, published as version 1 so diners keep seeing them.
+ */
+async function createDefaultMenu(placeId: string, items: MenuItem[], ownerId: string): Promise<RestaurantMenu> {
+    const now = new Date().toISOString();
+    const published: MenuVersion | null = items.length > 0
+        ? { version: 1, name: "Menu", schedule: {}, items, publishedAt: now, publishedBy: ownerId }
+        : null;
+    const menu: RestaurantMenu = {
+        id: DEFAULT_MENU_ID,
+        name: "Menu",
+        schedule: {},
+        position: 0,
+        published,
+        latestVersion: published ? 1 : 0,
+        createdAt: now,
+        updatedAt: now
+    };
+
+    const menuRef = doc(db, "restaurants", placeId, "menus", DEFAULT_MENU_ID);
+    const batch = writeBatch(db);
+    batch.set(menuRef, menu);
+    if (published) batch.set(doc(menuRef, "versions", "1"), published);
+    await batch.commit();
+    return menu;
+}
 
 export function MenuEditor({ placeId }: { placeId: string }) {
     const { user, subscriptionTier } = useAuth();
-    const [items, setItems] = useState<MenuItem[]>([]);
+    const { locale } = useI18n();
+    const [items, setItems] = useState<MenuItem[]>([]);              // Draft items of every menu
+    const [menus, setMenus] = useState<RestaurantMenu[]>([]);
+    const [activeMenuId, setActiveMenuId] = useState(DEFAULT_MENU_ID);
     const [loading, setLoading] = useState(true);
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
     const [uploadingImage, setUploadingImage] = useState(false);
+    const [importOpen, setImportOpen] = useState(false);
+    const [matrixOpen, setMatrixOpen] = useState(false);
 
     // AI Suggestions State
     const [aiSuggestionsOpen, setAiSuggestionsOpen] = useState(false);
@@ -70,6 +102,7 @@ export function MenuEditor({ placeId }: { placeId: string }) {
         const fetchMenu = async () => {
             if (!placeId) return;
 
+            let loadedItems: MenuItem[] = [];
             try {
                 // 1. Try to fetch from subcollection
                 const menuRef = collection(db, "restaurants", placeId, "menu");
@@ -77,8 +110,8 @@ export function MenuEditor({ placeId }: { placeId: string }) {
 
                 if (!menuSnap.empty) {
                     // Subcollection has data, use it
-                    const loadedItems = menuSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as MenuItem));
-                    setItems(loadedItems);
+                    loadedItems = menuSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as MenuItem));
+                    setItems(loadedItems.map(withCanonicalAllergens));
                 } else {
                     // 2. Fallback: Check for legacy array in parent doc
                     const docRef = doc(db, "restaurants", placeId);
@@ -104,13 +137,25 @@ export function MenuEditor({ placeId }: { placeId: string }) {
                             // Future cleanup can remove 'menu.items'.
 
                             await batch.commit();
-                            setItems(legacyItems);
+                            loadedItems = legacyItems;
+                            setItems(legacyItems.map(withCanonicalAllergens));
                             toast.success("Menu optimized for new version");
                         } else {
                             setItems([]);
                         }
                     }
                 }
+
+                // 4. Named menus (created on first visit for older restaurants)
+                const menusSnap = await getDocs(collection(db, "restaurants", placeId, "menus"));
+                if (!menusSnap.empty) {
+                    const loadedMenus = menusSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as RestaurantMenu));
+                    setMenus(loadedMenus);
+                    setActiveMenuId([...loadedMenus].sort((a, b) => a.position - b.position)[0].id);
+                } else if (user) {
+                    setMenus([await createDefaultMenu(placeId, loadedItems, user.uid)]);
+                    setActiveMenuId(DEFAULT_MENU_ID);
+                }
             } catch (error) {
                 console.error("Error fetching menu:", error);
                 toast.error("Failed to load menu");
@@ -122,7 +167,7 @@ export function MenuEditor({ placeId }: { placeId: string }) {
         if (placeId) {
             fetchMenu();
         }
-    }, [placeId]);
+    }, [placeId, user]);
 
     const handleSave = async () => {
         if (!formData.name || !formData.price || !formData.category) {
@@ -140,7 +185,8 @@ export function MenuEditor({ placeId }: { placeId: string }) {
                 imageUrl: formData.imageUrl || "",
                 category: formData.category,
                 allergens: formData.allergens || [],
-                dietary: formData.dietary || []
+                dietary: formData.dietary || [],
+                menuId: editingItem ? menuIdOf(editingItem) : activeMenuId
             };
 
             // New Subcollection Logic
@@ -273,6 +319,16 @@ export function MenuEditor({ placeId }: { placeId: string }) {
         }
     };
 
+    const handleMatrixChange = async (item: MenuItem) => {
+        try {
+            await setDoc(doc(db, "restaurants", placeId, "menu", item.id), item);
+            setItems(prev => prev.map(i => i.id === item.id ? item : i));
+        } catch (error) {
+            console.error("Error saving allergens:", error);
+            toast.error("Failed to save allergens");
+        }
+    };
+
     const openEdit = (item: MenuItem) => {
         setEditingItem(item);
         setFormData(item);
@@ -292,19 +348,16 @@ export function MenuEditor({ placeId }: { placeId: string }) {
 
     if (loading) return <div className="flex justify-center p-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
 
-    // Group items by category
-    const groupedItems = items.reduce((acc, item) => {
-        if (!acc[item.category]) acc[item.category] = [];
-        acc[item.category].push(item);
-        return acc;
-    }, {} as Record<string, MenuItem[]>);
+    // Group the selected menu's items by category
+    const menuItems = items.filter(item => menuIdOf(item) === activeMenuId);
+    const groupedItems = groupMenuByCategory(menuItems);
 
     return (
         <div className="space-y-6">
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
                 <div>
                     <h2 className="text-2xl font-semibold tracking-tight">Menu Management</h2>
-                    <p className="text-muted-foreground">Manage your dishes, drinks, and specials.</p>
+                    <p className="text-muted-foreground">Manage your menus, dishes and specials. Diners see a menu once you publish it.</p>
                 </div>
                 <div className="flex gap-2">
                     <Button
@@ -322,6 +375,12 @@ export function MenuEditor({ placeId }: { placeId: string }) {
                         )}
                         {aiLoading ? "Analyzing..." : "Get AI Suggestions"}
                     </Button>
+                    <Button variant="outline" onClick={() => setImportOpen(true)}>
+                        <Upload className="h-4 w-4 mr-2" /> Import
+                    </Button>
+                    <Button variant={matrixOpen ? "secondary" : "outline"} onClick={() => setMatrixOpen(!matrixOpen)} disabled={menuItems.length === 0}>
+                        <Grid3x3 className="h-4 w-4 mr-2" /> Allergen Matrix
+                    </Button>
                     <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
                         <DialogTrigger asChild>
                             <Button><Plus className="h-4 w-4 mr-2" /> Add Item</Button>
@@ -385,6 +444,7 @@ export function MenuEditor({ placeId }: { placeId: string }) {
 
                                 <div className="space-y-2">
                                     <Label>Allergens</Label>
+                                    <p className="text-xs text-muted-foreground">Diners with these allergies are warned - and your place is hidden from their search when no dish is free of them.</p>
                                     <div className="flex flex-wrap gap-2">
                                         {ALLERGENS.map(allergen => (
                                             <Badge
@@ -393,7 +453,7 @@ export function MenuEditor({ placeId }: { placeId: string }) {
                                                 className="cursor-pointer select-none"
                                                 onClick={() => toggleSelection('allergens', allergen)}
                                             >
-                                                {allergen}
+                                                {allergenLabel(allergen, locale)}
                                             </Badge>
                                         ))}
                                     </div>
@@ -425,13 +485,25 @@ export function MenuEditor({ placeId }: { placeId: string }) {
                 </div>
             </div>
 
-            {items.length === 0 ? (
+            <MenuPublishing
+                placeId={placeId}
+                menus={menus}
+                activeMenuId={activeMenuId}
+                items={items}
+                onSelect={setActiveMenuId}
+                onMenusChange={setMenus}
+                onItemsChange={setItems}
+            />
+
+            {menuItems.length === 0 ? (
                 <Card className="border-dashed">
                     <CardContent className="flex flex-col items-center justify-center py-10 text-muted-foreground">
                         <p>No items found.</p>
-                        <p className="text-sm">Start by adding items to your menu.</p>
+                        <p className="text-sm">Start by adding items to your menu, or import it from a spreadsheet, your website or the menu text.</p>
                     </CardContent>
                 </Card>
+            ) : matrixOpen ? (
+                <MenuAllergenMatrix items={menuItems} onChange={handleMatrixChange} />
             ) : (
                 <div className="space-y-8">
                     {CATEGORIES.map(category => {
@@ -460,7 +532,7 @@ export function MenuEditor({ placeId }: { placeId: string }) {
                                                         <div className="flex flex-wrap gap-1 mt-2">
                                                             {item.weight && <Badge variant="outline" className="text-xs">{item.weight}</Badge>}
                                                             {item.dietary?.map(d => <Badge key={d} variant="secondary" className="text-xs">{d}</Badge>)}
-                                                            {item.allergens?.map(a => <Badge key={a} variant="outline" className="text-xs border-destructive/50 text-destructive">{a}</Badge>)}
+                                                            {toAllergenIds(item.allergens).map(a => <Badge key={a} variant="outline" className="text-xs border-destructive/50 text-destructive">{allergenLabel(a, locale)}</Badge>)}
                                                         </div>
                                                     </div>
                                                     <div className="flex justify-end gap-2 mt-4">
@@ -482,6 +554,15 @@ export function MenuEditor({ placeId }: { placeId: string }) {
                 </div>
             )}
 
+            <MenuImportDialog
+                placeId={placeId}
+                menuId={activeMenuId}
+                items={menuItems}
+                open={importOpen}
+                onOpenChange={setImportOpen}
+                onImported={(next) => setItems([...items.filter(item => menuIdOf(item) !== activeMenuId), ...next])}
+            />
+
             {/* AI Suggestions Dialog */}
             <Dialog open={aiSuggestionsOpen} onOpenChange={setAiSuggestionsOpen}>
                 <DialogContent className="sm:max-w-2xl">
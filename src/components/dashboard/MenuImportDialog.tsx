@@ -0,0 +1,346 @@
+"use client";
+
+import { useState } from "react";
+import { collection, doc, writeBatch, type DocumentReference } from "firebase/firestore";
+import { FileSpreadsheet, Globe, Loader2, ScanText, Upload } from "lucide-react";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { allergenLabel, isAllergenId } from "@/lib/allergens";
+import { useAuth } from "@/components/auth-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+    diffMenu,
+    mergeMenuItem,
+    parseMenuCsv,
+    parseMenuRows,
+    parseMenuText,
+    type ImportedMenuItem,
+    type MenuChange,
+    type MenuImportResult,
+    type MenuImportSource
+} from "@/lib/menu-import";
+import type { MenuItem } from "@/types";
+
+// Firestore batches take 500 writes
+const BATCH_SIZE = 400;
+
+const SOURCES: { id: MenuImportSource; label: string; icon: typeof Globe }[] = [
+    { id: "spreadsheet", label: "CSV / Excel", icon: FileSpreadsheet },
+    { id: "website", label: "Website", icon: Globe },
+    { id: "text", label: "Text / OCR", icon: ScanText }
+];
+
+const FIELD_LABELS: Record<keyof ImportedMenuItem, string> = {
+    name: "Name",
+    description: "Description",
+    price: "Price",
+    weight: "Weight",
+    category: "Category",
+    allergens: "Allergens",
+    dietary: "Dietary"
+};
+
+interface MenuImportDialogProps {
+    placeId: string;
+    menuId: string;
+    items: MenuItem[];           // Draft items of that menu
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onImported: (items: MenuItem[]) => void;
+}
+
+function formatValue(value: unknown): string {
+    if (Array.isArray(value)) return value.length ? value.map(v => isAllergenId(v) ? allergenLabel(v) : v).join(", ") : "-";
+    if (typeof value === "number") return `€${value.toFixed(2)}`;
+    return value ? String(value) : "-";
+}
+
+/**
+ * Bulk menu import: parse a spreadsheet, the website's schema.org menu or
+ * pasted text (menu-import.ts), preview what changes, then merge the kept
+ * items into the draft of one menu in `restaurants/{placeId}/menu`.
+ */
+export function MenuImportDialog({ placeId, menuId, items, open, onOpenChange, onImported }: MenuImportDialogProps) {
+    const { user } = useAuth();
+    const [source, setSource] = useState<MenuImportSource>("spreadsheet");
+    const [text, setText] = useState("");
+    const [parsing, setParsing] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    // Preview
+    const [changes, setChanges] = useState<MenuChange[] | null>(null);
+    const [skipped, setSkipped] = useState(0);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [removeMissing, setRemoveMissing] = useState(false);
+
+    const reset = () => {
+        setChanges(null);
+        setSelected(new Set());
+        setRemoveMissing(false);
+        setSkipped(0);
+    };
+
+    const close = (next: boolean) => {
+        if (!next) {
+            reset();
+            setText("");
+        }
+        onOpenChange(next);
+    };
+
+    const showPreview = (result: MenuImportResult) => {
+        if (result.items.length === 0) {
+            toast.error("No menu items found - check that every item has a name and a price");
+            return;
+        }
+        const diff = diffMenu(items, result.items);
+        setChanges(diff);
+        setSkipped(result.skipped);
+        setSelected(new Set(diff.filter(c => c.kind === "add" || c.kind === "update").map(c => c.key)));
+    };
+
+    const parse = async (run: () => Promise<MenuImportResult>) => {
+        setParsing(true);
+        try {
+            showPreview(await run());
+        } catch (error) {
+            console.error("Menu import parse error:", error);
+            toast.error(error instanceof Error ? error.message : "Couldn't read the menu");
+        } finally {
+            setParsing(false);
+        }
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+
+        parse(async () => {
+            if (/\.xlsx$/i.test(file.name)) {
+                const { readSheet } = await import("read-excel-file/browser");
+                return parseMenuRows(await readSheet(file));
+            }
+            if (/\.xls$/i.test(file.name)) throw new Error("Old .xls files aren't supported - save as .xlsx or CSV");
+            return parseMenuCsv(await file.text());
+        });
+    };
+
+    const handleWebsite = () => parse(async () => {
+        if (!user) throw new Error("Please log in again");
+        const token = await user.getIdToken();
+        const res = await fetch("/api/menu/import", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+            body: JSON.stringify({ placeId })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Couldn't read your website");
+        return data as MenuImportResult;
+    });
+
+    const handleText = () => parse(async () => parseMenuText(text));
+
+    const toggle = (key: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const handleApply = async () => {
+        if (!changes) return;
+        const menuRef = collection(db, "restaurants", placeId, "menu");
+        const kept = changes.filter(c => selected.has(c.key) && c.imported);
+        const removed = removeMissing ? changes.filter(c => c.kind === "missing" && c.existing) : [];
+
+        const writes: { ref: DocumentReference; item: MenuItem | null }[] = [
+            ...kept.map(c => {
+                const item = c.existing
+                    ? mergeMenuItem(c.existing, c.imported!)
+                    : { ...c.imported!, id: crypto.randomUUID(), imageUrl: "", menuId };
+                return { ref: doc(menuRef, item.id), item };
+            }),
+            ...removed.map(c => ({ ref: doc(menuRef, c.existing!.id), item: null }))
+        ];
+        if (writes.length === 0) {
+            toast.error("Nothing selected to import");
+            return;
+        }
+
+        setSaving(true);
+        try {
+            for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+                const batch = writeBatch(db);
+                writes.slice(i, i + BATCH_SIZE).forEach(({ ref, item }) => {
+                    if (item) batch.set(ref, item);
+                    else batch.delete(ref);
+                });
+                await batch.commit();
+            }
+
+            const written = new Map(writes.filter(w => w.item).map(w => [w.item!.id, w.item!]));
+            const removedIds = new Set(removed.map(c => c.existing!.id));
+            const next = [
+                ...items.filter(i => !removedIds.has(i.id)).map(i => written.get(i.id) || i),
+                ...[...written.values()].filter(i => !items.some(existing => existing.id === i.id))
+            ];
+            onImported(next);
+            toast.success(`Menu updated: ${kept.length} items imported${removed.length ? `, ${removed.length} removed` : ""}`);
+            close(false);
+        } catch (error) {
+            console.error("Menu import save error:", error);
+            toast.error("Failed to save the imported menu");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const counts = changes?.reduce((acc, c) => ({ ...acc, [c.kind]: (acc[c.kind] || 0) + 1 }), {} as Record<string, number>) || {};
+    const visibleChanges = changes?.filter(c => c.kind === "add" || c.kind === "update") || [];
+
+    return (
+        <Dialog open={open} onOpenChange={close}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import Menu</DialogTitle>
+                    <DialogDescription>
+                        {changes
+                            ? "Check what changes before anything is saved. Photos of existing items are kept."
+                            : "Bring in your whole menu at once - you'll see a preview before anything is saved."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!changes ? (
+                    <div className="space-y-4 py-2">
+                        <div className="grid grid-cols-3 gap-2">
+                            {SOURCES.map(option => (
+                                <Button
+                                    key={option.id}
+                                    type="button"
+                                    variant={source === option.id ? "default" : "outline"}
+                                    onClick={() => setSource(option.id)}
+                                >
+                                    <option.icon className="h-4 w-4 mr-2" />
+                                    {option.label}
+                                </Button>
+                            ))}
+                        </div>
+
+                        {source === "spreadsheet" && (
+                            <div className="space-y-2">
+                                <Input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} disabled={parsing} />
+                                <p className="text-xs text-muted-foreground">
+                                    First row is the header. Needed: <strong>Name</strong> and <strong>Price</strong>. Optional: Description, Category, Weight, Allergens (names or EU numbers 1-14), Dietary.
+                                </p>
+                            </div>
+                        )}
+
+                        {source === "website" && (
+                            <div className="space-y-2">
+                                <p className="text-sm text-muted-foreground">
+                                    Reads the schema.org menu markup on the website saved in Settings - most website builders and ordering systems publish it.
+                                </p>
+                                <Button onClick={handleWebsite} disabled={parsing}>
+                                    <Globe className="h-4 w-4 mr-2" /> Read Menu from Website
+                                </Button>
+                            </div>
+                        )}
+
+                        {source === "text" && (
+                            <div className="space-y-2">
+                                <Textarea
+                                    rows={10}
+                                    value={text}
+                                    onChange={(e) => setText(e.target.value)}
+                                    placeholder={"POLIEVKY\nGulášová polievka 0,33l (1,7) 3,20 €\n\nHLAVNÉ JEDLÁ\nKuracie prsia 200g, hranolky 9,90 €"}
+                                    className="font-mono text-xs"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Paste text from a PDF menu or a photo run through OCR. One item per line with the price at the end; section headings set the category.
+                                </p>
+                                <Button onClick={handleText} disabled={parsing || !text.trim()}>
+                                    <ScanText className="h-4 w-4 mr-2" /> Read Text
+                                </Button>
+                            </div>
+                        )}
+
+                        {parsing && (
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                <Loader2 className="h-4 w-4 animate-spin" /> Reading menu...
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div className="space-y-4 py-2">
+                        <div className="flex flex-wrap gap-2">
+                            <Badge className="bg-green-100 text-green-700">{counts.add || 0} new</Badge>
+                            <Badge className="bg-blue-100 text-blue-700">{counts.update || 0} changed</Badge>
+                            <Badge variant="outline">{counts.unchanged || 0} unchanged</Badge>
+                            {!!counts.missing && <Badge variant="outline">{counts.missing} not in import</Badge>}
+                            {!!skipped && <Badge className="bg-yellow-100 text-yellow-700">{skipped} skipped (no name or price)</Badge>}
+                        </div>
+
+                        <div className="divide-y rounded-lg border max-h-[45vh] overflow-y-auto">
+                            {visibleChanges.length === 0 && (
+                                <p className="p-4 text-sm text-muted-foreground">Your menu already matches the import.</p>
+                            )}
+                            {visibleChanges.map(change => (
+                                <label key={change.key} className="flex items-start gap-3 p-3 cursor-pointer hover:bg-gray-50">
+                                    <Checkbox checked={selected.has(change.key)} onCheckedChange={() => toggle(change.key)} className="mt-1" />
+                                    <div className="flex-1 min-w-0 space-y-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-medium">{change.imported!.name}</span>
+                                            <Badge variant="outline" className="text-xs">{change.imported!.category}</Badge>
+                                            {change.kind === "add" && <Badge className="bg-green-100 text-green-700 text-xs">New</Badge>}
+                                            <span className="ml-auto font-semibold text-primary">€{change.imported!.price.toFixed(2)}</span>
+                                        </div>
+                                        {change.kind === "add" ? (
+                                            <p className="text-xs text-muted-foreground truncate">
+                                                {[change.imported!.weight, change.imported!.description, change.imported!.allergens?.length ? `Allergens: ${formatValue(change.imported!.allergens)}` : ""].filter(Boolean).join(" · ")}
+                                            </p>
+                                        ) : (
+                                            change.fields.map(field => (
+                                                <p key={field} className="text-xs text-muted-foreground">
+                                                    {FIELD_LABELS[field]}: <span className="line-through">{formatValue(change.existing![field as keyof MenuItem])}</span> → <span className="text-gray-900">{formatValue(mergeMenuItem(change.existing!, change.imported!)[field as keyof MenuItem])}</span>
+                                                </p>
+                                            ))
+                                        )}
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
+
+                        {!!counts.missing && (
+                            <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                <Checkbox checked={removeMissing} onCheckedChange={(checked) => setRemoveMissing(checked === true)} />
+                                Remove the {counts.missing} current items that aren&apos;t in the import
+                            </label>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {changes ? (
+                        <>
+                            <Button variant="outline" onClick={reset} disabled={saving}>Back</Button>
+                            <Button onClick={handleApply} disabled={saving || (selected.size === 0 && !removeMissing)}>
+                                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                                Import {selected.size} Items
+                            </Button>
+                        </>
+                    ) : (
+                        <Button variant="outline" onClick={() => close(false)}>Cancel</Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,361 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, deleteDoc, doc, getDocs, orderBy, query, setDoc, updateDoc, writeBatch, type DocumentReference } from "firebase/firestore";
+import { History, Loader2, Plus, RotateCcw, Send, Trash2, EyeOff } from "lucide-react";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/components/auth-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DEFAULT_MENU_ID, menuIdOf } from "@/lib/menu";
+import { cleanSchedule, describeSchedule, hasUnpublishedChanges, validateSchedule } from "@/lib/menu-schedule";
+import type { MenuItem, MenuSchedule, MenuVersion, RestaurantMenu } from "@/types";
+
+// Firestore batches take 500 writes
+const BATCH_SIZE = 400;
+
+const WEEKDAYS = [
+    { day: 1, label: "Mon" }, { day: 2, label: "Tue" }, { day: 3, label: "Wed" }, { day: 4, label: "Thu" },
+    { day: 5, label: "Fri" }, { day: 6, label: "Sat" }, { day: 0, label: "Sun" }
+];
+
+interface MenuPublishingProps {
+    placeId: string;
+    menus: RestaurantMenu[];
+    activeMenuId: string;
+    items: MenuItem[];                       // Draft items of every menu
+    onSelect: (menuId: string) => void;
+    onMenusChange: (menus: RestaurantMenu[]) => void;
+    onItemsChange: (items: MenuItem[]) => void;
+}
+
+async function commitInChunks(writes: { ref: DocumentReference; data: object | null }[]) {
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        writes.slice(i, i + BATCH_SIZE).forEach(({ ref, data }) => {
+            if (data) batch.set(ref, data);
+            else batch.delete(ref);
+        });
+        await batch.commit();
+    }
+}
+
+/**
+ * Named menus with schedules (menu-schedule.ts): pick the menu to edit, set
+ * when it is served, publish the draft as a new version, or restore an older
+ * version from the history. Diners only see published versions.
+ */
+export function MenuPublishing({ placeId, menus, activeMenuId, items, onSelect, onMenusChange, onItemsChange }: MenuPublishingProps) {
+    const { user } = useAuth();
+    const menu = menus.find(m => m.id === activeMenuId);
+    const [name, setName] = useState("");
+    const [schedule, setSchedule] = useState<MenuSchedule>({});
+    const [busy, setBusy] = useState(false);
+    const [historyOpen, setHistoryOpen] = useState(false);
+    const [versions, setVersions] = useState<MenuVersion[] | null>(null);
+
+    useEffect(() => {
+        setName(menu?.name || "");
+        setSchedule(menu?.schedule || {});
+    }, [menu?.id, menu?.name, menu?.schedule]);
+
+    if (!menu) return null;
+
+    const menuRef = doc(db, "restaurants", placeId, "menus", menu.id);
+    const menuItems = items.filter(item => menuIdOf(item) === menu.id);
+    const settingsChanged = name.trim() !== menu.name || JSON.stringify(cleanSchedule(schedule)) !== JSON.stringify(cleanSchedule(menu.schedule));
+    const changed = hasUnpublishedChanges(menu, items);
+
+    const updateMenu = (patch: Partial<RestaurantMenu>) =>
+        onMenusChange(menus.map(m => m.id === menu.id ? { ...m, ...patch } : m));
+
+    const run = async (label: string, action: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (error) {
+            console.error(`Menu ${label} error:`, error);
+            toast.error(`Failed to ${label} the menu`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = () => run("create", async () => {
+        const now = new Date().toISOString();
+        const created: RestaurantMenu = {
+            id: crypto.randomUUID(),
+            name: `Menu ${menus.length + 1}`,
+            schedule: {},
+            position: Math.max(-1, ...menus.map(m => m.position)) + 1,
+            published: null,
+            latestVersion: 0,
+            createdAt: now,
+            updatedAt: now
+        };
+        await setDoc(doc(db, "restaurants", placeId, "menus", created.id), created);
+        onMenusChange([...menus, created]);
+        onSelect(created.id);
+        toast.success("Draft menu created - add items, set when it's served, then publish");
+    });
+
+    const handleSaveSettings = () => {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            toast.error("Give the menu a name");
+            return;
+        }
+        const error = validateSchedule(schedule);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+        run("save", async () => {
+            const patch = { name: trimmed, schedule: cleanSchedule(schedule), updatedAt: new Date().toISOString() };
+            await updateDoc(menuRef, patch);
+            updateMenu(patch);
+            toast.success("Menu settings saved");
+        });
+    };
+
+    const handlePublish = () => {
+        if (menuItems.length === 0) {
+            toast.error("Add at least one item before publishing");
+            return;
+        }
+        if (settingsChanged) {
+            toast.error("Save the menu settings first");
+            return;
+        }
+        run("publish", async () => {
+            const now = new Date().toISOString();
+            const published: MenuVersion = {
+                version: menu.latestVersion + 1,
+                name: menu.name,
+                schedule: cleanSchedule(menu.schedule),
+                items: menuItems,
+                publishedAt: now,
+                publishedBy: user?.uid || ""
+            };
+            const batch = writeBatch(db);
+            batch.set(doc(menuRef, "versions", String(published.version)), published);
+            batch.update(menuRef, { published, latestVersion: published.version, updatedAt: now });
+            await batch.commit();
+
+            updateMenu({ published, latestVersion: published.version, updatedAt: now });
+            setVersions(null);
+            toast.success(`Published version ${published.version}`);
+        });
+    };
+
+    const handleUnpublish = () => {
+        if (!confirm(`Hide "${menu.name}" from diners? The draft and history stay.`)) return;
+        run("unpublish", async () => {
+            const now = new Date().toISOString();
+            await updateDoc(menuRef, { published: null, updatedAt: now });
+            updateMenu({ published: null, updatedAt: now });
+            toast.success("Menu unpublished");
+        });
+    };
+
+    const handleDelete = () => {
+        if (!confirm(`Delete "${menu.name}" with its ${menuItems.length} items and history?`)) return;
+        run("delete", async () => {
+            const history = await getDocs(collection(menuRef, "versions"));
+            await commitInChunks([
+                ...menuItems.map(item => ({ ref: doc(db, "restaurants", placeId, "menu", item.id), data: null })),
+                ...history.docs.map(d => ({ ref: d.ref, data: null }))
+            ]);
+            await deleteDoc(menuRef);
+
+            const remaining = menus.filter(m => m.id !== menu.id);
+            onItemsChange(items.filter(item => menuIdOf(item) !== menu.id));
+            onMenusChange(remaining);
+            onSelect(remaining[0]?.id || DEFAULT_MENU_ID);
+            toast.success("Menu deleted");
+        });
+    };
+
+    const openHistory = async () => {
+        setHistoryOpen(true);
+        if (versions) return;
+        try {
+            const snap = await getDocs(query(collection(menuRef, "versions"), orderBy("version", "desc")));
+            setVersions(snap.docs.map(d => d.data() as MenuVersion));
+        } catch (error) {
+            console.error("Error loading menu history:", error);
+            toast.error("Failed to load the history");
+        }
+    };
+
+    // Rollback = publish the old snapshot as a new version and reset the draft to it
+    const handleRestore = (old: MenuVersion) => {
+        if (!confirm(`Restore version ${old.version}? It is published right away and replaces the current draft.`)) return;
+        run("restore", async () => {
+            const now = new Date().toISOString();
+            const restoredItems = old.items.map(item => ({ ...item, menuId: menu.id }));
+            const published: MenuVersion = {
+                ...old,
+                version: menu.latestVersion + 1,
+                items: restoredItems,
+                publishedAt: now,
+                publishedBy: user?.uid || "",
+                restoredFrom: old.version
+            };
+
+            const keptIds = new Set(restoredItems.map(item => item.id));
+            await commitInChunks([
+                ...menuItems.filter(item => !keptIds.has(item.id)).map(item => ({ ref: doc(db, "restaurants", placeId, "menu", item.id), data: null })),
+                ...restoredItems.map(item => ({ ref: doc(db, "restaurants", placeId, "menu", item.id), data: item }))
+            ]);
+
+            const batch = writeBatch(db);
+            batch.set(doc(menuRef, "versions", String(published.version)), published);
+            batch.update(menuRef, { name: old.name, schedule: old.schedule, published, latestVersion: published.version, updatedAt: now });
+            await batch.commit();
+
+            onItemsChange([...items.filter(item => menuIdOf(item) !== menu.id), ...restoredItems]);
+            updateMenu({ name: old.name, schedule: old.schedule, published, latestVersion: published.version, updatedAt: now });
+            setVersions(prev => prev ? [published, ...prev] : null);
+            toast.success(`Version ${old.version} restored as version ${published.version}`);
+        });
+    };
+
+    const toggleDay = (day: number) => {
+        const current = schedule.days ?? WEEKDAYS.map(d => d.day);
+        const days = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+        setSchedule({ ...schedule, days });
+    };
+
+    const status = (m: RestaurantMenu) => {
+        if (!m.published) return <Badge variant="outline" className="text-xs">Draft</Badge>;
+        if (hasUnpublishedChanges(m, items)) return <Badge variant="secondary" className="text-xs">v{m.published.version} · changes</Badge>;
+        return <Badge className="text-xs bg-green-100 text-green-700 hover:bg-green-100">v{m.published.version} live</Badge>;
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+                {[...menus].sort((a, b) => a.position - b.position).map(m => (
+                    <Button key={m.id} variant={m.id === menu.id ? "default" : "outline"} size="sm" onClick={() => onSelect(m.id)} className="gap-2">
+                        {m.name} {status(m)}
+                    </Button>
+                ))}
+                <Button variant="ghost" size="sm" onClick={handleCreate} disabled={busy}>
+                    <Plus className="h-4 w-4 mr-1" /> New Menu
+                </Button>
+            </div>
+
+            <Card>
+                <CardContent className="p-4 space-y-4">
+                    <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label>Menu name</Label>
+                            <Input value={name} onChange={e => setName(e.target.value)} placeholder="Lunch, Weekend Brunch, Summer..." />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Served on</Label>
+                            <div className="flex flex-wrap gap-1">
+                                {WEEKDAYS.map(({ day, label }) => (
+                                    <Badge
+                                        key={day}
+                                        variant={!schedule.days || schedule.days.includes(day) ? "default" : "outline"}
+                                        className="cursor-pointer select-none"
+                                        onClick={() => toggleDay(day)}
+                                    >
+                                        {label}
+                                    </Badge>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Hours (optional)</Label>
+                            <div className="flex items-center gap-2">
+                                <Input type="time" value={schedule.startTime || ""} onChange={e => setSchedule({ ...schedule, startTime: e.target.value || undefined })} />
+                                <span className="text-muted-foreground">-</span>
+                                <Input type="time" value={schedule.endTime || ""} onChange={e => setSchedule({ ...schedule, endTime: e.target.value || undefined })} />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Dates (optional, e.g. a seasonal menu)</Label>
+                            <div className="flex items-center gap-2">
+                                <Input type="date" value={schedule.startDate || ""} onChange={e => setSchedule({ ...schedule, startDate: e.target.value || undefined })} />
+                                <span className="text-muted-foreground">-</span>
+                                <Input type="date" value={schedule.endDate || ""} onChange={e => setSchedule({ ...schedule, endDate: e.target.value || undefined })} />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-4">
+                        <p className="text-sm text-muted-foreground">
+                            {describeSchedule(cleanSchedule(schedule))}
+                            {menu.published
+                                ? ` · version ${menu.published.version} published ${new Date(menu.published.publishedAt).toLocaleDateString()}`
+                                : " · not published yet"}
+                            {changed && menu.published && " · unpublished changes"}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            {settingsChanged && (
+                                <Button variant="outline" size="sm" onClick={handleSaveSettings} disabled={busy}>Save Settings</Button>
+                            )}
+                            <Button size="sm" onClick={handlePublish} disabled={busy || !changed}>
+                                {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+                                Publish
+                            </Button>
+                            {menu.published && (
+                                <Button variant="outline" size="sm" onClick={handleUnpublish} disabled={busy}>
+                                    <EyeOff className="h-4 w-4 mr-1" /> Unpublish
+                                </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={openHistory} disabled={menu.latestVersion === 0}>
+                                <History className="h-4 w-4 mr-1" /> History
+                            </Button>
+                            {menus.length > 1 && (
+                                <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={handleDelete} disabled={busy}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>{menu.name} - History</DialogTitle>
+                        <DialogDescription>Every published version. Restoring one publishes it again as a new version.</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                        {!versions ? (
+                            <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+                        ) : versions.map(v => (
+                            <div key={v.version} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-2 font-medium">
+                                        Version {v.version}
+                                        {menu.published?.version === v.version && <Badge className="text-xs bg-green-100 text-green-700 hover:bg-green-100">Live</Badge>}
+                                    </div>
+                                    <p className="text-xs text-muted-foreground truncate">
+                                        {new Date(v.publishedAt).toLocaleString()} · {v.items.length} items · {v.name} · {describeSchedule(v.schedule)}
+                                        {v.restoredFrom ? ` · restored from v${v.restoredFrom}` : ""}
+                                    </p>
+                                </div>
+                                {menu.published?.version !== v.version && (
+                                    <Button variant="outline" size="sm" onClick={() => handleRestore(v)} disabled={busy}>
+                                        <RotateCcw className="h-4 w-4 mr-1" /> Restore
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
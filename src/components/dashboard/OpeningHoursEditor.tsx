@@ -8,9 +8,11 @@ import { Input } from "@/components/ui/input";
 
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, Clock, Copy, Save } from "lucide-react";
+import { Loader2, Clock, Copy, Save, CalendarX, Plus, Trash2 } from "lucide-react";
 import toast from "react-hot-toast";
 import { Place } from "@/types/place";
+import type { OpeningHoursException } from "@/types";
+import { DEFAULT_TIME_ZONE } from "@/lib/opening-hours";
 
 interface OpeningHoursEditorProps {
     placeId: string;
@@ -31,6 +33,8 @@ export function OpeningHoursEditor({ placeId }: OpeningHoursEditorProps) {
     const [schedule, setSchedule] = useState<DaySchedule[]>(
         DAYS.map(day => ({ day, isOpen: true, open: "09:00", close: "22:00" }))
     );
+    const [exceptions, setExceptions] = useState<OpeningHoursException[]>([]);
+    const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
 
     useEffect(() => {
         const fetchHours = async () => {
@@ -42,6 +46,9 @@ export function OpeningHoursEditor({ placeId }: OpeningHoursEditorProps) {
                 if (snap.exists()) {
                     const data = snap.data() as Place;
 
+                    if (data.openingHoursExceptions) setExceptions(data.openingHoursExceptions);
+                    if (data.timeZone) setTimeZone(data.timeZone);
+
                     if (data.openingHoursSpecification && data.openingHoursSpecification.length > 0) {
                         // Load from structured data
                         const newSchedule = DAYS.map(day => {
@@ -131,6 +138,19 @@ export function OpeningHoursEditor({ placeId }: OpeningHoursEditorProps) {
         toast.success(`Copied ${source.day}'s hours to all days`);
     };
 
+    const addException = () => {
+        const today = new Date().toISOString().slice(0, 10);
+        setExceptions([...exceptions, { date: today, closed: true, label: "" }]);
+    };
+
+    const updateException = (index: number, patch: Partial<OpeningHoursException>) => {
+        setExceptions(exceptions.map((e, i) => i === index ? { ...e, ...patch } : e));
+    };
+
+    const removeException = (index: number) => {
+        setExceptions(exceptions.filter((_, i) => i !== index));
+    };
+
     const handleSave = async () => {
         setSaving(true);
         try {
@@ -154,6 +174,24 @@ export function OpeningHoursEditor({ placeId }: OpeningHoursEditorProps) {
                     closes: s.close
                 }));
 
+            // 3. Holiday overrides - drop incomplete rows, special hours need both times
+            const cleanExceptions = exceptions
+                .filter(e => e.date && (e.closed || (e.opens && e.closes)))
+                .map(e => ({
+                    date: e.date,
+                    closed: e.closed,
+                    ...(e.closed ? {} : { opens: e.opens, closes: e.closes }),
+                    ...(e.label ? { label: e.label } : {})
+                }))
+                .sort((a, b) => a.date.localeCompare(b.date));
+
+            try {
+                new Intl.DateTimeFormat("en-US", { timeZone });
+            } catch {
+                toast.error(`Unknown timezone "${timeZone}"`);
+                return;
+            }
+
             const docRef = doc(db, "restaurants", placeId);
             await updateDoc(docRef, {
                 opening_hours: {
@@ -161,6 +199,8 @@ export function OpeningHoursEditor({ placeId }: OpeningHoursEditorProps) {
                     weekday_text: weekdayText
                 },
                 openingHoursSpecification: specs,
+                openingHoursExceptions: cleanExceptions,
+                timeZone,
                 updatedAt: new Date().toISOString()
             });
 
@@ -231,6 +271,86 @@ export function OpeningHoursEditor({ placeId }: OpeningHoursEditorProps) {
                         </div>
                     ))}
 
+                    <div className="pt-4 border-t space-y-3">
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <h4 className="font-semibold flex items-center gap-2">
+                                    <CalendarX className="h-4 w-4 text-primary" />
+                                    Holidays &amp; Special Hours
+                                </h4>
+                                <p className="text-sm text-muted-foreground">Override the weekly schedule on specific dates.</p>
+                            </div>
+                            <Button variant="outline" size="sm" onClick={addException}>
+                                <Plus className="h-4 w-4 mr-1" /> Add Date
+                            </Button>
+                        </div>
+
+                        {exceptions.map((exception, index) => (
+                            <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border border-gray-200">
+                                <Input
+                                    type="date"
+                                    value={exception.date}
+                                    onChange={(e) => updateException(index, { date: e.target.value })}
+                                    className="w-40"
+                                />
+                                <div className="flex items-center gap-2">
+                                    <Switch
+                                        checked={!exception.closed}
+                                        onCheckedChange={(open) => updateException(index, {
+                                            closed: !open,
+                                            opens: exception.opens || "09:00",
+                                            closes: exception.closes || "22:00"
+                                        })}
+                                    />
+                                    <span className="text-sm">{exception.closed ? "Closed" : "Open"}</span>
+                                </div>
+                                {!exception.closed && (
+                                    <div className="flex items-center gap-2">
+                                        <Input
+                                            type="time"
+                                            value={exception.opens || ""}
+                                            onChange={(e) => updateException(index, { opens: e.target.value })}
+                                            className="w-32"
+                                        />
+                                        <span className="text-muted-foreground">–</span>
+                                        <Input
+                                            type="time"
+                                            value={exception.closes || ""}
+                                            onChange={(e) => updateException(index, { closes: e.target.value })}
+                                            className="w-32"
+                                        />
+                                    </div>
+                                )}
+                                <Input
+                                    placeholder="Label (e.g. Christmas Day)"
+                                    value={exception.label || ""}
+                                    onChange={(e) => updateException(index, { label: e.target.value })}
+                                    className="flex-1"
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => removeException(index)}
+                                    title="Remove date"
+                                    className="text-muted-foreground hover:text-destructive"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="pt-4 border-t flex flex-col sm:flex-row sm:items-center gap-2">
+                        <label htmlFor="timezone" className="text-sm font-medium w-32">Timezone</label>
+                        <Input
+                            id="timezone"
+                            value={timeZone}
+                            onChange={(e) => setTimeZone(e.target.value.trim())}
+                            placeholder={DEFAULT_TIME_ZONE}
+                            className="w-64"
+                        />
+                    </div>
+
                     <div className="pt-4 flex justify-end">
                         <Button onClick={handleSave} disabled={saving} className="min-w-[150px] font-bold">
                             {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, CalendarX, Save } from "lucide-react";
+import toast from "react-hot-toast";
+import { MAX_CANCELLATION_WINDOW_HOURS, resolveReservationPolicy } from "@/lib/reservation-policy";
+import type { ReservationPolicy } from "@/types";
+
+interface ReservationPolicyEditorProps {
+    placeId: string;
+}
+
+/**
+ * Cancellation policy: how late guests may cancel or change online.
+ */
+export function ReservationPolicyEditor({ placeId }: ReservationPolicyEditorProps) {
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [policy, setPolicy] = useState<ReservationPolicy>(resolveReservationPolicy(null));
+
+    useEffect(() => {
+        const fetchPolicy = async () => {
+            try {
+                const snap = await getDoc(doc(db, "restaurants", placeId));
+                setPolicy(resolveReservationPolicy(snap.data()?.reservationPolicy));
+            } catch (error) {
+                console.error("Error fetching reservation policy:", error);
+                toast.error("Failed to load cancellation policy");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        if (placeId) fetchPolicy();
+    }, [placeId]);
+
+    const handleSave = async () => {
+        if (policy.cancellationWindowHours < 0 || policy.cancellationWindowHours > MAX_CANCELLATION_WINDOW_HOURS) {
+            toast.error(`The window must be between 0 and ${MAX_CANCELLATION_WINDOW_HOURS} hours`);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            await updateDoc(doc(db, "restaurants", placeId), {
+                reservationPolicy: policy,
+                updatedAt: new Date().toISOString()
+            });
+            toast.success("Cancellation policy saved");
+        } catch (error) {
+            console.error("Error saving reservation policy:", error);
+            toast.error("Failed to save cancellation policy");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) return <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" /></div>;
+
+    return (
+        <Card className="border-none shadow-sm">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <CalendarX className="h-5 w-5 text-primary" />
+                    Cancellation Policy
+                </CardTitle>
+                <CardDescription>
+                    Guests can cancel or move their booking online until this window. Confirmed bookings they move stay confirmed when a table is free.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="space-y-2 max-w-xs">
+                    <Label>Changes allowed until (hours before)</Label>
+                    <Input
+                        type="number"
+                        min={0}
+                        max={MAX_CANCELLATION_WINDOW_HOURS}
+                        value={policy.cancellationWindowHours}
+                        onChange={(e) => setPolicy({ ...policy, cancellationWindowHours: Math.max(0, parseInt(e.target.value) || 0) })}
+                    />
+                </div>
+
+                <Button onClick={handleSave} disabled={saving}>
+                    {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    Save Policy
+                </Button>
+            </CardContent>
+        </Card>
+    );
+}
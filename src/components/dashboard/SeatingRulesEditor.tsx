@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Timer, Plus, Trash2, Save } from "lucide-react";
+import toast from "react-hot-toast";
+import { MAX_DINING_MINUTES, MIN_DINING_MINUTES, resolveSeatingRules } from "@/lib/seating-rules";
+import type { DiningDurationRule, SeatingRules } from "@/types";
+
+interface SeatingRulesEditorProps {
+    placeId: string;
+}
+
+const DAY_PARTS: DiningDurationRule["dayPart"][] = ["all", "lunch", "dinner"];
+
+const toInt = (value: string) => parseInt(value) || 0;
+
+/**
+ * Turn times: how long each party keeps its table, reset buffer and last seating.
+ */
+export function SeatingRulesEditor({ placeId }: SeatingRulesEditorProps) {
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [rules, setRules] = useState<SeatingRules>(resolveSeatingRules(null));
+
+    useEffect(() => {
+        const fetchRules = async () => {
+            try {
+                const snap = await getDoc(doc(db, "restaurants", placeId));
+                setRules(resolveSeatingRules(snap.data()?.seatingRules));
+            } catch (error) {
+                console.error("Error fetching seating rules:", error);
+                toast.error("Failed to load turn times");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        if (placeId) fetchRules();
+    }, [placeId]);
+
+    const updateDuration = (index: number, patch: Partial<DiningDurationRule>) => {
+        setRules(prev => ({ ...prev, durations: prev.durations.map((d, i) => i === index ? { ...d, ...patch } : d) }));
+    };
+
+    const handleSave = async () => {
+        const inRange = (m: number) => m >= MIN_DINING_MINUTES && m <= MAX_DINING_MINUTES;
+        if (!inRange(rules.defaultMinutes) || rules.durations.some(d => !inRange(d.minutes))) {
+            toast.error(`Durations must be between ${MIN_DINING_MINUTES} and ${MAX_DINING_MINUTES} minutes`);
+            return;
+        }
+        if (rules.durations.some(d => d.minGuests < 1 || (d.maxGuests !== undefined && d.maxGuests < d.minGuests))) {
+            toast.error("Check party sizes: from at least 1, and 'to' not below 'from'");
+            return;
+        }
+
+        setSaving(true);
+        try {
+            await updateDoc(doc(db, "restaurants", placeId), {
+                seatingRules: {
+                    ...rules,
+                    // Firestore rejects undefined - drop open-ended maxGuests
+                    durations: rules.durations.map(({ maxGuests, ...rest }) => maxGuests === undefined ? rest : { ...rest, maxGuests })
+                },
+                updatedAt: new Date().toISOString()
+            });
+            toast.success("Turn times saved");
+        } catch (error) {
+            console.error("Error saving seating rules:", error);
+            toast.error("Failed to save turn times");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) return <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" /></div>;
+
+    return (
+        <Card className="border-none shadow-sm">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Timer className="h-5 w-5 text-primary" />
+                    Turn Times
+                </CardTitle>
+                <CardDescription>
+                    How long tables stay taken. Online availability and the reservation list use these.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                        <Label>Default sitting (min)</Label>
+                        <Input type="number" value={rules.defaultMinutes} onChange={(e) => setRules({ ...rules, defaultMinutes: toInt(e.target.value) })} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Dinner starts at</Label>
+                        <Input type="time" value={rules.dinnerStartsAt} onChange={(e) => setRules({ ...rules, dinnerStartsAt: e.target.value })} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Reset buffer (min)</Label>
+                        <Input type="number" min={0} value={rules.bufferMinutes} onChange={(e) => setRules({ ...rules, bufferMinutes: Math.max(0, toInt(e.target.value)) })} />
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <Label>Duration by party size</Label>
+                    {rules.durations.length === 0 && (
+                        <p className="text-sm text-muted-foreground">Every party gets the default sitting.</p>
+                    )}
+                    {rules.durations.map((rule, index) => (
+                        <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-lg border">
+                            <select
+                                value={rule.dayPart}
+                                onChange={(e) => updateDuration(index, { dayPart: e.target.value as DiningDurationRule["dayPart"] })}
+                                className="h-9 rounded-md border px-2 text-sm capitalize bg-background"
+                            >
+                                {DAY_PARTS.map(part => <option key={part} value={part}>{part === "all" ? "All day" : part}</option>)}
+                            </select>
+                            <span className="text-sm text-muted-foreground">guests</span>
+                            <Input type="number" min={1} className="w-16" value={rule.minGuests} onChange={(e) => updateDuration(index, { minGuests: toInt(e.target.value) })} />
+                            <span className="text-sm text-muted-foreground">to</span>
+                            <Input
+                                type="number"
+                                className="w-16"
+                                placeholder="+"
+                                value={rule.maxGuests ?? ""}
+                                onChange={(e) => updateDuration(index, { maxGuests: e.target.value ? toInt(e.target.value) : undefined })}
+                            />
+                            <span className="text-sm text-muted-foreground">→</span>
+                            <Input type="number" className="w-20" value={rule.minutes} onChange={(e) => updateDuration(index, { minutes: toInt(e.target.value) })} />
+                            <span className="text-sm text-muted-foreground">min</span>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="ml-auto"
+                                onClick={() => setRules(prev => ({ ...prev, durations: prev.durations.filter((_, i) => i !== index) }))}
+                            >
+                                <Trash2 className="h-4 w-4 text-muted-foreground" />
+                            </Button>
+                        </div>
+                    ))}
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRules(prev => ({
+                            ...prev,
+                            durations: [...prev.durations, { dayPart: "dinner", minGuests: 6, minutes: 150 }]
+                        }))}
+                    >
+                        <Plus className="h-4 w-4 mr-2" /> Add Rule
+                    </Button>
+                </div>
+
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg bg-gray-50">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                        <Switch
+                            checked={rules.lastSeatingBeforeClose !== null}
+                            onCheckedChange={(on) => setRules({ ...rules, lastSeatingBeforeClose: on ? 60 : null })}
+                        />
+                        Fixed last seating
+                    </label>
+                    {rules.lastSeatingBeforeClose !== null ? (
+                        <div className="flex items-center gap-2 text-sm">
+                            <Input
+                                type="number"
+                                min={0}
+                                className="w-20"
+                                value={rules.lastSeatingBeforeClose}
+                                onChange={(e) => setRules({ ...rules, lastSeatingBeforeClose: Math.max(0, toInt(e.target.value)) })}
+                            />
+                            <span className="text-muted-foreground">min before closing</span>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">Every sitting must end by closing time.</p>
+                    )}
+                </div>
+
+                <Button onClick={handleSave} disabled={saving}>
+                    {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    Save Turn Times
+                </Button>
+            </CardContent>
+        </Card>
+    );
+}
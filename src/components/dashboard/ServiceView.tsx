@@ -0,0 +1,328 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Timestamp } from "firebase/firestore";
+import { AlertCircle, CalendarClock, Loader2, UserPlus } from "lucide-react";
+import toast from "react-hot-toast";
+import { useAuth } from "@/components/auth-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getLocalTime, type OpeningHoursSource } from "@/lib/opening-hours";
+import { getDiningMinutes } from "@/lib/seating-rules";
+import { RESERVATION_STATUS_COLORS, RESERVATION_STATUS_LABELS } from "@/lib/reservation-status";
+import type { FloorTable, ReservationStatus, SeatingRules } from "@/types";
+
+const ARRIVALS_WINDOW_MINUTES = 30;
+const NO_SHOW_AFTER_MINUTES = 15;      // Late this long = flagged as a likely no-show
+const CLOCK_TICK_MS = 30_000;
+const SHOWN_STATUSES: ReservationStatus[] = ["pending", "confirmed", "seated", "finished", "no_show"];
+
+interface ServiceReservation {
+    id: string;
+    customerName: string;
+    customerPhone: string;
+    date: Timestamp;
+    time: string;
+    guests: number;
+    status: ReservationStatus;
+    tableIds?: string[];
+    dateKey?: string;
+    startMinutes?: number;
+    endMinutes?: number;
+    source?: "walk_in";
+}
+
+interface ServiceViewProps {
+    placeId: string;
+    reservations: ServiceReservation[];
+    floorPlan: FloorTable[];
+    seatingRules: SeatingRules;
+    timeSource: Pick<OpeningHoursSource, "timeZone" | "utcOffsetMinutes">;
+    onStatusUpdate: (reservationId: string, status: ReservationStatus) => void;
+}
+
+interface Sitting extends ServiceReservation {
+    start: number;
+    end: number;
+}
+
+function formatClock(minutes: number): string {
+    const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+    return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Day-of service: arrivals due soon, late parties, who is seated, walk-ins
+ * and a timeline per table. Reservations come live from the dashboard's
+ * snapshot listener; the clock ticks so late flags update on their own.
+ */
+export function ServiceView({ placeId, reservations, floorPlan, seatingRules, timeSource, onStatusUpdate }: ServiceViewProps) {
+    const { user } = useAuth();
+    const [now, setNow] = useState(() => new Date());
+    const [walkIn, setWalkIn] = useState({ guests: 2, customerName: "", tableId: "auto" });
+    const [seating, setSeating] = useState(false);
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+        return () => clearInterval(timer);
+    }, []);
+
+    const local = getLocalTime(now, timeSource);
+    const nowMinutes = local.minutes;
+
+    // Legacy bookings have no dateKey / startMinutes - derive them from the timestamp
+    const today: Sitting[] = reservations
+        .filter(r => SHOWN_STATUSES.includes(r.status))
+        .filter(r => (r.dateKey ?? getLocalTime(r.date.toDate(), timeSource).date) === local.date)
+        .map(r => {
+            const [h, m] = r.time.split(":").map(Number);
+            const start = r.startMinutes ?? h * 60 + m;
+            return { ...r, start, end: r.endMinutes ?? start + getDiningMinutes(seatingRules, r.guests, start) };
+        })
+        .filter(r => !isNaN(r.start))
+        .sort((a, b) => a.start - b.start);
+
+    const expected = today.filter(r => r.status === "pending" || r.status === "confirmed");
+    const arrivals = expected.filter(r => r.start <= nowMinutes + ARRIVALS_WINDOW_MINUTES);
+    const late = expected.filter(r => r.start < nowMinutes);
+    const seated = today.filter(r => r.status === "seated");
+    const covers = today.filter(r => r.status !== "no_show").reduce((sum, r) => sum + r.guests, 0);
+
+    // Tables a walk-in can take now: not held by an overlapping booking (same check as the server)
+    const walkInEnd = nowMinutes + getDiningMinutes(seatingRules, walkIn.guests, nowMinutes) + seatingRules.bufferMinutes;
+    const held = new Set(today
+        .filter(r => ["pending", "confirmed", "seated"].includes(r.status))
+        .filter(r => r.start < walkInEnd && nowMinutes < r.end + seatingRules.bufferMinutes)
+        .flatMap(r => r.tableIds || []));
+    const freeTables = floorPlan.filter(t => !held.has(t.id) && t.maxCovers >= walkIn.guests);
+
+    const seatWalkIn = async () => {
+        if (!user) return;
+        setSeating(true);
+        try {
+            const token = await user.getIdToken();
+            const res = await fetch("/api/reservations/walk-in", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                body: JSON.stringify({
+                    placeId,
+                    guests: walkIn.guests,
+                    customerName: walkIn.customerName.trim() || undefined,
+                    tableIds: walkIn.tableId === "auto" ? undefined : [walkIn.tableId]
+                })
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || "Failed to seat walk-in");
+
+            const names = (data.tableIds || []).map((id: string) => floorPlan.find(t => t.id === id)?.name || id);
+            toast.success(names.length ? `Walk-in seated at ${names.join(" + ")}` : "Walk-in seated");
+            setWalkIn({ guests: 2, customerName: "", tableId: "auto" });
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to seat walk-in");
+        } finally {
+            setSeating(false);
+        }
+    };
+
+    // Timeline spans the day's sittings and the current time, in whole hours
+    const spanStart = Math.floor(Math.min(nowMinutes, ...today.map(r => r.start)) / 60) * 60;
+    const spanEnd = Math.max(spanStart + 4 * 60, Math.ceil(Math.max(nowMinutes, ...today.map(r => r.end)) / 60) * 60);
+    const position = (minutes: number) => `${((minutes - spanStart) / (spanEnd - spanStart)) * 100}%`;
+    const hours = Array.from({ length: (spanEnd - spanStart) / 60 }, (_, i) => spanStart + i * 60);
+    const rows = [
+        ...floorPlan.map(table => ({ id: table.id, label: table.name, sittings: today.filter(r => r.tableIds?.includes(table.id)) })),
+        { id: "unassigned", label: "No table", sittings: today.filter(r => !r.tableIds?.length && r.status !== "finished" && r.status !== "no_show") }
+    ].filter(row => row.id !== "unassigned" || row.sittings.length > 0);
+
+    const arrivalFlag = (r: Sitting) => {
+        const minutesLate = nowMinutes - r.start;
+        if (minutesLate >= NO_SHOW_AFTER_MINUTES) return <Badge className="bg-red-100 text-red-700 border-none">Likely no-show · {minutesLate} min</Badge>;
+        if (minutesLate > 0) return <Badge className="bg-orange-100 text-orange-700 border-none">Late {minutesLate} min</Badge>;
+        return <Badge variant="outline">Due in {-minutesLate} min</Badge>;
+    };
+
+    const tableNames = (r: Sitting) => r.tableIds?.length
+        ? r.tableIds.map(id => floorPlan.find(t => t.id === id)?.name || id).join(" + ")
+        : "No table";
+
+    return (
+        <div className="space-y-6">
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                {[
+                    { label: "Covers today", value: covers },
+                    { label: "In the house", value: seated.reduce((sum, r) => sum + r.guests, 0) },
+                    { label: `Arriving in ${ARRIVALS_WINDOW_MINUTES} min`, value: arrivals.length - late.length },
+                    { label: "Late", value: late.length }
+                ].map(stat => (
+                    <Card key={stat.label} className="border-none shadow-sm">
+                        <CardContent className="p-4">
+                            <p className="text-xs text-muted-foreground">{stat.label}</p>
+                            <p className="text-2xl font-bold">{stat.value}</p>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-3">
+                <Card className="border-none shadow-sm">
+                    <CardHeader>
+                        <CardTitle>Arrivals</CardTitle>
+                        <CardDescription>Due in the next {ARRIVALS_WINDOW_MINUTES} minutes, and parties running late.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {arrivals.length === 0 && <p className="text-sm text-muted-foreground">Nobody due right now.</p>}
+                        {arrivals.map(r => (
+                            <div key={r.id} className="rounded-xl bg-gray-50 px-3 py-2 text-sm space-y-1.5">
+                                <div className="flex items-center justify-between gap-2">
+                                    <p className="font-semibold">{r.time} · {r.customerName} ({r.guests})</p>
+                                    {arrivalFlag(r)}
+                                </div>
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-gray-600">{tableNames(r)}{r.customerPhone ? ` · ${r.customerPhone}` : ""}</span>
+                                    {r.status === "pending" ? (
+                                        <Badge className={`${RESERVATION_STATUS_COLORS.pending} border-none`}>Not confirmed</Badge>
+                                    ) : (
+                                        <div className="flex gap-1">
+                                            {r.start < nowMinutes && (
+                                                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => onStatusUpdate(r.id, "no_show")}>
+                                                    No-show
+                                                </Button>
+                                            )}
+                                            <Button size="sm" className="h-7 text-xs" onClick={() => onStatusUpdate(r.id, "seated")}>
+                                                Seat
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+
+                <Card className="border-none shadow-sm">
+                    <CardHeader>
+                        <CardTitle>Seated ({seated.length})</CardTitle>
+                        <CardDescription>Finish a table to free it for the next party.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {seated.length === 0 && <p className="text-sm text-muted-foreground">No tables seated.</p>}
+                        {seated.map(r => (
+                            <div key={r.id} className="flex items-center justify-between gap-2 rounded-xl bg-gray-50 px-3 py-2 text-sm">
+                                <div>
+                                    <p className="font-semibold">
+                                        {tableNames(r)} · {r.customerName} ({r.guests})
+                                        {r.source === "walk_in" && <Badge variant="outline" className="ml-2">Walk-in</Badge>}
+                                    </p>
+                                    <p className={nowMinutes > r.end ? "text-orange-600" : "text-gray-600"}>
+                                        {nowMinutes > r.end ? `Over by ${nowMinutes - r.end} min` : `Until ${formatClock(r.end)}`}
+                                    </p>
+                                </div>
+                                <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => onStatusUpdate(r.id, "finished")}>
+                                    Finish
+                                </Button>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+
+                <Card className="border-none shadow-sm">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <UserPlus className="h-5 w-5 text-primary" />
+                            Walk-in
+                        </CardTitle>
+                        <CardDescription>Seat a party without a booking - the table is taken from now.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        <div className="grid grid-cols-3 gap-3">
+                            <div className="space-y-2">
+                                <Label>Guests</Label>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    max={20}
+                                    value={walkIn.guests}
+                                    onChange={e => setWalkIn({ ...walkIn, guests: Math.max(1, Number(e.target.value) || 1), tableId: "auto" })}
+                                />
+                            </div>
+                            <div className="space-y-2 col-span-2">
+                                <Label>Name (optional)</Label>
+                                <Input value={walkIn.customerName} onChange={e => setWalkIn({ ...walkIn, customerName: e.target.value })} placeholder="Walk-in" />
+                            </div>
+                        </div>
+                        {floorPlan.length > 0 && (
+                            <div className="space-y-2">
+                                <Label>Table</Label>
+                                <Select value={walkIn.tableId} onValueChange={(tableId: string) => setWalkIn({ ...walkIn, tableId })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="auto">Best free fit</SelectItem>
+                                        {freeTables.map(t => (
+                                            <SelectItem key={t.id} value={t.id}>{t.name} · {t.minCovers}-{t.maxCovers} · {t.zone}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                        <Button className="w-full" disabled={seating} onClick={seatWalkIn}>
+                            {seating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Seat walk-in
+                        </Button>
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Card className="border-none shadow-sm">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <CalendarClock className="h-5 w-5 text-primary" />
+                        Today by table
+                    </CardTitle>
+                    <CardDescription>Updates live as bookings come in and tables turn.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {floorPlan.length === 0 ? (
+                        <div className="text-center py-10 text-muted-foreground">
+                            <AlertCircle className="h-10 w-10 mx-auto mb-2 opacity-20" />
+                            <p>Draw your floor plan in the Tables tab to see a timeline per table.</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <div className="min-w-[640px]">
+                                <div className="relative ml-24 h-5 text-xs text-muted-foreground">
+                                    {hours.map(h => (
+                                        <span key={h} className="absolute -translate-x-1/2" style={{ left: position(h) }}>{formatClock(h)}</span>
+                                    ))}
+                                </div>
+                                <div className="divide-y">
+                                    {rows.map(row => (
+                                        <div key={row.id} className="flex items-center h-10">
+                                            <span className="w-24 shrink-0 truncate text-sm font-medium">{row.label}</span>
+                                            <div className="relative flex-1 h-8 bg-gray-50 rounded">
+                                                {row.sittings.map(r => (
+                                                    <div
+                                                        key={r.id}
+                                                        title={`${r.time}–${formatClock(r.end)} · ${r.customerName} (${r.guests}) · ${RESERVATION_STATUS_LABELS[r.status]}`}
+                                                        className={`absolute top-1 bottom-1 rounded px-1.5 text-xs leading-6 truncate ${RESERVATION_STATUS_COLORS[r.status]}`}
+                                                        style={{ left: position(r.start), width: position(spanStart + r.end - r.start) }}
+                                                    >
+                                                        {r.time} {r.customerName} ({r.guests})
+                                                    </div>
+                                                ))}
+                                                <div className="absolute top-0 bottom-0 w-px bg-red-500" style={{ left: position(nowMinutes) }} />
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Loader2, Wand2 } from "lucide-react";
+import { useAuth } from "@/components/auth-provider";
+import { MAX_COMBINED_TABLES } from "@/lib/floor-plan";
+import type { FloorTable } from "@/types";
+
+interface TableAssignmentProps {
+    reservationId: string;
+    guests: number;
+    tableIds?: string[];
+    floorPlan: FloorTable[];
+    onAssigned: (tableIds: string[]) => void;
+}
+
+/**
+ * Shows a booking's table(s) and lets the owner reassign them.
+ */
+export function TableAssignment({ reservationId, guests, tableIds = [], floorPlan, onAssigned }: TableAssignmentProps) {
+    const { user } = useAuth();
+    const [selected, setSelected] = useState<string[]>(tableIds);
+    const [saving, setSaving] = useState(false);
+
+    const names = tableIds.map(id => floorPlan.find(t => t.id === id)?.name || id);
+    const selectedSeats = selected.reduce((sum, id) => sum + (floorPlan.find(t => t.id === id)?.maxCovers || 0), 0);
+
+    const save = async (ids?: string[]) => {
+        if (!user) return;
+        setSaving(true);
+        try {
+            const token = await user.getIdToken();
+            const res = await fetch("/api/reservations/assign-table", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                body: JSON.stringify({ reservationId, tableIds: ids })
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || "Failed to assign table");
+
+            const assigned: string[] = data.tableIds || [];
+            setSelected(assigned);
+            onAssigned(assigned);
+            toast.success(assigned.length ? "Table assigned" : "No free table fits this party");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to assign table");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggle = (id: string) => {
+        setSelected(prev => prev.includes(id)
+            ? prev.filter(t => t !== id)
+            : prev.length < MAX_COMBINED_TABLES ? [...prev, id] : prev);
+    };
+
+    return (
+        <Popover onOpenChange={(open) => { if (open) setSelected(tableIds); }}>
+            <PopoverTrigger asChild>
+                <Button size="sm" variant="outline" className={`h-7 text-xs ${tableIds.length ? "" : "text-amber-600 border-amber-200"}`}>
+                    {tableIds.length ? names.join(" + ") : "No table"}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-3 space-y-3">
+                <p className="text-sm font-semibold">Seat {guests} guests at</p>
+                <div className="grid grid-cols-3 gap-1.5 max-h-48 overflow-y-auto">
+                    {floorPlan.map(table => (
+                        <button
+                            key={table.id}
+                            type="button"
+                            onClick={() => toggle(table.id)}
+                            className={`px-2 py-1 rounded border text-xs text-left ${selected.includes(table.id) ? "bg-primary text-primary-foreground border-primary" : "hover:bg-muted"}`}
+                        >
+                            <span className="font-semibold block truncate">{table.name}</span>
+                            <span className="opacity-70">{table.minCovers}-{table.maxCovers} · {table.zone}</span>
+                        </button>
+                    ))}
+                </div>
+                {selected.length > 0 && selectedSeats < guests && (
+                    <p className="text-xs text-amber-600">Only {selectedSeats} seats for {guests} guests</p>
+                )}
+                <div className="flex gap-2">
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => save()} disabled={saving} title="Pick the best free table">
+                        <Wand2 className="h-3.5 w-3.5" /> Auto
+                    </Button>
+                    <Button size="sm" className="flex-1" onClick={() => save(selected)} disabled={saving || selected.length === 0}>
+                        {saving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                        Assign
+                    </Button>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -1,44 +1,68 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Loader2, Plus, Minus, Users } from "lucide-react";
+import { Loader2, Plus, Trash2, Users, Link2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-// import { useAuth } from "@/components/auth-provider";
+import { Switch } from "@/components/ui/switch";
 import toast from "react-hot-toast";
 import { db } from "@/lib/firebase";
 import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { FloorPlanCanvas } from "@/components/dashboard/FloorPlanCanvas";
+import { TABLE_ZONES, getMaxPartySize, newTableId } from "@/lib/floor-plan";
+import type { FloorTable } from "@/types";
 
-interface TableConfig {
+interface LegacyTableConfig {
     totalTables: number;
-    seatsPerTable: number; // Avg or Default
-    bookableTables: number;
-    // Future: Array of specific tables { id, seats, shape }
+    seatsPerTable: number;
+    bookableTables?: number;
+    tables?: FloorTable[];
+}
+
+const SHAPES: FloorTable["shape"][] = ["round", "square", "rect"];
+
+/**
+ * Turns the old three-number config into a starter grid of tables.
+ */
+function tablesFromLegacy(config: LegacyTableConfig): FloorTable[] {
+    const columns = Math.ceil(Math.sqrt(config.totalTables));
+    const rows = Math.ceil(config.totalTables / columns);
+    const bookable = config.bookableTables ?? config.totalTables;
+
+    return Array.from({ length: config.totalTables }, (_, i) => ({
+        id: newTableId(),
+        name: `T${i + 1}`,
+        minCovers: 1,
+        maxCovers: config.seatsPerTable,
+        zone: "main",
+        shape: "square" as const,
+        x: Math.round(((i % columns) + 0.5) / columns * 100),
+        y: Math.round((Math.floor(i / columns) + 0.5) / rows * 100),
+        combinableWith: [],
+        bookable: i < bookable
+    }));
 }
 
 export function TableManager({ placeId }: { placeId: string }) {
-    // const { user: _user } = useAuth();
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
-
-    const [config, setConfig] = useState<TableConfig>({
-        totalTables: 10,
-        seatsPerTable: 4,
-        bookableTables: 5
-    });
+    const [tables, setTables] = useState<FloorTable[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
 
     useEffect(() => {
         const fetchConfig = async () => {
             try {
                 const docRef = doc(db, "restaurants", placeId);
                 const snap = await getDoc(docRef);
-                if (snap.exists()) {
-                    const data = snap.data();
-                    if (data.tableConfig) {
-                        setConfig(data.tableConfig);
-                    }
+                const config = snap.data()?.tableConfig as LegacyTableConfig | undefined;
+
+                if (config?.tables?.length) {
+                    setTables(config.tables);
+                } else if (config?.totalTables) {
+                    // Unsaved draft until the owner saves the floor plan
+                    setTables(tablesFromLegacy(config));
                 }
             } catch (error) {
                 console.error("Error fetching table config:", error);
@@ -53,20 +77,78 @@ export function TableManager({ placeId }: { placeId: string }) {
         }
     }, [placeId]);
 
+    const selected = tables.find(t => t.id === selectedId) || null;
+
+    const updateTable = (id: string, patch: Partial<FloorTable>) => {
+        setTables(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t));
+    };
+
+    const addTable = () => {
+        const table: FloorTable = {
+            id: newTableId(),
+            name: `T${tables.length + 1}`,
+            minCovers: 1,
+            maxCovers: 4,
+            zone: "main",
+            shape: "square",
+            x: 50,
+            y: 50,
+            combinableWith: [],
+            bookable: true
+        };
+        setTables(prev => [...prev, table]);
+        setSelectedId(table.id);
+    };
+
+    const removeTable = (id: string) => {
+        setTables(prev => prev
+            .filter(t => t.id !== id)
+            .map(t => ({ ...t, combinableWith: t.combinableWith.filter(c => c !== id) })));
+        setSelectedId(null);
+    };
+
+    // Links are kept symmetric so either table can be the starting point
+    const toggleCombination = (id: string, otherId: string) => {
+        const linked = tables.find(t => t.id === id)?.combinableWith.includes(otherId);
+        setTables(prev => prev.map(t => {
+            if (t.id !== id && t.id !== otherId) return t;
+            const partner = t.id === id ? otherId : id;
+            return {
+                ...t,
+                combinableWith: linked
+                    ? t.combinableWith.filter(c => c !== partner)
+                    : [...t.combinableWith, partner]
+            };
+        }));
+    };
+
     const handleSave = async () => {
-        if (!config.totalTables || config.totalTables < 1) {
-            toast.error("Total tables must be at least 1");
+        const invalid = tables.find(t => !t.name.trim() || t.minCovers < 1 || t.maxCovers < t.minCovers);
+        if (invalid) {
+            toast.error(`Check ${invalid.name || "unnamed table"}: covers must be at least 1 and min ≤ max`);
+            setSelectedId(invalid.id);
+            return;
+        }
+        if (new Set(tables.map(t => t.name.trim().toLowerCase())).size !== tables.length) {
+            toast.error("Table names must be unique");
             return;
         }
 
         setSaving(true);
         try {
             const docRef = doc(db, "restaurants", placeId);
+            const bookable = tables.filter(t => t.bookable);
             await updateDoc(docRef, {
-                tableConfig: config,
+                tableConfig: {
+                    tables,
+                    // Legacy counters for older readers
+                    totalTables: tables.length,
+                    seatsPerTable: tables.length ? Math.round(tables.reduce((sum, t) => sum + t.maxCovers, 0) / tables.length) : 0,
+                    bookableTables: bookable.length
+                },
                 updatedAt: new Date().toISOString()
             });
-            toast.success("Table configuration saved");
+            toast.success("Floor plan saved");
         } catch (error) {
             console.error("Error saving table config:", error);
             toast.error("Failed to save settings");
@@ -77,101 +159,150 @@ export function TableManager({ placeId }: { placeId: string }) {
 
     if (loading) return <div className="flex justify-center p-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
 
-    const totalCapacity = config.totalTables * config.seatsPerTable;
+    const totalCapacity = tables.reduce((sum, t) => sum + t.maxCovers, 0);
+    const bookableTables = tables.filter(t => t.bookable);
+    const onlineCapacity = bookableTables.reduce((sum, t) => sum + t.maxCovers, 0);
 
     return (
         <div className="space-y-6">
-            <div>
-                <h2 className="text-2xl font-semibold tracking-tight">Table Management</h2>
-                <p className="text-muted-foreground">Configure your restaurant&apos;s capacity and reservation limits.</p>
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-semibold tracking-tight">Table Management</h2>
+                    <p className="text-muted-foreground">Draw your floor plan. Bookings are seated at the best-fitting table automatically.</p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={addTable}>
+                        <Plus className="h-4 w-4 mr-2" /> Add Table
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving}>
+                        {saving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</> : "Save Floor Plan"}
+                    </Button>
+                </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <Card>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <Card className="lg:col-span-2">
                     <CardHeader>
-                        <CardTitle>Capacity Settings</CardTitle>
-                        <CardDescription>Define your general seating arrangement.</CardDescription>
+                        <CardTitle>Floor Plan</CardTitle>
+                        <CardDescription>Drag tables into place. Dashed tables are kept for walk-ins.</CardDescription>
                     </CardHeader>
-                    <CardContent className="space-y-4">
-                        <div className="space-y-2">
-                            <Label>Total Tables</Label>
-                            <div className="flex items-center gap-2">
-                                <Button size="icon" variant="outline" onClick={() => setConfig(prev => ({ ...prev, totalTables: Math.max(1, prev.totalTables - 1) }))}>
-                                    <Minus className="h-4 w-4" />
-                                </Button>
-                                <Input
-                                    type="number"
-                                    className="text-center font-bold text-lg"
-                                    value={config.totalTables}
-                                    onChange={(e) => setConfig({ ...config, totalTables: parseInt(e.target.value) || 0 })}
-                                />
-                                <Button size="icon" variant="outline" onClick={() => setConfig(prev => ({ ...prev, totalTables: prev.totalTables + 1 }))}>
-                                    <Plus className="h-4 w-4" />
-                                </Button>
-                            </div>
-                        </div>
-
-                        <div className="space-y-2">
-                            <Label>Average Seats per Table</Label>
-                            <div className="flex items-center gap-2">
-                                <Button size="icon" variant="outline" onClick={() => setConfig(prev => ({ ...prev, seatsPerTable: Math.max(1, prev.seatsPerTable - 1) }))}>
-                                    <Minus className="h-4 w-4" />
-                                </Button>
-                                <Input
-                                    type="number"
-                                    className="text-center font-bold text-lg"
-                                    value={config.seatsPerTable}
-                                    onChange={(e) => setConfig({ ...config, seatsPerTable: parseInt(e.target.value) || 0 })}
-                                />
-                                <Button size="icon" variant="outline" onClick={() => setConfig(prev => ({ ...prev, seatsPerTable: prev.seatsPerTable + 1 }))}>
-                                    <Plus className="h-4 w-4" />
-                                </Button>
-                            </div>
-                            <p className="text-xs text-muted-foreground">Estimated Total Capacity: <span className="font-bold text-primary">{totalCapacity} people</span></p>
+                    <CardContent className="space-y-3">
+                        <FloorPlanCanvas
+                            tables={tables}
+                            selectedId={selectedId}
+                            onSelect={setSelectedId}
+                            onMove={(id, x, y) => updateTable(id, { x, y })}
+                        />
+                        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                            <span>{tables.length} tables · {totalCapacity} seats</span>
+                            <span>Online: {bookableTables.length} tables · {onlineCapacity} seats</span>
+                            <span>Largest online party: {getMaxPartySize(bookableTables)}</span>
                         </div>
                     </CardContent>
                 </Card>
 
                 <Card>
                     <CardHeader>
-                        <CardTitle>Reservation Limits</CardTitle>
-                        <CardDescription>Control how many tables are available for app bookings.</CardDescription>
+                        <CardTitle>{selected ? `Table ${selected.name}` : "Table Details"}</CardTitle>
+                        <CardDescription>{selected ? "Covers, zone and combinations." : "Select a table on the plan."}</CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                        <div className="space-y-2">
-                            <Label>Bookable Tables</Label>
-                            <div className="flex items-center gap-2">
-                                <Button size="icon" variant="outline" onClick={() => setConfig(prev => ({ ...prev, bookableTables: Math.max(0, prev.bookableTables - 1) }))}>
-                                    <Minus className="h-4 w-4" />
-                                </Button>
-                                <Input
-                                    type="number"
-                                    className="text-center font-bold text-lg"
-                                    value={config.bookableTables}
-                                    onChange={(e) => setConfig({ ...config, bookableTables: Math.min(config.totalTables, parseInt(e.target.value) || 0) })}
-                                />
-                                <Button size="icon" variant="outline" onClick={() => setConfig(prev => ({ ...prev, bookableTables: Math.min(prev.totalTables, prev.bookableTables + 1) }))}>
-                                    <Plus className="h-4 w-4" />
-                                </Button>
+                        {!selected ? (
+                            <div className="bg-muted p-4 rounded-md flex items-center gap-3">
+                                <Users className="h-5 w-5 text-muted-foreground" />
+                                <div className="text-sm">
+                                    <p className="font-medium">Why limit?</p>
+                                    <p className="text-muted-foreground">Keep some tables offline for walk-ins or phone reservations to avoid overbooking.</p>
+                                </div>
                             </div>
-                            <p className="text-xs text-muted-foreground">
-                                {config.bookableTables > 0
-                                    ? `Allowing bookings for approx ${config.bookableTables * config.seatsPerTable} people.`
-                                    : "Online bookings disabled."}
-                            </p>
-                        </div>
+                        ) : (
+                            <>
+                                <div className="space-y-2">
+                                    <Label>Name</Label>
+                                    <Input value={selected.name} maxLength={20} onChange={(e) => updateTable(selected.id, { name: e.target.value })} />
+                                </div>
 
-                        <div className="bg-muted p-4 rounded-md flex items-center gap-3">
-                            <Users className="h-5 w-5 text-muted-foreground" />
-                            <div className="text-sm">
-                                <p className="font-medium">Why limit?</p>
-                                <p className="text-muted-foreground">Keep some tables for walk-ins or phone reservations to avoid overbooking.</p>
-                            </div>
-                        </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="space-y-2">
+                                        <Label>Min covers</Label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            value={selected.minCovers}
+                                            onChange={(e) => updateTable(selected.id, { minCovers: parseInt(e.target.value) || 0 })}
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>Max covers</Label>
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            value={selected.maxCovers}
+                                            onChange={(e) => updateTable(selected.id, { maxCovers: parseInt(e.target.value) || 0 })}
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label>Zone</Label>
+                                    <div className="flex flex-wrap gap-1">
+                                        {TABLE_ZONES.map(zone => (
+                                            <button
+                                                key={zone}
+                                                type="button"
+                                                onClick={() => updateTable(selected.id, { zone })}
+                                                className={`text-xs px-2 py-1 rounded-full border capitalize ${selected.zone === zone ? "bg-primary text-primary-foreground border-primary" : "text-muted-foreground"}`}
+                                            >
+                                                {zone}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
 
-                        <Button className="w-full mt-4" onClick={handleSave} disabled={saving}>
-                            {saving ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...</> : "Save Configuration"}
-                        </Button>
+                                <div className="space-y-2">
+                                    <Label>Shape</Label>
+                                    <div className="flex gap-1">
+                                        {SHAPES.map(shape => (
+                                            <button
+                                                key={shape}
+                                                type="button"
+                                                onClick={() => updateTable(selected.id, { shape })}
+                                                className={`text-xs px-2 py-1 rounded-full border capitalize ${selected.shape === shape ? "bg-primary text-primary-foreground border-primary" : "text-muted-foreground"}`}
+                                            >
+                                                {shape}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <label className="flex items-center justify-between text-sm">
+                                    <span>Bookable online</span>
+                                    <Switch checked={selected.bookable} onCheckedChange={(bookable) => updateTable(selected.id, { bookable })} />
+                                </label>
+
+                                {tables.length > 1 && (
+                                    <div className="space-y-2">
+                                        <Label className="flex items-center gap-1.5"><Link2 className="h-3.5 w-3.5" /> Can be combined with</Label>
+                                        <div className="flex flex-wrap gap-1">
+                                            {tables.filter(t => t.id !== selected.id).map(other => (
+                                                <button
+                                                    key={other.id}
+                                                    type="button"
+                                                    onClick={() => toggleCombination(selected.id, other.id)}
+                                                    className={`text-xs px-2 py-1 rounded-full border ${selected.combinableWith.includes(other.id) ? "bg-primary text-primary-foreground border-primary" : "text-muted-foreground"}`}
+                                                >
+                                                    {other.name}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                <Button variant="outline" className="w-full text-red-600 hover:text-red-700" onClick={() => removeTable(selected.id)}>
+                                    <Trash2 className="h-4 w-4 mr-2" /> Remove Table
+                                </Button>
+                            </>
+                        )}
                     </CardContent>
                 </Card>
             </div>
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, doc, getDocs, query, where, writeBatch } from "firebase/firestore";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, Hourglass } from "lucide-react";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { WaitlistEntry } from "@/types";
+
+interface WaitlistPanelProps {
+    placeId: string;
+}
+
+function describeWindow(entry: WaitlistEntry): string {
+    return entry.flexibilityMinutes ? `${entry.time} ± ${entry.flexibilityMinutes} min` : entry.time;
+}
+
+/**
+ * Upcoming waitlist by date. Parties are offered freed tables top to bottom;
+ * the owner can move them up or down (`position`, waitlist.ts).
+ */
+export function WaitlistPanel({ placeId }: WaitlistPanelProps) {
+    const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        const fetchWaitlist = async () => {
+            try {
+                const today = format(new Date(), "yyyy-MM-dd");
+                // Single-field query - open entries are filtered here to avoid a composite index
+                const snap = await getDocs(query(collection(db, "waitlist"), where("placeId", "==", placeId)));
+                setEntries(snap.docs
+                    .map(d => ({ id: d.id, ...d.data() }) as WaitlistEntry)
+                    .filter(e => (e.status === "waiting" || e.status === "offered") && e.date >= today)
+                    .sort((a, b) => a.date.localeCompare(b.date) || a.position - b.position));
+            } catch (error) {
+                console.error("Error fetching waitlist:", error);
+            }
+        };
+
+        if (placeId) fetchWaitlist();
+    }, [placeId]);
+
+    // Swaps positions with the neighbour on the same date
+    const move = async (entry: WaitlistEntry, direction: -1 | 1) => {
+        const day = entries.filter(e => e.date === entry.date);
+        const other = day[day.indexOf(entry) + direction];
+        if (!other) return;
+
+        const previous = entries;
+        const swapped = entries
+            .map(e => e.id === entry.id ? { ...e, position: other.position } : e.id === other.id ? { ...e, position: entry.position } : e)
+            .sort((a, b) => a.date.localeCompare(b.date) || a.position - b.position);
+        setEntries(swapped);
+
+        setSaving(true);
+        try {
+            const now = new Date().toISOString();
+            const batch = writeBatch(db);
+            batch.update(doc(db, "waitlist", entry.id), { position: other.position, updatedAt: now });
+            batch.update(doc(db, "waitlist", other.id), { position: entry.position, updatedAt: now });
+            await batch.commit();
+        } catch (error) {
+            console.error("Error reordering waitlist:", error);
+            toast.error("Failed to reorder the waitlist");
+            setEntries(previous);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (entries.length === 0) return null;
+
+    const dates = [...new Set(entries.map(e => e.date))];
+
+    return (
+        <Card className="border-none shadow-sm">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Hourglass className="h-5 w-5 text-primary" />
+                    Waitlist ({entries.length})
+                </CardTitle>
+                <CardDescription>
+                    When a booking is cancelled or rejected, the first party that fits is offered the table automatically.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {dates.map(date => {
+                    const day = entries.filter(e => e.date === date);
+                    return (
+                        <div key={date} className="space-y-2">
+                            <p className="text-sm font-medium text-gray-500">{format(new Date(`${date}T12:00:00`), "EEEE d MMM")}</p>
+                            <ul className="divide-y rounded-xl bg-gray-50">
+                                {day.map((entry, index) => (
+                                    <li key={entry.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                                        <div className="flex items-center gap-3">
+                                            <span className="w-5 text-muted-foreground">{index + 1}.</span>
+                                            <div>
+                                                <p className="font-semibold">{entry.customerName} · {entry.guests} guests</p>
+                                                <p className="text-gray-600">{describeWindow(entry)} · {entry.customerPhone}</p>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            {entry.status === "offered" && entry.offer ? (
+                                                <Badge className="bg-blue-100 text-blue-700">
+                                                    Offered {entry.offer.time} · until {format(new Date(entry.offer.expiresAt), "HH:mm")}
+                                                </Badge>
+                                            ) : (
+                                                <Badge className="bg-yellow-100 text-yellow-700">Waiting</Badge>
+                                            )}
+                                            <Button size="sm" variant="ghost" className="h-8 w-8 p-0" disabled={saving || index === 0} onClick={() => move(entry, -1)}>
+                                                <ArrowUp className="h-4 w-4" />
+                                            </Button>
+                                            <Button size="sm" variant="ghost" className="h-8 w-8 p-0" disabled={saving || index === day.length - 1} onClick={() => move(entry, 1)}>
+                                                <ArrowDown className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    );
+                })}
+            </CardContent>
+        </Card>
+    );
+}
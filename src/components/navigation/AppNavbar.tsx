@@ -6,7 +6,7 @@ import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "@/components/auth-provider";
 import { PremiumBadge } from "@/components/ui/PremiumBadge";
 import { Button } from "@/components/ui/button";
-import { Utensils, User, Search, LogOut, Calendar, Globe, LayoutDashboard } from "lucide-react";
+import { Utensils, User, Search, LogOut, Calendar, Globe, LayoutDashboard, Bookmark } from "lucide-react";
 import { auth } from "@/lib/firebase";
 import { signOut } from "firebase/auth";
 import toast from "react-hot-toast";
@@ -245,6 +245,10 @@ export default function AppNavbar() {
                                                     <Calendar className="h-4 w-4 text-gray-500" />
                                                     <span className="font-medium text-sm">Reservations</span>
                                                 </Link>
+                                                <Link href="/lists" onClick={() => setMobileMenuOpen(false)} className="flex items-center gap-3 p-2.5 hover:bg-gray-50 rounded-xl transition-colors">
+                                                    <Bookmark className="h-4 w-4 text-gray-500" />
+                                                    <span className="font-medium text-sm">Saved lists</span>
+                                                </Link>
                                                 <Link href="/subscription" onClick={() => setMobileMenuOpen(false)} className="flex items-center gap-3 p-2.5 hover:bg-gray-50 rounded-xl transition-colors">
                                                     <Utensils className="h-4 w-4 text-gray-500" />
                                                     <span className="font-medium text-sm">Membership</span>
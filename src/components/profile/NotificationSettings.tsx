@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { deleteDoc, doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
+import { Bell, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { useI18n } from "@/components/i18n-provider";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { NOTIFICATION_LOCALES, resolveNotificationPreferences } from "@/lib/notification-templates";
+import type { NotificationPreferences, PushSubscriptionRecord } from "@/types";
+
+interface NotificationSettingsProps {
+    uid: string;
+    role: string | null;         // userRole from useAuth
+}
+
+const PUSH_WORKER_PATH = "/push-sw.js";
+
+function pushSupported(): boolean {
+    return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window
+        && !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+}
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+function decodeVapidKey(key: string): Uint8Array<ArrayBuffer> {
+    const base64 = (key + "=".repeat((4 - key.length % 4) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+// Firestore ids can't contain "/" - the endpoint's tail is the unique part
+function subscriptionId(endpoint: string): string {
+    return endpoint.replace(/[^a-zA-Z0-9]/g, "").slice(-120);
+}
+
+/**
+ * Email / SMS / push preferences and message language for booking updates
+ * (`users/{uid}.notificationPreferences`, read by notifications.ts).
+ */
+export function NotificationSettings({ uid, role }: NotificationSettingsProps) {
+    const { locale } = useI18n();
+    const [preferences, setPreferences] = useState<NotificationPreferences>(resolveNotificationPreferences({ locale }));
+    const [saving, setSaving] = useState(false);
+    const [pushBusy, setPushBusy] = useState(false);
+    const [pushActive, setPushActive] = useState(false);
+    const [canPush, setCanPush] = useState(false);     // Browser-only, so checked after mount
+
+    useEffect(() => {
+        getDoc(doc(db, "users", uid)).then(snap => {
+            const stored = snap.data()?.notificationPreferences;
+            if (stored) setPreferences(resolveNotificationPreferences(stored));
+        }).catch(error => console.error("Error loading notification preferences:", error));
+
+        setCanPush(pushSupported());
+        if (pushSupported()) {
+            navigator.serviceWorker.getRegistration(PUSH_WORKER_PATH)
+                .then(registration => registration?.pushManager.getSubscription())
+                .then(subscription => setPushActive(!!subscription))
+                .catch(() => setPushActive(false));
+        }
+    }, [uid]);
+
+    const enablePush = async () => {
+        if (await Notification.requestPermission() !== "granted") {
+            toast.error("Notifications are blocked for this site in your browser");
+            return;
+        }
+        const registration = await navigator.serviceWorker.register(PUSH_WORKER_PATH);
+        const subscription = await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: decodeVapidKey(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!)
+        });
+        const json = subscription.toJSON();
+        await setDoc(doc(db, "users", uid, "push_subscriptions", subscriptionId(subscription.endpoint)), {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: json.keys?.p256dh || "", auth: json.keys?.auth || "" },
+            userAgent: navigator.userAgent.slice(0, 200),
+            createdAt: new Date().toISOString()
+        } satisfies PushSubscriptionRecord);
+        setPushActive(true);
+        toast.success("Push notifications are on for this browser");
+    };
+
+    const disablePush = async () => {
+        const registration = await navigator.serviceWorker.getRegistration(PUSH_WORKER_PATH);
+        const subscription = await registration?.pushManager.getSubscription();
+        if (subscription) {
+            await deleteDoc(doc(db, "users", uid, "push_subscriptions", subscriptionId(subscription.endpoint)));
+            await subscription.unsubscribe();
+        }
+        setPushActive(false);
+    };
+
+    const togglePush = async () => {
+        setPushBusy(true);
+        try {
+            await (pushActive ? disablePush() : enablePush());
+        } catch (error) {
+            console.error("Push subscription error:", error);
+            toast.error("Couldn't change push notifications for this browser");
+        } finally {
+            setPushBusy(false);
+        }
+    };
+
+    const save = async () => {
+        setSaving(true);
+        try {
+            const phone = preferences.phone?.trim();
+            await updateDoc(doc(db, "users", uid), {
+                notificationPreferences: {
+                    email: preferences.email,
+                    sms: preferences.sms,
+                    push: preferences.push,
+                    locale: preferences.locale,
+                    ...(phone ? { phone } : {})
+                }
+            });
+            toast.success("Notification settings saved");
+        } catch (error) {
+            console.error("Error saving notification preferences:", error);
+            toast.error("Failed to save notification settings");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const channels: { id: "email" | "sms" | "push"; label: string; hint: string }[] = [
+        {
+            id: "email",
+            label: "Email",
+            hint: role === "owner" ? "New requests, cancellations and changes by guests" : "Booking requests, confirmations and cancellations"
+        },
+        {
+            id: "sms",
+            label: "SMS",
+            hint: role === "owner" ? "Included with the Pro and Enterprise plans" : "From restaurants on NearSpotty Pro and Enterprise"
+        },
+        { id: "push", label: "Push", hint: "Browser notifications on the devices you turn them on for" }
+    ];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Bell className="h-5 w-5 text-primary" />
+                    Notifications
+                </CardTitle>
+                <CardDescription>How we tell you about your reservations.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="space-y-4">
+                    {channels.map(channel => (
+                        <div key={channel.id} className="flex items-center justify-between gap-4">
+                            <div>
+                                <p className="font-medium">{channel.label}</p>
+                                <p className="text-sm text-gray-500">{channel.hint}</p>
+                            </div>
+                            <Switch
+                                checked={preferences[channel.id]}
+                                onCheckedChange={(checked) => setPreferences({ ...preferences, [channel.id]: checked })}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                {preferences.push && canPush && (
+                    <div className="flex items-center justify-between gap-4 rounded-xl bg-gray-50 px-4 py-3 text-sm">
+                        <span>{pushActive ? "This browser receives push notifications." : "This browser isn't set up for push yet."}</span>
+                        <Button size="sm" variant="outline" disabled={pushBusy} onClick={togglePush}>
+                            {pushBusy && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                            {pushActive ? "Turn off here" : "Turn on here"}
+                        </Button>
+                    </div>
+                )}
+
+                <div className="grid md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="notification-phone">SMS number</Label>
+                        <Input
+                            id="notification-phone"
+                            type="tel"
+                            value={preferences.phone || ""}
+                            onChange={(e) => setPreferences({ ...preferences, phone: e.target.value })}
+                            placeholder={role === "owner" ? "+421 900 000 000" : "Defaults to the number on your booking"}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Language</Label>
+                        <div className="flex gap-2">
+                            {NOTIFICATION_LOCALES.map(option => (
+                                <button
+                                    key={option.id}
+                                    type="button"
+                                    onClick={() => setPreferences({ ...preferences, locale: option.id })}
+                                    className={`px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-all ${preferences.locale === option.id ? 'bg-primary border-primary text-white shadow-lg shadow-primary/20' : 'bg-white border-gray-100 text-gray-400 hover:border-gray-200'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <Button onClick={save} disabled={saving} className="w-full">
+                    {saving ? "Saving..." : "Save Notification Settings"}
+                </Button>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { doc, getDoc } from "firebase/firestore";
+import { CalendarPlus, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { Button } from "@/components/ui/button";
+import { buildCalendar, reservationToEvent, type CalendarReservation } from "@/lib/ical";
+
+interface AddToCalendarButtonProps {
+    reservationId: string;
+    size?: "sm" | "default";
+    variant?: "outline" | "ghost" | "default";
+    className?: string;
+}
+
+function downloadFile(filename: string, content: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: "text/calendar;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the booking as an `.ics` file. The booking is read fresh on
+ * click, so a file saved after a change carries the new time and SEQUENCE
+ * and updates the event already in the calendar (ical.ts).
+ */
+export function AddToCalendarButton({ reservationId, size = "sm", variant = "outline", className }: AddToCalendarButtonProps) {
+    const [loading, setLoading] = useState(false);
+
+    const handleDownload = async () => {
+        setLoading(true);
+        try {
+            const snap = await getDoc(doc(db, "reservations", reservationId));
+            if (!snap.exists()) {
+                toast.error("Reservation not found");
+                return;
+            }
+            const reservation = snap.data() as CalendarReservation & { placeId: string; dateKey?: string };
+            const restaurant = (await getDoc(doc(db, "restaurants", reservation.placeId))).data();
+            const address: string | undefined = restaurant?.details?.address;
+
+            const event = reservationToEvent(snap.id, reservation, {
+                viewer: "diner",
+                location: address ? `${reservation.placeName}, ${address}` : reservation.placeName,
+                url: `${window.location.origin}/reservations`
+            });
+            downloadFile(`nearspotty-${reservation.dateKey || "reservation"}.ics`, buildCalendar([event]));
+        } catch (error) {
+            console.error("Calendar export error:", error);
+            toast.error("Couldn't create the calendar file");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Button variant={variant} size={size} className={className} disabled={loading} onClick={handleDownload}>
+            {loading ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <CalendarPlus className="mr-1 h-3.5 w-3.5" />}
+            Add to Calendar
+        </Button>
+    );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { format, parseISO } from "date-fns";
+import { Calendar as CalendarIcon, Clock, Users, Loader2 } from "lucide-react";
+import { useAuth } from "@/components/auth-provider";
+import toast from "react-hot-toast";
+import type { DayAvailability } from "@/lib/reservations";
+import type { ReservationStatus } from "@/types";
+
+interface ModifyReservationDialogProps {
+    reservation: {
+        id: string;
+        placeId: string;
+        placeName: string;
+        dateKey: string;
+        time: string;
+        guests: number;
+    };
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onModified: (change: { date: string; time: string; guests: number; status: ReservationStatus }) => void;
+}
+
+/**
+ * Lets a guest move their booking. Slots are loaded without their own
+ * booking, so keeping the time and adding a guest works when there's room.
+ */
+export function ModifyReservationDialog({ reservation, open, onOpenChange, onModified }: ModifyReservationDialogProps) {
+    const { user } = useAuth();
+    const [date, setDate] = useState<Date | undefined>(parseISO(reservation.dateKey));
+    const [time, setTime] = useState(reservation.time);
+    const [guests, setGuests] = useState(reservation.guests);
+    const [saving, setSaving] = useState(false);
+
+    const [availability, setAvailability] = useState<DayAvailability | null>(null);
+    const [availabilityError, setAvailabilityError] = useState<string | null>(null);
+    const [loadingSlots, setLoadingSlots] = useState(false);
+    const [slotsVersion, setSlotsVersion] = useState(0);
+
+    useEffect(() => {
+        if (!open || !date || !guests) return;
+        let cancelled = false;
+
+        const loadSlots = async () => {
+            setLoadingSlots(true);
+            setAvailabilityError(null);
+            try {
+                const params = new URLSearchParams({
+                    placeId: reservation.placeId,
+                    date: format(date, "yyyy-MM-dd"),
+                    guests: String(guests),
+                    exclude: reservation.id
+                });
+                const res = await fetch(`/api/reservations/availability?${params.toString()}`);
+                const data = await res.json();
+                if (cancelled) return;
+                if (!res.ok) {
+                    setAvailability(null);
+                    setAvailabilityError(data.error || "Availability unavailable");
+                    return;
+                }
+                setAvailability(data);
+                setTime(prev => data.slots.some((s: { time: string; available: boolean }) => s.time === prev && s.available) ? prev : "");
+            } catch (error) {
+                console.error("[Reservation] Availability failed:", error);
+                if (!cancelled) setAvailabilityError("Failed to load free tables");
+            } finally {
+                if (!cancelled) setLoadingSlots(false);
+            }
+        };
+
+        loadSlots();
+        return () => { cancelled = true; };
+    }, [open, date, guests, slotsVersion, reservation.placeId, reservation.id]);
+
+    const handleSave = async () => {
+        if (!user || !date || !time) return;
+
+        setSaving(true);
+        try {
+            const token = await user.getIdToken();
+            const change = { date: format(date, "yyyy-MM-dd"), time, guests };
+            const res = await fetch("/api/reservations/modify", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                body: JSON.stringify({ reservationId: reservation.id, ...change })
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                toast.error(data.error || "Failed to change reservation");
+                if (res.status === 409) setSlotsVersion(v => v + 1);
+                return;
+            }
+
+            toast.success(data.status === "confirmed" ? "Reservation changed - still confirmed" : "Reservation changed - waiting for the restaurant to confirm");
+            onModified({ ...change, status: data.status });
+            onOpenChange(false);
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to change reservation");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const unchanged = !!date && format(date, "yyyy-MM-dd") === reservation.dateKey && time === reservation.time && guests === reservation.guests;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle>Change Reservation</DialogTitle>
+                    <DialogDescription>
+                        <span className="font-semibold text-primary">{reservation.placeName}</span> · currently {reservation.dateKey} at {reservation.time}, {reservation.guests} guests
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                    <div className="flex flex-col space-y-2">
+                        <Label>Date</Label>
+                        <Popover>
+                            <PopoverTrigger asChild>
+                                <Button variant="outline" className="justify-start text-left font-normal">
+                                    <CalendarIcon className="mr-2 h-4 w-4" />
+                                    {date ? format(date, "PPP") : <span>Pick a date</span>}
+                                </Button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-auto p-0">
+                                <Calendar
+                                    mode="single"
+                                    selected={date}
+                                    onSelect={setDate}
+                                    initialFocus
+                                    disabled={(d: Date) => d < new Date(new Date().setHours(0, 0, 0, 0))}
+                                />
+                            </PopoverContent>
+                        </Popover>
+                    </div>
+
+                    <div className="flex flex-col space-y-2">
+                        <Label>Guests</Label>
+                        <div className="relative">
+                            <Users className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                type="number"
+                                min={1}
+                                max={availability?.maxPartySize || 20}
+                                value={guests}
+                                onChange={(e) => setGuests(Math.max(1, parseInt(e.target.value) || 1))}
+                                className="pl-9"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col space-y-2">
+                        <Label className="flex items-center gap-1.5">
+                            <Clock className="h-4 w-4 text-muted-foreground" /> Time
+                        </Label>
+                        {loadingSlots ? (
+                            <div className="flex justify-center py-3">
+                                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : availabilityError || availability?.closedReason ? (
+                            <p className="text-sm text-muted-foreground">{availabilityError || availability?.closedReason}</p>
+                        ) : (
+                            <div className="grid grid-cols-4 gap-2 max-h-40 overflow-y-auto">
+                                {availability?.slots.map(slot => (
+                                    <Button
+                                        key={slot.time}
+                                        type="button"
+                                        size="sm"
+                                        variant={time === slot.time ? "default" : "outline"}
+                                        disabled={!slot.available}
+                                        title={slot.reason}
+                                        onClick={() => setTime(slot.time)}
+                                    >
+                                        {slot.time}
+                                    </Button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button onClick={handleSave} disabled={saving || !time || unchanged} className="w-full">
+                        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save Changes
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { format } from "date-fns";
+import { History } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { RESERVATION_STATUS_LABELS } from "@/lib/reservation-status";
+import type { ReservationActor, ReservationHistoryEntry } from "@/types";
+
+interface StatusHistoryProps {
+    historyLog?: ReservationHistoryEntry[];
+    /** Whose screen this is - "owner" shows the restaurant as "You" */
+    viewer: "diner" | "owner";
+}
+
+function actorLabel(by: ReservationActor, viewer: StatusHistoryProps["viewer"]): string {
+    if (by === "system") return "Automatic";
+    if (by === viewer) return "You";
+    return by === "owner" ? "Restaurant" : "Guest";
+}
+
+function entryTitle(entry: ReservationHistoryEntry): string {
+    if (!entry.from) return "Requested";
+    if (entry.change) {
+        return entry.from === entry.status ? "Changed" : `Changed · ${RESERVATION_STATUS_LABELS[entry.status].toLowerCase()}`;
+    }
+    return RESERVATION_STATUS_LABELS[entry.status];
+}
+
+/**
+ * Timeline of a reservation's status changes (`historyLog`), newest first.
+ */
+export function StatusHistory({ historyLog = [], viewer }: StatusHistoryProps) {
+    if (historyLog.length === 0) return null;
+
+    const entries = [...historyLog].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs text-muted-foreground gap-1" title="Status history">
+                    <History className="h-3.5 w-3.5" /> History
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-3">
+                <p className="text-sm font-semibold mb-2">Status history</p>
+                <ol className="space-y-3 border-l pl-3 max-h-64 overflow-y-auto">
+                    {entries.map((entry, index) => (
+                        <li key={`${entry.timestamp}-${index}`} className="relative text-xs">
+                            <span className="absolute -left-[17px] top-1 h-2 w-2 rounded-full bg-primary" />
+                            <p className="font-medium text-sm">
+                                {entryTitle(entry)}
+                            </p>
+                            <p className="text-muted-foreground">
+                                {actorLabel(entry.by, viewer)} · {format(new Date(entry.timestamp), "d MMM, HH:mm")}
+                            </p>
+                            {entry.change && <p className="text-gray-600 mt-0.5">{entry.change}</p>}
+                            {entry.reason && <p className="text-gray-600 mt-0.5">“{entry.reason}”</p>}
+                        </li>
+                    ))}
+                </ol>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { format } from "date-fns";
+import { Hourglass, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/components/auth-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import type { WaitlistEntry } from "@/types";
+
+interface WaitlistEntriesProps {
+    onChanged: () => void;       // An accepted or declined offer changes the bookings list
+}
+
+function describeWindow(entry: WaitlistEntry): string {
+    return entry.flexibilityMinutes ? `${entry.time} ± ${entry.flexibilityMinutes} min` : entry.time;
+}
+
+/**
+ * The diner's open waitlist entries, with Accept / Decline for held tables.
+ * Hidden when they aren't waiting anywhere.
+ */
+export function WaitlistEntries({ onChanged }: WaitlistEntriesProps) {
+    const { user } = useAuth();
+    const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+    const [respondingId, setRespondingId] = useState<string | null>(null);
+    const [version, setVersion] = useState(0);
+
+    useEffect(() => {
+        const fetchEntries = async () => {
+            if (!user) return;
+            try {
+                const snap = await getDocs(query(collection(db, "waitlist"), where("userId", "==", user.uid)));
+                setEntries(snap.docs
+                    .map(d => ({ id: d.id, ...d.data() }) as WaitlistEntry)
+                    .filter(e => e.status === "waiting" || e.status === "offered")
+                    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`)));
+            } catch (error) {
+                console.error("Error fetching waitlist:", error);
+            }
+        };
+
+        fetchEntries();
+    }, [user, version]);
+
+    const respond = async (entry: WaitlistEntry, action: "accept" | "decline" | "leave") => {
+        if (!user) return;
+        if (action === "leave" && !confirm(`Leave the waitlist at ${entry.placeName}?`)) return;
+
+        setRespondingId(entry.id);
+        try {
+            const token = await user.getIdToken();
+            const res = await fetch("/api/waitlist/respond", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                body: JSON.stringify({ entryId: entry.id, action })
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                toast.error(data.error || "Failed to update the waitlist");
+                setVersion(v => v + 1);
+                return;
+            }
+
+            // Deposit venues: pay first, the booking is confirmed once the deposit is held
+            if (data.checkoutUrl) {
+                window.location.href = data.checkoutUrl;
+                return;
+            }
+
+            if (action === "accept") toast.success("Table booked - see you there!");
+            if (action === "decline") toast.success("Offer declined");
+            if (action === "leave") toast.success("You left the waitlist");
+            setVersion(v => v + 1);
+            onChanged();
+        } catch (error) {
+            console.error("Waitlist response error:", error);
+            toast.error("Failed to update the waitlist");
+        } finally {
+            setRespondingId(null);
+        }
+    };
+
+    if (entries.length === 0) return null;
+
+    return (
+        <div className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <Hourglass className="h-5 w-5 text-primary" /> Waitlist
+            </h2>
+            {entries.map(entry => {
+                const offer = entry.status === "offered" ? entry.offer : undefined;
+                const offerOpen = !!offer && new Date(offer.expiresAt) > new Date();
+                const busy = respondingId === entry.id;
+
+                return (
+                    <Card key={entry.id} className={offerOpen ? "border-2 border-primary shadow-md" : "shadow-sm"}>
+                        <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                            <div className="space-y-1 text-sm">
+                                <div className="flex items-center gap-2">
+                                    <p className="font-semibold text-base text-gray-900">{entry.placeName}</p>
+                                    <Badge className={offerOpen ? "bg-green-100 text-green-700" : "bg-yellow-100 text-yellow-700"}>
+                                        {offerOpen ? "Table available" : offer ? "Offer expired" : "Waiting"}
+                                    </Badge>
+                                </div>
+                                <p className="text-gray-600">
+                                    {format(new Date(`${entry.date}T12:00:00`), "EEE d MMM")} · {describeWindow(entry)} · {entry.guests} guests
+                                </p>
+                                {offerOpen && offer && (
+                                    <p className="text-gray-900">
+                                        A table is held for you at <strong>{offer.time}</strong> until {format(new Date(offer.expiresAt), "HH:mm")}.
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex gap-2">
+                                {offerOpen ? (
+                                    <>
+                                        <Button variant="outline" size="sm" disabled={busy} onClick={() => respond(entry, "decline")}>
+                                            Decline
+                                        </Button>
+                                        <Button size="sm" disabled={busy} onClick={() => respond(entry, "accept")}>
+                                            {busy && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                                            Accept
+                                        </Button>
+                                    </>
+                                ) : !offer && (
+                                    <Button variant="outline" size="sm" disabled={busy} onClick={() => respond(entry, "leave")}>
+                                        {busy && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                                        Leave waitlist
+                                    </Button>
+                                )}
+                            </div>
+                        </CardContent>
+                    </Card>
+                );
+            })}
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,12 +8,21 @@ import { Label } from "@/components/ui/label";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { format } from "date-fns";
-import { Calendar as CalendarIcon, Clock, Users, CheckCircle2, Loader2 } from "lucide-react";
+import { Calendar as CalendarIcon, Clock, Users, CheckCircle2, Loader2, Hourglass } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { addDoc, collection, serverTimestamp } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { useAuth } from "@/components/auth-provider";
 import toast from "react-hot-toast";
+import type { DayAvailability } from "@/lib/reservations";
+import { formatDeposit } from "@/lib/reservation-status";
+import { AddToCalendarButton } from "@/components/reservation/AddToCalendarButton";
+
+// How far from their preferred time a waitlisted guest accepts a table (waitlist.ts)
+const WAITLIST_FLEXIBILITY = [
+    { minutes: 0, label: "Exact" },
+    { minutes: 30, label: "± 30 min" },
+    { minutes: 60, label: "± 1 h" },
+    { minutes: 120, label: "± 2 h" }
+];
 
 interface ReservationModalProps {
     placeId?: string;
@@ -36,37 +45,104 @@ export function ReservationModal({ placeId, placeName, trigger, isOpen, onClose
     };
 
     const [date, setDate] = useState<Date | undefined>(new Date());
-    const [time, setTime] = useState("19:00");
+    const [time, setTime] = useState("");
     const [guests, setGuests] = useState(2);
     const [loading, setLoading] = useState(false);
     const [success, setSuccess] = useState(false);
+    const [reservationId, setReservationId] = useState<string | null>(null);
+
+    // Waitlist for fully booked slots: the picked time is the preferred one
+    const [waitlistMode, setWaitlistMode] = useState(false);
+    const [flexibility, setFlexibility] = useState(60);
+    const [waitlisted, setWaitlisted] = useState(false);
+
+    // Slots offered by /api/reservations/availability for the picked date + party
+    const [availability, setAvailability] = useState<DayAvailability | null>(null);
+    const [availabilityError, setAvailabilityError] = useState<string | null>(null);
+    const [loadingSlots, setLoadingSlots] = useState(false);
+    const [slotsVersion, setSlotsVersion] = useState(0);
 
     // Form fields
     const [name, setName] = useState(user?.displayName || "");
     const [phone, setPhone] = useState("");
 
+    useEffect(() => {
+        if (!open || !placeId || !date || !guests) return;
+        let cancelled = false;
+
+        const loadSlots = async () => {
+            setLoadingSlots(true);
+            setAvailabilityError(null);
+            try {
+                const params = new URLSearchParams({ placeId, date: format(date, "yyyy-MM-dd"), guests: String(guests) });
+                const res = await fetch(`/api/reservations/availability?${params.toString()}`);
+                const data = await res.json();
+                if (cancelled) return;
+                if (!res.ok) {
+                    setAvailability(null);
+                    setAvailabilityError(data.error || "Availability unavailable");
+                    return;
+                }
+                setAvailability(data);
+                // Keep the picked time only if it is still bookable
+                setTime(prev => data.slots.some((s: { time: string; available: boolean }) => s.time === prev && s.available) ? prev : "");
+                setWaitlistMode(false);
+            } catch (error) {
+                console.error("[Reservation] Availability failed:", error);
+                if (!cancelled) setAvailabilityError("Failed to load free tables");
+            } finally {
+                if (!cancelled) setLoadingSlots(false);
+            }
+        };
+
+        loadSlots();
+        return () => { cancelled = true; };
+    }, [open, placeId, date, guests, slotsVersion]);
+
+    const selectedSlot = availability?.slots.find(s => s.time === time && s.available) || null;
+    const hasFullSlots = !!availability?.slots.some(s => s.reason === "Fully booked");
+
     const handleBook = async () => {
-        if (!date || !time || !name || !phone) {
+        if (!user) {
+            toast.error("Please log in to book a table");
+            return;
+        }
+        if (!placeId || !date || !time || !name || !phone) {
             toast.error("Please fill in all fields");
             return;
         }
 
         setLoading(true);
         try {
-            await addDoc(collection(db, "reservations"), {
-                userId: user?.uid || "anonymous",
-                placeId,
-                placeName,
-                customerName: name,
-                customerEmail: user?.email || "",
-                customerPhone: phone,
-                date: date, // Firestore will convert Date
-                time,
-                guests,
-                status: "pending", // Requires owner confirmation
-                createdAt: serverTimestamp(),
+            const token = await user.getIdToken();
+            const res = await fetch("/api/reservations", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                body: JSON.stringify({
+                    placeId,
+                    date: format(date, "yyyy-MM-dd"),
+                    time,
+                    guests,
+                    customerName: name,
+                    customerPhone: phone
+                })
             });
+            const data = await res.json();
+
+            if (!res.ok) {
+                toast.error(data.error || "Failed to make reservation");
+                // Someone may have taken the slot - refresh the grid
+                if (res.status === 409) setSlotsVersion(v => v + 1);
+                return;
+            }
 
+            // Deposit venues: the table is held while the guest pays on Stripe
+            if (data.checkoutUrl) {
+                window.location.href = data.checkoutUrl;
+                return;
+            }
+
+            setReservationId(data.reservation.id);
             setSuccess(true);
             toast.success("Reservation submitted!");
         } catch (error) {
@@ -77,8 +153,56 @@ export function ReservationModal({ placeId, placeName, trigger, isOpen, onClose
         }
     };
 
+    const handleJoinWaitlist = async () => {
+        if (!user) {
+            toast.error("Please log in to join the waitlist");
+            return;
+        }
+        if (!placeId || !date || !time || !name || !phone) {
+            toast.error("Please fill in all fields");
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const token = await user.getIdToken();
+            const res = await fetch("/api/waitlist", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+                body: JSON.stringify({
+                    placeId,
+                    date: format(date, "yyyy-MM-dd"),
+                    time,
+                    guests,
+                    flexibilityMinutes: flexibility,
+                    customerName: name,
+                    customerPhone: phone
+                })
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                toast.error(data.error || "Failed to join the waitlist");
+                // A table may have freed up meanwhile
+                if (data.code === "SLOT_AVAILABLE") setSlotsVersion(v => v + 1);
+                return;
+            }
+
+            setWaitlisted(true);
+            setSuccess(true);
+            toast.success("You're on the waitlist!");
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to join the waitlist");
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const reset = () => {
         setSuccess(false);
+        setWaitlisted(false);
+        setReservationId(null);
         setOpen(false);
         // Reset form if needed, or keep values for next time
     };
@@ -92,10 +216,17 @@ export function ReservationModal({ placeId, placeName, trigger, isOpen, onClose
                         <div className="h-12 w-12 rounded-full bg-green-100 flex items-center justify-center">
                             <CheckCircle2 className="h-6 w-6 text-green-600" />
                         </div>
-                        <DialogTitle className="text-xl">Reservation Submitted!</DialogTitle>
-                        <DialogDescription>
-                            Your reservation at <strong>{placeName}</strong> for {guests} people on {date && format(date, "PPP")} at {time} is pending confirmation from the restaurant.
-                        </DialogDescription>
+                        <DialogTitle className="text-xl">{waitlisted ? "You're on the Waitlist!" : "Reservation Submitted!"}</DialogTitle>
+                        {waitlisted ? (
+                            <DialogDescription>
+                                We&apos;ll hold a table at <strong>{placeName}</strong> for you as soon as one frees up around {time} on {date && format(date, "PPP")}. Accept the offer under My Reservations before it runs out.
+                            </DialogDescription>
+                        ) : (
+                            <DialogDescription>
+                                Your reservation at <strong>{placeName}</strong> for {guests} people on {date && format(date, "PPP")} at {time} is pending confirmation from the restaurant.
+                            </DialogDescription>
+                        )}
+                        {reservationId && <AddToCalendarButton reservationId={reservationId} size="default" className="w-full" />}
                         <Button onClick={reset} className="w-full">Done</Button>
                     </div>
                 </DialogContent>
@@ -142,21 +273,86 @@ export function ReservationModal({ placeId, placeName, trigger, isOpen, onClose
                         </Popover>
                     </div>
 
-                    <div className="grid grid-cols-2 gap-4">
-                        <div className="flex flex-col space-y-2">
-                            <Label>Time</Label>
-                            <div className="relative">
-                                <Clock className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} className="pl-9" />
-                            </div>
+                    <div className="flex flex-col space-y-2">
+                        <Label>Guests</Label>
+                        <div className="relative">
+                            <Users className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                type="number"
+                                min={1}
+                                max={availability?.maxPartySize || 20}
+                                value={guests}
+                                onChange={(e) => setGuests(Math.max(1, parseInt(e.target.value) || 1))}
+                                className="pl-9"
+                            />
                         </div>
-                        <div className="flex flex-col space-y-2">
-                            <Label>Guests</Label>
-                            <div className="relative">
-                                <Users className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                                <Input type="number" min={1} max={20} value={guests} onChange={(e) => setGuests(parseInt(e.target.value))} className="pl-9" />
+                    </div>
+
+                    <div className="flex flex-col space-y-2">
+                        <Label className="flex items-center gap-1.5">
+                            <Clock className="h-4 w-4 text-muted-foreground" /> Time
+                        </Label>
+                        {loadingSlots ? (
+                            <div className="flex justify-center py-3">
+                                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
                             </div>
-                        </div>
+                        ) : availabilityError || (availability?.closedReason && !waitlistMode) ? (
+                            <p className="text-sm text-muted-foreground">{availabilityError || availability?.closedReason}</p>
+                        ) : (
+                            <div className="grid grid-cols-4 gap-2 max-h-40 overflow-y-auto">
+                                {availability?.slots.map(slot => (
+                                    <Button
+                                        key={slot.time}
+                                        type="button"
+                                        size="sm"
+                                        variant={time === slot.time ? "default" : "outline"}
+                                        disabled={waitlistMode ? slot.reason !== "Fully booked" : !slot.available}
+                                        title={slot.reason}
+                                        onClick={() => setTime(slot.time)}
+                                    >
+                                        {slot.time}
+                                    </Button>
+                                ))}
+                            </div>
+                        )}
+                        {hasFullSlots && !loadingSlots && !availabilityError && (
+                            <Button
+                                type="button"
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0 justify-start"
+                                onClick={() => { setWaitlistMode(!waitlistMode); setTime(""); }}
+                            >
+                                <Hourglass className="mr-1 h-3.5 w-3.5" />
+                                {waitlistMode ? "Back to free tables" : "Fully booked when you want? Join the waitlist"}
+                            </Button>
+                        )}
+                        {waitlistMode && (
+                            <div className="space-y-2">
+                                <p className="text-xs text-muted-foreground">Pick your preferred time. We&apos;ll offer you the closest table that frees up within:</p>
+                                <div className="grid grid-cols-4 gap-2">
+                                    {WAITLIST_FLEXIBILITY.map(option => (
+                                        <Button
+                                            key={option.minutes}
+                                            type="button"
+                                            size="sm"
+                                            variant={flexibility === option.minutes ? "default" : "outline"}
+                                            onClick={() => setFlexibility(option.minutes)}
+                                        >
+                                            {option.label}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {selectedSlot && (
+                            <p className="text-xs text-muted-foreground">Your table is reserved {selectedSlot.time}–{selectedSlot.endTime}.</p>
+                        )}
+                        {!!availability?.depositAmount && (
+                            <p className="text-xs text-muted-foreground">
+                                This restaurant holds a {formatDeposit(availability.depositAmount)} deposit on your card. It&apos;s released when you arrive or cancel in time, and charged only if you don&apos;t show up.
+                            </p>
+                        )}
                     </div>
 
                     <div className="space-y-2">
@@ -169,10 +365,17 @@ export function ReservationModal({ placeId, placeName, trigger, isOpen, onClose
                     </div>
                 </div>
                 <DialogFooter>
-                    <Button onClick={handleBook} disabled={loading} className="w-full">
-                        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                        Confirm Booking
-                    </Button>
+                    {waitlistMode ? (
+                        <Button onClick={handleJoinWaitlist} disabled={loading || !time} className="w-full">
+                            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Join Waitlist
+                        </Button>
+                    ) : (
+                        <Button onClick={handleBook} disabled={loading || !time} className="w-full">
+                            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {availability?.depositAmount ? `Continue to ${formatDeposit(availability.depositAmount)} Deposit` : "Confirm Booking"}
+                        </Button>
+                    )}
                 </DialogFooter>
             </DialogContent>
         </Dialog>
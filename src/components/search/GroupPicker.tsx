@@ -0,0 +1,316 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import toast from "react-hot-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Users, Plus, Trash2, Loader2, Check, X } from "lucide-react";
+import { useAuth } from "@/components/auth-provider";
+import type { DiningGroup } from "@/types";
+
+interface GroupPickerProps {
+    activeGroupId: string | null;
+    onChange: (groupId: string | null) => void;
+    disabled?: boolean;
+}
+
+interface GroupInvite {
+    id: string;
+    name: string;
+    ownerName: string;
+}
+
+interface GuestDraft {
+    displayName: string;
+    dietary: string[];
+    allergies: string;
+}
+
+const GUEST_DIETS = ["vegan", "vegetarian", "gluten-free", "halal"];
+
+const splitList = (value: string) => value.split(",").map(v => v.trim()).filter(Boolean);
+
+/**
+ * "Dining with..." - pick a group to search for, accept invites, create groups
+ * with invited NearSpotty users and ad-hoc guests.
+ */
+export function GroupPicker({ activeGroupId, onChange, disabled = false }: GroupPickerProps) {
+    const { user } = useAuth();
+    const [isOpen, setIsOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [groups, setGroups] = useState<DiningGroup[]>([]);
+    const [invites, setInvites] = useState<GroupInvite[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+    const [name, setName] = useState("");
+    const [inviteEmails, setInviteEmails] = useState("");
+    const [guests, setGuests] = useState<GuestDraft[]>([]);
+
+    const request = useCallback(async (path: string, init: RequestInit = {}) => {
+        if (!user) throw new Error("Please log in first");
+        const token = await user.getIdToken();
+        const res = await fetch(path, {
+            ...init,
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` }
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Request failed");
+        return data;
+    }, [user]);
+
+    const loadGroups = useCallback(async () => {
+        setLoading(true);
+        try {
+            const data = await request("/api/groups");
+            setGroups(data.groups || []);
+            setInvites(data.invites || []);
+        } catch (error) {
+            console.error("[GroupPicker] Failed to load groups:", error);
+        } finally {
+            setLoading(false);
+        }
+    }, [request]);
+
+    // Load once signed in so the button can show the active group's name
+    useEffect(() => {
+        if (user) loadGroups();
+    }, [user, loadGroups]);
+
+    const activeGroup = groups.find(g => g.id === activeGroupId) || null;
+
+    const resetForm = () => {
+        setIsCreating(false);
+        setName("");
+        setInviteEmails("");
+        setGuests([]);
+    };
+
+    const handleCreate = async () => {
+        setSaving(true);
+        try {
+            const data = await request("/api/groups", {
+                method: "POST",
+                body: JSON.stringify({
+                    name,
+                    inviteEmails: splitList(inviteEmails),
+                    guests: guests
+                        .filter(g => g.displayName.trim())
+                        .map(g => ({ displayName: g.displayName, dietary: g.dietary, allergies: splitList(g.allergies) }))
+                })
+            });
+            setGroups(prev => [...prev, data.group]);
+            resetForm();
+            toast.success("Group created");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to create group");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (groupId: string) => {
+        try {
+            await request(`/api/groups/${groupId}`, { method: "DELETE" });
+            setGroups(prev => prev.filter(g => g.id !== groupId));
+            if (groupId === activeGroupId) onChange(null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to delete group");
+        }
+    };
+
+    const handleInvite = async (groupId: string, action: "accept" | "decline") => {
+        try {
+            await request(`/api/groups/${groupId}`, { method: "POST", body: JSON.stringify({ action }) });
+            toast.success(action === "accept" ? "You joined the group" : "Invite declined");
+            loadGroups();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update invite");
+        }
+    };
+
+    const updateGuest = (index: number, patch: Partial<GuestDraft>) => {
+        setGuests(prev => prev.map((g, i) => i === index ? { ...g, ...patch } : g));
+    };
+
+    if (!user) return null;
+
+    return (
+        <>
+            <Button
+                type="button"
+                variant={activeGroup ? "default" : "outline"}
+                size="sm"
+                className="w-full justify-start gap-2"
+                onClick={() => setIsOpen(true)}
+                disabled={disabled}
+            >
+                <Users className="h-4 w-4" />
+                <span className="truncate">{activeGroup ? `Dining with ${activeGroup.name}` : "Dining solo"}</span>
+                {invites.length > 0 && (
+                    <span className="ml-auto text-[10px] px-1.5 rounded-full bg-red-500 text-white">{invites.length}</span>
+                )}
+            </Button>
+
+            <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) resetForm(); }}>
+                <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Who&apos;s eating?</DialogTitle>
+                        <DialogDescription>
+                            Group searches respect everyone&apos;s allergies and diets. The search credit is yours.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {loading && (
+                        <div className="flex justify-center py-4">
+                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                        </div>
+                    )}
+
+                    {invites.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-xs font-semibold text-muted-foreground uppercase">Invites</p>
+                            {invites.map(invite => (
+                                <div key={invite.id} className="flex items-center gap-2 p-2 rounded-md border text-sm">
+                                    <span className="flex-1 truncate"><b>{invite.name}</b> · from {invite.ownerName}</span>
+                                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleInvite(invite.id, "accept")} title="Join">
+                                        <Check className="h-4 w-4 text-emerald-600" />
+                                    </Button>
+                                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleInvite(invite.id, "decline")} title="Decline">
+                                        <X className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {!isCreating && (
+                        <div className="space-y-2">
+                            <button
+                                type="button"
+                                onClick={() => { onChange(null); setIsOpen(false); }}
+                                className={`w-full text-left p-2 rounded-md border text-sm ${!activeGroupId ? "border-primary bg-primary/5" : "hover:bg-muted"}`}
+                            >
+                                Just me
+                            </button>
+
+                            {groups.map(group => {
+                                const isOrganizer = group.ownerId === user.uid;
+                                return (
+                                    <div
+                                        key={group.id}
+                                        className={`flex items-center gap-2 p-2 rounded-md border text-sm ${group.id === activeGroupId ? "border-primary bg-primary/5" : ""}`}
+                                    >
+                                        <button
+                                            type="button"
+                                            disabled={!isOrganizer}
+                                            onClick={() => { onChange(group.id); setIsOpen(false); }}
+                                            className="flex-1 text-left disabled:cursor-default"
+                                        >
+                                            <p className="font-medium">{group.name}</p>
+                                            <p className="text-xs text-muted-foreground truncate">
+                                                {isOrganizer
+                                                    ? [
+                                                        "You",
+                                                        ...group.members.map(m => m.status === "invited" ? `${m.displayName} (invited)` : m.displayName)
+                                                    ].join(", ")
+                                                    : `Organized by ${group.ownerName}`}
+                                            </p>
+                                        </button>
+                                        {isOrganizer && (
+                                            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(group.id)} title="Delete group">
+                                                <Trash2 className="h-4 w-4 text-muted-foreground" />
+                                            </Button>
+                                        )}
+                                    </div>
+                                );
+                            })}
+
+                            <Button variant="outline" size="sm" className="w-full gap-2" onClick={() => setIsCreating(true)}>
+                                <Plus className="h-4 w-4" /> New group
+                            </Button>
+                        </div>
+                    )}
+
+                    {isCreating && (
+                        <div className="space-y-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="group-name">Group name</Label>
+                                <Input id="group-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Friday dinner crew" />
+                            </div>
+
+                            <div className="space-y-1">
+                                <Label htmlFor="group-invites">Invite by email</Label>
+                                <Input
+                                    id="group-invites"
+                                    value={inviteEmails}
+                                    onChange={(e) => setInviteEmails(e.target.value)}
+                                    placeholder="anna@example.com, marek@example.com"
+                                />
+                                <p className="text-[11px] text-muted-foreground">They see the invite when signed in to NearSpotty with that email. Their saved allergies and diets are used once they accept.</p>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Guests</Label>
+                                {guests.map((guest, index) => (
+                                    <div key={index} className="p-2 rounded-md border space-y-2">
+                                        <div className="flex gap-2">
+                                            <Input
+                                                value={guest.displayName}
+                                                onChange={(e) => updateGuest(index, { displayName: e.target.value })}
+                                                placeholder="Name"
+                                                className="h-8 text-sm"
+                                            />
+                                            <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => setGuests(prev => prev.filter((_, i) => i !== index))}>
+                                                <X className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                        <div className="flex flex-wrap gap-1">
+                                            {GUEST_DIETS.map(diet => (
+                                                <button
+                                                    key={diet}
+                                                    type="button"
+                                                    onClick={() => updateGuest(index, {
+                                                        dietary: guest.dietary.includes(diet)
+                                                            ? guest.dietary.filter(d => d !== diet)
+                                                            : [...guest.dietary, diet]
+                                                    })}
+                                                    className={`text-xs px-2 py-0.5 rounded-full border ${guest.dietary.includes(diet) ? "bg-primary text-primary-foreground border-primary" : "text-muted-foreground"}`}
+                                                >
+                                                    {diet}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <Input
+                                            value={guest.allergies}
+                                            onChange={(e) => updateGuest(index, { allergies: e.target.value })}
+                                            placeholder="Allergies, e.g. peanuts, shellfish"
+                                            className="h-8 text-sm"
+                                        />
+                                    </div>
+                                ))}
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="gap-2"
+                                    onClick={() => setGuests(prev => [...prev, { displayName: "", dietary: [], allergies: "" }])}
+                                >
+                                    <Plus className="h-4 w-4" /> Add guest
+                                </Button>
+                            </div>
+
+                            <div className="flex gap-2">
+                                <Button variant="outline" className="flex-1" onClick={resetForm}>Cancel</Button>
+                                <Button className="flex-1" onClick={handleCreate} disabled={saving || !name.trim()}>
+                                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                    Create group
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
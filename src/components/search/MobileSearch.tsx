@@ -16,6 +16,9 @@ import Link from "next/link";
 import { LocationPopover } from "@/components/navigation/LocationPopover";
 import { useSearchStore } from "@/hooks/useSearchState";
 import { useRouter } from "next/navigation";
+import { SEARCH_STAGE_MESSAGES } from "@/components/ui/CommunicativeLoader";
+import { RouteInput, type RouteEndpoints } from "@/components/search/RouteInput";
+import { GroupPicker } from "@/components/search/GroupPicker";
 
 interface MobileSearchProps {
     places: Place[];
@@ -24,6 +27,11 @@ interface MobileSearchProps {
     searchQuery: string;
     setSearchQuery: (q: string) => void;
     onSearch: (e: React.FormEvent) => void;
+    activeRoute?: RouteEndpoints | null;
+    onRouteSearch?: (route: RouteEndpoints) => void;
+    onClearRoute?: () => void;
+    activeGroupId?: string | null;
+    onGroupChange?: (groupId: string | null) => void;
     onCategorySelect: (cat: string) => void;
     selectedCategory: string | null;
     scores: Record<string, GeminiScore>;
@@ -54,6 +62,11 @@ export default function MobileSearch({
     searchQuery,
     setSearchQuery,
     onSearch,
+    activeRoute = null,
+    onRouteSearch,
+    onClearRoute,
+    activeGroupId = null,
+    onGroupChange,
     onCategorySelect,
     selectedCategory,
     scores,
@@ -75,7 +88,7 @@ export default function MobileSearch({
     const { user } = useAuth();
 
     // Shared state
-    const { cityName, setCity, setLocation } = useSearchStore();
+    const { cityName, setCity, setLocation, searchStage } = useSearchStore();
 
     const handleUseGPS = async () => {
         setIsLoadingGPS(true);
@@ -170,6 +183,22 @@ export default function MobileSearch({
                             ref={scrollRef}
                         >
                             <div className="p-4 space-y-4 min-h-[200px]">
+                                {/* Group dining */}
+                                {onGroupChange && (
+                                    <GroupPicker activeGroupId={activeGroupId} onChange={onGroupChange} disabled={loading} />
+                                )}
+
+                                {/* A -> B route search */}
+                                {onRouteSearch && (
+                                    <RouteInput
+                                        key={activeRoute ? `${activeRoute.origin.lat},${activeRoute.destination.lat}` : "no-route"}
+                                        initialRoute={activeRoute}
+                                        onSubmit={onRouteSearch}
+                                        onClear={onClearRoute}
+                                        disabled={loading}
+                                    />
+                                )}
+
                                 {/* Limit Badge */}
                                 <div className="flex items-center justify-between px-1">
                                     <span className="text-xs font-semibold text-gray-500">{places.length} places found</span>
@@ -189,12 +218,14 @@ export default function MobileSearch({
                                                 <UtensilsIcon className="h-6 w-6 text-primary animate-pulse" />
                                             </div>
                                         </div>
-                                        <p className="text-sm font-medium text-gray-600 animate-pulse">{loadingMessage}</p>
+                                        <p className="text-sm font-medium text-gray-600 animate-pulse">
+                                            {searchStage ? SEARCH_STAGE_MESSAGES[searchStage].text : loadingMessage}
+                                        </p>
                                     </div>
                                 )}
 
-                                {/* Results List */}
-                                {!loading && places.map((place) => (
+                                {/* Results List (partial results stream in while loading) */}
+                                {places.map((place) => (
                                     <div key={place.place_id} onClick={() => {
                                         if (place.geometry && place.geometry.location) {
                                             onPlaceSelect(place.place_id);
@@ -204,7 +235,7 @@ export default function MobileSearch({
                                             place={place}
                                             preferences={preferences}
                                             score={scores[place.place_id]}
-                                            scoringLoading={scoringLoading}
+                                            scoringLoading={scoringLoading || (loading && !scores[place.place_id])}
                                             limitReached={limitReached}
                                             isMobile={true}
                                             userLocation={userLocation ?? undefined}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { Clock, Utensils } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useI18n } from "@/components/i18n-provider";
+import { allergenLabel, toAllergenIds } from "@/lib/allergens";
+import { MENU_CATEGORIES, groupMenuByCategory } from "@/lib/menu";
+import { describeSchedule, pickActiveMenu } from "@/lib/menu-schedule";
+import type { ServedMenu } from "@/types";
+
+interface PlaceMenuProps {
+    menus: ServedMenu[];
+    timeZone?: string;
+}
+
+/**
+ * Published menus of a claimed restaurant on the place page. Opens on the
+ * menu served right now (in the restaurant's timezone); the others stay one
+ * click away with their schedule.
+ */
+export function PlaceMenu({ menus, timeZone }: PlaceMenuProps) {
+    const { locale } = useI18n();
+    const [now] = useState(() => new Date());
+    const active = pickActiveMenu(menus, now, { timeZone });
+    const [selectedId, setSelectedId] = useState<string | null>(active?.id ?? null);
+    const selected = menus.find(menu => menu.id === selectedId) || null;
+
+    const grouped = selected ? groupMenuByCategory(selected.items) : {};
+    const categories = Object.keys(grouped).sort((a, b) => MENU_CATEGORIES.indexOf(a) - MENU_CATEGORIES.indexOf(b));
+
+    return (
+        <div className="space-y-4">
+            {menus.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                    {menus.map(menu => (
+                        <button
+                            key={menu.id}
+                            type="button"
+                            onClick={() => setSelectedId(menu.id)}
+                            className={`px-3 py-2 rounded-lg border text-left transition-colors ${menu.id === selectedId ? 'border-primary bg-primary/5' : 'border-gray-200 bg-white hover:border-primary/30'}`}
+                        >
+                            <div className="text-sm font-medium flex items-center gap-2">
+                                {menu.name}
+                                {menu.id === active?.id && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Now</Badge>}
+                            </div>
+                            <div className="text-xs text-muted-foreground">{describeSchedule(menu.schedule)}</div>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {!selected ? (
+                <div className="text-center py-10 bg-white border rounded-xl border-dashed">
+                    <Clock className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                    <h3 className="text-lg font-medium">No menu is served right now</h3>
+                    <p className="text-sm text-muted-foreground mt-2">Pick one of the menus above to see what&apos;s on it.</p>
+                </div>
+            ) : (
+                <div className="bg-white border rounded-xl p-5 space-y-6">
+                    <div className="flex items-start justify-between gap-4">
+                        <h3 className="text-lg font-semibold flex items-center gap-2">
+                            <Utensils className="h-5 w-5 text-gray-400" />
+                            {selected.name}
+                        </h3>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">{describeSchedule(selected.schedule)}</span>
+                    </div>
+
+                    {categories.map(category => (
+                        <div key={category} className="space-y-3">
+                            <h4 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{category}</h4>
+                            {grouped[category].map(item => {
+                                const allergens = toAllergenIds(item.allergens);
+                                return (
+                                    <div key={item.id} className="flex justify-between gap-4 border-b border-gray-100 pb-3 last:border-0">
+                                        <div className="space-y-1">
+                                            <p className="font-medium text-gray-900">
+                                                {item.name}
+                                                {item.weight && <span className="text-xs text-muted-foreground font-normal ml-2">{item.weight}</span>}
+                                            </p>
+                                            {item.description && <p className="text-sm text-muted-foreground">{item.description}</p>}
+                                            {(item.dietary?.length || allergens.length > 0) && (
+                                                <div className="flex flex-wrap gap-1">
+                                                    {item.dietary?.map(diet => (
+                                                        <Badge key={diet} variant="secondary" className="text-[10px] px-1.5 py-0">{diet}</Badge>
+                                                    ))}
+                                                    {allergens.map(id => (
+                                                        <Badge key={id} variant="outline" className="text-[10px] px-1.5 py-0 text-red-600 border-red-200">{allergenLabel(id, locale)}</Badge>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                        <span className="font-semibold text-gray-900 whitespace-nowrap">€{item.price.toFixed(2)}</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { MapPin, Loader2, Route, ArrowDownUp, X } from "lucide-react";
+import { useCityAutocomplete, type SelectedCity } from "@/hooks/useCityAutocomplete";
+
+export interface RouteEndpoints {
+    origin: SelectedCity;
+    destination: SelectedCity;
+}
+
+interface RouteInputProps {
+    initialRoute?: RouteEndpoints | null;
+    onSubmit: (route: RouteEndpoints) => void;
+    onClear?: () => void;
+    disabled?: boolean;
+}
+
+interface RoutePointFieldProps {
+    label: string;
+    value: SelectedCity | null;
+    onChange: (city: SelectedCity | null) => void;
+}
+
+/**
+ * Single A/B field: shows the chosen city, or a city autocomplete while empty.
+ */
+function RoutePointField({ label, value, onChange }: RoutePointFieldProps) {
+    const handleSelected = useCallback((city: SelectedCity) => onChange(city), [onChange]);
+
+    const {
+        inputValue,
+        suggestions,
+        loading,
+        handleSearch,
+        selectCity,
+        selectCachedCity
+    } = useCityAutocomplete({ isActive: !value, onCitySelected: handleSelected });
+
+    if (value) {
+        return (
+            <div className="flex items-center gap-2 h-9 px-3 rounded-md border bg-muted/40 text-sm">
+                <span className="text-xs font-semibold text-muted-foreground w-4">{label}</span>
+                <span className="flex-1 truncate font-medium">{value.name}</span>
+                <button type="button" onClick={() => onChange(null)} className="text-muted-foreground hover:text-foreground" title="Change">
+                    <X className="h-3.5 w-3.5" />
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs font-semibold text-muted-foreground">{label}</span>
+            <Input
+                placeholder={label === "A" ? "From (city)" : "To (city)"}
+                value={inputValue}
+                onChange={(e) => handleSearch(e.target.value)}
+                className="pl-8 h-9 text-sm"
+            />
+            {loading && (
+                <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+            )}
+
+            {suggestions.length > 0 && (
+                <div className="absolute z-30 mt-1 w-full bg-background border rounded-lg shadow-md divide-y max-h-56 overflow-y-auto">
+                    {suggestions.map((suggestion) => (
+                        <button
+                            type="button"
+                            key={suggestion.placeId}
+                            onClick={() => {
+                                if (suggestion.source === 'cache' && suggestion.cachedData) {
+                                    selectCachedCity(suggestion.cachedData);
+                                } else {
+                                    selectCity(suggestion);
+                                }
+                            }}
+                            className="w-full px-3 py-2 text-left hover:bg-muted transition-colors flex items-center gap-2 text-sm"
+                        >
+                            <MapPin className={`h-3.5 w-3.5 shrink-0 ${suggestion.source === 'cache' ? 'text-emerald-600' : 'text-muted-foreground'}`} />
+                            <span className="truncate">
+                                <span className="font-medium">{suggestion.mainText}</span>
+                                {suggestion.secondaryText && <span className="text-muted-foreground"> · {suggestion.secondaryText}</span>}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * A -> B route search ("somewhere vegan between Bratislava and Vienna").
+ * Uses the current search query; results are ranked by match and detour.
+ */
+export function RouteInput({ initialRoute = null, onSubmit, onClear, disabled = false }: RouteInputProps) {
+    const [origin, setOrigin] = useState<SelectedCity | null>(initialRoute?.origin ?? null);
+    const [destination, setDestination] = useState<SelectedCity | null>(initialRoute?.destination ?? null);
+
+    const swap = () => {
+        setOrigin(destination);
+        setDestination(origin);
+    };
+
+    return (
+        <div className="space-y-2 p-3 rounded-lg border bg-card">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold flex items-center gap-1.5">
+                    <Route className="h-4 w-4 text-primary" />
+                    Along a route
+                </span>
+                {onClear && (origin || destination) && (
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setOrigin(null);
+                            setDestination(null);
+                            onClear();
+                        }}
+                        className="text-xs text-muted-foreground hover:text-foreground"
+                    >
+                        Clear
+                    </button>
+                )}
+            </div>
+
+            <div className="flex gap-2 items-center">
+                <div className="flex-1 space-y-2">
+                    <RoutePointField label="A" value={origin} onChange={setOrigin} />
+                    <RoutePointField label="B" value={destination} onChange={setDestination} />
+                </div>
+                <Button type="button" variant="ghost" size="icon" onClick={swap} title="Swap A and B" className="shrink-0">
+                    <ArrowDownUp className="h-4 w-4" />
+                </Button>
+            </div>
+
+            <Button
+                type="button"
+                size="sm"
+                className="w-full"
+                disabled={disabled || !origin || !destination}
+                onClick={() => origin && destination && onSubmit({ origin, destination })}
+            >
+                Search along route
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Bookmark, Check, Loader2, Plus } from "lucide-react";
+import { useAuth } from "@/components/auth-provider";
+import { createList, getUserLists, togglePlaceInList } from "@/lib/saved-lists";
+import type { Place } from "@/types/place";
+import type { SavedList } from "@/types";
+
+interface SaveToListButtonProps {
+    place: Place;
+    variant?: "icon" | "button";
+    className?: string;
+}
+
+/**
+ * Bookmark popover: toggle the place in any of the user's lists or start a new one.
+ * Lists are loaded when the popover opens.
+ */
+export function SaveToListButton({ place, variant = "icon", className = "" }: SaveToListButtonProps) {
+    const { user } = useAuth();
+    const [lists, setLists] = useState<SavedList[] | null>(null);
+    const [busyListId, setBusyListId] = useState<string | null>(null);
+    const [newListName, setNewListName] = useState("");
+    const [creating, setCreating] = useState(false);
+
+    const isSaved = !!lists?.some(l => l.places.some(p => p.placeId === place.place_id));
+
+    const handleOpenChange = async (open: boolean) => {
+        if (!open || !user || lists) return;
+        try {
+            setLists(await getUserLists(user.uid));
+        } catch (error) {
+            console.error("[SaveToList] Failed to load lists:", error);
+            setLists([]);
+        }
+    };
+
+    const handleToggle = async (list: SavedList) => {
+        setBusyListId(list.id);
+        try {
+            const places = await togglePlaceInList(list.id, place);
+            setLists(prev => prev?.map(l => l.id === list.id ? { ...l, places } : l) || null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update list");
+        } finally {
+            setBusyListId(null);
+        }
+    };
+
+    const handleCreate = async () => {
+        if (!user || !newListName.trim()) return;
+        setCreating(true);
+        try {
+            const list = await createList(user.uid, user.displayName || "NearSpotty user", newListName, place);
+            setLists(prev => [list, ...(prev || [])]);
+            setNewListName("");
+            toast.success(`Saved to ${list.name}`);
+        } catch (error) {
+            console.error("[SaveToList] Create failed:", error);
+            toast.error("Failed to create list");
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    // Cards are wrapped in links - keep clicks inside the popover
+    const stop = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    if (!user) return null;
+
+    return (
+        <Popover onOpenChange={handleOpenChange}>
+            <PopoverTrigger asChild onClick={(e) => e.stopPropagation()}>
+                {variant === "icon" ? (
+                    <button
+                        type="button"
+                        title="Save to list"
+                        className={`h-8 w-8 rounded-full bg-white/90 hover:bg-white shadow flex items-center justify-center ${className}`}
+                    >
+                        <Bookmark className={`h-4 w-4 ${isSaved ? "fill-primary text-primary" : "text-gray-700"}`} />
+                    </button>
+                ) : (
+                    <Button variant="outline" size="sm" className={`gap-2 ${className}`}>
+                        <Bookmark className={`h-4 w-4 ${isSaved ? "fill-primary text-primary" : ""}`} />
+                        Save
+                    </Button>
+                )}
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-3" onClick={stop}>
+                <p className="text-sm font-semibold mb-2">Save to list</p>
+
+                {!lists && (
+                    <div className="flex justify-center py-2">
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    </div>
+                )}
+
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {lists?.map(list => {
+                        const contains = list.places.some(p => p.placeId === place.place_id);
+                        return (
+                            <button
+                                key={list.id}
+                                type="button"
+                                onClick={() => handleToggle(list)}
+                                disabled={busyListId === list.id}
+                                className="w-full flex items-center gap-2 px-2 py-1.5 rounded hover:bg-muted text-sm text-left"
+                            >
+                                <span className={`h-4 w-4 rounded border flex items-center justify-center shrink-0 ${contains ? "bg-primary border-primary" : ""}`}>
+                                    {contains && <Check className="h-3 w-3 text-primary-foreground" />}
+                                </span>
+                                <span className="flex-1 truncate">{list.name}</span>
+                                <span className="text-xs text-muted-foreground">{list.places.length}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className="flex gap-1 mt-2 pt-2 border-t">
+                    <Input
+                        value={newListName}
+                        onChange={(e) => setNewListName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === "Enter") handleCreate(); }}
+                        placeholder="New list, e.g. Date night"
+                        className="h-8 text-sm"
+                        maxLength={60}
+                    />
+                    <Button size="icon" className="h-8 w-8 shrink-0" onClick={handleCreate} disabled={creating || !newListName.trim()}>
+                        {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                    </Button>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { collection, deleteDoc, doc, getDocs, limit, orderBy, query } from "firebase/firestore";
+import toast from "react-hot-toast";
+import { db } from "@/lib/firebase";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { History, RotateCcw, RefreshCw, Trash2, Route, Users } from "lucide-react";
+import type { SearchHistoryEntry } from "@/lib/search-history";
+
+interface SearchHistoryProps {
+    userId: string;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+function formatAgo(iso: string): string {
+    const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+    if (minutes < 1) return "just now";
+    if (minutes < 60) return `${minutes} min ago`;
+    if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+    return new Date(iso).toLocaleDateString();
+}
+
+/**
+ * Builds the /search URL that repeats a stored search.
+ * `fresh` skips the free replay and runs a new (charged) search.
+ */
+function buildRerunUrl(entry: SearchHistoryEntry, fresh: boolean): string {
+    const params = new URLSearchParams();
+    if (entry.keyword) params.set("q", entry.keyword);
+
+    if (entry.route) {
+        params.set("from", `${entry.route.origin.lat},${entry.route.origin.lng}`);
+        params.set("to", `${entry.route.destination.lat},${entry.route.destination.lng}`);
+        params.set("fromName", "Start");
+        params.set("toName", "Destination");
+    } else {
+        params.set("lat", entry.location.lat.toString());
+        params.set("lng", entry.location.lng.toString());
+        params.set("radius", entry.radius.toString());
+    }
+
+    if (entry.groupId) params.set("group", entry.groupId);
+    if (fresh) params.set("fresh", "1");
+    return `/search?${params.toString()}`;
+}
+
+/**
+ * Profile section: recent searches with re-run / re-run with fresh data.
+ */
+export function SearchHistory({ userId }: SearchHistoryProps) {
+    const router = useRouter();
+    const [entries, setEntries] = useState<SearchHistoryEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const historyQuery = query(
+            collection(db, "users", userId, "searches"),
+            orderBy("lastRunAt", "desc"),
+            limit(HISTORY_PAGE_SIZE)
+        );
+
+        getDocs(historyQuery)
+            .then(snap => setEntries(snap.docs.map(d => d.data() as SearchHistoryEntry)))
+            .catch(error => console.error("[SearchHistory] Failed to load:", error))
+            .finally(() => setLoading(false));
+    }, [userId]);
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteDoc(doc(db, "users", userId, "searches", id));
+            setEntries(prev => prev.filter(e => e.id !== id));
+        } catch (error) {
+            console.error("[SearchHistory] Delete failed:", error);
+            toast.error("Failed to remove search");
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" /> Search History
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+                {loading && <p className="text-sm text-gray-400">Loading...</p>}
+                {!loading && entries.length === 0 && (
+                    <p className="text-sm text-gray-400">Your searches will show up here.</p>
+                )}
+
+                {entries.map(entry => {
+                    const topPick = entry.results[0]?.name;
+                    return (
+                        <div key={entry.id} className="flex items-center gap-3 p-3 rounded-xl border border-gray-100">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold text-sm truncate flex items-center gap-1.5">
+                                    {entry.route && <Route className="h-3.5 w-3.5 text-primary shrink-0" />}
+                                    {entry.groupId && <Users className="h-3.5 w-3.5 text-primary shrink-0" />}
+                                    {entry.keyword || "Anything nearby"}
+                                </p>
+                                <p className="text-xs text-gray-500 truncate">
+                                    {entry.route
+                                        ? `Along a route · ${(entry.route.corridor / 1000).toFixed(1)}km corridor`
+                                        : `${(entry.radius / 1000).toFixed(1)}km radius`}
+                                    {" · "}{entry.resultCount} results
+                                    {topPick && ` · top: ${topPick}`}
+                                </p>
+                                <p className="text-[11px] text-gray-400">
+                                    {formatAgo(entry.lastRunAt)}{entry.runCount > 1 && ` · searched ${entry.runCount}×`}
+                                    {!entry.scored && " · basic results"}
+                                </p>
+                            </div>
+
+                            <Button size="sm" variant="outline" onClick={() => router.push(buildRerunUrl(entry, false))} title="Re-run (free if recent)">
+                                <RotateCcw className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => router.push(buildRerunUrl(entry, true))} title="Re-run with fresh data (uses a credit)">
+                                <RefreshCw className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(entry.id)} title="Remove">
+                                <Trash2 className="h-4 w-4 text-gray-400" />
+                            </Button>
+                        </div>
+                    );
+                })}
+            </CardContent>
+        </Card>
+    );
+}
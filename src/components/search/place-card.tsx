@@ -7,9 +7,11 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Button } from "@/components/ui/button";
 import { UserPreferences, GeminiScore } from "@/types";
 import { MatchScoreBadge } from "./MatchScoreBadge";
+import { SaveToListButton } from "./SaveToListButton";
 import { usePlaceStore } from "@/store/place-store";
 import { useState, useEffect, useRef } from "react";
 import { CategoryPlaceholder } from "@/components/CategoryPlaceholder";
+import { getOpeningHint } from "@/lib/opening-hours";
 
 export interface PlaceCardProps {
     place: Place;
@@ -107,6 +109,7 @@ export default function PlaceCard({
     };
 
     const closingTime = getClosingTime();
+    const openingHint = getOpeningHint(place.openStatus);
     const googleMapsUrl = place.geometry?.location
         ? `https://www.google.com/maps/dir/?api=1&destination=${place.geometry.location.lat},${place.geometry.location.lng}&destination_place_id=${place.place_id}`
         : null;
@@ -178,6 +181,10 @@ export default function PlaceCard({
                             <span>Basic View</span>
                         </div>
                     )}
+
+                    <div className="absolute bottom-2 right-2">
+                        <SaveToListButton place={place} />
+                    </div>
                 </div>
 
                 {/* Content */}
@@ -232,7 +239,14 @@ export default function PlaceCard({
                             {distance && <span className="ml-1 font-medium text-primary">• {distance} km</span>}
                         </div>
 
-                        {isExpanded && closingTime && place.opening_hours?.open_now && (
+                        {openingHint && (
+                            <div className="flex items-center text-xs text-amber-600 mt-1 font-medium">
+                                <Clock className="h-3 w-3 mr-1" />
+                                {openingHint}
+                            </div>
+                        )}
+
+                        {isExpanded && !openingHint && closingTime && place.opening_hours?.open_now && (
                             <div className="flex items-center text-xs text-amber-600 mt-2 font-medium">
                                 <Clock className="h-3 w-3 mr-1" />
                                 Closes at {closingTime}
@@ -342,6 +356,19 @@ export default function PlaceCard({
                                     {score.recommendedDish && (
                                         <p className="text-[9px] text-gray-500 mt-1 truncate">🍽️ Try: {score.recommendedDish}</p>
                                     )}
+                                    {score.memberFits && score.memberFits.length > 0 && (
+                                        <div className="mt-1.5 flex flex-wrap gap-1">
+                                            {score.memberFits.map(fit => (
+                                                <span
+                                                    key={fit.memberId}
+                                                    title={fit.reason}
+                                                    className={`text-[9px] px-1.5 py-0.5 rounded-full font-medium ${fit.safetyFlag ? "bg-red-100 text-red-700" : fit.fitScore >= 70 ? "bg-emerald-100 text-emerald-700" : fit.fitScore >= 40 ? "bg-amber-100 text-amber-700" : "bg-gray-100 text-gray-600"}`}
+                                                >
+                                                    {fit.displayName} {fit.safetyFlag ? "⚠️" : `${fit.fitScore}%`}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
                                     {(score.pros?.length > 0 || score.cons?.length > 0) && (
                                         <div className="mt-2 grid grid-cols-2 gap-2">
                                             {score.pros?.length > 0 && (
@@ -1,30 +1,53 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Loader2, Sparkles, MapPin, Search } from "lucide-react";
+import { Loader2, Sparkles, MapPin, Search, UtensilsCrossed } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import type { SearchStage } from "@/types/search-stream";
 
 const LOADING_MESSAGES = [
     { text: "Analyzing restaurant reviews...", icon: Search },
     { text: "Checking opening hours...", icon: MapPin },
     { text: "Finding hidden gems...", icon: Sparkles },
-    { text: "Comparing dietary options...", icon: UtensilsCrossed }, // Need to import or replace
+    { text: "Comparing dietary options...", icon: UtensilsCrossed },
     { text: "Calculating best matches...", icon: Loader2 }
 ];
 
-import { UtensilsCrossed } from "lucide-react";
+// Real pipeline stages reported by the streamed search
+export const SEARCH_STAGE_MESSAGES: Record<SearchStage, { text: string; icon: typeof Search }> = {
+    discovery: { text: "Finding restaurants nearby...", icon: MapPin },
+    scout: { text: "Picking the best candidates...", icon: Search },
+    enrichment: { text: "Reading menus & reviews...", icon: UtensilsCrossed },
+    scoring: { text: "Calculating your match scores...", icon: Sparkles }
+};
+
+interface CommunicativeLoaderProps {
+    stage?: SearchStage | null;  // Shows the live stage instead of rotating messages
+    compact?: boolean;           // Inline bar above partial results
+}
 
-export const CommunicativeLoader = () => {
+export const CommunicativeLoader = ({ stage = null, compact = false }: CommunicativeLoaderProps) => {
     const [index, setIndex] = useState(0);
 
     useEffect(() => {
+        if (stage) return;
         const interval = setInterval(() => {
             setIndex((prev) => (prev + 1) % LOADING_MESSAGES.length);
         }, 2000);
         return () => clearInterval(interval);
-    }, []);
+    }, [stage]);
 
-    const CurrentIcon = LOADING_MESSAGES[index].icon;
+    const message = stage ? SEARCH_STAGE_MESSAGES[stage] : LOADING_MESSAGES[index];
+    const CurrentIcon = message.icon;
+
+    if (compact) {
+        return (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-primary/5 text-sm font-medium text-muted-foreground">
+                <Loader2 className="h-4 w-4 text-primary animate-spin" />
+                <span>{message.text}</span>
+            </div>
+        );
+    }
 
     return (
         <div className="flex flex-col items-center justify-center py-12 space-y-4">
@@ -38,7 +61,7 @@ export const CommunicativeLoader = () => {
             <div className="h-8 relative w-64 text-center">
                 <AnimatePresence mode="wait">
                     <motion.div
-                        key={index}
+                        key={message.text}
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
                         exit={{ opacity: 0, y: -10 }}
@@ -46,7 +69,7 @@ export const CommunicativeLoader = () => {
                         className="flex items-center justify-center gap-2 text-sm font-medium text-muted-foreground absolute inset-0"
                     >
                         <CurrentIcon className="h-4 w-4" />
-                        <span>{LOADING_MESSAGES[index].text}</span>
+                        <span>{message.text}</span>
                     </motion.div>
                 </AnimatePresence>
             </div>
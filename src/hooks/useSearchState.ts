@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { Place } from "@/types/place";
 import { GeminiScore } from "@/types";
+import type { SearchStage } from "@/types/search-stream";
 
 /**
  * Search state persisted in localStorage via Zustand
@@ -16,9 +17,12 @@ export interface SearchState {
     scrollPosition: number;
     searchQuery: string;
     isLoading: boolean;
+    searchStage: SearchStage | null;   // Live pipeline stage while a streamed search runs
 
     // Actions
     setPlaces: (places: Place[], scores?: Record<string, GeminiScore>) => void;
+    streamPlaces: (places: Place[]) => void;
+    setSearchStage: (stage: SearchStage | null) => void;
     updateScores: (newScores: Record<string, GeminiScore>) => void;
     setLocation: (location: { lat: number; lng: number; cityId?: string; cityName?: string }) => void;
     setCity: (city: { id: string; name: string; lat: number; lng: number }) => void;
@@ -41,6 +45,7 @@ const DEFAULT_STATE = {
     scrollPosition: 0,
     searchQuery: "",
     isLoading: false,
+    searchStage: null,
 };
 
 export const useSearchStore = create<SearchState>()(
@@ -51,9 +56,15 @@ export const useSearchStore = create<SearchState>()(
             setPlaces: (places, scores) => set((state) => ({
                 places,
                 scores: scores ? { ...state.scores, ...scores } : state.scores,
-                isLoading: false
+                isLoading: false,
+                searchStage: null
             })),
 
+            // Partial results from a streamed search - keeps isLoading on
+            streamPlaces: (places) => set({ places }),
+
+            setSearchStage: (stage) => set({ searchStage: stage }),
+
             updateScores: (newScores) => set((state) => ({
                 scores: { ...state.scores, ...newScores }
             })),
@@ -78,14 +89,15 @@ export const useSearchStore = create<SearchState>()(
 
             setSearchQuery: (query) => set({ searchQuery: query }),
 
-            setLoading: (loading) => set({ isLoading: loading }),
+            setLoading: (loading) => set(loading ? { isLoading: true } : { isLoading: false, searchStage: null }),
 
             saveScrollPosition: (position) => set({ scrollPosition: position }),
 
             startSearch: () => set({
                 places: [],
                 scores: {},
-                isLoading: true
+                isLoading: true,
+                searchStage: null
             }),
 
             // Wipes query, places, and filters (Clean Slate)
@@ -144,8 +156,11 @@ export function useSearchState() {
             scrollPosition: store.scrollPosition,
             searchQuery: store.searchQuery,
             isLoading: store.isLoading,
+            searchStage: store.searchStage,
         },
         setPlaces: store.setPlaces,
+        streamPlaces: store.streamPlaces,
+        setSearchStage: store.setSearchStage,
         updateScores: store.updateScores,
         setLocation: store.setLocation,
         setCity: store.setCity,
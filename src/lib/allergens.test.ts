@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { canonicalAllergies, checkMenuAllergens, parseAllergenList, toAllergenIds } from "@/lib/allergens";
+import { parseMenuCsv } from "@/lib/menu-import";
+
+describe("parseAllergenList", () => {
+    it.each([
+        ["1, 3, 7", ["gluten", "eggs", "milk"]],
+        ["(1,7)", ["gluten", "milk"]],
+        ["1a; 8", ["gluten", "tree_nuts"]],
+        ["14", ["molluscs"]]
+    ])("reads EU numbers (%s)", (value, expected) => {
+        expect(toAllergenIds(value)).toEqual(expected);
+    });
+
+    it.each([
+        ["A: 1, 3, 7", ["gluten", "eggs", "milk"]],
+        ["a:1,7", ["gluten", "milk"]],
+        ["Alergény: 1, 7", ["gluten", "milk"]],
+        ["Alergeny: 3", ["eggs"]],
+        ["Allergens: milk, celery", ["milk", "celery"]]
+    ])("strips the label in front of a list (%s)", (value, expected) => {
+        expect(toAllergenIds(value)).toEqual(expected);
+    });
+
+    it.each([
+        ["Peanuts, shellfish", ["crustaceans", "peanuts", "molluscs"]],
+        ["lepok a mlieko", ["gluten", "milk"]],
+        ["vajcia / zeler", ["eggs", "celery"]],
+        [["milk", "Sesame"], ["milk", "sesame"]]
+    ])("reads ids and en/sk names (%s)", (value, expected) => {
+        expect(toAllergenIds(value)).toEqual(expected);
+    });
+
+    it("keeps entries nothing matched for the AI prompt", () => {
+        expect(parseAllergenList("gluten, kiwi")).toEqual({ allergens: ["gluten"], unknown: ["kiwi"] });
+        expect(canonicalAllergies(["Kiwi", "nuts"])).toEqual(["peanuts", "tree_nuts", "Kiwi"]);
+    });
+
+    it("ignores values that are not text", () => {
+        expect(toAllergenIds(undefined)).toEqual([]);
+        expect(toAllergenIds([7, null])).toEqual([]);
+    });
+});
+
+describe("checkMenuAllergens", () => {
+    const csv = [
+        "Name;Price;Allergens;Category",
+        "Schnitzel;12,90;A: 1, 3, 7;Main",
+        "Goulash;9,50;Alergény: 1, 9;Main",
+        "Grilled trout;14,00;4;Main",
+        "Lemonade;3,00;;Drinks"
+    ].join("\n");
+
+    it("finds the gluten in label-prefixed spreadsheet allergens", () => {
+        const { items } = parseMenuCsv(csv);
+
+        expect(items[0].allergens).toEqual(["gluten", "eggs", "milk"]);
+        expect(checkMenuAllergens(items.slice(0, 2), ["gluten"])).toMatchObject({
+            verdict: "unsafe",
+            safeCount: 0,
+            conflicts: ["gluten"]
+        });
+    });
+
+    it("is safe when a tagged dish avoids every allergy", () => {
+        const { items } = parseMenuCsv(csv);
+
+        expect(checkMenuAllergens(items, ["gluten"])).toMatchObject({
+            verdict: "safe",
+            safeDishes: ["Grilled trout"],
+            dishCount: 3
+        });
+    });
+
+    it("counts implied allergens", () => {
+        const items = [{ name: "Latte", category: "Main", allergens: ["milk"] }];
+        expect(checkMenuAllergens(items, ["lactose"]).verdict).toBe("unsafe");
+    });
+
+    it("never calls untagged dishes safe", () => {
+        const items = [
+            { name: "Schnitzel", category: "Main", allergens: ["gluten"] },
+            { name: "Soup of the day", category: "Main", allergens: [] }
+        ];
+
+        expect(checkMenuAllergens(items, ["gluten"])).toMatchObject({ verdict: "unknown", safeCount: 0 });
+    });
+});
@@ -0,0 +1,242 @@
+/**
+ * Allergens - canonical taxonomy shared by menus, diner profiles and search
+ *
+ * The 14 allergens of EU Regulation 1169/2011 (FIC), in their annex order,
+ * plus a few common intolerances. Menu items and diner profiles store the
+ * ids; labels live in src/i18n/{en,sk}.json under `allergens.<id>`.
+ *
+ * RULES:
+ * - Free text (older profiles, imported menus, "A: 1, 3, 7") goes through
+ *   parseAllergenList() - EU numbers, ids, legacy labels and en/sk words
+ * - Ambiguous words stay on the safe side: "nuts" means peanuts and tree
+ *   nuts, "shellfish" means crustaceans and molluscs
+ * - An item marked with an allergen also contains what that implies
+ *   (milk → lactose, peanuts / soy / lupin → legumes)
+ * - Only tagged dishes are declared: an untagged dish is unknown, never
+ *   counted or recommended as safe, and a menu with untagged dishes is
+ *   never "unsafe" either
+ * - In search the menu verdict is final in one direction only: "unsafe"
+ *   removes the place before and after AI scoring, "safe" never clears an
+ *   AI safety flag (reviews can report cross-contamination)
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import en from "@/i18n/en.json";
+import sk from "@/i18n/sk.json";
+import type { GeminiScore, MenuItem } from "@/types";
+
+export const EU_ALLERGENS = [
+    "gluten", "crustaceans", "eggs", "fish", "peanuts", "soybeans", "milk",
+    "tree_nuts", "celery", "mustard", "sesame", "sulphites", "lupin", "molluscs"
+] as const;
+
+export const EXTRA_ALLERGENS = ["lactose", "corn", "legumes"] as const;
+
+export type AllergenId = typeof EU_ALLERGENS[number] | typeof EXTRA_ALLERGENS[number];
+
+export const ALLERGEN_IDS: AllergenId[] = [...EU_ALLERGENS, ...EXTRA_ALLERGENS];
+
+export type AllergenLocale = "en" | "sk";
+
+const LABELS: Record<AllergenLocale, Record<AllergenId, string>> = {
+    en: en.allergens,
+    sk: sk.allergens
+};
+
+// What an allergen on a dish implies for diners avoiding something broader
+const IMPLIED_BY: Partial<Record<AllergenId, AllergenId[]>> = {
+    lactose: ["milk"],
+    legumes: ["peanuts", "soybeans", "lupin"]
+};
+
+// en/sk words and older MENU_ALLERGENS labels, matched per lowercase token
+const ALLERGEN_WORDS: [RegExp, AllergenId[]][] = [
+    [/gluten|lepok|lepk|wheat|pšenic|barley|jačm|\brye\b|raž|\boats?\b|ovos|ovs|spelt|špald|cereal|obilnin/, ["gluten"]],
+    [/shellfish|seafood|plody mora/, ["crustaceans", "molluscs"]],
+    [/crustacean|shrimp|prawn|crab|lobster|kôrovc|korýš|kreve/, ["crustaceans"]],
+    [/mollus|mäkkýš|squid|octopus|mussel|clam|oyster|kalmár|kalamár|chobotnic|mušl|ustric/, ["molluscs"]],
+    [/\beggs?\b|vajc|vajec|vejc/, ["eggs"]],
+    [/\bfish|ryb/, ["fish"]],
+    [/peanut|arašid|búrsk/, ["peanuts"]],
+    [/(?<!tree )\bnuts?\b/, ["tree_nuts", "peanuts"]],
+    [/tree ?nut|almond|hazel|walnut|cashew|pistach|pecan|macadamia|orech|orieš|mandl|lieskov/, ["tree_nuts"]],
+    [/\bsoy|soja|sój/, ["soybeans"]],
+    [/milk|dairy|mlie|mlék|mliečn/, ["milk"]],
+    [/lactose|laktóz/, ["lactose"]],
+    [/celer|zeler/, ["celery"]],
+    [/mustard|horči/, ["mustard"]],
+    [/sesame|sezam/, ["sesame"]],
+    [/sulph|sulfi|siričit|oxid siri/, ["sulphites"]],
+    [/lupin|vlčí bôb|vlčieho bôbu/, ["lupin"]],
+    [/\bcorn\b|maize|kukuric/, ["corn"]],
+    [/legume|pulses|strukovin/, ["legumes"]]
+];
+
+export function isAllergenId(value: unknown): value is AllergenId {
+    return typeof value === "string" && (ALLERGEN_IDS as string[]).includes(value);
+}
+
+export function allergenLabel(id: AllergenId, locale: AllergenLocale = "en"): string {
+    return LABELS[locale]?.[id] || LABELS.en[id] || id;
+}
+
+/**
+ * Annex II number printed on menus (1 = gluten ... 14 = molluscs).
+ */
+export function allergenFromEuNumber(number: number): AllergenId | undefined {
+    return EU_ALLERGENS[number - 1];
+}
+
+function sortAllergens(ids: Iterable<AllergenId>): AllergenId[] {
+    const set = new Set(ids);
+    return ALLERGEN_IDS.filter(id => set.has(id));
+}
+
+// Label in front of a printed list: "A: 1, 3, 7", "Alergény: 1, 7", "Allergens: milk"
+const LIST_LABEL_PATTERN = /^\s*(?:a|alerg[ée]ny|allergens?)\s*:\s*/i;
+
+/**
+ * Splits a stored value (array or "Peanuts, shellfish") into canonical ids
+ * plus the entries nothing matched, which are kept for the AI prompt.
+ */
+export function parseAllergenList(value: unknown): { allergens: AllergenId[]; unknown: string[] } {
+    const parts = (Array.isArray(value) ? value : [value])
+        .filter((v): v is string => typeof v === "string")
+        .flatMap(v => v.replace(LIST_LABEL_PATTERN, "").split(/[,;/|+\n]|\s+a\s+|\s+and\s+/));
+
+    const found = new Set<AllergenId>();
+    const unknown: string[] = [];
+
+    for (const part of parts) {
+        const token = part.trim().toLowerCase();
+        if (!token) continue;
+
+        if (isAllergenId(token)) {
+            found.add(token);
+            continue;
+        }
+
+        const eu = token.replace(/[().\s]/g, "").match(/^(\d{1,2})[a-z]?$/);
+        if (eu) {
+            const id = allergenFromEuNumber(Number(eu[1]));
+            if (id) found.add(id);
+            continue;
+        }
+
+        const matched = ALLERGEN_WORDS.filter(([pattern]) => pattern.test(token)).flatMap(([, ids]) => ids);
+        if (matched.length > 0) matched.forEach(id => found.add(id));
+        else unknown.push(part.trim());
+    }
+
+    return { allergens: sortAllergens(found), unknown };
+}
+
+export function toAllergenIds(value: unknown): AllergenId[] {
+    return parseAllergenList(value).allergens;
+}
+
+/**
+ * Profile allergies for search: canonical ids first, unrecognised free text
+ * after them so the AI can still consider it.
+ */
+export function canonicalAllergies(value: unknown): string[] {
+    const { allergens, unknown } = parseAllergenList(value);
+    return [...allergens, ...unknown];
+}
+
+/**
+ * Everything a dish tagged with `ids` contains, implied allergens included.
+ */
+export function expandAllergens(ids: AllergenId[]): AllergenId[] {
+    const implied = (Object.entries(IMPLIED_BY) as [AllergenId, AllergenId[]][])
+        .filter(([, sources]) => sources.some(source => ids.includes(source)))
+        .map(([id]) => id);
+    return sortAllergens([...ids, ...implied]);
+}
+
+// =============================================================================
+// MENU SAFETY CHECK
+// =============================================================================
+
+export interface MenuAllergenCheck {
+    verdict: "safe" | "unsafe" | "unknown";
+    allergens: AllergenId[];      // The diner's allergens that were checked
+    safeDishes: string[];         // Tagged food items free of all of them (first few)
+    safeCount: number;
+    dishCount: number;            // Food items on the menu (drinks excluded)
+    conflicts: AllergenId[];      // The diner's allergens found somewhere on the menu
+}
+
+const SAFE_DISH_SAMPLE = 5;
+
+/**
+ * Deterministic check of a claimed restaurant's menu against a diner's
+ * allergies. "safe" = some tagged dish is free of all of them, "unsafe" =
+ * every dish is tagged and contains at least one of them.
+ */
+export function checkMenuAllergens(
+    items: Pick<MenuItem, "name" | "category" | "allergens">[],
+    allergies: unknown
+): MenuAllergenCheck {
+    const allergens = toAllergenIds(allergies);
+    const dishes = items.filter(item => item.category !== "Drinks");
+    const declared = dishes.filter(item => toAllergenIds(item.allergens).length > 0);
+
+    const result: MenuAllergenCheck = {
+        verdict: "unknown",
+        allergens,
+        safeDishes: [],
+        safeCount: 0,
+        dishCount: dishes.length,
+        conflicts: []
+    };
+    if (allergens.length === 0 || declared.length === 0) return result;
+
+    const conflicts = new Set<AllergenId>();
+    const safe = declared.filter(item => {
+        const contained = expandAllergens(toAllergenIds(item.allergens));
+        const hits = allergens.filter(id => contained.includes(id));
+        hits.forEach(id => conflicts.add(id));
+        return hits.length === 0;
+    });
+
+    return {
+        ...result,
+        verdict: safe.length > 0 ? "safe" : declared.length === dishes.length ? "unsafe" : "unknown",
+        safeDishes: safe.slice(0, SAFE_DISH_SAMPLE).map(item => item.name),
+        safeCount: safe.length,
+        conflicts: sortAllergens(conflicts)
+    };
+}
+
+/**
+ * Post-scoring: the menu overrides the AI where it knows better - unsafe
+ * menus are flagged, the recommended dish must be a safe one, and the
+ * checked facts are added to pros / warnings.
+ */
+export function applyMenuAllergenCheck(score: GeminiScore, check: MenuAllergenCheck | undefined): GeminiScore {
+    if (!check || check.verdict === "unknown") return score;
+
+    if (check.verdict === "unsafe") {
+        return {
+            ...score,
+            matchScore: 0,
+            safetyFlag: true,
+            warning: true,
+            shortReason: `SAFETY RISK: every dish on the menu contains ${check.conflicts.map(id => allergenLabel(id)).join(", ")}`
+        };
+    }
+
+    const labels = check.allergens.map(id => allergenLabel(id).toLowerCase()).join(", ");
+    const recommendedSafe = check.safeDishes.some(dish => dish.toLowerCase() === score.recommendedDish.trim().toLowerCase());
+
+    return {
+        ...score,
+        recommendedDish: recommendedSafe ? score.recommendedDish : check.safeDishes[0],
+        pros: [`Menu labels ${check.safeCount} of ${check.dishCount} dishes free of ${labels}`, ...score.pros],
+        warnings: check.conflicts.length > 0
+            ? [...score.warnings, `Menu lists ${check.conflicts.map(id => allergenLabel(id).toLowerCase()).join(", ")} in other dishes - mention your allergy when ordering`]
+            : score.warnings
+    };
+}
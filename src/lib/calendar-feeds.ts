@@ -0,0 +1,122 @@
+/**
+ * Calendar Feeds - secret iCal subscription per restaurant (`calendar_feeds/{token}`)
+ *
+ * The owner subscribes to /api/calendar/<token>.ics in Google Calendar,
+ * Apple Calendar or Outlook and sees their bookings there.
+ *
+ * RULES:
+ * - The doc id is the secret - anyone with the URL can read the feed, so
+ *   tokens live in a server-only collection (restaurant docs are public)
+ * - One feed per restaurant; rotating replaces the token and the old URL
+ *   stops working immediately
+ * - The feed lists confirmed bookings (and the seated / finished / no-show
+ *   ones they became) from FEED_PAST_DAYS back; bookings cancelled after
+ *   they were confirmed stay in as CANCELLED so calendars drop them (ical.ts)
+ * - Pending requests and bookings rejected or cancelled before confirmation
+ *   never show up
+ */
+
+import { randomBytes } from "crypto";
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { RESERVATIONS_COLLECTION, ReservationError } from "@/lib/reservations";
+import { buildCalendar, reservationToEvent, type CalendarReservation } from "@/lib/ical";
+import type { ReservationStatus } from "@/types";
+
+export const CALENDAR_FEEDS_COLLECTION = "calendar_feeds";
+export const FEED_PAST_DAYS = 30;
+export const FEED_REFRESH_MINUTES = 15;
+
+const CONFIRMED_STATUSES: ReservationStatus[] = ["confirmed", "seated", "finished", "no_show"];
+
+export interface CalendarFeed {
+    placeId: string;
+    ownerId: string;
+    createdAt: string;
+}
+
+async function assertOwner(uid: string, placeId: string): Promise<void> {
+    const restaurant = (await getAdminDb().collection("restaurants").doc(placeId).get()).data();
+    if (!restaurant) throw new ReservationError(404, "NOT_FOUND", "Restaurant not found");
+    if (restaurant.ownerId !== uid) throw new ReservationError(403, "FORBIDDEN", "Only the owner can manage this calendar feed");
+}
+
+function feedsOf(placeId: string) {
+    return getAdminDb().collection(CALENDAR_FEEDS_COLLECTION).where("placeId", "==", placeId);
+}
+
+/**
+ * The restaurant's current feed token, or null when none was created.
+ */
+export async function getFeedToken(uid: string, placeId: string): Promise<string | null> {
+    await assertOwner(uid, placeId);
+    const snap = await feedsOf(placeId).limit(1).get();
+    return snap.empty ? null : snap.docs[0].id;
+}
+
+/**
+ * Creates the feed, or replaces its token when one exists.
+ */
+export async function rotateFeedToken(uid: string, placeId: string): Promise<string> {
+    await assertOwner(uid, placeId);
+    const db = getAdminDb();
+    const token = randomBytes(24).toString("base64url");
+
+    const existing = await feedsOf(placeId).get();
+    const batch = db.batch();
+    existing.docs.forEach(doc => batch.delete(doc.ref));
+    batch.set(db.collection(CALENDAR_FEEDS_COLLECTION).doc(token), {
+        placeId,
+        ownerId: uid,
+        createdAt: new Date().toISOString()
+    } satisfies CalendarFeed);
+    await batch.commit();
+
+    return token;
+}
+
+export async function revokeFeed(uid: string, placeId: string): Promise<void> {
+    await assertOwner(uid, placeId);
+    const existing = await feedsOf(placeId).get();
+    const batch = getAdminDb().batch();
+    existing.docs.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+}
+
+function wasConfirmed(reservation: CalendarReservation): boolean {
+    return CONFIRMED_STATUSES.includes(reservation.status)
+        || !!reservation.historyLog?.some(entry => entry.status === "confirmed");
+}
+
+/**
+ * The iCal body for `token`, or null when the token is unknown (revoked or
+ * rotated).
+ */
+export async function buildFeed(token: string): Promise<string | null> {
+    const db = getAdminDb();
+    const feedSnap = await db.collection(CALENDAR_FEEDS_COLLECTION).doc(token).get();
+    if (!feedSnap.exists) return null;
+    const feed = feedSnap.data() as CalendarFeed;
+
+    const restaurant = (await db.collection("restaurants").doc(feed.placeId).get()).data();
+    // Ownership moved on - the old owner's URL dies with it
+    if (!restaurant || restaurant.ownerId !== feed.ownerId) return null;
+
+    const since = Timestamp.fromMillis(Date.now() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000);
+    const reservations = await db.collection(RESERVATIONS_COLLECTION)
+        .where("placeId", "==", feed.placeId)
+        .where("date", ">=", since)
+        .get();
+
+    const placeName: string = restaurant.details?.name || restaurant.name || "Restaurant";
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+    const events = reservations.docs
+        .map(doc => ({ id: doc.id, data: doc.data() as CalendarReservation }))
+        .filter(({ data }) => wasConfirmed(data))
+        .map(({ id, data }) => reservationToEvent(id, data, {
+            viewer: "owner",
+            url: appUrl ? `${appUrl}/dashboard` : undefined
+        }));
+
+    return buildCalendar(events, { name: `${placeName} - NearSpotty bookings`, refreshMinutes: FEED_REFRESH_MINUTES });
+}
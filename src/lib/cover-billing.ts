@@ -0,0 +1,201 @@
+/**
+ * Cover Billing - per-cover fees for business plans
+ *
+ * Every finished booking is billed at the owner's `perCoverFee`
+ * (BUSINESS_LIMITS in plan-limits.ts) per guest. The meter lives in
+ * `cover_usage/{placeId}_{period}`, one doc per restaurant and month.
+ *
+ * RULES:
+ * - Only `finished` bookings are billed; the guest count at that moment is
+ *   the number of covers
+ * - Walk-ins (`source: "walk_in"`) didn't come through the platform and
+ *   aren't billed
+ * - The period is the month of the service date (`dateKey`), not the day the
+ *   owner pressed Finish
+ * - The fee is fixed at the owner's rate when the booking finishes and kept
+ *   on the booking (`coverFee`) so plan changes don't rewrite history
+ * - finished is final, so a booking is metered exactly once
+ * - invoiceCoverUsage adds what is not invoiced yet as a Stripe invoice item
+ *   on the owner's subscription; it is picked up by the next renewal invoice
+ * - The amount and idempotency key are saved on the meter (`pendingInvoice`)
+ *   before Stripe is called. A run that finds one resends exactly that item,
+ *   after checking Stripe for it (keys expire after 24 hours); fees metered
+ *   since go out on the next run
+ * - Owners without a Stripe customer are reported, not invoiced
+ * - scripts/reconcile-cover-fees.ts recounts a month from the bookings and
+ *   compares it with the meter and Stripe
+ */
+
+import Stripe from "stripe";
+import { FieldValue, type DocumentReference, type Transaction } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getBusinessLimits, ownerPlanOf, type BusinessPlan } from "@/lib/plan-limits";
+import type { CoverUsage, PendingCoverInvoice, ReservationCoverFee } from "@/types";
+
+export const COVER_USAGE_COLLECTION = "cover_usage";
+export const COVER_FEE_CURRENCY = "eur";
+export const COVER_FEE_METADATA_KIND = "cover_fees";
+
+let stripeClient: Stripe | null = null;
+
+// Lazy - reservations.ts imports the meter, which never talks to Stripe
+function getStripe(): Stripe {
+    if (!stripeClient) {
+        stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: "2026-01-28.clover" });
+    }
+    return stripeClient;
+}
+
+export function coverUsageId(placeId: string, period: string): string {
+    return `${placeId}_${period}`;
+}
+
+/** Per-cover fee of a business plan in cents */
+export function getCoverFeeCents(plan: BusinessPlan): number {
+    return Math.round(getBusinessLimits(plan).perCoverFee * 100);
+}
+
+// =============================================================================
+// METERING
+// =============================================================================
+
+/**
+ * Meters a booking that is being marked finished, inside the status
+ * transaction. Reads the owner's plan, so it must run before the
+ * transaction's writes.
+ */
+export async function meterCovers(
+    transaction: Transaction,
+    reservationRef: DocumentReference,
+    booking: { ownerId: string; placeId: string; placeName: string; guests: number; dateKey?: string; finishedAt: string }
+): Promise<ReservationCoverFee> {
+    const db = getAdminDb();
+    const owner = (await transaction.get(db.collection("users").doc(booking.ownerId))).data();
+    const ownerPlan = ownerPlanOf(owner);
+
+    const coverFee: ReservationCoverFee = {
+        period: (booking.dateKey || booking.finishedAt).slice(0, 7),
+        covers: booking.guests,
+        cents: getCoverFeeCents(ownerPlan) * booking.guests
+    };
+
+    transaction.set(db.collection(COVER_USAGE_COLLECTION).doc(coverUsageId(booking.placeId, coverFee.period)), {
+        ownerId: booking.ownerId,
+        placeId: booking.placeId,
+        placeName: booking.placeName,
+        period: coverFee.period,
+        covers: FieldValue.increment(coverFee.covers),
+        reservations: FieldValue.increment(1),
+        feeCents: FieldValue.increment(coverFee.cents),
+        updatedAt: booking.finishedAt
+    }, { merge: true });
+    transaction.update(reservationRef, { coverFee });
+
+    return coverFee;
+}
+
+// =============================================================================
+// INVOICING
+// =============================================================================
+
+export interface CoverInvoiceSummary {
+    period: string;
+    invoiced: number;        // Restaurants with a new invoice item
+    amountCents: number;
+    upToDate: number;        // Nothing new since the last run
+    unbillable: string[];    // cover_usage ids whose owner has no Stripe customer
+}
+
+/**
+ * Claims the next invoice item for a meter: the pending one if an earlier run
+ * stopped after saving it, otherwise a new one for everything not invoiced.
+ */
+async function claimPendingInvoice(usageRef: DocumentReference): Promise<{ pending: PendingCoverInvoice; resumed: boolean } | null> {
+    return getAdminDb().runTransaction(async (transaction) => {
+        const usage = (await transaction.get(usageRef)).data() as CoverUsage | undefined;
+        if (!usage) return null;
+        if (usage.pendingInvoice) return { pending: usage.pendingInvoice, resumed: true };
+
+        const invoicedCents = usage.invoicedCents || 0;
+        const dueCents = usage.feeCents - invoicedCents;
+        if (dueCents <= 0) return null;
+
+        const pending: PendingCoverInvoice = {
+            cents: dueCents,
+            idempotencyKey: `cover-fees-${usageRef.id}-${invoicedCents}-${dueCents}`,
+            createdAt: new Date().toISOString()
+        };
+        transaction.update(usageRef, { pendingInvoice: pending });
+        return { pending, resumed: false };
+    });
+}
+
+// An item an interrupted run created but never recorded on the meter
+async function findUnrecordedInvoiceItem(customerId: string, usage: CoverUsage, cents: number): Promise<Stripe.InvoiceItem | null> {
+    const recorded = new Set(usage.invoiceItemIds || []);
+    for await (const item of getStripe().invoiceItems.list({ customer: customerId, limit: 100 })) {
+        if (item.metadata?.kind !== COVER_FEE_METADATA_KIND || item.metadata.placeId !== usage.placeId) continue;
+        if (item.metadata.period === usage.period && item.amount === cents && !recorded.has(item.id)) return item;
+    }
+    return null;
+}
+
+/**
+ * Sends every restaurant's uninvoiced fees for `period` to Stripe. Safe to
+ * run repeatedly and after a crash: each item is saved as `pendingInvoice`
+ * before it is sent and cleared once it is recorded.
+ */
+export async function invoiceCoverUsage(period: string): Promise<CoverInvoiceSummary> {
+    const db = getAdminDb();
+    const summary: CoverInvoiceSummary = { period, invoiced: 0, amountCents: 0, upToDate: 0, unbillable: [] };
+
+    const usageSnap = await db.collection(COVER_USAGE_COLLECTION).where("period", "==", period).get();
+
+    for (const usageDoc of usageSnap.docs) {
+        const usage = { id: usageDoc.id, ...usageDoc.data() } as CoverUsage;
+        const invoicedCents = usage.invoicedCents || 0;
+        const dueCents = usage.feeCents - invoicedCents;
+        if (dueCents <= 0) {
+            summary.upToDate++;
+            continue;
+        }
+
+        const owner = (await db.collection("users").doc(usage.ownerId).get()).data();
+        const customerId: string | undefined = owner?.stripeCustomerId;
+        if (!customerId) {
+            console.warn(`[CoverBilling] ${usage.id}: owner ${usage.ownerId} has no Stripe customer`);
+            summary.unbillable.push(usage.id);
+            continue;
+        }
+
+        const claim = await claimPendingInvoice(usageDoc.ref);
+        if (!claim) {
+            summary.upToDate++;
+            continue;
+        }
+        const { pending, resumed } = claim;
+
+        const item = (resumed ? await findUnrecordedInvoiceItem(customerId, usage, pending.cents) : null)
+            ?? await getStripe().invoiceItems.create({
+                customer: customerId,
+                subscription: owner?.subscription?.stripeSubscriptionId || undefined,
+                amount: pending.cents,
+                currency: COVER_FEE_CURRENCY,
+                description: `Per-cover fees ${period} - ${usage.placeName} (${usage.covers} covers)`,
+                metadata: { kind: COVER_FEE_METADATA_KIND, placeId: usage.placeId, period, ownerId: usage.ownerId }
+            }, { idempotencyKey: pending.idempotencyKey });
+
+        await usageDoc.ref.update({
+            invoicedCents: FieldValue.increment(pending.cents),
+            invoiceItemIds: FieldValue.arrayUnion(item.id),
+            pendingInvoice: FieldValue.delete(),
+            invoicedAt: new Date().toISOString()
+        });
+
+        summary.invoiced++;
+        summary.amountCents += pending.cents;
+        console.log(`[CoverBilling] 🧾 ${usage.id}: invoiced ${pending.cents} cents (${item.id})${resumed ? " - resumed" : ""}`);
+    }
+
+    return summary;
+}
@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import { fakeDocs } from "@/test/fake-firestore";
+import { isStripeMockRunning, stripeMockRequests } from "@/test/stripe-mock";
+
+const { transitionReservation } = vi.hoisted(() => ({ transitionReservation: vi.fn() }));
+
+vi.mock("stripe", async () => (await import("@/test/stripe-mock")).stripeMockModule());
+vi.mock("@/lib/firebase-admin", async () => (await import("@/test/fake-firestore")).firebaseAdminModule());
+vi.mock("@/lib/reservations", () => ({
+    RESERVATIONS_COLLECTION: "reservations",
+    transitionReservation
+}));
+
+import { DEPOSIT_METADATA_KIND, createDepositCheckout, handleDepositEvent, settleDeposit } from "@/lib/deposits";
+
+const stripeMockUp = await isStripeMockRunning();
+
+const metadata = { kind: DEPOSIT_METADATA_KIND, reservationId: "res_1" };
+
+function seed(reservation: Record<string, unknown>) {
+    fakeDocs.set("reservations/res_1", reservation);
+}
+
+function deposit() {
+    return fakeDocs.get("reservations/res_1")?.deposit as Record<string, unknown>;
+}
+
+function event(type: string, object: Record<string, unknown>): Stripe.Event {
+    return { id: "evt_1", type, data: { object } } as unknown as Stripe.Event;
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    fakeDocs.clear();
+    stripeMockRequests.length = 0;
+});
+
+describe("handleDepositEvent", () => {
+    it("leaves events without deposit metadata to the subscription handler", async () => {
+        const handled = await handleDepositEvent(event("checkout.session.completed", { metadata: { userId: "u1" } }));
+
+        expect(handled).toBe(false);
+        expect(stripeMockRequests).toEqual([]);
+    });
+
+    it("rejects the booking when checkout expires unpaid", async () => {
+        seed({ status: "pending", deposit: { status: "requires_payment", amount: 2000, currency: "eur" } });
+
+        await handleDepositEvent(event("checkout.session.expired", { metadata }));
+
+        expect(deposit().status).toBe("expired");
+        expect(transitionReservation).toHaveBeenCalledWith("res_1", null, "rejected", "Deposit was not paid");
+    });
+
+    it("ignores an expired checkout for a deposit that was already paid", async () => {
+        seed({ status: "confirmed", deposit: { status: "authorized", amount: 2000, currency: "eur" } });
+
+        await handleDepositEvent(event("checkout.session.expired", { metadata }));
+
+        expect(deposit().status).toBe("authorized");
+        expect(transitionReservation).not.toHaveBeenCalled();
+    });
+
+    it("keeps the card on file when Stripe drops the hold", async () => {
+        seed({ status: "confirmed", deposit: { status: "authorized", amount: 2000, currency: "eur", paymentIntentId: "pi_1" } });
+
+        await handleDepositEvent(event("payment_intent.canceled", { id: "pi_1", metadata, cancellation_reason: "automatic" }));
+
+        expect(deposit()).toMatchObject({ status: "authorized", holdExpired: true });
+    });
+});
+
+describe("settleDeposit", () => {
+    it("does nothing for bookings without a deposit", async () => {
+        seed({ status: "confirmed" });
+
+        await expect(settleDeposit("res_1", "no_show")).resolves.toBeNull();
+        expect(stripeMockRequests).toEqual([]);
+    });
+});
+
+// Requests below go through the real SDK to stripe-mock
+describe.skipIf(!stripeMockUp)("deposits against stripe-mock", () => {
+    it("opens a manual-capture checkout that keeps the card on file", async () => {
+        seed({ status: "pending", deposit: { status: "requires_payment", amount: 2000, currency: "eur" } });
+
+        const url = await createDepositCheckout({
+            reservationId: "res_1",
+            placeName: "Bistro",
+            amount: 2000,
+            customerEmail: "guest@example.com",
+            origin: "http://localhost:3000"
+        });
+
+        expect(url).toMatch(/^https:\/\//);
+        expect(stripeMockRequests).toEqual([
+            { method: "POST", path: "/v1/checkout/sessions", idempotencyKey: "deposit-checkout-res_1" }
+        ]);
+        expect(deposit().checkoutSessionId).toMatch(/^cs_/);
+    });
+
+    it("marks the deposit authorized when checkout completes", async () => {
+        seed({ status: "pending", deposit: { status: "requires_payment", amount: 2000, currency: "eur" } });
+
+        const handled = await handleDepositEvent(event("checkout.session.completed", {
+            metadata, payment_intent: "pi_1", customer: "cus_1"
+        }));
+
+        expect(handled).toBe(true);
+        expect(stripeMockRequests).toMatchObject([{ method: "GET", path: "/v1/payment_intents/pi_1" }]);
+        expect(deposit()).toMatchObject({ status: "authorized", paymentIntentId: expect.stringMatching(/^pi_/), customerId: "cus_1" });
+        expect(transitionReservation).not.toHaveBeenCalled();
+    });
+
+    it("confirms an accepted waitlist offer once the deposit is authorized", async () => {
+        seed({
+            status: "pending",
+            waitlistOffer: { acceptedAt: "2026-10-01T10:00:00.000Z" },
+            deposit: { status: "requires_payment", amount: 2000, currency: "eur" }
+        });
+
+        await handleDepositEvent(event("checkout.session.completed", { metadata, payment_intent: "pi_1", customer: "cus_1" }));
+
+        expect(transitionReservation).toHaveBeenCalledWith("res_1", null, "confirmed", "Accepted from the waitlist");
+    });
+
+    it("captures the hold on a no-show", async () => {
+        seed({ deposit: { status: "authorized", amount: 2000, currency: "eur", paymentIntentId: "pi_1" } });
+
+        await expect(settleDeposit("res_1", "no_show")).resolves.toBe("captured");
+        expect(stripeMockRequests).toEqual([
+            { method: "POST", path: "/v1/payment_intents/pi_1/capture", idempotencyKey: "deposit-res_1-no_show" }
+        ]);
+        expect(deposit().status).toBe("captured");
+    });
+
+    it("charges the card on file off-session when the hold has expired", async () => {
+        seed({
+            deposit: {
+                status: "authorized", amount: 2000, currency: "eur", paymentIntentId: "pi_1",
+                holdExpired: true, customerId: "cus_1", paymentMethodId: "pm_1"
+            }
+        });
+
+        await expect(settleDeposit("res_1", "no_show")).resolves.toBe("captured");
+        expect(stripeMockRequests).toEqual([
+            { method: "POST", path: "/v1/payment_intents", idempotencyKey: "deposit-res_1-no_show" }
+        ]);
+        expect(deposit()).toMatchObject({ status: "captured", paymentIntentId: expect.stringMatching(/^pi_/) });
+    });
+
+    it("voids the hold when the guest is seated", async () => {
+        seed({ deposit: { status: "authorized", amount: 2000, currency: "eur", paymentIntentId: "pi_1" } });
+
+        await expect(settleDeposit("res_1", "seated")).resolves.toBe("released");
+        expect(stripeMockRequests).toEqual([
+            { method: "POST", path: "/v1/payment_intents/pi_1/cancel", idempotencyKey: "deposit-res_1-seated" }
+        ]);
+        expect(deposit().status).toBe("released");
+    });
+
+    it("refunds a captured deposit when the venue cancels", async () => {
+        seed({ deposit: { status: "captured", amount: 2000, currency: "eur", paymentIntentId: "pi_1" } });
+
+        await expect(settleDeposit("res_1", "cancelled_by_venue")).resolves.toBe("refunded");
+        expect(stripeMockRequests).toEqual([
+            { method: "POST", path: "/v1/refunds", idempotencyKey: "deposit-res_1-cancelled_by_venue" }
+        ]);
+        expect(deposit().status).toBe("refunded");
+    });
+
+    it("expires an unpaid checkout when the booking ends", async () => {
+        seed({ deposit: { status: "requires_payment", amount: 2000, currency: "eur", checkoutSessionId: "cs_1" } });
+
+        await expect(settleDeposit("res_1", "rejected")).resolves.toBe("expired");
+        expect(stripeMockRequests).toMatchObject([{ method: "POST", path: "/v1/checkout/sessions/cs_1/expire" }]);
+        expect(deposit().status).toBe("expired");
+    });
+});
@@ -0,0 +1,250 @@
+/**
+ * Deposits - reservation deposits collected through Stripe
+ *
+ * The owner sets the amount in PricingSettings (`pricingStrategy.depositAmount`,
+ * EUR per booking). State lives on `reservations/{id}.deposit`.
+ *
+ * RULES:
+ * - A booking at a venue with a deposit starts with `requires_payment` and
+ *   the guest is sent to Stripe Checkout; the table is held meanwhile
+ * - Checkout authorizes the card (manual capture) and keeps it on file
+ *   (setup_future_usage) - holds last ~7 days, bookings up to 90
+ * - Checkout not completed within DEPOSIT_CHECKOUT_TTL_MINUTES: the booking
+ *   is rejected by "system" and the table freed
+ * - Owners can't confirm a booking whose deposit is unpaid
+ * - Accepted waitlist offers (waitlist.ts) are confirmed by "system" once
+ *   the deposit is authorized
+ * - No-show: the hold is captured; if Stripe already dropped the hold the
+ *   card on file is charged off-session
+ * - Seated, finished, rejected and cancellations (guests can only cancel
+ *   inside the policy window, so always in time): the hold is voided, a
+ *   captured deposit is refunded
+ * - The Stripe webhook is the source of truth; settleDeposit writes the
+ *   expected state right away so the dashboard doesn't lag
+ * - Deposits are collected on the platform account; venue payouts are
+ *   handled outside the app
+ */
+
+import Stripe from "stripe";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { RESERVATIONS_COLLECTION, transitionReservation } from "@/lib/reservations";
+import type { DepositStatus, ReservationDeposit, ReservationStatus } from "@/types";
+
+export const DEPOSIT_CURRENCY = "eur";
+export const DEPOSIT_CHECKOUT_TTL_MINUTES = 30;     // Stripe's minimum session lifetime
+export const DEPOSIT_METADATA_KIND = "reservation_deposit";
+
+const CAPTURE_ON: ReservationStatus[] = ["no_show"];
+const RELEASE_ON: ReservationStatus[] = ["seated", "finished", "rejected", "cancelled_by_guest", "cancelled_by_venue"];
+
+let stripeClient: Stripe | null = null;
+
+// Lazy so importing this module never needs the key (availability, builds)
+function getStripe(): Stripe {
+    if (!stripeClient) {
+        stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: "2026-01-28.clover" });
+    }
+    return stripeClient;
+}
+
+function reservationRef(reservationId: string) {
+    return getAdminDb().collection(RESERVATIONS_COLLECTION).doc(reservationId);
+}
+
+async function updateDeposit(reservationId: string, patch: Partial<ReservationDeposit>): Promise<void> {
+    const fields: Record<string, unknown> = { "deposit.updatedAt": new Date().toISOString() };
+    for (const [key, value] of Object.entries(patch)) {
+        if (value !== undefined) fields[`deposit.${key}`] = value;
+    }
+    await reservationRef(reservationId).update(fields);
+}
+
+// =============================================================================
+// CHECKOUT
+// =============================================================================
+
+/**
+ * Stripe Checkout for a booking's deposit. Returns the URL to send the guest to.
+ */
+export async function createDepositCheckout(params: {
+    reservationId: string;
+    placeName: string;
+    amount: number;
+    customerEmail?: string;
+    origin: string;
+}): Promise<string> {
+    const metadata = { kind: DEPOSIT_METADATA_KIND, reservationId: params.reservationId };
+
+    // No client_reference_id: the subscription handler fulfils sessions that have one
+    const session = await getStripe().checkout.sessions.create({
+        mode: "payment",
+        payment_method_types: ["card"],
+        line_items: [{
+            quantity: 1,
+            price_data: {
+                currency: DEPOSIT_CURRENCY,
+                unit_amount: params.amount,
+                product_data: {
+                    name: `Reservation deposit - ${params.placeName}`,
+                    description: "Held on your card and released when you arrive or cancel in time"
+                }
+            }
+        }],
+        payment_intent_data: {
+            capture_method: "manual",
+            setup_future_usage: "off_session",
+            metadata
+        },
+        customer_creation: "always",
+        customer_email: params.customerEmail || undefined,
+        metadata,
+        expires_at: Math.floor(Date.now() / 1000) + DEPOSIT_CHECKOUT_TTL_MINUTES * 60,
+        success_url: `${params.origin}/reservations?deposit=success`,
+        cancel_url: `${params.origin}/reservations?deposit=cancelled`
+    }, { idempotencyKey: `deposit-checkout-${params.reservationId}` });
+
+    await updateDeposit(params.reservationId, { checkoutSessionId: session.id });
+    return session.url!;
+}
+
+// =============================================================================
+// SETTLEMENT
+// =============================================================================
+
+/**
+ * Captures, voids or refunds a booking's deposit after it moved to `status`.
+ * Returns the deposit status it expects the webhook to confirm, or null when
+ * there is nothing to do.
+ */
+export async function settleDeposit(reservationId: string, status: ReservationStatus): Promise<DepositStatus | null> {
+    const deposit = (await reservationRef(reservationId).get()).data()?.deposit as ReservationDeposit | undefined;
+    if (!deposit) return null;
+
+    const stripe = getStripe();
+    const idempotencyKey = `deposit-${reservationId}-${status}`;
+
+    if (CAPTURE_ON.includes(status) && deposit.status === "authorized") {
+        if (deposit.paymentIntentId && !deposit.holdExpired) {
+            await stripe.paymentIntents.capture(deposit.paymentIntentId, {}, { idempotencyKey });
+        } else if (deposit.customerId && deposit.paymentMethodId) {
+            const intent = await stripe.paymentIntents.create({
+                amount: deposit.amount,
+                currency: deposit.currency,
+                customer: deposit.customerId,
+                payment_method: deposit.paymentMethodId,
+                off_session: true,
+                confirm: true,
+                metadata: { kind: DEPOSIT_METADATA_KIND, reservationId }
+            }, { idempotencyKey });
+            await updateDeposit(reservationId, { paymentIntentId: intent.id });
+        } else {
+            console.warn(`[Deposits] ${reservationId}: no hold or card on file to charge`);
+            return null;
+        }
+        await updateDeposit(reservationId, { status: "captured" });
+        return "captured";
+    }
+
+    if (!RELEASE_ON.includes(status)) return null;
+
+    if (deposit.status === "requires_payment") {
+        // Stop a late checkout from charging a booking that is already over
+        if (deposit.checkoutSessionId) {
+            await stripe.checkout.sessions.expire(deposit.checkoutSessionId).catch(() => null);
+        }
+        await updateDeposit(reservationId, { status: "expired" });
+        return "expired";
+    }
+    if (deposit.status === "authorized") {
+        if (deposit.paymentIntentId && !deposit.holdExpired) {
+            await stripe.paymentIntents.cancel(deposit.paymentIntentId, {}, { idempotencyKey });
+        }
+        await updateDeposit(reservationId, { status: "released" });
+        return "released";
+    }
+    if (deposit.status === "captured" && deposit.paymentIntentId) {
+        await stripe.refunds.create({ payment_intent: deposit.paymentIntentId }, { idempotencyKey });
+        await updateDeposit(reservationId, { status: "refunded" });
+        return "refunded";
+    }
+    return null;
+}
+
+// =============================================================================
+// WEBHOOK
+// =============================================================================
+
+function depositReservationId(object: { metadata?: Stripe.Metadata | null }): string | null {
+    return object.metadata?.kind === DEPOSIT_METADATA_KIND ? object.metadata.reservationId || null : null;
+}
+
+/**
+ * Handles Stripe events that belong to a deposit. Returns false for events
+ * it doesn't own so the webhook can carry on with subscription handling.
+ */
+export async function handleDepositEvent(event: Stripe.Event): Promise<boolean> {
+    const object = event.data.object as { metadata?: Stripe.Metadata | null };
+    const reservationId = depositReservationId(object);
+    if (!reservationId) return false;
+
+    switch (event.type) {
+        case "checkout.session.completed": {
+            const session = event.data.object as Stripe.Checkout.Session;
+            const intent = await getStripe().paymentIntents.retrieve(session.payment_intent as string);
+            await updateDeposit(reservationId, {
+                status: "authorized",
+                paymentIntentId: intent.id,
+                customerId: (session.customer as string) || undefined,
+                paymentMethodId: (intent.payment_method as string) || undefined
+            });
+            console.log(`[Deposits] 💳 ${reservationId}: deposit authorized`);
+
+            // Accepted waitlist offers were only waiting for the deposit
+            const reservation = (await reservationRef(reservationId).get()).data();
+            if (reservation?.status === "pending" && reservation.waitlistOffer?.acceptedAt) {
+                await transitionReservation(reservationId, null, "confirmed", "Accepted from the waitlist");
+            }
+            break;
+        }
+        case "checkout.session.expired": {
+            const deposit = (await reservationRef(reservationId).get()).data()?.deposit as ReservationDeposit | undefined;
+            if (deposit?.status !== "requires_payment") break;
+
+            await updateDeposit(reservationId, { status: "expired" });
+            try {
+                await transitionReservation(reservationId, null, "rejected", "Deposit was not paid");
+            } catch (error) {
+                // Already cancelled or rejected meanwhile
+                console.warn(`[Deposits] ${reservationId}: could not release unpaid booking:`, error);
+            }
+            break;
+        }
+        case "payment_intent.amount_capturable_updated":
+            await updateDeposit(reservationId, { status: "authorized", paymentIntentId: (event.data.object as Stripe.PaymentIntent).id });
+            break;
+        case "payment_intent.succeeded":
+            await updateDeposit(reservationId, { status: "captured", paymentIntentId: (event.data.object as Stripe.PaymentIntent).id });
+            break;
+        case "payment_intent.canceled": {
+            const intent = event.data.object as Stripe.PaymentIntent;
+            if (intent.cancellation_reason === "automatic") {
+                // Hold ran out before the booking - keep the card on file for a no-show
+                await updateDeposit(reservationId, { holdExpired: true });
+            } else {
+                await updateDeposit(reservationId, { status: "released" });
+            }
+            break;
+        }
+        case "payment_intent.payment_failed":
+            await updateDeposit(reservationId, { status: "failed" });
+            break;
+        case "charge.refunded":
+            await updateDeposit(reservationId, { status: "refunded" });
+            break;
+        default:
+            return true;
+    }
+
+    console.log(`[Deposits] ${event.type} handled for ${reservationId}`);
+    return true;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import type { DiningGroup, GroupMember } from "@/types";
+
+vi.mock("@/lib/firebase-admin", () => ({
+    getAdminDb: vi.fn(),
+    getAdminAuth: vi.fn(() => {
+        throw new Error("Invites must not look up accounts");
+    })
+}));
+
+import { findInvite, inviteEmailOf, newInvite, withMemberIndexes } from "@/lib/dining-groups";
+
+function group(members: GroupMember[]): DiningGroup {
+    return {
+        id: "g1",
+        ownerId: "owner",
+        ownerName: "Organizer",
+        name: "Friday dinner",
+        ...withMemberIndexes(members),
+        createdAt: "2026-10-01T10:00:00.000Z"
+    };
+}
+
+const guest: GroupMember = { id: "guest_1", kind: "guest", displayName: "Eva", status: "accepted", dietary: ["vegan"], allergies: [] };
+
+describe("newInvite", () => {
+    it("builds the same pending invite for any address, without an account lookup", () => {
+        const invite = newInvite(" Anna@Example.com ");
+
+        expect(invite).toEqual({
+            id: expect.stringMatching(/^invite_[0-9a-f]{16}$/),
+            kind: "user",
+            displayName: "anna",
+            status: "invited",
+            email: "anna@example.com",
+            dietary: [],
+            allergies: []
+        });
+        expect(newInvite("anna@example.com").id).toBe(invite.id);
+        expect(newInvite("marek@example.com").id).not.toBe(invite.id);
+    });
+});
+
+describe("inviteEmailOf", () => {
+    it("only accepts verified addresses", () => {
+        expect(inviteEmailOf({ email: "Anna@Example.com", email_verified: true })).toBe("anna@example.com");
+        expect(inviteEmailOf({ email: "anna@example.com", email_verified: false })).toBeNull();
+        expect(inviteEmailOf({})).toBeNull();
+    });
+});
+
+describe("findInvite", () => {
+    const emailInvite = newInvite("anna@example.com");
+    const legacyInvite: GroupMember = { id: "uid_marek", kind: "user", displayName: "Marek", status: "invited", dietary: [], allergies: [] };
+    const g = group([emailInvite, legacyInvite, guest]);
+
+    it("matches an email invite by verified email", () => {
+        expect(findInvite(g, "uid_anna", "anna@example.com")).toBe(emailInvite);
+        expect(findInvite(g, "uid_anna", null)).toBeUndefined();
+        expect(findInvite(g, "uid_other", "other@example.com")).toBeUndefined();
+    });
+
+    it("matches invites from before email invites by uid", () => {
+        expect(findInvite(g, "uid_marek", null)).toBe(legacyInvite);
+    });
+
+    it("ignores accepted members", () => {
+        const accepted = group([{ ...emailInvite, status: "accepted" }]);
+        expect(findInvite(accepted, "uid_anna", "anna@example.com")).toBeUndefined();
+    });
+});
+
+describe("withMemberIndexes", () => {
+    it("indexes accepted users, uid invites and email invites", () => {
+        const accepted: GroupMember = { id: "uid_jana", kind: "user", displayName: "Jana", status: "accepted", dietary: [], allergies: [] };
+        const legacyInvite: GroupMember = { id: "uid_marek", kind: "user", displayName: "Marek", status: "invited", dietary: [], allergies: [] };
+
+        const indexes = withMemberIndexes([accepted, legacyInvite, newInvite("anna@example.com"), guest]);
+
+        expect(indexes.memberUserIds).toEqual(["uid_jana"]);
+        expect(indexes.invitedUserIds).toEqual(["uid_marek"]);
+        expect(indexes.invitedEmails).toEqual(["anna@example.com"]);
+    });
+});
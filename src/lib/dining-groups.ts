@@ -0,0 +1,231 @@
+/**
+ * Dining Groups - search for several diners at once
+ *
+ * A group (`dining_groups/{id}`, Admin SDK only) is owned by its organizer and
+ * holds invited NearSpotty users plus ad-hoc guests with typed-in needs.
+ *
+ * GROUP SEARCH RULES:
+ * - Constraints are merged: any member's allergy is a hard safety filter,
+ *   any vegan/vegetarian makes the whole group need a fitting place
+ * - The scorer returns a per-member fit; the group score leans towards the
+ *   least happy diner (see combineMemberFits)
+ * - Only accepted users contribute their profile; pending invites are ignored
+ * - Invites are by email and never reveal whether the address has an account;
+ *   they are claimed with a verified email on accept
+ * - The search credit is charged to the organizer (the only one who can run it)
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { canonicalAllergies } from "@/lib/allergens";
+import type { DiningGroup, GroupMember, MemberFit } from "@/types";
+
+export const GROUPS_COLLECTION = "dining_groups";
+export const MAX_GROUP_SIZE = 8;  // Including the organizer - keeps the scoring prompt small
+
+const BUDGET_ORDER = ["low", "medium", "high"];
+
+/**
+ * Preferences of one diner as the scorer sees them.
+ */
+export interface GroupDiner {
+    memberId: string;
+    displayName: string;
+    allergies: string[];
+    dietary: string[];
+    cuisines: string[];
+    budget: string;
+}
+
+export interface MergedGroupPreferences {
+    allergies: string[];
+    dietary: string[];
+    cuisines: string[];
+    budget: string;
+}
+
+export class DiningGroupError extends Error {
+    constructor(public readonly status: number, public readonly code: string, message: string) {
+        super(message);
+        this.name = "DiningGroupError";
+    }
+}
+
+export const GuestSchema = z.object({
+    displayName: z.string().trim().min(1).max(40),
+    dietary: z.array(z.string().trim().min(1).max(40)).max(10).default([]),
+    allergies: z.array(z.string().trim().min(1).max(40)).max(10).default([])
+});
+
+export function newGuestId(): string {
+    return `guest_${randomBytes(6).toString("base64url")}`;
+}
+
+/**
+ * Pending invite for an email address. Nothing is looked up: the response is
+ * the same whether or not the address has a NearSpotty account, so inviting
+ * can't be used to probe for accounts. The invite is claimed by whoever signs
+ * in with that (verified) email - see findInvite.
+ */
+export function newInvite(email: string): GroupMember {
+    const normalized = email.trim().toLowerCase();
+    return {
+        id: `invite_${createHash("sha256").update(normalized).digest("hex").slice(0, 16)}`,
+        kind: "user",
+        displayName: normalized.split("@")[0],
+        status: "invited",
+        email: normalized,
+        dietary: [],
+        allergies: []
+    };
+}
+
+/**
+ * Email an invite can be claimed with - only verified addresses count.
+ */
+export function inviteEmailOf(token: { email?: string; email_verified?: boolean }): string | null {
+    return token.email && token.email_verified ? token.email.toLowerCase() : null;
+}
+
+/**
+ * The user's pending invite in `group`: by uid (older groups) or by email.
+ */
+export function findInvite(group: DiningGroup, userId: string, email: string | null): GroupMember | undefined {
+    return group.members.find(m =>
+        m.kind === "user" && m.status === "invited" && (m.id === userId || (!!email && m.email === email))
+    );
+}
+
+/** Keeps the query arrays in sync with the members list */
+export function withMemberIndexes(members: GroupMember[]): Pick<DiningGroup, "members" | "memberUserIds" | "invitedUserIds" | "invitedEmails" | "updatedAt"> {
+    const users = members.filter(m => m.kind === "user");
+    const invited = users.filter(m => m.status === "invited");
+    return {
+        members,
+        memberUserIds: users.filter(m => m.status === "accepted").map(m => m.id),
+        invitedUserIds: invited.filter(m => !m.email).map(m => m.id),
+        invitedEmails: invited.flatMap(m => m.email ? [m.email] : []),
+        updatedAt: new Date().toISOString()
+    };
+}
+
+// =============================================================================
+// PROFILES
+// =============================================================================
+
+/**
+ * Normalizes a stored `preferences` object. Older profiles keep allergies
+ * as a comma separated string; they come out as canonical ids (allergens.ts).
+ */
+export function normalizePreferences(prefs: Record<string, unknown> | undefined | null): Omit<GroupDiner, "memberId" | "displayName"> {
+    const list = (value: unknown): string[] => {
+        if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string" && v.trim() !== "").map(v => v.trim());
+        if (typeof value === "string") return value.split(",").map(v => v.trim()).filter(Boolean);
+        return [];
+    };
+
+    return {
+        allergies: canonicalAllergies(list(prefs?.allergies)),
+        dietary: list(prefs?.dietary),
+        cuisines: list(prefs?.cuisines),
+        budget: typeof prefs?.budget === "string" ? prefs.budget : "any"
+    };
+}
+
+/**
+ * Loads a group the user belongs to (organizer, member or invitee).
+ * `email` is the user's verified email (inviteEmailOf) for email invites.
+ */
+export async function getGroupForUser(groupId: string, userId: string, email: string | null = null): Promise<DiningGroup> {
+    const snap = await getAdminDb().collection(GROUPS_COLLECTION).doc(groupId).get();
+    if (!snap.exists) throw new DiningGroupError(404, "GROUP_NOT_FOUND", "Dining group not found");
+
+    const group = { ...snap.data(), id: snap.id } as DiningGroup;
+    const isMember = group.ownerId === userId ||
+        group.memberUserIds.includes(userId) ||
+        !!findInvite(group, userId, email);
+    if (!isMember) throw new DiningGroupError(403, "FORBIDDEN", "You are not part of this group");
+
+    return group;
+}
+
+/**
+ * Everyone the group search has to satisfy: the organizer, accepted users
+ * (read from their profiles) and guests.
+ */
+export async function resolveGroupDiners(group: DiningGroup, organizer: GroupDiner): Promise<GroupDiner[]> {
+    const accepted = group.members.filter(m => m.kind === "user" && m.status === "accepted");
+    const guests = group.members.filter(m => m.kind === "guest");
+
+    const db = getAdminDb();
+    const userSnaps = accepted.length > 0
+        ? await db.getAll(...accepted.map(m => db.collection("users").doc(m.id)))
+        : [];
+
+    const users: GroupDiner[] = userSnaps.map((snap, i) => {
+        const data = snap.data();
+        return {
+            memberId: accepted[i].id,
+            displayName: accepted[i].displayName,
+            ...normalizePreferences(data?.preferences || data?.profile?.preferences)
+        };
+    });
+
+    const guestDiners: GroupDiner[] = guests.map((m: GroupMember) => ({
+        memberId: m.id,
+        displayName: m.displayName,
+        allergies: canonicalAllergies(m.allergies),
+        dietary: m.dietary,
+        cuisines: [],
+        budget: "any"
+    }));
+
+    return [organizer, ...users, ...guestDiners];
+}
+
+// =============================================================================
+// MERGING & SCORING
+// =============================================================================
+
+/**
+ * Merged constraints for discovery, scout and the safety filter.
+ * Allergies and diets are unioned; the budget is the tightest one set.
+ */
+export function mergeGroupPreferences(diners: GroupDiner[]): MergedGroupPreferences {
+    const union = (lists: string[][]): string[] => {
+        const seen = new Map<string, string>();
+        lists.flat().forEach(v => {
+            const key = v.toLowerCase();
+            if (!seen.has(key)) seen.set(key, v);
+        });
+        return [...seen.values()];
+    };
+
+    const budgets = diners
+        .map(d => BUDGET_ORDER.indexOf(d.budget))
+        .filter(i => i >= 0);
+
+    return {
+        allergies: union(diners.map(d => d.allergies)),
+        dietary: union(diners.map(d => d.dietary)),
+        cuisines: union(diners.map(d => d.cuisines)),
+        budget: budgets.length > 0 ? BUDGET_ORDER[Math.min(...budgets)] : "any"
+    };
+}
+
+/**
+ * Group score from per-member fits: half the average, half the lowest fit,
+ * so one unhappy diner drags the place down. Any member at risk = unsafe.
+ */
+export function combineMemberFits(fits: MemberFit[]): { groupScore: number; safetyFlag: boolean } {
+    if (fits.length === 0) return { groupScore: 0, safetyFlag: false };
+    if (fits.some(f => f.safetyFlag)) return { groupScore: 0, safetyFlag: true };
+
+    const scores = fits.map(f => f.fitScore);
+    const average = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+    return {
+        groupScore: Math.round((average + Math.min(...scores)) / 2),
+        safetyFlag: false
+    };
+}
@@ -0,0 +1,127 @@
+/**
+ * Floor Plan - named tables, zones and table assignment
+ *
+ * The plan is stored on the restaurant doc as `tableConfig.tables`
+ * (TableManager). The legacy counters (totalTables / seatsPerTable /
+ * bookableTables) are kept in sync for older readers.
+ *
+ * ASSIGNMENT RULES:
+ * - Best fit: the table (or combination) that wastes the fewest seats,
+ *   then the one with fewer tables
+ * - Combinations are up to MAX_COMBINED_TABLES tables linked through
+ *   `combinableWith` (links work both ways)
+ * - Online availability only uses `bookable` tables; the owner can assign
+ *   any table manually from the dashboard
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import type { FloorTable } from "@/types";
+
+export const TABLE_ZONES = ["main", "terrace", "bar", "window", "private"] as const;
+export const MAX_COMBINED_TABLES = 3;
+
+/** A booking that holds tables during [start, end) minutes */
+export interface TableSitting {
+    start: number;
+    end: number;
+    guests: number;
+    tableIds?: string[];     // Set once assigned; unassigned sittings are seated greedily
+}
+
+function isLinked(a: FloorTable, b: FloorTable): boolean {
+    return a.combinableWith.includes(b.id) || b.combinableWith.includes(a.id);
+}
+
+/**
+ * Every single table plus every connected combination of up to
+ * MAX_COMBINED_TABLES tables.
+ */
+export function getTableCombinations(tables: FloorTable[]): FloorTable[][] {
+    const seen = new Set<string>();
+    const combos: FloorTable[][] = [];
+
+    const visit = (combo: FloorTable[]) => {
+        const key = combo.map(t => t.id).sort().join("+");
+        if (seen.has(key)) return;
+        seen.add(key);
+        combos.push(combo);
+        if (combo.length >= MAX_COMBINED_TABLES) return;
+
+        for (const next of tables) {
+            if (combo.includes(next)) continue;
+            if (combo.some(t => isLinked(t, next))) visit([...combo, next]);
+        }
+    };
+
+    tables.forEach(table => visit([table]));
+    return combos;
+}
+
+export function comboCapacity(combo: FloorTable[]): { min: number; max: number } {
+    return {
+        min: Math.max(...combo.map(t => t.minCovers)),
+        max: combo.reduce((sum, t) => sum + t.maxCovers, 0)
+    };
+}
+
+/**
+ * Best-fitting free table(s) for a party, or null if nothing fits.
+ */
+export function findBestTables(guests: number, tables: FloorTable[], occupied: Set<string> = new Set()): FloorTable[] | null {
+    const free = tables.filter(t => !occupied.has(t.id));
+    let best: FloorTable[] | null = null;
+    let bestWaste = Infinity;
+
+    for (const combo of getTableCombinations(free)) {
+        const { min, max } = comboCapacity(combo);
+        if (guests < min || guests > max) continue;
+
+        const waste = max - guests;
+        if (waste < bestWaste || (waste === bestWaste && best && combo.length < best.length)) {
+            best = combo;
+            bestWaste = waste;
+        }
+    }
+    return best;
+}
+
+/**
+ * Largest party the tables can seat at once.
+ */
+export function getMaxPartySize(tables: FloorTable[]): number {
+    return getTableCombinations(tables).reduce((largest, combo) => Math.max(largest, comboCapacity(combo).max), 0);
+}
+
+/**
+ * Tables held during [start, end): assigned sittings hold their tables,
+ * unassigned ones are seated best-fit, largest party first. Returns null when
+ * the overlapping sittings can't all be seated (already overbooked).
+ */
+export function getOccupiedTables(tables: FloorTable[], sittings: TableSitting[], start: number, end: number): Set<string> | null {
+    const overlapping = sittings.filter(s => s.start < end && start < s.end);
+    const occupied = new Set(overlapping.flatMap(s => s.tableIds || []));
+
+    const unassigned = overlapping
+        .filter(s => !s.tableIds?.length)
+        .sort((a, b) => b.guests - a.guests);
+
+    for (const sitting of unassigned) {
+        const fit = findBestTables(sitting.guests, tables, occupied);
+        if (!fit) return null;
+        fit.forEach(t => occupied.add(t.id));
+    }
+    return occupied;
+}
+
+/**
+ * True if a new party can be seated during [start, end).
+ */
+export function canSeatParty(tables: FloorTable[], sittings: TableSitting[], guests: number, start: number, end: number): boolean {
+    const occupied = getOccupiedTables(tables, sittings, start, end);
+    return !!occupied && !!findBestTables(guests, tables, occupied);
+}
+
+export function newTableId(): string {
+    return `t_${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -1,5 +1,15 @@
 import { z } from 'zod';
 
+/**
+ * Per-member fit returned in group mode
+ */
+export const MemberFitSchema = z.object({
+    memberId: z.string(),
+    fitScore: z.number().min(0).max(100),
+    safetyFlag: z.boolean(),
+    reason: z.string().max(100)
+});
+
 /**
  * Strict Gemini Score Schema with Safety Flagging
  * Used for validating AI responses with dietary/allergy safety checks
@@ -13,7 +23,8 @@ export const StrictGeminiScoreSchema = z.object({
     recommendedDish: z.string().optional(),          // Best dish for this user
     pros: z.array(z.string()),                       // User-specific advantages
     cons: z.array(z.string()),                       // User-specific disadvantages
-    warnings: z.array(z.string())                    // Dietary/allergy warnings
+    warnings: z.array(z.string()),                   // Dietary/allergy warnings
+    memberFits: z.array(MemberFitSchema).optional()  // Group mode only
 });
 
 /**
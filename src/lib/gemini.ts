@@ -1,12 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { GeminiScore } from "@/types";
+import { GeminiScore, MemberFit } from "@/types";
 import { GeminiResponseSchema, type StrictGeminiScore } from "@/lib/gemini-schema";
+import { getLlmClient, stripJsonFences } from "@/lib/llm-client";
+import { describeSearchIntent, type SearchIntent } from "@/lib/search-intent";
+import type { OpeningHoursSource } from "@/lib/opening-hours";
 import { getAdminDb } from "./firebase-admin"; // ✅ NEW: For usage tracking
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
-const model = genAI.getGenerativeModel({ model: "gemini-3-flash-preview" });
+import { combineMemberFits, type GroupDiner } from "@/lib/dining-groups";
+import { allergenLabel, isAllergenId, toAllergenIds, type MenuAllergenCheck } from "@/lib/allergens";
 
 // ✅ NEW: Timeout Configuration
 const TIMEOUT_MS = 60000; // 60 seconds
@@ -26,6 +27,8 @@ export interface GeminiUsageMetrics {
     latencyMs: number;
     timestamp: Date;
     cost: number; // In USD
+    provider?: string; // LlmClient backend (gemini | openai | mock)
+    model?: string;
 }
 
 export async function logGeminiUsage(metrics: GeminiUsageMetrics): Promise<void> {
@@ -36,7 +39,7 @@ export async function logGeminiUsage(metrics: GeminiUsageMetrics): Promise<void>
         });
 
         // ✅ Console log for real-time monitoring
-        console.log(`[Gemini] ${metrics.operation} - ${metrics.tokensUsed} tokens ($${metrics.cost.toFixed(4)}) - ${metrics.latencyMs}ms`);
+        console.log(`[Gemini] ${metrics.operation}${metrics.model ? ` (${metrics.model})` : ''} - ${metrics.tokensUsed} tokens ($${metrics.cost.toFixed(4)}) - ${metrics.latencyMs}ms`);
     } catch (err) {
         console.error('[Gemini] Failed to log usage:', err);
         // Non-blocking - don't fail request if logging fails
@@ -44,7 +47,9 @@ export async function logGeminiUsage(metrics: GeminiUsageMetrics): Promise<void>
 }
 
 // ✅ NEW: Cost calculation (Flash model pricing)
-export function calculateCost(tokens: number): number {
+// Mock and self-hosted (OpenAI-compatible) backends are free
+export function calculateCost(tokens: number, provider: string = 'gemini'): number {
+    if (provider !== 'gemini') return 0;
     // Gemini 2.0 Flash pricing: $0.10 per 1M input tokens
     return (tokens / 1_000_000) * 0.10;
 }
@@ -154,6 +159,14 @@ function filterByDietaryRestrictions(
 ): LightCandidate[] {
     const isVegan = userProfile.dietary?.some(d => d.toLowerCase().includes('vegan'));
     const isVegetarian = userProfile.dietary?.some(d => d.toLowerCase().includes('vegetarian'));
+    const allergies = toAllergenIds(userProfile.allergies);
+
+    // Places named after an allergen ("The Peanut House") are out for that diner
+    if (allergies.length > 0) {
+        candidates = candidates.filter(c =>
+            !toAllergenIds(c.name.split(/\s+/)).some(id => allergies.includes(id))
+        );
+    }
 
     if (!isVegan && !isVegetarian) {
         return candidates; // No filtering needed
@@ -194,6 +207,9 @@ export interface LightCandidate {
         openNow?: boolean;
         weekdayDescriptions?: string[];
     };
+    openingHours?: OpeningHoursSource; // Periods + owner hours for open-at filtering
+    detourMeters?: number;             // Route mode: out-and-back distance from the route
+    routeProgressMeters?: number;      // Route mode: where along the route the place is
 }
 
 interface UserDietaryProfile {
@@ -201,6 +217,7 @@ interface UserDietaryProfile {
     dietary?: string[];
     cuisines?: string[];
     hasSuperlative?: boolean;
+    intent?: SearchIntent;
 }
 
 export interface ScoutResult {
@@ -235,7 +252,8 @@ export async function scoutTopCandidates(
     const isVegan = userProfile.dietary?.some(d => d.toLowerCase().includes('vegan')) ?? false;
     const isVegetarian = userProfile.dietary?.some(d => d.toLowerCase().includes('vegetarian')) ?? false;
     const isGlutenFree = userProfile.allergies?.some(a => a.toLowerCase().includes('gluten')) ?? false;
-    const allergies = userProfile.allergies || [];
+    const allergies = describeAllergies(userProfile.allergies || []);
+    const constraints = userProfile.intent ? describeSearchIntent(userProfile.intent) : [];
 
     const candidatesPayload = lightCandidates.map((c, i) => ({
         idx: i + 1,
@@ -256,7 +274,11 @@ You are an AI SCOUT selecting restaurants for a user. Be PRAGMATIC, not strict.
 - Dietary: ${isVegan ? 'VEGAN' : isVegetarian ? 'VEGETARIAN' : 'None'}
 - Gluten-Free: ${isGlutenFree ? 'YES' : 'No'}
 - Other Allergies: ${allergies.filter(a => !a.toLowerCase().includes('gluten')).join(', ') || 'None'}
-
+${constraints.length > 0 ? `
+# QUERY CONSTRAINTS (parsed from the search text)
+${constraints.map(c => `- ${c}`).join('\n')}
+Prefer candidates that can satisfy these. Never select a place matching an EXCLUDE term.
+` : ''}
 # PRAGMATIC MATCHING RULES
 **IMPORTANT: Be generous, not strict.**
 
@@ -328,36 +350,39 @@ RULES:
 - If NO dietary restrictions exist, return top 6 by rating as perfectMatches
 `;
 
+    const client = getLlmClient('scout');
+
     try {
         // ✅ NEW: Timeout wrapper
         const result = await withTimeout(
-            retryOperation(() => model.generateContent(scoutPrompt)),
+            retryOperation(() => client.generate({
+                operation: 'scout',
+                prompt: scoutPrompt,
+                input: { candidates: lightCandidates, keyword, profile: userProfile }
+            })),
             TIMEOUT_MS,
             'SCOUT'
         );
 
-        const response = await result.response;
-        const text = response.text();
+        const text = result.text;
 
         // ✅ NEW: Track usage
-        const metadata = await response.usageMetadata;
-        if (metadata) {
-            await logGeminiUsage({
-                operation: 'scout',
-                tokensUsed: metadata.totalTokenCount || 0,
-                candidateCount: lightCandidates.length,
-                success: true,
-                latencyMs: Date.now() - startTime,
-                cost: calculateCost(metadata.totalTokenCount || 0),
-                timestamp: new Date()
-            });
-        }
+        await logGeminiUsage({
+            operation: 'scout',
+            tokensUsed: result.tokensUsed,
+            candidateCount: lightCandidates.length,
+            success: true,
+            latencyMs: Date.now() - startTime,
+            cost: calculateCost(result.tokensUsed, result.provider),
+            timestamp: new Date(),
+            provider: result.provider,
+            model: result.model
+        });
 
         // ✅ IMPROVED: Safe JSON parsing
         let parsedJson: any;
         try {
-            const jsonStr = text.replace(/```json\n?|\n?```/g, "").trim();
-            parsedJson = JSON.parse(jsonStr);
+            parsedJson = JSON.parse(stripJsonFences(text));
         } catch (parseError) {
             console.error('[Scout] JSON parse failed:', text.substring(0, 200));
             throw new Error('INVALID_JSON');
@@ -389,7 +414,9 @@ RULES:
             success: false,
             latencyMs: Date.now() - startTime,
             cost: 0,
-            timestamp: new Date()
+            timestamp: new Date(),
+            provider: client.provider,
+            model: client.model
         });
 
         // ✅ IMPROVED: Dietary-aware fallback
@@ -422,6 +449,14 @@ export interface PlaceWithContext extends PlaceForScoring {
     reviews?: { text: string; rating: number; flag?: "SAFE_CANDIDATE" | "RISK" }[];
     websiteUri?: string;
     servesVegetarianFood?: boolean;
+    menuAllergens?: MenuAllergenCheck;  // Claimed places with an allergen-labelled menu
+}
+
+/**
+ * Canonical allergen ids as English labels for the prompts; free text as is.
+ */
+function describeAllergies(allergies: string[]): string[] {
+    return allergies.map(a => isAllergenId(a) ? allergenLabel(a) : a);
 }
 
 // ... (Keep existing STRICT_SYSTEM_INSTRUCTION and buildStrictPrompt)
@@ -449,6 +484,12 @@ For each restaurant:
    → SET shortReason: "SAFETY RISK: {allergen} detected in {location}"
    → STOP ANALYSIS for this place
 
+## 1b. OWNER-DECLARED MENU ALLERGENS
+Some restaurants include "menu": the allergen labelling of their own menu.
+- It has already been checked against the user's allergies - these places have at least one safe dish
+- Pick recommendedDish from "safeDishes" only
+- Still set safetyFlag for risks the menu cannot show (reviews reporting cross-contamination)
+
 ## 2. DIETARY ALIGNMENT (SECOND PRIORITY)
 If user is VEGAN:
 - Prioritize places with "vegan", "plant-based", "dairy-free" in name/reviews
@@ -526,6 +567,11 @@ function buildStrictPrompt(
         types: p.types.slice(0, 3),
         rating: p.rating,
         summary: p.editorialSummary || "No summary",
+        menu: p.menuAllergens && p.menuAllergens.verdict !== "unknown" ? {
+            safeDishes: p.menuAllergens.safeDishes,
+            safeDishCount: p.menuAllergens.safeCount,
+            dishCount: p.menuAllergens.dishCount
+        } : undefined,
         reviews: p.reviews?.slice(0, 3).map(r => {
             const text = typeof r.text === 'string' ? r.text : (r.text as any)?.text || "";
             return text.substring(0, 150);
@@ -533,9 +579,9 @@ function buildStrictPrompt(
     }));
 
     // Extract allergies and dietary preferences safely
-    const allergies = Array.isArray(userProfile.allergies)
+    const allergies = describeAllergies(Array.isArray(userProfile.allergies)
         ? userProfile.allergies
-        : (userProfile.allergies ? [userProfile.allergies] : []);
+        : (userProfile.allergies ? [userProfile.allergies] : []));
 
     const dietary = Array.isArray(userProfile.dietary)
         ? userProfile.dietary
@@ -544,6 +590,8 @@ function buildStrictPrompt(
     // Extract superlative and raw query context
     const hasSuperlative = userProfile.hasSuperlative === true;
     const rawQuery = userProfile.rawQuery || query;
+    const constraints: string[] = userProfile.intent ? describeSearchIntent(userProfile.intent) : [];
+    const group: GroupDiner[] = Array.isArray(userProfile.group) ? userProfile.group : [];
 
     return `
 ${STRICT_SYSTEM_INSTRUCTION.replace('{query}', query)}
@@ -557,6 +605,21 @@ ${STRICT_SYSTEM_INSTRUCTION.replace('{query}', query)}
 # RAW USER QUERY
 "${rawQuery}"
 
+# PARSED QUERY CONSTRAINTS
+${constraints.length > 0
+        ? `${constraints.map(c => `- ${c}`).join('\n')}
+Lower matchScore (-20 to -40) for places that clearly cannot meet a constraint (e.g. no terrace, over budget).
+Set matchScore 0 for places matching an EXCLUDE term.`
+        : 'None'}
+
+# GROUP MODE
+${group.length > 0
+        ? `The user profile above is the MERGED profile of a group dining together. Every allergy belongs to someone at the table - treat all of them as hard safety rules.
+Members:
+${group.map(m => `- ${m.memberId} (${m.displayName}): allergies ${describeAllergies(m.allergies).join(', ') || 'none'}; dietary ${m.dietary.join(', ') || 'none'}; cuisines ${m.cuisines.join(', ') || 'any'}`).join('\n')}
+For EVERY restaurant also return "memberFits": [{ "memberId": "...", "fitScore": 0-100, "safetyFlag": true/false, "reason": "max 10 words" }] with one entry per member.`
+        : 'Single diner.'}
+
 # QUALITY MODE
 ${hasSuperlative ? '⚠️ USER REQUESTED EXCELLENCE: The query contains superlatives like "best", "amazing", "najlepšia". APPLY STRICT QUALITY FILTERING as per section 4.' : 'Standard mode - balance quality with relevance.'}
 
@@ -580,6 +643,7 @@ export async function scorePlacesWithDeepContext(
     const query = currentQuery || "General Recommendation";
     const prompt = buildStrictPrompt(places, userProfile, query);
 
+    const client = getLlmClient('score');
     let timeoutId: NodeJS.Timeout | null = null;
 
     try {
@@ -590,35 +654,36 @@ export async function scorePlacesWithDeepContext(
             }, TIMEOUT_MS);
         });
 
-        const geminiPromise = retryOperation(() => model.generateContent(prompt));
+        const llmPromise = retryOperation(() => client.generate({
+            operation: 'score',
+            prompt,
+            input: { places, profile: userProfile, query }
+        }));
 
-        const result = await Promise.race([geminiPromise, timeoutPromise]);
+        const result = await Promise.race([llmPromise, timeoutPromise]);
 
         // ✅ Clear timeout on success
         if (timeoutId) clearTimeout(timeoutId);
 
-        const response = await result.response;
-        const text = response.text();
+        const text = result.text;
 
         // ✅ Track usage
-        const metadata = await response.usageMetadata;
-        if (metadata) {
-            await logGeminiUsage({
-                operation: 'score',
-                tokensUsed: metadata.totalTokenCount || 0,
-                candidateCount: places.length,
-                success: true,
-                latencyMs: Date.now() - startTime,
-                cost: calculateCost(metadata.totalTokenCount || 0),
-                timestamp: new Date()
-            });
-        }
+        await logGeminiUsage({
+            operation: 'score',
+            tokensUsed: result.tokensUsed,
+            candidateCount: places.length,
+            success: true,
+            latencyMs: Date.now() - startTime,
+            cost: calculateCost(result.tokensUsed, result.provider),
+            timestamp: new Date(),
+            provider: result.provider,
+            model: result.model
+        });
 
         // ✅ IMPROVED: Safe parsing
         let parsedJson: any;
         try {
-            const jsonStr = text.replace(/```json\n?|\n?```/g, "").trim();
-            parsedJson = JSON.parse(jsonStr);
+            parsedJson = JSON.parse(stripJsonFences(text));
         } catch (parseError) {
             console.error('[Gemini] JSON parse failed:', text.substring(0, 200));
             return generateFallbackScores(places, 'error');
@@ -636,7 +701,9 @@ export async function scorePlacesWithDeepContext(
 
         places.forEach((p) => {
             const score = strictScores.find(s => s.id === p.place_id);
-            if (score) {
+            if (score && Array.isArray(userProfile.group) && userProfile.group.length > 0) {
+                results.set(p.place_id, applyGroupFit(score, userProfile.group));
+            } else if (score) {
                 results.set(p.place_id, {
                     matchScore: score.matchScore,
                     relevanceScore: score.relevanceScore,
@@ -667,7 +734,9 @@ export async function scorePlacesWithDeepContext(
             success: false,
             latencyMs: Date.now() - startTime,
             cost: 0,
-            timestamp: new Date()
+            timestamp: new Date(),
+            provider: client.provider,
+            model: client.model
         });
 
         // ✅ Return fallback scores
@@ -680,6 +749,39 @@ export async function scorePlacesWithDeepContext(
     }
 }
 
+/**
+ * Group mode: keeps one fit per member (missing ones count as a neutral 50)
+ * and replaces matchScore with the combined group score.
+ */
+function applyGroupFit(score: StrictGeminiScore, group: GroupDiner[]): GeminiScore {
+    const memberFits: MemberFit[] = group.map(member => {
+        const fit = score.memberFits?.find(f => f.memberId === member.memberId);
+        return {
+            memberId: member.memberId,
+            displayName: member.displayName,
+            fitScore: fit?.fitScore ?? 50,
+            safetyFlag: fit?.safetyFlag ?? false,
+            reason: fit?.reason ?? "Not rated"
+        };
+    });
+
+    const { groupScore, safetyFlag } = combineMemberFits(memberFits);
+    const unsafe = safetyFlag || score.safetyFlag;
+
+    return {
+        matchScore: unsafe ? 0 : groupScore,
+        relevanceScore: score.relevanceScore,
+        safetyFlag: unsafe,
+        shortReason: score.shortReason,
+        recommendedDish: score.recommendedDish || "",
+        pros: score.pros,
+        cons: score.cons,
+        warnings: score.warnings,
+        warning: unsafe,
+        memberFits
+    };
+}
+
 /**
  * Filter and rank scored places (post-processing)
  */
@@ -750,8 +852,13 @@ export async function generateDiscoveryMessage(
     `;
 
     try {
-        const result = await retryOperation(() => model.generateContent(prompt));
-        return result.response.text();
+        const client = getLlmClient('discovery');
+        const result = await retryOperation(() => client.generate({
+            operation: 'discovery',
+            prompt,
+            input: { keyword, categories: availableCategories }
+        }));
+        return result.text;
     } catch (e) {
         console.error("Discovery Message Error:", e);
         return `We couldn't find any "${keyword}" in this area. Try increasing the search radius or look for other businesses nearby.`;
@@ -0,0 +1,206 @@
+/**
+ * iCalendar - reservations as RFC 5545 events
+ *
+ * Used for the diner's `.ics` download per booking (AddToCalendarButton) and
+ * the owner's subscription feed per restaurant (calendar-feeds.ts).
+ *
+ * RULES:
+ * - A booking is always the same event: UID `<reservationId>@nearspotty.online`,
+ *   so a re-downloaded file or a refreshed feed updates it in place
+ * - SEQUENCE counts the changes after creation (`historyLog` entries); calendar
+ *   apps only apply an update whose SEQUENCE is higher than the one they have
+ * - Pending bookings are TENTATIVE; cancelled and rejected ones are kept as
+ *   CANCELLED so calendars that have the event remove it
+ * - Times are written in UTC - `date` already holds the start in UTC
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import { DEFAULT_SEATING_RULES } from "@/lib/seating-rules";
+import type { ReservationHistoryEntry, ReservationStatus } from "@/types";
+
+const PRODUCT_ID = "-//NearSpotty//Reservations//EN";
+const UID_DOMAIN = "nearspotty.online";
+const MAX_LINE_OCTETS = 75;
+
+export type CalendarEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+export interface CalendarEvent {
+    uid: string;
+    sequence: number;
+    start: Date;
+    end: Date;
+    stamp: Date;             // Last change - DTSTAMP / LAST-MODIFIED
+    summary: string;
+    description?: string;
+    location?: string;
+    url?: string;
+    status: CalendarEventStatus;
+}
+
+/**
+ * The reservation doc fields an event is built from. `date` is the Firestore
+ * Timestamp (client or Admin SDK).
+ */
+export interface CalendarReservation {
+    placeName: string;
+    date: { toDate(): Date };
+    guests: number;
+    status: ReservationStatus;
+    durationMinutes?: number;
+    startMinutes?: number;
+    endMinutes?: number;
+    historyLog?: Pick<ReservationHistoryEntry, "status" | "timestamp">[];
+    updatedAt?: string;
+    customerName?: string;
+    customerPhone?: string;
+    notes?: string | null;
+    tableNames?: string[] | null;
+}
+
+export interface ReservationEventOptions {
+    viewer: "diner" | "owner";
+    location?: string;
+    url?: string;
+}
+
+const EVENT_STATUS: Partial<Record<ReservationStatus, CalendarEventStatus>> = {
+    pending: "TENTATIVE",
+    rejected: "CANCELLED",
+    cancelled_by_guest: "CANCELLED",
+    cancelled_by_venue: "CANCELLED",
+    cancelled: "CANCELLED"
+};
+
+export function reservationEventUid(reservationId: string): string {
+    return `${reservationId}@${UID_DOMAIN}`;
+}
+
+export function reservationEventStatus(status: ReservationStatus): CalendarEventStatus {
+    return EVENT_STATUS[status] || "CONFIRMED";
+}
+
+/**
+ * Length of the sitting - older bookings have no durationMinutes.
+ */
+function getSittingMinutes(reservation: CalendarReservation): number {
+    if (reservation.durationMinutes) return reservation.durationMinutes;
+    if (reservation.startMinutes !== undefined && reservation.endMinutes !== undefined) {
+        return reservation.endMinutes - reservation.startMinutes;
+    }
+    return DEFAULT_SEATING_RULES.defaultMinutes;
+}
+
+export function reservationToEvent(id: string, reservation: CalendarReservation, options: ReservationEventOptions): CalendarEvent {
+    const start = reservation.date.toDate();
+    const lastChange = reservation.updatedAt || reservation.historyLog?.[reservation.historyLog.length - 1]?.timestamp;
+    const stamp = lastChange ? new Date(lastChange) : new Date();
+    const guests = `${reservation.guests} ${reservation.guests === 1 ? "guest" : "guests"}`;
+
+    const details = options.viewer === "owner"
+        ? [
+            reservation.customerPhone && `Phone: ${reservation.customerPhone}`,
+            reservation.tableNames?.length && `Table: ${reservation.tableNames.join(" + ")}`,
+            reservation.notes && `Notes: ${reservation.notes}`
+        ]
+        : [
+            reservation.status === "pending" && "Waiting for the restaurant to confirm",
+            `Booked for ${guests}`
+        ];
+
+    return {
+        uid: reservationEventUid(id),
+        sequence: Math.max(0, (reservation.historyLog?.length || 1) - 1),
+        start,
+        end: new Date(start.getTime() + getSittingMinutes(reservation) * 60_000),
+        stamp: isNaN(stamp.getTime()) ? new Date() : stamp,
+        summary: options.viewer === "owner"
+            ? `${reservation.customerName || "Guest"} (${guests})`
+            : `Table at ${reservation.placeName}`,
+        description: details.filter(Boolean).join("\n") || undefined,
+        location: options.location || (options.viewer === "diner" ? reservation.placeName : undefined),
+        url: options.url,
+        status: reservationEventStatus(reservation.status)
+    };
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Lines longer than 75 octets continue on the next line after a space;
+ * multi-byte characters are never split.
+ */
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = "";
+    let octets = 0;
+
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = "";
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+function eventLines(event: CalendarEvent): string[] {
+    return [
+        "BEGIN:VEVENT",
+        `UID:${event.uid}`,
+        `SEQUENCE:${event.sequence}`,
+        `DTSTAMP:${formatUtc(event.stamp)}`,
+        `LAST-MODIFIED:${formatUtc(event.stamp)}`,
+        `DTSTART:${formatUtc(event.start)}`,
+        `DTEND:${formatUtc(event.end)}`,
+        `SUMMARY:${escapeText(event.summary)}`,
+        ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+        ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+        ...(event.url ? [`URL:${event.url}`] : []),
+        `STATUS:${event.status}`,
+        "END:VEVENT"
+    ];
+}
+
+/**
+ * A VCALENDAR with `events`. `name` and `refreshMinutes` are for subscribed
+ * feeds (calendar name and how often apps should poll).
+ */
+export function buildCalendar(events: CalendarEvent[], options: { name?: string; refreshMinutes?: number } = {}): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODUCT_ID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+        ...(options.refreshMinutes ? [
+            `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+            `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`
+        ] : []),
+        ...events.flatMap(eventLines),
+        "END:VCALENDAR"
+    ];
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,8 +1,8 @@
 import { getAdminStorage } from "@/lib/firebase-admin";
+import { getProviderForPlaceId } from "@/lib/places-provider";
 import crypto from 'crypto';
 
 const CACHE_BUCKET_NAME = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET || "place-photos-cache";
-const GOOGLE_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY;
 
 const pendingRequests = new Map<string, Promise<string>>();
 
@@ -55,29 +55,14 @@ export async function getCachedPhotoUrl(placeId: string, photoReference: string,
                 return `https://storage.googleapis.com/${CACHE_BUCKET_NAME}/${fileName}`;
             }
 
-            console.log(`[ImageCache] ☁️ MISS: ${fileName}. Downloading from Google V1...`);
+            console.log(`[ImageCache] ☁️ MISS: ${fileName}. Downloading from provider...`);
 
-            // --- V1 MEDIA DOWNLOAD LOGIC ---
-            // Construct Resource Name if missing
-            const resourceName = photoReference;
-            if (!resourceName.startsWith("places/")) {
-                console.warn(`[ImageCache] ⚠️ Legacy photo reference detected: ${photoReference}. Use V1.`);
-            }
-
-            const metaUrl = `https://places.googleapis.com/v1/${resourceName}/media?maxWidthPx=${maxWidth}&key=${GOOGLE_API_KEY}&skipHttpRedirect=true`;
-
-            const metaRes = await fetch(metaUrl);
-            if (!metaRes.ok) {
-                const errText = await metaRes.text();
-                console.error(`[ImageCache] Metadata Fetch Error ${metaRes.status}: ${errText}`);
-                return "https://placehold.co/600x400/grey/white?text=No+Image+Meta";
-            }
-
-            const metaData = await metaRes.json();
-            const photoUri = metaData.photoUri;
+            // --- PROVIDER MEDIA LOOKUP ---
+            // 1. Resolve the photo resource name to a download URI
+            const photoUri = await getProviderForPlaceId(placeId).getPhotoUri(photoReference, maxWidth);
 
             if (!photoUri) {
-                console.error("[ImageCache] No photoUri found in metadata response.");
+                console.error(`[ImageCache] No photoUri resolved for ${photoReference}.`);
                 return "https://placehold.co/600x400/grey/white?text=No+Photo+URI";
             }
 
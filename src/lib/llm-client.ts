@@ -0,0 +1,155 @@
+/**
+ * LLM Client Abstraction
+ *
+ * All AI calls (scout, deep scoring, batch scoring, menu & pricing advice)
+ * go through an LlmClient instead of a hard-wired GoogleGenerativeAI model.
+ *
+ * Implementations:
+ * - gemini: Google Generative AI (production default)
+ * - openai: Any OpenAI-compatible /chat/completions server (Ollama, llama.cpp, vLLM)
+ * - mock:   Deterministic rule-based responses - CI & local dev without keys
+ *
+ * Configuration:
+ * - LLM_PROVIDER=gemini|openai|mock (default: gemini; mock only outside
+ *   production when no Gemini key is set - production without a key fails
+ *   the call so search refunds the credit instead of charging for fake scores)
+ * - LLM_MODEL=<model>                  default model for the provider
+ * - LLM_MODEL_<OPERATION>=[provider:]<model>  per-operation override,
+ *   e.g. LLM_MODEL_SCOUT=gemini-2.0-flash-lite, LLM_MODEL_SCORE=openai:llama3.1
+ */
+
+import { createGeminiLlmClient } from "@/lib/llm-clients/gemini";
+import { createOpenAiCompatibleLlmClient } from "@/lib/llm-clients/openai-compatible";
+import { createMockLlmClient } from "@/lib/llm-clients/mock";
+
+export type LlmProviderName = "gemini" | "openai" | "mock";
+
+export type LlmOperation =
+    | "scout"
+    | "score"
+    | "batch-lite"
+    | "place-score"
+    | "discovery"
+    | "menu-suggest"
+    | "pricing";
+
+export interface LlmRequest {
+    operation: LlmOperation;
+    prompt: string;
+    /** Ask the backend for a raw JSON response (no markdown) */
+    json?: boolean;
+    /**
+     * Structured input the prompt was built from.
+     * Only read by the mock client to produce rule-based output.
+     */
+    input?: unknown;
+}
+
+export interface LlmResponse {
+    text: string;
+    tokensUsed: number;
+    provider: LlmProviderName;
+    model: string;
+}
+
+export interface LlmClient {
+    readonly provider: LlmProviderName;
+    readonly model: string;
+    generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * Thrown by adapters on upstream failures.
+ * `status` mirrors the HTTP status so retry logic can spot 429/503.
+ */
+export class LlmError extends Error {
+    constructor(
+        public readonly provider: LlmProviderName,
+        public readonly status: number,
+        message: string
+    ) {
+        super(message);
+        this.name = "LlmError";
+    }
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+    gemini: "gemini-3-flash-preview",
+    openai: "llama3.1",
+    mock: "mock-rules-v1"
+};
+
+const clients = new Map<string, LlmClient>();
+
+function isProviderName(value: string): value is LlmProviderName {
+    return value === "gemini" || value === "openai" || value === "mock";
+}
+
+function getDefaultProvider(): LlmProviderName {
+    const configured = (process.env.LLM_PROVIDER || "").toLowerCase();
+    if (isProviderName(configured)) return configured;
+
+    if (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY) return "gemini";
+
+    if (process.env.NODE_ENV === "production") {
+        console.error("[LLM] No LLM_PROVIDER and no Gemini key configured - AI calls will fail.");
+        return "gemini";
+    }
+
+    console.warn("[LLM] No LLM_PROVIDER and no Gemini key configured. Using mock client (development only).");
+    return "mock";
+}
+
+/**
+ * Resolves provider + model for an operation, honoring LLM_MODEL_<OPERATION>.
+ */
+function resolveTarget(operation: LlmOperation): { provider: LlmProviderName; model: string } {
+    let provider = getDefaultProvider();
+    let model = process.env.LLM_MODEL || "";
+
+    const envKey = `LLM_MODEL_${operation.toUpperCase().replace(/-/g, "_")}`;
+    const override = process.env[envKey];
+
+    if (override) {
+        const separator = override.indexOf(":");
+        const prefix = separator > 0 ? override.slice(0, separator) : "";
+        if (isProviderName(prefix)) {
+            provider = prefix;
+            model = override.slice(separator + 1);
+        } else {
+            model = override;
+        }
+    }
+
+    return { provider, model: model || DEFAULT_MODELS[provider] };
+}
+
+function createClient(provider: LlmProviderName, model: string): LlmClient {
+    switch (provider) {
+        case "openai": return createOpenAiCompatibleLlmClient(model);
+        case "mock": return createMockLlmClient(model);
+        default: return createGeminiLlmClient(model);
+    }
+}
+
+/**
+ * Get the LLM client configured for an operation.
+ */
+export function getLlmClient(operation: LlmOperation): LlmClient {
+    const { provider, model } = resolveTarget(operation);
+    const key = `${provider}:${model}`;
+
+    let client = clients.get(key);
+    if (!client) {
+        client = createClient(provider, model);
+        clients.set(key, client);
+    }
+    return client;
+}
+
+/**
+ * Strips markdown code fences some models wrap JSON in.
+ */
+export function stripJsonFences(text: string): string {
+    return text.replace(/```json\n?|\n?```/g, "").trim();
+}
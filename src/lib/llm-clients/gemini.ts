@@ -0,0 +1,55 @@
+/**
+ * Google Generative AI (Gemini) adapter.
+ */
+
+import { GoogleGenerativeAI, type GenerativeModel } from "@google/generative-ai";
+import { LlmError, type LlmClient, type LlmRequest, type LlmResponse } from "@/lib/llm-client";
+
+export function createGeminiLlmClient(model: string): LlmClient {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || "";
+    const genAI = new GoogleGenerativeAI(apiKey);
+
+    // JSON mode needs its own model instance (generationConfig is per model)
+    const textModel = genAI.getGenerativeModel({ model });
+    let jsonModel: GenerativeModel | null = null;
+
+    const getModel = (json: boolean): GenerativeModel => {
+        if (!json) return textModel;
+        if (!jsonModel) {
+            jsonModel = genAI.getGenerativeModel({
+                model,
+                generationConfig: { responseMimeType: "application/json" }
+            });
+        }
+        return jsonModel;
+    };
+
+    return {
+        provider: "gemini",
+        model,
+
+        async generate(request: LlmRequest): Promise<LlmResponse> {
+            if (!apiKey) {
+                throw new LlmError("gemini", 500, "GEMINI_API_KEY is not configured (set LLM_PROVIDER=mock to use the mock client)");
+            }
+            try {
+                const result = await getModel(request.json === true).generateContent(request.prompt);
+                const response = result.response;
+
+                return {
+                    text: response.text(),
+                    tokensUsed: response.usageMetadata?.totalTokenCount || 0,
+                    provider: "gemini",
+                    model
+                };
+            } catch (error: unknown) {
+                // Preserve the upstream status so retryOperation can back off on 429/503
+                const status = typeof error === "object" && error !== null && "status" in error
+                    ? Number((error as { status: unknown }).status) || 500
+                    : 500;
+                const message = error instanceof Error ? error.message : String(error);
+                throw new LlmError("gemini", status, message);
+            }
+        }
+    };
+}
@@ -0,0 +1,266 @@
+/**
+ * Deterministic rule-based LLM mock.
+ *
+ * Produces schema-valid output for every LlmOperation from the structured
+ * `input` passed alongside the prompt - no network, no keys, same answer
+ * every time. Scoring output validates against GeminiResponseSchema.
+ */
+
+import type { LlmClient, LlmOperation, LlmRequest, LlmResponse } from "@/lib/llm-client";
+import type { StrictGeminiScore } from "@/lib/gemini-schema";
+
+// Shapes the mock reads from request.input (subset of what callers pass)
+interface MockProfile {
+    allergies?: string[] | string;
+    dietary?: string[];
+    cuisines?: string[];
+    hasSuperlative?: boolean;
+    intent?: { excludedTerms?: string[] };
+    group?: (MockProfile & { memberId: string })[];
+}
+
+interface MockPlace {
+    place_id: string;
+    name: string;
+    types?: string[];
+    rating?: number;
+    editorialSummary?: string;
+    reviews?: { text: unknown }[];
+}
+
+const MEAT_KEYWORDS = ["steak", "bbq", "barbecue", "grill", "butcher", "burger", "meat"];
+const PLANT_KEYWORDS = ["vegan", "vegetarian", "plant", "salad", "falafel"];
+
+// Allergy -> words that flag a place as risky when found in name/types/summary
+const ALLERGEN_KEYWORDS: Record<string, string[]> = {
+    nut: ["nut", "peanut", "satay", "praline"],
+    peanut: ["peanut", "satay"],
+    dairy: ["cheese", "dairy", "gelato", "creamery"],
+    lactose: ["cheese", "dairy", "gelato", "creamery"],
+    gluten: ["bakery", "pasta", "pizza", "bagel", "pastry"],
+    shellfish: ["shrimp", "lobster", "crab", "oyster", "seafood"],
+    fish: ["fish", "sushi", "seafood"],
+    egg: ["omelette", "egg"],
+    soy: ["tofu", "soy"],
+    sesame: ["sesame", "tahini"]
+};
+
+function toList(value: string[] | string | undefined): string[] {
+    if (!value) return [];
+    return (Array.isArray(value) ? value : [value]).map(v => v.toLowerCase()).filter(Boolean);
+}
+
+function haystackOf(place: MockPlace): string {
+    const reviews = (place.reviews || [])
+        .map(r => typeof r.text === "string" ? r.text : "")
+        .join(" ");
+    return [place.name, (place.types || []).join(" "), place.editorialSummary || "", reviews]
+        .join(" ")
+        .toLowerCase();
+}
+
+function findAllergen(place: MockPlace, profile: MockProfile): string | null {
+    // Reviews are excluded: "no peanuts here" must not flag a place
+    const text = [place.name, (place.types || []).join(" "), place.editorialSummary || ""]
+        .join(" ")
+        .toLowerCase();
+
+    for (const allergy of toList(profile.allergies)) {
+        const key = Object.keys(ALLERGEN_KEYWORDS).find(k => allergy.includes(k));
+        const keywords = key ? ALLERGEN_KEYWORDS[key] : [allergy];
+        if (keywords.some(kw => text.includes(kw))) return allergy;
+    }
+    return null;
+}
+
+function isExcluded(place: MockPlace, profile: MockProfile): boolean {
+    const terms = profile.intent?.excludedTerms || [];
+    const text = `${place.name} ${(place.types || []).join(" ")}`.toLowerCase();
+    return terms.some(term => text.includes(term));
+}
+
+function isPlantBased(profile: MockProfile): boolean {
+    return toList(profile.dietary).some(d => d.includes("vegan") || d.includes("vegetarian"));
+}
+
+function clampScore(value: number): number {
+    return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function scorePlace(place: MockPlace, profile: MockProfile, query: string): StrictGeminiScore {
+    const allergen = findAllergen(place, profile);
+    if (allergen) {
+        return {
+            id: place.place_id,
+            relevanceScore: 0,
+            matchScore: 0,
+            safetyFlag: true,
+            shortReason: `SAFETY RISK: ${allergen} detected in name or cuisine`.substring(0, 150),
+            recommendedDish: "",
+            pros: [],
+            cons: [`Likely contains ${allergen}`],
+            warnings: [`Possible ${allergen} exposure`]
+        };
+    }
+
+    if (isExcluded(place, profile)) {
+        return {
+            id: place.place_id,
+            relevanceScore: 0,
+            matchScore: 0,
+            safetyFlag: false,
+            shortReason: "Excluded by your search",
+            recommendedDish: "",
+            pros: [],
+            cons: [],
+            warnings: []
+        };
+    }
+
+    const haystack = haystackOf(place);
+    const terms = query.toLowerCase().split(/\s+/).filter(t => t.length > 2);
+    const queryHit = terms.length === 0 || terms.some(t => haystack.includes(t));
+    const meatHeavy = MEAT_KEYWORDS.some(kw => haystack.includes(kw));
+    const plantFriendly = PLANT_KEYWORDS.some(kw => haystack.includes(kw));
+    const rating = place.rating || 3;
+
+    const relevanceScore = queryHit ? 90 : 40;
+    let matchScore = (rating * 20 + relevanceScore) / 2;
+
+    if (isPlantBased(profile)) {
+        if (meatHeavy && !plantFriendly) matchScore -= 40;
+        if (plantFriendly) matchScore += 10;
+    }
+    if (profile.hasSuperlative && rating < 4.5) matchScore -= 30;
+
+    const pros = [`${rating}⭐ rating`];
+    if (plantFriendly) pros.push("Plant-based options mentioned");
+
+    const cons: string[] = [];
+    if (meatHeavy) cons.push("Meat-focused menu");
+    if (!queryHit) cons.push(`No "${query}" mentioned`);
+
+    return {
+        id: place.place_id,
+        relevanceScore,
+        matchScore: clampScore(matchScore),
+        safetyFlag: false,
+        shortReason: (queryHit ? `Matches "${query}"` : "Nearby alternative").substring(0, 150),
+        recommendedDish: "",
+        pros,
+        cons,
+        warnings: []
+    };
+}
+
+// =============================================================================
+// OPERATION HANDLERS
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Handler = (input: any) => unknown;
+
+const handlers: Record<LlmOperation, Handler> = {
+    scout: ({ candidates = [], profile = {} }: { candidates?: MockPlace[]; profile?: MockProfile }) => {
+        const plantBased = isPlantBased(profile);
+        const eligible = candidates.filter(c =>
+            !findAllergen(c, profile) &&
+            !isExcluded(c, profile) &&
+            !(plantBased && MEAT_KEYWORDS.some(kw => haystackOf(c).includes(kw)))
+        );
+        const ranked = [...eligible].sort((a, b) => (b.rating || 0) - (a.rating || 0));
+
+        if (ranked.length === 0 && candidates.length > 0) {
+            return {
+                perfectMatches: [],
+                survivalOption: { id: candidates[0].place_id, reason: "Closest option - check the menu first" },
+                isSurvivalMode: true
+            };
+        }
+        return {
+            perfectMatches: ranked.slice(0, 6).map(c => c.place_id),
+            survivalOption: null,
+            isSurvivalMode: false
+        };
+    },
+
+    score: ({ places = [], profile = {}, query = "" }: { places?: MockPlace[]; profile?: MockProfile; query?: string }) =>
+        places.map(p => {
+            const score = scorePlace(p, profile, query);
+            if (!profile.group?.length) return score;
+
+            // Group mode: score each diner on their own profile + the shared query intent
+            const memberFits = profile.group.map(member => {
+                const fit = scorePlace(p, { ...member, intent: profile.intent }, query);
+                return {
+                    memberId: member.memberId,
+                    fitScore: fit.matchScore,
+                    safetyFlag: fit.safetyFlag,
+                    reason: fit.shortReason.substring(0, 100)
+                };
+            });
+            return { ...score, memberFits };
+        }),
+
+    "batch-lite": ({ places = [], profile = {} }: { places?: MockPlace[]; profile?: MockProfile }) =>
+        places.map(p => {
+            const score = scorePlace(p, profile, (profile.cuisines || []).join(" "));
+            return {
+                matchScore: score.matchScore,
+                shortReason: score.shortReason,
+                recommendedDish: "N/A"
+            };
+        }),
+
+    "place-score": ({ name = "", profile = {} }: { name?: string; profile?: MockProfile }) => {
+        const score = scorePlace({ place_id: "", name }, profile, (profile.cuisines || []).join(" "));
+        return {
+            matchScore: score.matchScore,
+            shortReason: score.shortReason,
+            pros: score.pros,
+            cons: score.cons,
+            recommendedDish: "",
+            warnings: score.warnings
+        };
+    },
+
+    discovery: ({ keyword = "", categories = [] }: { keyword?: string; categories?: string[] }) =>
+        categories.length > 0
+            ? `We couldn't find any ${keyword} nearby, but you might enjoy these ${categories[0].replace(/_/g, " ")} alternatives.`
+            : `We couldn't find any ${keyword} nearby. Try increasing the search radius.`,
+
+    "menu-suggest": ({ cuisineType = "restaurant" }: { cuisineType?: string }) => ({
+        suggestions: [
+            "Add more vegetarian options to appeal to health-conscious diners",
+            "Consider gluten-free alternatives for pasta dishes",
+            "Expand vegan dessert selection"
+        ],
+        reasoning: `Rule-based suggestions for a ${cuisineType} menu (mock LLM).`
+    }),
+
+    pricing: ({ avgCheckSize = 50 }: { avgCheckSize?: number }) => ({
+        recommendedDeposit: Math.round(avgCheckSize * 0.2), // 20% of check
+        reasoning: "Standard deposit ratio for this price point to ensure commitment.",
+        projectedNoShowRate: 4.5,
+        projectedBookingRate: 92.0,
+        marketContext: { similarCount: 15 }
+    })
+};
+
+export function createMockLlmClient(model: string): LlmClient {
+    return {
+        provider: "mock",
+        model,
+
+        async generate(request: LlmRequest): Promise<LlmResponse> {
+            const output = handlers[request.operation](request.input ?? {});
+
+            return {
+                text: typeof output === "string" ? output : JSON.stringify(output),
+                tokensUsed: 0,
+                provider: "mock",
+                model
+            };
+        }
+    };
+}
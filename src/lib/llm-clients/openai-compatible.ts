@@ -0,0 +1,66 @@
+/**
+ * OpenAI-compatible /chat/completions adapter.
+ * Works with local Ollama (`ollama serve`), llama.cpp server, vLLM or OpenAI.
+ *
+ * OPENAI_BASE_URL defaults to Ollama's OpenAI endpoint (http://localhost:11434/v1).
+ * OPENAI_API_KEY is optional for local servers.
+ */
+
+import { LlmError, type LlmClient, type LlmRequest, type LlmResponse } from "@/lib/llm-client";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+export function createOpenAiCompatibleLlmClient(model: string): LlmClient {
+    const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+    return {
+        provider: "openai",
+        model,
+
+        async generate(request: LlmRequest): Promise<LlmResponse> {
+            const headers: Record<string, string> = { "Content-Type": "application/json" };
+            if (process.env.OPENAI_API_KEY) {
+                headers["Authorization"] = `Bearer ${process.env.OPENAI_API_KEY}`;
+            }
+
+            const messages = [
+                ...(request.json
+                    ? [{ role: "system", content: "Respond with raw JSON only. No markdown, no prose." }]
+                    : []),
+                { role: "user", content: request.prompt }
+            ];
+
+            let res: Response;
+            try {
+                res = await fetch(`${baseUrl}/chat/completions`, {
+                    method: "POST",
+                    headers,
+                    body: JSON.stringify({ model, messages, temperature: 0.2 })
+                });
+            } catch (error) {
+                // Network failure - message contains "fetch" so retryOperation retries it
+                const message = error instanceof Error ? error.message : String(error);
+                throw new LlmError("openai", 503, `fetch failed: ${message}`);
+            }
+
+            if (!res.ok) {
+                const errorText = await res.text();
+                console.error(`[LLM:openai] ${res.status}:`, errorText.substring(0, 200));
+                throw new LlmError("openai", res.status, `OpenAI-compatible API error: ${res.status}`);
+            }
+
+            const data = await res.json();
+            const text = data.choices?.[0]?.message?.content;
+            if (typeof text !== "string") {
+                throw new LlmError("openai", 502, "OpenAI-compatible API returned no message content");
+            }
+
+            return {
+                text,
+                tokensUsed: data.usage?.total_tokens || 0,
+                provider: "openai",
+                model
+            };
+        }
+    };
+}
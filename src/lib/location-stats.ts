@@ -0,0 +1,67 @@
+/**
+ * Location Stats - reservation numbers per location for the multi-location
+ * overview (LocationsOverview in the dashboard)
+ *
+ * RULES:
+ * - Stats cover bookings dated within the last LOCATION_STATS_DAYS days,
+ *   plus everything booked from today on
+ * - Covers count guests that were actually served (seated / finished)
+ * - No-show rate is no-shows out of bookings that reached their sitting
+ *   (seated, finished, no-show); cancellation rate is out of all bookings
+ * - Totals are sums, rates are recomputed from the summed counts (not an
+ *   average of per-location rates)
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import type { ReservationStatus } from "@/types";
+
+export const LOCATION_STATS_DAYS = 30;
+
+const SERVED: ReservationStatus[] = ["seated", "finished"];
+const CANCELLED: ReservationStatus[] = ["cancelled_by_guest", "cancelled_by_venue", "cancelled"];
+
+export interface StatsReservation {
+    status: ReservationStatus;
+    guests: number;
+    dateKey: string;        // YYYY-MM-DD
+}
+
+export interface LocationStats {
+    bookings: number;
+    covers: number;
+    pending: number;
+    upcoming: number;       // Confirmed, today or later
+    noShows: number;
+    sittings: number;       // Seated, finished or no-show
+    cancelled: number;
+}
+
+export const EMPTY_LOCATION_STATS: LocationStats = {
+    bookings: 0, covers: 0, pending: 0, upcoming: 0, noShows: 0, sittings: 0, cancelled: 0
+};
+
+export function summarizeLocation(reservations: StatsReservation[], todayKey: string): LocationStats {
+    return reservations.reduce((stats, res) => ({
+        bookings: stats.bookings + 1,
+        covers: stats.covers + (SERVED.includes(res.status) ? res.guests : 0),
+        pending: stats.pending + (res.status === "pending" ? 1 : 0),
+        upcoming: stats.upcoming + (res.status === "confirmed" && res.dateKey >= todayKey ? 1 : 0),
+        noShows: stats.noShows + (res.status === "no_show" ? 1 : 0),
+        sittings: stats.sittings + (SERVED.includes(res.status) || res.status === "no_show" ? 1 : 0),
+        cancelled: stats.cancelled + (CANCELLED.includes(res.status) ? 1 : 0)
+    }), EMPTY_LOCATION_STATS);
+}
+
+export function combineLocationStats(all: LocationStats[]): LocationStats {
+    return all.reduce((total, stats) => {
+        const sum = { ...total };
+        (Object.keys(sum) as (keyof LocationStats)[]).forEach(key => { sum[key] += stats[key]; });
+        return sum;
+    }, EMPTY_LOCATION_STATS);
+}
+
+/** "12%", or "–" when there is nothing to divide by */
+export function formatRate(count: number, total: number): string {
+    return total > 0 ? `${Math.round((count / total) * 100)}%` : "–";
+}
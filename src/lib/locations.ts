@@ -0,0 +1,163 @@
+/**
+ * Locations - owners with several restaurants (Enterprise multi-location)
+ *
+ * Ownership is `restaurants/{placeId}.ownerId`, the field firestore.rules and
+ * every API check; an owner's locations are the restaurants carrying their
+ * uid. `users/{uid}.business.placeId` is only the location the dashboard
+ * opens on.
+ *
+ * RULES:
+ * - Claims go through /api/business/claim; plans without `multiLocation`
+ *   (plan-limits.ts) own one restaurant, a second claim is refused
+ * - Copying between locations needs an Enterprise plan and ownership of the
+ *   source and every target
+ * - Copied menus arrive as drafts: the target's published menus keep being
+ *   served until the owner publishes there (menu-schedule.ts); menus only the
+ *   target has are never touched
+ * - Each target is written in one batch, so a copy lands whole or not at all
+ * - Hours copy the timezone and exceptions too; pricing is the deposit
+ *   strategy plus the cancellation policy (deposits.ts, reservation-policy.ts)
+ */
+
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getBusinessLimits, ownerPlanOf } from "@/lib/plan-limits";
+import { DEFAULT_MENU_ID, menuIdOf } from "@/lib/menu";
+import type { DocumentData, DocumentReference, WriteBatch } from "firebase-admin/firestore";
+
+export const COPY_SECTIONS = ["menus", "hours", "pricing"] as const;
+export type CopySection = typeof COPY_SECTIONS[number];
+
+// Restaurant doc fields per copied section (menus are subcollections)
+const SECTION_FIELDS: Record<Exclude<CopySection, "menus">, string[]> = {
+    hours: ["opening_hours", "openingHoursSpecification", "openingHoursExceptions", "timeZone"],
+    pricing: ["pricingStrategy", "reservationPolicy"]
+};
+
+const MAX_COPY_TARGETS = 25;
+const MAX_BATCH_WRITES = 500;      // Firestore batch limit
+
+export class LocationError extends Error {
+    constructor(public readonly status: number, public readonly code: string, message: string) {
+        super(message);
+        this.name = "LocationError";
+    }
+}
+
+export const CopyLocationSchema = z.object({
+    sourcePlaceId: z.string().trim().min(1).max(300),
+    targetPlaceIds: z.array(z.string().trim().min(1).max(300)).min(1).max(MAX_COPY_TARGETS),
+    sections: z.array(z.enum(COPY_SECTIONS)).min(1)
+});
+
+export type CopyLocationInput = z.infer<typeof CopyLocationSchema>;
+
+export async function listOwnedPlaceIds(uid: string): Promise<string[]> {
+    const snap = await getAdminDb().collection("restaurants").where("ownerId", "==", uid).get();
+    return snap.docs.map(doc => doc.id);
+}
+
+/**
+ * Refuses a claim that would give a single-location plan a second restaurant.
+ */
+export async function assertCanClaimLocation(uid: string, placeId: string, userData: DocumentData | undefined): Promise<void> {
+    if (getBusinessLimits(ownerPlanOf(userData)).multiLocation) return;
+
+    const owned = await listOwnedPlaceIds(uid);
+    if (owned.some(id => id !== placeId)) {
+        throw new LocationError(403, "MULTI_LOCATION_REQUIRED", "Managing several restaurants is part of the Enterprise plan");
+    }
+}
+
+/**
+ * Queues the source's menus onto `batch` as drafts of the target. Menus both
+ * have are replaced (the target's published version and numbering stay);
+ * menus only the target has are left as they are, items included. A source
+ * without menus yet (menu-schedule.ts legacy fallback) becomes one draft "Menu".
+ */
+async function queueMenuCopy(
+    batch: WriteBatch,
+    source: DocumentReference,
+    legacyItems: DocumentData[],
+    target: DocumentReference,
+    now: string
+): Promise<number> {
+    const [sourceItems, sourceMenus, targetItems, targetMenus] = await Promise.all([
+        source.collection("menu").get(),
+        source.collection("menus").get(),
+        target.collection("menu").get(),
+        target.collection("menus").get()
+    ]);
+
+    const items = sourceItems.empty
+        ? legacyItems.filter(item => item.id).map(item => ({ id: String(item.id), data: item }))
+        : sourceItems.docs.map(doc => ({ id: doc.id, data: doc.data() }));
+    const menus = sourceMenus.empty
+        ? [{ id: DEFAULT_MENU_ID, data: { name: "Menu", schedule: {}, position: 0 } as DocumentData }]
+        : sourceMenus.docs.map(doc => ({ id: doc.id, data: doc.data() }));
+
+    const copiedMenuIds = new Set(menus.map(menu => menu.id));
+    const existingMenuIds = new Set(targetMenus.docs.map(doc => doc.id));
+    const replacedItems = targetItems.docs.filter(doc => copiedMenuIds.has(menuIdOf(doc.data())));
+
+    replacedItems.forEach(doc => batch.delete(doc.ref));
+    items.forEach(item => batch.set(target.collection("menu").doc(item.id), item.data));
+    menus.forEach(({ id, data }) => {
+        const ref = target.collection("menus").doc(id);
+        const draft = { id, name: data.name, schedule: data.schedule || {}, position: data.position ?? 0, updatedAt: now };
+        if (existingMenuIds.has(id)) batch.update(ref, draft);
+        else batch.set(ref, { ...draft, published: null, latestVersion: 0, createdAt: now });
+    });
+    return replacedItems.length + items.length + menus.length;
+}
+
+/**
+ * Copies menus / hours / pricing from one of the owner's locations to others.
+ */
+export async function copyLocationSettings(uid: string, input: CopyLocationInput): Promise<{ targets: number }> {
+    const db = getAdminDb();
+    const targetIds = [...new Set(input.targetPlaceIds)].filter(id => id !== input.sourcePlaceId);
+    if (targetIds.length === 0) throw new LocationError(400, "INVALID_TARGETS", "Pick at least one other location");
+
+    const owner = (await db.collection("users").doc(uid).get()).data();
+    if (!getBusinessLimits(ownerPlanOf(owner)).multiLocation) {
+        throw new LocationError(403, "MULTI_LOCATION_REQUIRED", "Copying between locations is part of the Enterprise plan");
+    }
+
+    const refs = [input.sourcePlaceId, ...targetIds].map(id => db.collection("restaurants").doc(id));
+    const snaps = await db.getAll(...refs);
+    const notOwned = snaps.find(snap => snap.data()?.ownerId !== uid);
+    if (notOwned) throw new LocationError(403, "FORBIDDEN", `You don't own ${notOwned.id}`);
+
+    const [source, ...targets] = snaps;
+    const sourceData = source.data()!;
+    const now = new Date().toISOString();
+
+    const fields: Record<string, unknown> = {};
+    input.sections.forEach(section => {
+        if (section === "menus") return;
+        SECTION_FIELDS[section]
+            .filter(field => sourceData[field] !== undefined)
+            .forEach(field => { fields[field] = sourceData[field]; });
+    });
+
+    // One batch per target - a failed copy leaves that location untouched
+    for (const target of targets) {
+        const batch = db.batch();
+        let writes = 0;
+        if (Object.keys(fields).length > 0) {
+            batch.update(target.ref, { ...fields, updatedAt: now });
+            writes++;
+        }
+        if (input.sections.includes("menus")) {
+            writes += await queueMenuCopy(batch, source.ref, sourceData.menu?.items || [], target.ref, now);
+        }
+        if (writes > MAX_BATCH_WRITES) {
+            throw new LocationError(400, "MENU_TOO_LARGE", `The menu is too large to copy to ${target.id} in one go`);
+        }
+        if (writes > 0) await batch.commit();
+    }
+
+    console.log(`[Locations] 📋 Copied ${input.sections.join(", ")} from ${source.id} to ${targets.length} location(s)`);
+    return { targets: targets.length };
+}
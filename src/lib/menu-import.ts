@@ -0,0 +1,498 @@
+/**
+ * Menu Import - spreadsheets, website JSON-LD and pasted text into menu items
+ *
+ * Sources:
+ * - CSV / XLSX: one item per row, columns found by their header (English or
+ *   Slovak: name / názov, price / cena, category / kategória, ...)
+ * - JSON-LD:    schema.org `Menu` → `MenuSection` → `MenuItem` scraped from
+ *               the restaurant's website (POST /api/menu/import)
+ * - Text:       OCR output or text copied from a PDF menu - "Name ... 12,50 €"
+ *               lines, section headings and description lines below an item
+ *
+ * RULES:
+ * - Categories map onto MENU_CATEGORIES by keyword (soups and starters →
+ *   Starters, desserts → Desserts, ...); anything else is a Main
+ * - Allergens are only taken from explicit markers - EU numbers "(1, 3, 7)",
+ *   "A: 1,3" or named allergens (allergens.ts) - never guessed from the
+ *   description
+ * - Dietary tags come from the tag column / schema.org `suitableForDiet`, or
+ *   from words like "vegan" / "bezlepkové" in the text
+ * - Rows without a name or a price are skipped and counted
+ * - Nothing is written here: diffMenu() shows the owner what changes before
+ *   MenuImportDialog merges the items they keep
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import { toAllergenIds, type AllergenId } from "@/lib/allergens";
+import { DEFAULT_MENU_CATEGORY, normalizeMenuName } from "@/lib/menu";
+import type { MenuItem } from "@/types";
+
+export type ImportedMenuItem = Omit<MenuItem, "id" | "imageUrl" | "menuId">;
+
+export type MenuImportSource = "spreadsheet" | "website" | "text";
+
+export interface MenuImportResult {
+    items: ImportedMenuItem[];
+    skipped: number;             // Rows / lines that looked like items but had no name or price
+}
+
+export const MAX_IMPORT_ITEMS = 300;
+
+const DIETARY_WORDS: [RegExp, string][] = [
+    [/\bvegan|vegánsk/, "Vegan"],
+    [/vegetarian|vegetarián|\(v\)/, "Vegetarian"],
+    [/gluten[- ]?free|bezlepk|\(gf\)/, "Gluten-Free"],
+    [/lactose[- ]?free|bezlaktóz/, "Lactose-Free"],
+    [/spicy|pikant|pálivé|🌶/, "Spicy"],
+    [/\bketo\b/, "Keto"],
+    [/\bpaleo\b/, "Paleo"],
+    [/\bhalal\b/, "Halal"],
+    [/\bkosher\b/, "Kosher"]
+];
+
+const CATEGORY_WORDS: [RegExp, string][] = [
+    [/starter|appeti[sz]er|soup|salad|predjed|polievk|polévk|šalát|studen/, "Starters"],
+    [/dessert|sweet|cake|dezert|zákusk|sladk|koláč/, "Desserts"],
+    [/drink|beverage|wine|beer|coffee|tea\b|cocktail|nápoj|víno|vína|pivo|káva|čaj|alko/, "Drinks"],
+    [/special|daily|chef|denné|týždenn|špecial|sezónn/, "Specials"],
+    [/main|entr[eé]e|pizza|pasta|burger|grill|steak|hlavn|jedl|cestovin/, "Mains"]
+];
+
+// =============================================================================
+// FIELD PARSING
+// =============================================================================
+
+/**
+ * "12,50 €" / "€12.50" / "12.5" → 12.5, null when there is no price.
+ */
+export function parsePrice(value: unknown): number | null {
+    if (typeof value === "number") return value > 0 ? Math.round(value * 100) / 100 : null;
+    if (typeof value !== "string") return null;
+    const match = value.replace(/\s/g, "").match(/(\d+)(?:[.,](\d{1,2}))?/);
+    if (!match) return null;
+    const price = Number(`${match[1]}.${match[2] || "0"}`);
+    return price > 0 ? Math.round(price * 100) / 100 : null;
+}
+
+export function toMenuCategory(label: string | undefined | null): string {
+    const text = (label || "").toLowerCase();
+    return CATEGORY_WORDS.find(([pattern]) => pattern.test(text))?.[1] || DEFAULT_MENU_CATEGORY;
+}
+
+/**
+ * Allergens from an explicit list - EU numbers or names, any separator.
+ */
+export function parseAllergens(value: string | undefined | null): AllergenId[] {
+    return value ? toAllergenIds(value) : [];
+}
+
+export function detectDietary(text: string | undefined | null): string[] {
+    const lower = (text || "").toLowerCase();
+    const found = DIETARY_WORDS.filter(([pattern]) => pattern.test(lower)).map(([, tag]) => tag);
+    // Vegan food is vegetarian too
+    if (found.includes("Vegan") && !found.includes("Vegetarian")) found.push("Vegetarian");
+    return found;
+}
+
+const WEIGHT_PATTERN = /(?:^|\s|\()(\d+(?:[.,]\d+)?\s?(?:kg|g|ml|cl|dl|l|ks|pcs))(?=$|\s|\)|,)/i;
+
+// Allergen markers at the end of a line: "(1, 3, 7)", "A: 1,3,7", "Alergény: 1, 7"
+const ALLERGEN_MARKER_PATTERN = /(?:(?:^|\s)(?:a|alerg[ée]ny|allergens?)\s*:\s*([^:()]+?)|\((\d{1,2}[a-z]?(?:\s*[,;]\s*\d{1,2}[a-z]?)*)\))\s*$/i;
+
+function extractAllergenMarker(text: string): { text: string; allergens: string[] } {
+    const match = text.match(ALLERGEN_MARKER_PATTERN);
+    if (!match) return { text, allergens: [] };
+    return { text: text.slice(0, match.index).trim(), allergens: parseAllergens(match[1] || match[2]) };
+}
+
+function extractWeight(text: string): { text: string; weight?: string } {
+    const match = text.match(WEIGHT_PATTERN);
+    if (!match) return { text };
+    return { text: text.replace(match[1], "").replace(/\(\s*\)/, "").replace(/\s{2,}/g, " ").trim(), weight: match[1].replace(/\s/g, "") };
+}
+
+function cleanName(name: string): string {
+    return name.replace(/[.…_–-]{2,}/g, " ").replace(/^[\d]+[.)]\s+/, "").replace(/\s{2,}/g, " ").trim();
+}
+
+function uniqueItems(items: ImportedMenuItem[]): ImportedMenuItem[] {
+    const seen = new Set<string>();
+    return items.filter(item => {
+        const key = normalizeMenuName(item.name);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    }).slice(0, MAX_IMPORT_ITEMS);
+}
+
+// =============================================================================
+// CSV / XLSX
+// =============================================================================
+
+type Column = "name" | "description" | "price" | "weight" | "category" | "allergens" | "dietary";
+
+const HEADER_WORDS: [RegExp, Column][] = [
+    [/^(name|item|dish|title|n[áa]zov|polo[žz]ka|jedlo)/, "name"],
+    [/^(desc|popis|zlo[žz]enie|ingredients)/, "description"],
+    [/^(price|cena|€|eur)/, "price"],
+    [/^(weight|portion|size|gram|hmotnos|objem|v[áa]ha|porcia)/, "weight"],
+    [/^(category|section|course|kateg[óo]ria|sekcia|druh)/, "category"],
+    [/^(allergen|alerg)/, "allergens"],
+    [/^(dietary|diet|tags|[šs]t[íi]tky)/, "dietary"]
+];
+
+/**
+ * RFC 4180 CSV with the delimiter guessed from the first line (Excel in
+ * Slovak locale writes ";").
+ */
+export function parseCsv(text: string): string[][] {
+    const firstLine = text.split(/\r?\n/, 1)[0] || "";
+    const delimiter = [";", "\t", ","].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ",");
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else cell += char;
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim()));
+}
+
+/**
+ * Spreadsheet rows (CSV or the first XLSX sheet) → items. The first row must
+ * be a header with at least a name and a price column.
+ */
+export function parseMenuRows(rows: unknown[][]): MenuImportResult {
+    const cells = rows.map(r => r.map(c => c === null || c === undefined ? "" : String(c).trim()));
+    const header = cells[0] || [];
+    const columns = new Map<Column, number>();
+    header.forEach((title, index) => {
+        const column = HEADER_WORDS.find(([pattern]) => pattern.test(title.toLowerCase()))?.[1];
+        if (column && !columns.has(column)) columns.set(column, index);
+    });
+    if (!columns.has("name") || !columns.has("price")) {
+        throw new Error("The first row needs at least a Name and a Price column");
+    }
+
+    const get = (row: string[], column: Column) => columns.has(column) ? row[columns.get(column)!] || "" : "";
+    let skipped = 0;
+    const items: ImportedMenuItem[] = [];
+
+    for (const row of cells.slice(1)) {
+        const name = get(row, "name");
+        const price = parsePrice(get(row, "price"));
+        if (!name || price === null) {
+            skipped++;
+            continue;
+        }
+        const description = get(row, "description");
+        const dietaryCell = get(row, "dietary");
+        items.push({
+            name,
+            description,
+            price,
+            weight: get(row, "weight"),
+            category: toMenuCategory(get(row, "category")),
+            allergens: parseAllergens(get(row, "allergens")),
+            dietary: detectDietary(dietaryCell || `${name} ${description}`)
+        });
+    }
+
+    return { items: uniqueItems(items), skipped };
+}
+
+export function parseMenuCsv(text: string): MenuImportResult {
+    return parseMenuRows(parseCsv(text));
+}
+
+// =============================================================================
+// SCHEMA.ORG JSON-LD
+// =============================================================================
+
+type JsonNode = Record<string, unknown>;
+
+function asArray(value: unknown): unknown[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+function hasType(node: JsonNode, type: string): boolean {
+    return asArray(node["@type"]).some(t => typeof t === "string" && t.replace(/^.*[/:]/, "") === type);
+}
+
+function text(value: unknown): string {
+    if (typeof value === "string") return value.trim();
+    if (typeof value === "number") return String(value);
+    return "";
+}
+
+function offerPrice(node: JsonNode): number | null {
+    for (const offer of asArray(node.offers)) {
+        if (offer && typeof offer === "object") {
+            const price = parsePrice((offer as JsonNode).price ?? (offer as JsonNode).lowPrice);
+            if (price !== null) return price;
+        }
+    }
+    return null;
+}
+
+const SCHEMA_DIETS: Record<string, string> = {
+    VeganDiet: "Vegan",
+    VegetarianDiet: "Vegetarian",
+    GlutenFreeDiet: "Gluten-Free",
+    HalalDiet: "Halal",
+    KosherDiet: "Kosher",
+    LowLactoseDiet: "Lactose-Free"
+};
+
+function toImportedItem(node: JsonNode, category: string): ImportedMenuItem | null {
+    const name = text(node.name);
+    const price = offerPrice(node);
+    if (!name || price === null) return null;
+
+    const marker = extractAllergenMarker(text(node.description));
+    const diets = asArray(node.suitableForDiet)
+        .map(d => SCHEMA_DIETS[text(d).replace(/^.*[/:]/, "")])
+        .filter((d): d is string => !!d);
+    const nutrition = node.nutrition && typeof node.nutrition === "object" ? node.nutrition as JsonNode : null;
+
+    return {
+        name,
+        description: marker.text,
+        price,
+        weight: text(nutrition?.servingSize),
+        category,
+        allergens: marker.allergens,
+        dietary: [...new Set([...diets, ...detectDietary(`${name} ${marker.text}`)])]
+    };
+}
+
+/**
+ * Every `MenuItem` under the given JSON-LD documents (Menu, MenuSection,
+ * @graph or bare items), with the enclosing section as category.
+ */
+export function parseMenuJsonLd(documents: unknown[]): MenuImportResult {
+    const items: ImportedMenuItem[] = [];
+    let skipped = 0;
+
+    const visit = (value: unknown, category: string) => {
+        for (const entry of asArray(value)) {
+            if (!entry || typeof entry !== "object") continue;
+            const node = entry as JsonNode;
+
+            if (hasType(node, "MenuItem")) {
+                const item = toImportedItem(node, category);
+                if (item) items.push(item);
+                else skipped++;
+                continue;
+            }
+
+            const sectionCategory = hasType(node, "MenuSection") ? toMenuCategory(text(node.name)) : category;
+            visit(node["@graph"], sectionCategory);
+            visit(node.hasMenu, sectionCategory);
+            visit(node.hasMenuSection, sectionCategory);
+            visit(node.hasMenuItem, sectionCategory);
+        }
+    };
+
+    visit(documents, DEFAULT_MENU_CATEGORY);
+    return { items: uniqueItems(items), skipped };
+}
+
+/**
+ * Contents of every `<script type="application/ld+json">` block in `html`
+ * that parses.
+ */
+export function extractJsonLd(html: string): unknown[] {
+    const documents: unknown[] = [];
+    const pattern = /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+    for (const match of html.matchAll(pattern)) {
+        try {
+            documents.push(JSON.parse(match[1].trim()));
+        } catch {
+            // Broken markup on the site - skip the block
+        }
+    }
+    return documents;
+}
+
+/**
+ * `hasMenu` links that point to a separate menu page instead of embedding it.
+ */
+export function findMenuLinks(documents: unknown[]): string[] {
+    const links: string[] = [];
+    const visit = (value: unknown) => {
+        for (const entry of asArray(value)) {
+            if (!entry || typeof entry !== "object") continue;
+            const node = entry as JsonNode;
+            for (const menu of asArray(node.hasMenu)) {
+                if (typeof menu === "string") links.push(menu);
+                else if (menu && typeof menu === "object" && typeof (menu as JsonNode).url === "string" && !(menu as JsonNode).hasMenuSection && !(menu as JsonNode).hasMenuItem) {
+                    links.push((menu as JsonNode).url as string);
+                }
+            }
+            visit(node["@graph"]);
+        }
+    };
+    visit(documents);
+    return [...new Set(links)];
+}
+
+// =============================================================================
+// TEXT (OCR / PDF)
+// =============================================================================
+
+const PRICE_AT_END = /(?:€\s*)?(\d{1,4}(?:[.,]\d{1,2})?)\s*(?:€|eur|,-)?\s*$/i;
+
+function isHeading(line: string): boolean {
+    if (/\d/.test(line) || line.length > 40) return false;
+    const letters = line.replace(/[^\p{L}]/gu, "");
+    return line.endsWith(":") || (letters.length > 2 && letters === letters.toUpperCase()) || CATEGORY_WORDS.some(([pattern]) => pattern.test(line.toLowerCase()));
+}
+
+/**
+ * Menu text, one item per line with the price at the end. A line without a
+ * price is a section heading when it looks like one, otherwise the
+ * description of the item above.
+ */
+export function parseMenuText(input: string): MenuImportResult {
+    const items: ImportedMenuItem[] = [];
+    let category = DEFAULT_MENU_CATEGORY;
+    let skipped = 0;
+    let last: ImportedMenuItem | null = null;
+
+    for (const rawLine of input.split(/\r?\n/)) {
+        const line = rawLine.replace(/\s+/g, " ").trim();
+        if (!line) {
+            last = null;
+            continue;
+        }
+
+        const marker = extractAllergenMarker(line);
+        const priceMatch = marker.text.match(PRICE_AT_END);
+        const hasPrice = !!priceMatch && /[.,€]|eur|\s\d+$/i.test(priceMatch[0]) && priceMatch.index! > 0;
+
+        if (!hasPrice) {
+            if (isHeading(line)) {
+                category = toMenuCategory(line.replace(/:$/, ""));
+                last = null;
+            } else if (last) {
+                const description = extractAllergenMarker(line);
+                last.description = [last.description, description.text].filter(Boolean).join(" ");
+                last.allergens = [...new Set([...(last.allergens || []), ...description.allergens])];
+                last.dietary = [...new Set([...(last.dietary || []), ...detectDietary(description.text)])];
+            }
+            continue;
+        }
+
+        // Allergens can sit before the price too: "Goulash 300g (1,7) 8,90 €"
+        const inner = extractAllergenMarker(marker.text.slice(0, priceMatch!.index).trim());
+        const price = parsePrice(priceMatch![1]);
+        const { text: rest, weight } = extractWeight(inner.text);
+        const name = cleanName(rest);
+        if (!name || price === null) {
+            skipped++;
+            last = null;
+            continue;
+        }
+
+        last = {
+            name,
+            description: "",
+            price,
+            weight: weight || "",
+            category,
+            allergens: [...new Set([...marker.allergens, ...inner.allergens])],
+            dietary: detectDietary(name)
+        };
+        items.push(last);
+    }
+
+    return { items: uniqueItems(items), skipped };
+}
+
+// =============================================================================
+// PREVIEW
+// =============================================================================
+
+export type MenuChangeKind = "add" | "update" | "unchanged" | "missing";
+
+export interface MenuChange {
+    key: string;                 // normalizeMenuName of the item
+    kind: MenuChangeKind;
+    existing?: MenuItem;
+    imported?: ImportedMenuItem;
+    fields: (keyof ImportedMenuItem)[];   // Changed fields for "update"
+}
+
+const COMPARED_FIELDS: (keyof ImportedMenuItem)[] = ["description", "price", "weight", "category", "allergens", "dietary"];
+
+function sameValue(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) || Array.isArray(b)) {
+        const left = [...asArray(a)].map(String).sort();
+        const right = [...asArray(b)].map(String).sort();
+        return left.length === right.length && left.every((v, i) => v === right[i]);
+    }
+    return (a ?? "") === (b ?? "");
+}
+
+/**
+ * The existing item with the imported values applied. Empty imported fields
+ * keep what the owner had (a spreadsheet without a description column
+ * doesn't wipe descriptions); the photo always stays.
+ */
+export function mergeMenuItem(existing: MenuItem, imported: ImportedMenuItem): MenuItem {
+    const merged: MenuItem = { ...existing, name: imported.name, price: imported.price, category: imported.category };
+    if (imported.description) merged.description = imported.description;
+    if (imported.weight) merged.weight = imported.weight;
+    if (imported.allergens?.length) merged.allergens = imported.allergens;
+    if (imported.dietary?.length) merged.dietary = imported.dietary;
+    return merged;
+}
+
+/**
+ * What importing `imported` would do to `existing`, matched by name.
+ */
+export function diffMenu(existing: MenuItem[], imported: ImportedMenuItem[]): MenuChange[] {
+    const byKey = new Map(existing.map(item => [normalizeMenuName(item.name), item]));
+    const changes: MenuChange[] = imported.map(item => {
+        const key = normalizeMenuName(item.name);
+        const current = byKey.get(key);
+        if (!current) return { key, kind: "add", imported: item, fields: [] };
+
+        const merged = mergeMenuItem(current, item);
+        const fields = COMPARED_FIELDS.filter(field => !sameValue(current[field], merged[field]));
+        return { key, kind: fields.length ? "update" : "unchanged", existing: current, imported: item, fields };
+    });
+
+    const importedKeys = new Set(changes.map(c => c.key));
+    for (const [key, item] of byKey) {
+        if (!importedKeys.has(key)) changes.push({ key, kind: "missing", existing: item, fields: [] });
+    }
+    return changes;
+}
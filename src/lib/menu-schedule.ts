@@ -0,0 +1,194 @@
+/**
+ * Menu Schedule - named menus, when they are served and which one is active
+ *
+ * A restaurant can have several menus (`restaurants/{placeId}/menus`): an
+ * all-day menu, a weekday lunch menu, a weekend brunch, a seasonal menu...
+ * Owners edit drafts (MenuEditor) and publish numbered versions; diners only
+ * ever see published versions.
+ *
+ * RULES:
+ * - Schedules are evaluated in the restaurant's timezone (opening-hours.ts)
+ * - When several menus are served at once the most specific wins: a date
+ *   range beats a time window beats a day filter beats "always", ties go to
+ *   the owner's order
+ * - Before an owner has set up menus, the items in `restaurants/{placeId}/menu`
+ *   are served as one always-on menu (older restaurants keep working)
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import { getLocalTime, type OpeningHoursSource } from "@/lib/opening-hours";
+import { DEFAULT_MENU_ID, menuIdOf } from "@/lib/menu";
+import type { MenuItem, MenuSchedule, RestaurantMenu, ServedMenu } from "@/types";
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function parseTime(value: string | undefined): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() || "");
+    if (!match) return null;
+    const minutes = Number(match[1]) * 60 + Number(match[2]);
+    return minutes <= MINUTES_PER_DAY ? minutes : null;
+}
+
+function isDateKey(value: string | undefined): value is string {
+    return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function addDays(dateKey: string, days: number): string {
+    const date = new Date(`${dateKey}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Owner input problems, null when the schedule is fine.
+ */
+export function validateSchedule(schedule: MenuSchedule): string | null {
+    if (schedule.days && schedule.days.length === 0) return "Pick at least one day";
+    if (!!schedule.startTime !== !!schedule.endTime) return "Set both a start and an end time";
+    if (schedule.startTime && (parseTime(schedule.startTime) === null || parseTime(schedule.endTime) === null)) {
+        return "Times must be HH:MM";
+    }
+    if (schedule.startTime && schedule.startTime === schedule.endTime) return "Start and end time can't be the same";
+    if ((schedule.startDate && !isDateKey(schedule.startDate)) || (schedule.endDate && !isDateKey(schedule.endDate))) {
+        return "Dates must be YYYY-MM-DD";
+    }
+    if (schedule.startDate && schedule.endDate && schedule.endDate < schedule.startDate) return "The end date is before the start date";
+    return null;
+}
+
+/**
+ * Drops empty fields so "always" is stored as `{}`.
+ */
+export function cleanSchedule(schedule: MenuSchedule): MenuSchedule {
+    const clean: MenuSchedule = {};
+    if (schedule.days && schedule.days.length > 0 && schedule.days.length < 7) clean.days = [...schedule.days].sort();
+    if (schedule.startTime && schedule.endTime) {
+        clean.startTime = schedule.startTime;
+        clean.endTime = schedule.endTime;
+    }
+    if (schedule.startDate) clean.startDate = schedule.startDate;
+    if (schedule.endDate) clean.endDate = schedule.endDate;
+    return clean;
+}
+
+/**
+ * Whether the menu is served at a local date / weekday / minute. A window
+ * past midnight ("22:00-02:00") belongs to the day it starts on.
+ */
+export function isServedAt(schedule: MenuSchedule, local: { date: string; dayOfWeek: number; minutes: number }): boolean {
+    const servedOn = (date: string, dayOfWeek: number) =>
+        (!schedule.days?.length || schedule.days.includes(dayOfWeek)) &&
+        (!schedule.startDate || date >= schedule.startDate) &&
+        (!schedule.endDate || date <= schedule.endDate);
+
+    const start = parseTime(schedule.startTime);
+    const end = parseTime(schedule.endTime);
+    if (start === null || end === null) return servedOn(local.date, local.dayOfWeek);
+
+    if (start < end) return servedOn(local.date, local.dayOfWeek) && local.minutes >= start && local.minutes < end;
+
+    // Overnight window: tonight's part, or the tail of yesterday's
+    if (local.minutes >= start) return servedOn(local.date, local.dayOfWeek);
+    return local.minutes < end && servedOn(addDays(local.date, -1), (local.dayOfWeek + 6) % 7);
+}
+
+function specificity(schedule: MenuSchedule): number {
+    return (schedule.startDate || schedule.endDate ? 4 : 0) +
+        (schedule.startTime ? 2 : 0) +
+        (schedule.days?.length ? 1 : 0);
+}
+
+/**
+ * The menu served at `at`, or null when none is (e.g. only a lunch menu, 20:00).
+ */
+export function pickActiveMenu(
+    menus: ServedMenu[],
+    at: Date = new Date(),
+    zone: Pick<OpeningHoursSource, "timeZone" | "utcOffsetMinutes"> = {}
+): ServedMenu | null {
+    const local = getLocalTime(at, zone);
+    const served = menus.filter(menu => isServedAt(menu.schedule, local));
+    if (served.length === 0) return null;
+    return served.reduce((best, menu) => specificity(menu.schedule) > specificity(best.schedule) ? menu : best);
+}
+
+/**
+ * "Mon-Fri · 11:00-15:00 · until 2026-08-31", "Every day" for `{}`.
+ */
+export function describeSchedule(schedule: MenuSchedule): string {
+    const parts: string[] = [];
+
+    const days = schedule.days?.length ? WEEK_ORDER.filter(d => schedule.days!.includes(d)) : [];
+    if (days.length === 0 || days.length === 7) {
+        parts.push("Every day");
+    } else {
+        // Collapse runs in Monday-first order: Mon-Fri, Sat-Sun
+        const runs: number[][] = [];
+        days.forEach(day => {
+            const last = runs[runs.length - 1];
+            if (last && WEEK_ORDER.indexOf(day) === WEEK_ORDER.indexOf(last[last.length - 1]) + 1) last.push(day);
+            else runs.push([day]);
+        });
+        parts.push(runs.map(run => run.length > 2
+            ? `${DAY_SHORT[run[0]]}-${DAY_SHORT[run[run.length - 1]]}`
+            : run.map(d => DAY_SHORT[d]).join(", ")
+        ).join(", "));
+    }
+
+    if (schedule.startTime && schedule.endTime) parts.push(`${schedule.startTime}-${schedule.endTime}`);
+
+    if (schedule.startDate && schedule.endDate) parts.push(`${schedule.startDate} to ${schedule.endDate}`);
+    else if (schedule.startDate) parts.push(`from ${schedule.startDate}`);
+    else if (schedule.endDate) parts.push(`until ${schedule.endDate}`);
+
+    return parts.join(" · ");
+}
+
+/**
+ * What diners are served: every published menu in the owner's order, or the
+ * legacy item list as one always-on menu while no menus exist yet.
+ */
+export function servedMenus(menus: RestaurantMenu[], legacyItems: MenuItem[] = []): ServedMenu[] {
+    if (menus.length === 0) {
+        return legacyItems.length > 0
+            ? [{ id: DEFAULT_MENU_ID, name: "Menu", schedule: {}, items: legacyItems, version: 0 }]
+            : [];
+    }
+
+    return [...menus]
+        .sort((a, b) => a.position - b.position)
+        .filter(menu => menu.published && menu.published.items.length > 0)
+        .map(menu => ({
+            id: menu.id,
+            name: menu.published!.name,
+            schedule: menu.published!.schedule,
+            items: menu.published!.items,
+            version: menu.published!.version
+        }));
+}
+
+// Fields that make up a published snapshot of an item
+function itemKey(item: MenuItem): string {
+    return JSON.stringify([
+        item.id, item.name, item.description || "", item.price, item.weight || "", item.imageUrl || "",
+        [...(item.allergens || [])].sort(), [...(item.dietary || [])].sort(), item.category
+    ]);
+}
+
+/**
+ * Whether the draft (name, schedule, items) differs from what is published.
+ */
+export function hasUnpublishedChanges(menu: RestaurantMenu, draftItems: MenuItem[]): boolean {
+    const published = menu.published;
+    if (!published) return true;
+    if (published.name !== menu.name) return true;
+    if (JSON.stringify(cleanSchedule(published.schedule)) !== JSON.stringify(cleanSchedule(menu.schedule))) return true;
+
+    const items = draftItems.filter(item => menuIdOf(item) === menu.id);
+    if (items.length !== published.items.length) return true;
+    const publishedKeys = new Set(published.items.map(itemKey));
+    return items.some(item => !publishedKeys.has(itemKey(item)));
+}
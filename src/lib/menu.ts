@@ -0,0 +1,47 @@
+/**
+ * Menu - item vocabularies shared by MenuEditor and the menu import
+ * (allergens use the canonical taxonomy in allergens.ts)
+ *
+ * Items live in `restaurants/{placeId}/menu/{itemId}` (owner writes from
+ * the dashboard, firestore.rules); the legacy `menu.items` array on the
+ * restaurant doc is migrated there on first load. Each item belongs to one
+ * named menu (menu-schedule.ts) - these are drafts, diners see what was
+ * published.
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import type { MenuItem } from "@/types";
+
+export const MENU_CATEGORIES = ["Starters", "Mains", "Desserts", "Drinks", "Specials"];
+export const MENU_DIETARY = ["Vegetarian", "Vegan", "Gluten-Free", "Spicy", "Paleo", "Keto", "Lactose-Free", "Kosher", "Halal"];
+
+export const DEFAULT_MENU_CATEGORY = "Mains";
+
+// Menu that items without a menuId belong to (menus set up from older item lists)
+export const DEFAULT_MENU_ID = "main";
+
+export function menuIdOf(item: Pick<MenuItem, "menuId">): string {
+    return item.menuId || DEFAULT_MENU_ID;
+}
+
+/**
+ * Name used to recognise the same dish across edits and imports:
+ * lowercase, no diacritics, single spaces.
+ */
+export function normalizeMenuName(name: string): string {
+    return name
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+}
+
+export function groupMenuByCategory(items: MenuItem[]): Record<string, MenuItem[]> {
+    return items.reduce((acc, item) => {
+        if (!acc[item.category]) acc[item.category] = [];
+        acc[item.category].push(item);
+        return acc;
+    }, {} as Record<string, MenuItem[]>);
+}
@@ -0,0 +1,79 @@
+/**
+ * Newline-delimited JSON streaming helpers.
+ * Server: ndjsonResponse() turns an emit-callback producer into a streamed Response.
+ * Client: readNdjson() parses a fetch Response line by line as chunks arrive.
+ */
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+/**
+ * Streams every emitted value as one JSON line. Emits after the client
+ * disconnected are dropped silently so the producer can finish its work.
+ */
+export function ndjsonResponse<T>(producer: (emit: (event: T) => void) => Promise<void>): Response {
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let open = true;
+            const emit = (event: T) => {
+                if (!open) return;
+                try {
+                    controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+                } catch {
+                    open = false; // Client went away
+                }
+            };
+
+            try {
+                await producer(emit);
+            } finally {
+                if (open) controller.close();
+            }
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": NDJSON_CONTENT_TYPE,
+            "Cache-Control": "no-cache, no-transform",
+            "X-Accel-Buffering": "no" // Disable proxy buffering (nginx)
+        }
+    });
+}
+
+/**
+ * Reads a streamed NDJSON body, calling onEvent for every complete line.
+ */
+export async function readNdjson<T>(response: Response, onEvent: (event: T) => void): Promise<void> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const flush = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+        try {
+            onEvent(JSON.parse(trimmed) as T);
+        } catch (error) {
+            console.warn("[NDJSON] Skipping malformed line:", error);
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        let newline = buffer.indexOf("\n");
+        while (newline !== -1) {
+            flush(buffer.slice(0, newline));
+            buffer = buffer.slice(newline + 1);
+            newline = buffer.indexOf("\n");
+        }
+    }
+
+    flush(buffer + decoder.decode());
+}
@@ -0,0 +1,106 @@
+/**
+ * Notification Templates - localized outbound messages and channel preferences
+ *
+ * Texts live in src/i18n/{en,sk}.json under `notifications.<event>` with
+ * `{placeholder}` variables; every event has an email subject and body and a
+ * short text used for SMS and push.
+ *
+ * Pure module - safe to import from client components (preferences UI).
+ */
+
+import en from "@/i18n/en.json";
+import sk from "@/i18n/sk.json";
+import type { NotificationLocale, NotificationPreferences } from "@/types";
+
+export type NotificationEvent =
+    | "reservation_created"             // → diner, booking request sent
+    | "reservation_requested"           // → owner, new booking request
+    | "reservation_confirmed"           // → diner
+    | "reservation_rejected"            // → diner
+    | "reservation_cancelled_by_venue"  // → diner
+    | "reservation_cancelled"           // → owner, guest cancelled
+    | "reservation_modified"            // → owner, guest changed the booking
+    | "waitlist_offer";                 // → diner, a table is held for them
+
+export const OWNER_NOTIFICATION_EVENTS: NotificationEvent[] = ["reservation_requested", "reservation_cancelled", "reservation_modified"];
+
+export const NOTIFICATION_LOCALES: { id: NotificationLocale; label: string }[] = [
+    { id: "en", label: "English" },
+    { id: "sk", label: "Slovenčina" }
+];
+
+export type NotificationVars = Record<string, string | number | undefined>;
+
+export interface RenderedNotification {
+    subject: string;
+    text: string;            // Email body, reason and link included
+    short: string;           // SMS and push body
+}
+
+interface TemplateSet {
+    reason: string;
+    footer_diner: string;
+    footer_owner: string;
+    [event: string]: string | { subject: string; body: string; sms: string };
+}
+
+const TEMPLATES: Record<NotificationLocale, TemplateSet> = {
+    en: en.notifications,
+    sk: sk.notifications
+};
+
+const DATE_LOCALES: Record<NotificationLocale, string> = { en: "en-GB", sk: "sk-SK" };
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    email: true,
+    sms: true,
+    push: true,
+    locale: "en"
+};
+
+/**
+ * Stored preferences merged over the defaults (older users have none).
+ */
+export function resolveNotificationPreferences(stored: Partial<NotificationPreferences> | null | undefined): NotificationPreferences {
+    const merged = { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(stored || {}) };
+    return TEMPLATES[merged.locale] ? merged : { ...merged, locale: DEFAULT_NOTIFICATION_PREFERENCES.locale };
+}
+
+function fill(template: string, vars: NotificationVars): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => vars[key] === undefined ? match : String(vars[key]));
+}
+
+/**
+ * "2026-10-19" → "Mon 19 Oct" / "po 19. 10." - dates are formatted in the
+ * recipient's language, not the server's.
+ */
+export function formatNotificationDate(dateKey: string, locale: NotificationLocale): string {
+    const date = new Date(`${dateKey}T12:00:00Z`);
+    if (isNaN(date.getTime())) return dateKey;
+    return new Intl.DateTimeFormat(DATE_LOCALES[locale], { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" }).format(date);
+}
+
+/**
+ * Renders `event` in `locale`. `vars.date` may be a dateKey; `vars.reason`
+ * and `vars.url` add the reason line and the link footer when set.
+ */
+export function renderNotification(event: NotificationEvent, locale: NotificationLocale, vars: NotificationVars): RenderedNotification {
+    const templates = TEMPLATES[locale] || TEMPLATES.en;
+    const template = templates[event] as { subject: string; body: string; sms: string };
+    const filled = {
+        ...vars,
+        date: typeof vars.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(vars.date) ? formatNotificationDate(vars.date, locale) : vars.date
+    };
+
+    const paragraphs = [fill(template.body, filled)];
+    if (vars.reason) paragraphs.push(fill(templates.reason, filled));
+    if (vars.url) {
+        paragraphs.push(fill(OWNER_NOTIFICATION_EVENTS.includes(event) ? templates.footer_owner : templates.footer_diner, filled));
+    }
+
+    return {
+        subject: fill(template.subject, filled),
+        text: paragraphs.join("\n\n"),
+        short: fill(template.sms, filled)
+    };
+}
@@ -0,0 +1,121 @@
+/**
+ * Notification Transport Abstraction
+ *
+ * Outbound email, SMS and web push go through a transport per channel
+ * instead of calling a provider directly (see notifications.ts).
+ *
+ * Implementations:
+ * - smtp:     Email over SMTP (nodemailer) - SMTP_URL or SMTP_HOST/PORT/USER/PASS
+ * - http:     SMS through an HTTP gateway - SMS_GATEWAY_URL (+ SMS_GATEWAY_TOKEN)
+ * - web-push: Browser push with VAPID keys (web-push)
+ * - console:  Logs every message - local dev without any accounts
+ * - file:     Appends every message to a JSONL outbox (NOTIFICATIONS_OUTBOX_PATH)
+ *
+ * Select with NOTIFICATIONS_TRANSPORT=live|console|file (default: live in
+ * production, console otherwise). In live mode a channel that isn't
+ * configured falls back to console, so a missing key never fails a booking.
+ */
+
+import { createSmtpEmailTransport, isSmtpConfigured } from "@/lib/notification-transports/smtp";
+import { createHttpSmsGateway, isSmsGatewayConfigured } from "@/lib/notification-transports/sms-gateway";
+import { createWebPushTransport, isWebPushConfigured } from "@/lib/notification-transports/web-push";
+import { createLocalTransport } from "@/lib/notification-transports/local";
+import type { PushSubscriptionRecord } from "@/types";
+
+export type NotificationTransportName = "smtp" | "http" | "web-push" | "console" | "file";
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface SmsMessage {
+    to: string;              // E.164 preferred, passed to the gateway as-is
+    text: string;
+}
+
+export interface PushMessage {
+    subscription: PushSubscriptionRecord;
+    title: string;
+    body: string;
+    url?: string;            // Opened when the notification is clicked
+}
+
+export interface EmailTransport {
+    readonly name: NotificationTransportName;
+    sendEmail(message: EmailMessage): Promise<void>;
+}
+
+export interface SmsGateway {
+    readonly name: NotificationTransportName;
+    sendSms(message: SmsMessage): Promise<void>;
+}
+
+export interface PushTransport {
+    readonly name: NotificationTransportName;
+    /** @returns false when the subscription is gone and should be deleted */
+    sendPush(message: PushMessage): Promise<boolean>;
+}
+
+/**
+ * Thrown when a provider refuses a message.
+ */
+export class NotificationTransportError extends Error {
+    constructor(
+        public readonly transport: NotificationTransportName,
+        public readonly status: number,
+        message: string
+    ) {
+        super(message);
+        this.name = "NotificationTransportError";
+    }
+}
+
+type TransportMode = "live" | "console" | "file";
+
+let transports: { mode: TransportMode; email: EmailTransport; sms: SmsGateway; push: PushTransport } | null = null;
+
+function getMode(): TransportMode {
+    const configured = (process.env.NOTIFICATIONS_TRANSPORT || "").toLowerCase();
+    if (configured === "live" || configured === "console" || configured === "file") return configured;
+    return process.env.NODE_ENV === "production" ? "live" : "console";
+}
+
+function getTransports() {
+    const mode = getMode();
+    if (transports?.mode === mode) return transports;
+
+    const local = createLocalTransport(mode === "file" ? "file" : "console");
+    if (mode !== "live") {
+        transports = { mode, email: local, sms: local, push: local };
+    } else {
+        const missing = [
+            !isSmtpConfigured() && "email (SMTP_URL / SMTP_HOST)",
+            !isSmsGatewayConfigured() && "SMS (SMS_GATEWAY_URL)",
+            !isWebPushConfigured() && "push (VAPID keys)"
+        ].filter(Boolean);
+        if (missing.length) console.warn(`[Notifications] ⚠️ Not configured, logging instead: ${missing.join(", ")}`);
+
+        transports = {
+            mode,
+            email: isSmtpConfigured() ? createSmtpEmailTransport() : local,
+            sms: isSmsGatewayConfigured() ? createHttpSmsGateway() : local,
+            push: isWebPushConfigured() ? createWebPushTransport() : local
+        };
+    }
+    return transports;
+}
+
+export function getEmailTransport(): EmailTransport {
+    return getTransports().email;
+}
+
+export function getSmsGateway(): SmsGateway {
+    return getTransports().sms;
+}
+
+export function getPushTransport(): PushTransport {
+    return getTransports().push;
+}
@@ -0,0 +1,39 @@
+/**
+ * Local transport for dev and tests - every channel in one.
+ *
+ * - console: logs each message
+ * - file:    also appends it as a JSON line to NOTIFICATIONS_OUTBOX_PATH
+ *            (default .notifications-outbox.jsonl), so flows can be checked
+ *            without real accounts
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { EmailMessage, EmailTransport, PushMessage, PushTransport, SmsGateway, SmsMessage } from "@/lib/notification-transport";
+
+const DEFAULT_OUTBOX_PATH = ".notifications-outbox.jsonl";
+
+export function createLocalTransport(mode: "console" | "file"): EmailTransport & SmsGateway & PushTransport {
+    const outbox = path.resolve(process.cwd(), process.env.NOTIFICATIONS_OUTBOX_PATH || DEFAULT_OUTBOX_PATH);
+
+    const record = async (channel: string, to: string, summary: string, payload: object) => {
+        console.log(`[Notifications] ${channel} → ${to}: ${summary}`);
+        if (mode === "file") {
+            await fs.appendFile(outbox, JSON.stringify({ channel, to, ...payload, sentAt: new Date().toISOString() }) + "\n");
+        }
+    };
+
+    return {
+        name: mode,
+        async sendEmail(message: EmailMessage): Promise<void> {
+            await record("📧 email", message.to, message.subject, { subject: message.subject, text: message.text });
+        },
+        async sendSms(message: SmsMessage): Promise<void> {
+            await record("📱 sms", message.to, message.text, { text: message.text });
+        },
+        async sendPush(message: PushMessage): Promise<boolean> {
+            await record("🔔 push", message.subscription.endpoint.slice(0, 60), message.title, { title: message.title, body: message.body, url: message.url });
+            return true;
+        }
+    };
+}
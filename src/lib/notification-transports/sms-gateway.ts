@@ -0,0 +1,40 @@
+/**
+ * HTTP SMS gateway.
+ *
+ * POSTs `{ from, to, text }` as JSON to SMS_GATEWAY_URL with
+ * `Authorization: Bearer SMS_GATEWAY_TOKEN`. Most providers (or a small
+ * relay in front of them) accept this shape; any 2xx counts as sent.
+ * Sender ID: SMS_SENDER_ID (default "NearSpotty").
+ */
+
+import { NotificationTransportError, type SmsGateway, type SmsMessage } from "@/lib/notification-transport";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export function isSmsGatewayConfigured(): boolean {
+    return !!process.env.SMS_GATEWAY_URL;
+}
+
+export function createHttpSmsGateway(): SmsGateway {
+    const url = process.env.SMS_GATEWAY_URL!;
+    const token = process.env.SMS_GATEWAY_TOKEN;
+    const from = process.env.SMS_SENDER_ID || "NearSpotty";
+
+    return {
+        name: "http",
+        async sendSms(message: SmsMessage): Promise<void> {
+            const res = await fetch(url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(token ? { Authorization: `Bearer ${token}` } : {})
+                },
+                body: JSON.stringify({ from, to: message.to, text: message.text }),
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+            });
+            if (!res.ok) {
+                throw new NotificationTransportError("http", res.status, `SMS gateway refused the message: ${(await res.text()).slice(0, 200)}`);
+            }
+        }
+    };
+}
@@ -0,0 +1,42 @@
+/**
+ * SMTP email transport (nodemailer).
+ *
+ * Configure with SMTP_URL (smtp[s]://user:pass@host:port) or SMTP_HOST,
+ * SMTP_PORT (default 587, 465 = implicit TLS), SMTP_USER and SMTP_PASS.
+ * Sender: NOTIFICATIONS_FROM.
+ */
+
+import nodemailer from "nodemailer";
+import type { EmailMessage, EmailTransport } from "@/lib/notification-transport";
+
+const DEFAULT_FROM = "NearSpotty <noreply@nearspotty.online>";
+
+export function isSmtpConfigured(): boolean {
+    return !!(process.env.SMTP_URL || process.env.SMTP_HOST);
+}
+
+export function createSmtpEmailTransport(): EmailTransport {
+    const port = Number(process.env.SMTP_PORT) || 587;
+    const transporter = process.env.SMTP_URL
+        ? nodemailer.createTransport(process.env.SMTP_URL)
+        : nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port,
+            secure: port === 465,
+            auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+        });
+    const from = process.env.NOTIFICATIONS_FROM || DEFAULT_FROM;
+
+    return {
+        name: "smtp",
+        async sendEmail(message: EmailMessage): Promise<void> {
+            await transporter.sendMail({
+                from,
+                to: message.to,
+                subject: message.subject,
+                text: message.text,
+                html: message.html
+            });
+        }
+    };
+}
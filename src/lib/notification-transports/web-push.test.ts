@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import https from "node:https";
+import type { PushSubscriptionRecord } from "@/types";
+
+const { sendNotification } = vi.hoisted(() => ({ sendNotification: vi.fn() }));
+
+vi.mock("web-push", () => {
+    class WebPushError extends Error {
+        constructor(public statusCode: number) {
+            super(`Push service answered ${statusCode}`);
+        }
+    }
+    return { default: { setVapidDetails: vi.fn(), sendNotification }, WebPushError };
+});
+
+import { WebPushError } from "web-push";
+import { createWebPushTransport } from "@/lib/notification-transports/web-push";
+
+function message(endpoint: string) {
+    const subscription: PushSubscriptionRecord = {
+        endpoint,
+        keys: { p256dh: "p256dh", auth: "auth" },
+        createdAt: "2026-10-01T10:00:00.000Z"
+    };
+    return { subscription, title: "Booking confirmed", body: "Friday 19:00" };
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+describe("web-push sendPush", () => {
+    const transport = createWebPushTransport();
+
+    it("sends to a public https endpoint through the checked agent", async () => {
+        await expect(transport.sendPush(message("https://fcm.googleapis.com/fcm/send/abc"))).resolves.toBe(true);
+        expect(sendNotification).toHaveBeenCalledWith(
+            expect.objectContaining({ endpoint: "https://fcm.googleapis.com/fcm/send/abc" }),
+            expect.any(String),
+            expect.objectContaining({ agent: expect.any(https.Agent) })
+        );
+    });
+
+    it.each([
+        "http://fcm.googleapis.com/fcm/send/abc",
+        "https://127.0.0.1/admin",
+        "https://169.254.169.254/latest/meta-data",
+        "https://[::1]/",
+        "https://metadata.google.internal/",
+        "not a url"
+    ])("drops %s without sending", async (endpoint) => {
+        await expect(transport.sendPush(message(endpoint))).resolves.toBe(false);
+        expect(sendNotification).not.toHaveBeenCalled();
+    });
+
+    it("drops a subscription whose host resolves to an internal address", async () => {
+        sendNotification.mockRejectedValue(Object.assign(new Error("blocked"), { code: "EPRIVATEADDRESS" }));
+        await expect(transport.sendPush(message("https://push.example.com/abc"))).resolves.toBe(false);
+    });
+
+    it("drops subscriptions the push service reports gone", async () => {
+        sendNotification.mockRejectedValue(new (WebPushError as unknown as new (status: number) => Error)(410));
+        await expect(transport.sendPush(message("https://push.example.com/abc"))).resolves.toBe(false);
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Web Push transport (web-push, VAPID).
+ *
+ * Keys: NEXT_PUBLIC_VAPID_PUBLIC_KEY (also used by the browser to subscribe)
+ * and VAPID_PRIVATE_KEY - generate a pair with `npx web-push generate-vapid-keys`.
+ * VAPID_SUBJECT is the contact the push services see (mailto: or https:).
+ *
+ * Subscriptions are written by the browser, so the endpoint is untrusted: it
+ * must be a public https URL and is connected to through publicHttpsAgent.
+ * Anything else is reported gone and the caller drops it.
+ */
+
+import webpush, { WebPushError } from "web-push";
+import type { PushMessage, PushTransport } from "@/lib/notification-transport";
+import { parsePublicUrl, publicHttpsAgent } from "@/lib/public-fetch";
+
+const PUSH_TTL_SECONDS = 6 * 60 * 60;      // Booking news is stale after a few hours
+
+export function isWebPushConfigured(): boolean {
+    return !!(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+export function createWebPushTransport(): PushTransport {
+    webpush.setVapidDetails(
+        process.env.VAPID_SUBJECT || "mailto:support@nearspotty.online",
+        process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+        process.env.VAPID_PRIVATE_KEY!
+    );
+
+    return {
+        name: "web-push",
+        async sendPush(message: PushMessage): Promise<boolean> {
+            const endpoint = parsePublicUrl(String(message.subscription.endpoint || ""));
+            if (endpoint?.protocol !== "https:") {
+                console.warn("[Notifications] Dropping a subscription with a non-public endpoint");
+                return false;
+            }
+
+            try {
+                await webpush.sendNotification(
+                    message.subscription,
+                    JSON.stringify({ title: message.title, body: message.body, url: message.url }),
+                    { TTL: PUSH_TTL_SECONDS, agent: publicHttpsAgent }
+                );
+                return true;
+            } catch (error) {
+                // Unsubscribed or expired - the caller drops the subscription
+                if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+                    return false;
+                }
+                // Public-looking host that resolves to an internal address
+                if ((error as NodeJS.ErrnoException).code === "EPRIVATEADDRESS") return false;
+                throw error;
+            }
+        }
+    };
+}
@@ -0,0 +1,155 @@
+/**
+ * Notifications - in-app notices (`users/{uid}/notifications/{id}`) and
+ * outbound email, SMS and web push for reservation events
+ *
+ * RULES:
+ * - Written by the server only (Admin SDK), inside the transaction that
+ *   caused them so a rolled-back change never notifies anyone
+ * - The recipient reads them and flips `read` (users/{uid} subcollection rules)
+ * - Outbound messages go out after the change has committed and are best
+ *   effort: a failing channel is logged, never fails the booking action
+ * - Channels follow the recipient's `notificationPreferences` (all on by
+ *   default); push also needs a browser in `users/{uid}/push_subscriptions`,
+ *   and subscriptions the push service reports gone are deleted
+ * - Texts are localized (en/sk, notification-templates.ts) in the
+ *   recipient's language
+ * - SMS only goes out for restaurants whose owner's plan includes
+ *   `smsNotifications` (Pro / Enterprise, plan-limits.ts)
+ * - Walk-ins have no diner account and get nothing; owners aren't told
+ *   about their own actions
+ * - Transports: notification-transport.ts (console or file outbox locally)
+ */
+
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getBusinessLimits, ownerPlanOf } from "@/lib/plan-limits";
+import { getEmailTransport, getPushTransport, getSmsGateway } from "@/lib/notification-transport";
+import {
+    OWNER_NOTIFICATION_EVENTS,
+    renderNotification,
+    resolveNotificationPreferences,
+    type NotificationEvent,
+    type NotificationVars
+} from "@/lib/notification-templates";
+import type { NotificationChannel, PushSubscriptionRecord, UserNotification } from "@/types";
+
+export type NotificationInput = Omit<UserNotification, "id" | "read" | "createdAt">;
+
+export function addNotification(transaction: FirebaseFirestore.Transaction, uid: string, notification: NotificationInput): void {
+    const ref = getAdminDb().collection("users").doc(uid).collection("notifications").doc();
+    transaction.set(ref, {
+        ...notification,
+        read: false,
+        createdAt: new Date().toISOString()
+    });
+}
+
+// =============================================================================
+// OUTBOUND
+// =============================================================================
+
+export interface OutboundNotification {
+    event: NotificationEvent;
+    vars: NotificationVars;
+    smsAllowed: boolean;         // The restaurant's plan includes SMS
+    fallbackEmail?: string;      // Used when the user doc has no email
+    fallbackPhone?: string;      // Used when the user set no SMS number
+}
+
+async function sendPushToAll(uid: string, title: string, body: string, url?: string): Promise<void> {
+    const subscriptions = await getAdminDb().collection("users").doc(uid).collection("push_subscriptions").get();
+    const transport = getPushTransport();
+
+    await Promise.all(subscriptions.docs.map(async (doc) => {
+        const alive = await transport.sendPush({ subscription: doc.data() as PushSubscriptionRecord, title, body, url });
+        if (!alive) await doc.ref.delete();
+    }));
+}
+
+/**
+ * Sends `notification` to `uid` on every channel they have on. Never throws.
+ */
+export async function sendNotification(uid: string, notification: OutboundNotification): Promise<void> {
+    try {
+        const user = (await getAdminDb().collection("users").doc(uid).get()).data();
+        const preferences = resolveNotificationPreferences(user?.notificationPreferences);
+        const message = renderNotification(notification.event, preferences.locale, notification.vars);
+
+        const email = user?.email || notification.fallbackEmail;
+        const phone = preferences.phone || notification.fallbackPhone;
+        const url = typeof notification.vars.url === "string" ? notification.vars.url : undefined;
+
+        const deliveries: [NotificationChannel, Promise<void>][] = [];
+        if (preferences.email && email) {
+            deliveries.push(["email", getEmailTransport().sendEmail({ to: email, subject: message.subject, text: message.text })]);
+        }
+        if (preferences.sms && phone && notification.smsAllowed) {
+            deliveries.push(["sms", getSmsGateway().sendSms({ to: phone, text: message.short })]);
+        }
+        if (preferences.push) {
+            deliveries.push(["push", sendPushToAll(uid, message.subject, message.short, url)]);
+        }
+
+        const results = await Promise.allSettled(deliveries.map(([, delivery]) => delivery));
+        results.forEach((result, i) => {
+            if (result.status === "rejected") {
+                console.error(`[Notifications] ${deliveries[i][0]} ${notification.event} to ${uid} failed:`, result.reason);
+            }
+        });
+    } catch (error) {
+        console.error(`[Notifications] ${notification.event} to ${uid} failed:`, error);
+    }
+}
+
+/** The booking fields the reservation templates use */
+export interface ReservationNotice {
+    id: string;
+    placeId: string;
+    placeName: string;
+    userId: string | null;       // null for walk-ins
+    customerName: string;
+    customerEmail?: string;
+    customerPhone?: string;
+    dateKey?: string | null;
+    time: string;
+    guests: number;
+    reason?: string;
+    change?: string;             // reservation_modified
+    holdMinutes?: number;        // waitlist_offer
+}
+
+/**
+ * Tells the diner or the owner (by event) about a booking. Never throws.
+ */
+export async function notifyReservation(event: NotificationEvent, booking: ReservationNotice): Promise<void> {
+    try {
+        const db = getAdminDb();
+        const ownerId: string | undefined = (await db.collection("restaurants").doc(booking.placeId).get()).data()?.ownerId;
+        const forOwner = OWNER_NOTIFICATION_EVENTS.includes(event);
+        const recipient = forOwner ? ownerId : booking.userId;
+        if (!recipient) return;
+
+        const owner = ownerId ? (await db.collection("users").doc(ownerId).get()).data() : undefined;
+        const ownerPlan = ownerPlanOf(owner);
+        const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+
+        await sendNotification(recipient, {
+            event,
+            vars: {
+                placeName: booking.placeName,
+                customerName: booking.customerName,
+                date: booking.dateKey || "",
+                time: booking.time,
+                guests: booking.guests,
+                reason: booking.reason,
+                change: booking.change,
+                holdMinutes: booking.holdMinutes,
+                url: appUrl ? `${appUrl}${forOwner ? "/dashboard" : "/reservations"}` : undefined
+            },
+            smsAllowed: getBusinessLimits(ownerPlan).smsNotifications,
+            fallbackEmail: forOwner ? undefined : booking.customerEmail,
+            fallbackPhone: forOwner ? undefined : booking.customerPhone
+        });
+    } catch (error) {
+        console.error(`[Notifications] ${event} for ${booking.id} failed:`, error);
+    }
+}
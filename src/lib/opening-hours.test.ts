@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { evaluateOpenAt, getLocalTime, type OpeningHoursSource } from "@/lib/opening-hours";
+
+// Wednesday 2026-10-14, 22:00 in Bratislava (CEST, UTC+2)
+const WEDNESDAY_22 = new Date("2026-10-14T20:00:00Z");
+
+const bar: OpeningHoursSource = {
+    specification: [{ dayOfWeek: ["Wednesday", "Thursday", "Friday", "Saturday"], opens: "18:00", closes: "02:00" }],
+    timeZone: "Europe/Bratislava"
+};
+
+const lunch: OpeningHoursSource = {
+    specification: [{ dayOfWeek: ["Monday", "Tuesday", "Wednesday"], opens: "11:00", closes: "15:00" }],
+    timeZone: "Europe/Bratislava"
+};
+
+function at(minutes: number, dayOfWeek: number | null = null) {
+    return { now: false, dayOfWeek, minutes };
+}
+
+describe("evaluateOpenAt - overnight spans", () => {
+    it("is open until the span closes after midnight", () => {
+        expect(evaluateOpenAt(bar, null, WEDNESDAY_22)).toMatchObject({ known: true, isOpen: true, minutesUntilClose: 240 });
+    });
+
+    it("carries the previous evening's span past midnight", () => {
+        const thursday01 = new Date("2026-10-14T23:00:00Z");
+        expect(evaluateOpenAt(bar, null, thursday01)).toMatchObject({ isOpen: true, minutesUntilClose: 60 });
+    });
+
+    it("reads Google periods that close on the next day", () => {
+        const fridayNight: OpeningHoursSource = {
+            periods: [{ open: { day: 5, hour: 18, minute: 0 }, close: { day: 6, hour: 2, minute: 0 } }],
+            timeZone: "Europe/Bratislava"
+        };
+        const saturday01 = new Date("2026-10-16T23:00:00Z");
+
+        expect(evaluateOpenAt(fridayNight, null, saturday01)).toMatchObject({ isOpen: true, minutesUntilClose: 60 });
+    });
+
+    it("counts down to the next opening across closed days", () => {
+        const sunday14 = new Date("2026-10-18T12:00:00Z");
+        expect(evaluateOpenAt(bar, null, sunday14)).toMatchObject({ isOpen: false, minutesUntilOpen: 4560 });
+    });
+});
+
+describe("evaluateOpenAt - requested times", () => {
+    it("checks a later time today on today", () => {
+        expect(evaluateOpenAt(bar, at(23 * 60), WEDNESDAY_22)).toMatchObject({ isOpen: true, minutesUntilClose: 180 });
+        expect(evaluateOpenAt(bar, at(23 * 60, 3), WEDNESDAY_22)).toMatchObject({ isOpen: true, minutesUntilClose: 180 });
+    });
+
+    it("moves a time that has passed today to tomorrow", () => {
+        // Wednesday noon would be open; Thursday noon is not
+        expect(evaluateOpenAt(lunch, at(12 * 60), WEDNESDAY_22)).toMatchObject({ isOpen: false, minutesUntilOpen: 5700 });
+    });
+
+    it("moves today's weekday with a passed time to next week", () => {
+        const closedNextWeek: OpeningHoursSource = {
+            ...lunch,
+            exceptions: [{ date: "2026-10-21", closed: true, label: "Staff party" }]
+        };
+
+        expect(evaluateOpenAt(closedNextWeek, at(12 * 60, 3), WEDNESDAY_22)).toMatchObject({ isOpen: false, exception: "Staff party" });
+        expect(evaluateOpenAt(lunch, at(12 * 60, 3), WEDNESDAY_22)).toMatchObject({ isOpen: true, minutesUntilClose: 180 });
+    });
+
+    it("answers day-only requests for the whole day", () => {
+        expect(evaluateOpenAt(lunch, { now: false, dayOfWeek: 1, minutes: null }, WEDNESDAY_22).isOpen).toBe(true);
+        expect(evaluateOpenAt(lunch, { now: false, dayOfWeek: 4, minutes: null }, WEDNESDAY_22).isOpen).toBe(false);
+    });
+});
+
+describe("evaluateOpenAt - exceptions", () => {
+    it("uses special hours for that date only", () => {
+        const shortDay: OpeningHoursSource = {
+            ...bar,
+            exceptions: [{ date: "2026-10-14", closed: false, opens: "10:00", closes: "20:00", label: "Short day" }]
+        };
+
+        expect(evaluateOpenAt(shortDay, null, new Date("2026-10-14T17:00:00Z")))
+            .toMatchObject({ isOpen: true, minutesUntilClose: 60, exception: "Short day" });
+        expect(evaluateOpenAt(shortDay, null, WEDNESDAY_22)).toMatchObject({ isOpen: false, minutesUntilOpen: 1200 });
+    });
+
+    it("reports a closed date with its label", () => {
+        const holiday: OpeningHoursSource = {
+            ...bar,
+            exceptions: [{ date: "2026-10-15", closed: true, label: "Holiday" }]
+        };
+
+        expect(evaluateOpenAt(holiday, at(20 * 60, 4), WEDNESDAY_22)).toMatchObject({ isOpen: false, exception: "Holiday" });
+    });
+});
+
+describe("evaluateOpenAt - timezones", () => {
+    it("evaluates in the restaurant's timezone", () => {
+        const newYorkBar = { ...bar, timeZone: "America/New_York" };
+        // 16:00 in New York
+        expect(evaluateOpenAt(newYorkBar, null, WEDNESDAY_22)).toMatchObject({ isOpen: false, minutesUntilOpen: 120 });
+    });
+
+    it("falls back to Google's UTC offset, then to the default zone", () => {
+        const withOffset: OpeningHoursSource = { specification: bar.specification, utcOffsetMinutes: -240 };
+
+        expect(evaluateOpenAt(withOffset, null, WEDNESDAY_22).isOpen).toBe(false);
+        expect(evaluateOpenAt({ ...bar, timeZone: "Not/AZone" }, null, WEDNESDAY_22).isOpen).toBe(true);
+    });
+
+    it("follows daylight saving time", () => {
+        expect(getLocalTime(new Date("2026-10-24T20:00:00Z"), { timeZone: "Europe/Bratislava" }).minutes).toBe(22 * 60);
+        expect(getLocalTime(new Date("2026-10-26T20:00:00Z"), { timeZone: "Europe/Bratislava" }).minutes).toBe(21 * 60);
+    });
+
+    it("is unknown without hours data", () => {
+        expect(evaluateOpenAt({ timeZone: "Europe/Bratislava" }, null, WEDNESDAY_22).known).toBe(false);
+    });
+});
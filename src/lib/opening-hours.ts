@@ -0,0 +1,360 @@
+/**
+ * Opening Hours Engine
+ *
+ * Evaluates whether a restaurant is open at a given moment, in the
+ * restaurant's own timezone, from:
+ * - Google `regularOpeningHours.periods` (day 0 = Sunday, overnight via close.day)
+ * - Owner-edited `openingHoursSpecification` from OpeningHoursEditor (wins over Google)
+ * - Owner holiday overrides `openingHoursExceptions` (closed / special hours per date)
+ *
+ * Pure module - safe to import from client components (place-card hints).
+ */
+
+import type { OpeningHoursException, OpeningHoursSpecification, OpenStatus, Restaurant } from "@/types";
+
+export const DEFAULT_TIME_ZONE = "Europe/Bratislava";
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** Google Places V1 period */
+export interface GooglePeriod {
+    open: { day: number; hour: number; minute: number };
+    close?: { day: number; hour: number; minute: number };
+}
+
+export interface OpeningHoursSource {
+    periods?: GooglePeriod[];
+    specification?: OpeningHoursSpecification[];
+    exceptions?: OpeningHoursException[];
+    timeZone?: string;          // IANA, e.g. "Europe/Bratislava"
+    utcOffsetMinutes?: number;  // Google fallback when no IANA zone is known
+}
+
+/** Requested time, mirrors OpenAtConstraint from search-intent */
+export interface OpenAtRequest {
+    now: boolean;
+    dayOfWeek: number | null;
+    minutes: number | null;
+}
+
+interface LocalTime {
+    date: string;       // "YYYY-MM-DD"
+    dayOfWeek: number;  // 0 = Sunday
+    minutes: number;    // minutes after local midnight
+}
+
+interface Interval {
+    start: number;      // minutes relative to local midnight of "today"
+    end: number;
+    exception?: string;
+}
+
+// =============================================================================
+// TIME HELPERS
+// =============================================================================
+
+function parseHHMM(value: string | undefined): number | null {
+    if (!value) return null;
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    if (!match) return null;
+    const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+    return minutes <= MINUTES_PER_DAY ? minutes : null; // "24:00" allowed as close
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Wall-clock time at `at` in the restaurant's timezone.
+ */
+export function getLocalTime(at: Date, source: Pick<OpeningHoursSource, "timeZone" | "utcOffsetMinutes"> = {}): LocalTime {
+    const useOffset = !source.timeZone && typeof source.utcOffsetMinutes === "number";
+
+    if (useOffset) {
+        const shifted = new Date(at.getTime() + source.utcOffsetMinutes! * 60_000);
+        return {
+            date: shifted.toISOString().slice(0, 10),
+            dayOfWeek: shifted.getUTCDay(),
+            minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes()
+        };
+    }
+
+    const timeZone = source.timeZone && isValidTimeZone(source.timeZone) ? source.timeZone : DEFAULT_TIME_ZONE;
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        weekday: "short",
+        hourCycle: "h23"
+    }).formatToParts(at);
+
+    const get = (type: string) => parts.find(p => p.type === type)?.value || "";
+    const weekday = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(get("weekday"));
+
+    return {
+        date: `${get("year")}-${get("month")}-${get("day")}`,
+        dayOfWeek: weekday,
+        minutes: (parseInt(get("hour"), 10) % 24) * 60 + parseInt(get("minute"), 10)
+    };
+}
+
+function addDays(date: string, days: number): string {
+    const [y, m, d] = date.split("-").map(Number);
+    return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+// =============================================================================
+// WEEKLY SCHEDULE
+// =============================================================================
+
+interface WeeklyInterval {
+    day: number;        // Opening day, 0 = Sunday
+    opens: number;      // minutes after midnight
+    duration: number;   // minutes (may cross midnight)
+}
+
+function weeklyFromSpecification(spec: OpeningHoursSpecification[]): WeeklyInterval[] {
+    const intervals: WeeklyInterval[] = [];
+
+    for (const entry of spec) {
+        const opens = parseHHMM(entry.opens);
+        const closes = parseHHMM(entry.closes);
+        if (opens === null || closes === null) continue;
+
+        // closes <= opens: overnight span ("18:00 - 02:00"), 00:00-00:00 = 24h
+        const duration = closes > opens ? closes - opens : closes + MINUTES_PER_DAY - opens;
+
+        for (const dayName of entry.dayOfWeek) {
+            const day = DAY_NAMES.indexOf(dayName);
+            if (day >= 0) intervals.push({ day, opens, duration });
+        }
+    }
+    return intervals;
+}
+
+function weeklyFromPeriods(periods: GooglePeriod[]): WeeklyInterval[] {
+    // Google's "always open": single period, day 0 00:00, no close
+    if (periods.length === 1 && !periods[0].close) {
+        return DAY_NAMES.map((_, day) => ({ day, opens: 0, duration: MINUTES_PER_DAY }));
+    }
+
+    return periods
+        .filter(p => p.close)
+        .map(p => {
+            const opens = p.open.hour * 60 + p.open.minute;
+            const closeDayDelta = (p.close!.day - p.open.day + 7) % 7;
+            let duration = closeDayDelta * MINUTES_PER_DAY + p.close!.hour * 60 + p.close!.minute - opens;
+            if (duration <= 0) duration += 7 * MINUTES_PER_DAY;
+            return { day: p.open.day, opens, duration };
+        });
+}
+
+function getWeeklySchedule(source: OpeningHoursSource): WeeklyInterval[] | null {
+    // Owner-edited hours win over Google's
+    if (source.specification?.length) return weeklyFromSpecification(source.specification);
+    if (source.periods?.length) return weeklyFromPeriods(source.periods);
+    return null;
+}
+
+/**
+ * Concrete open intervals from yesterday (overnight spill-over) to `days` ahead,
+ * with holiday overrides applied to the date each interval opens on.
+ */
+function buildIntervals(source: OpeningHoursSource, weekly: WeeklyInterval[], today: LocalTime, days: number): Interval[] {
+    const intervals: Interval[] = [];
+
+    for (let offset = -1; offset <= days; offset++) {
+        const date = addDays(today.date, offset);
+        const dayOfWeek = (today.dayOfWeek + offset + 7) % 7;
+        const dayStart = offset * MINUTES_PER_DAY;
+        const exception = source.exceptions?.find(e => e.date === date);
+
+        if (exception) {
+            if (exception.closed) continue;
+            const opens = parseHHMM(exception.opens);
+            const closes = parseHHMM(exception.closes);
+            if (opens === null || closes === null) continue;
+            const duration = closes > opens ? closes - opens : closes + MINUTES_PER_DAY - opens;
+            intervals.push({ start: dayStart + opens, end: dayStart + opens + duration, exception: exception.label });
+            continue;
+        }
+
+        for (const w of weekly) {
+            if (w.day !== dayOfWeek) continue;
+            intervals.push({ start: dayStart + w.opens, end: dayStart + w.opens + w.duration });
+        }
+    }
+
+    return intervals.sort((a, b) => a.start - b.start);
+}
+
+/** End of the continuous open block containing `t` (adjacent intervals are chained) */
+function chainEnd(intervals: Interval[], from: Interval): number {
+    let end = from.end;
+    let extended = true;
+    while (extended) {
+        extended = false;
+        for (const i of intervals) {
+            if (i.start <= end && i.end > end) {
+                end = i.end;
+                extended = true;
+            }
+        }
+    }
+    return end;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * True if there is any hours data the engine can evaluate.
+ */
+export function hasOpeningHours(source: OpeningHoursSource | null | undefined): source is OpeningHoursSource {
+    return !!(source && (source.specification?.length || source.periods?.length));
+}
+
+/**
+ * Evaluates open/closed status at a requested time (or now).
+ *
+ * - `openAt` null / now: status right now
+ * - day + time ("sunday 22:00"): status at the next such moment - a week
+ *   ahead when it is that day and the time has passed
+ * - day only ("open sunday"): open if the place opens at all that day
+ * - time only ("after 22:00"): status at the next such moment - today, or
+ *   tomorrow once the time has passed
+ */
+export function evaluateOpenAt(
+    source: OpeningHoursSource | null | undefined,
+    openAt: OpenAtRequest | null = null,
+    now: Date = new Date()
+): OpenStatus {
+    const evaluatedAt = now.toISOString();
+    const unknown: OpenStatus = { known: false, isOpen: false, minutesUntilClose: null, minutesUntilOpen: null, evaluatedAt };
+
+    if (!hasOpeningHours(source)) return unknown;
+    const weekly = getWeeklySchedule(source);
+    if (!weekly) return unknown;
+
+    const today = getLocalTime(now, source);
+    let dayOffset = openAt && !openAt.now && openAt.dayOfWeek !== null
+        ? (openAt.dayOfWeek - today.dayOfWeek + 7) % 7
+        : 0;
+    // A time earlier today means its next occurrence
+    if (openAt && !openAt.now && openAt.minutes !== null && dayOffset === 0 && openAt.minutes < today.minutes) {
+        dayOffset = openAt.dayOfWeek !== null ? 7 : 1;
+    }
+
+    // Window: requested day + one week for "opens in" lookups
+    const intervals = buildIntervals(source, weekly, today, dayOffset + 8);
+    const windowEnd = (dayOffset + 8) * MINUTES_PER_DAY;
+
+    // Day-only request: any opening overlapping that local day
+    if (openAt && !openAt.now && openAt.dayOfWeek !== null && openAt.minutes === null) {
+        const dayStart = dayOffset * MINUTES_PER_DAY;
+        const hit = intervals.find(i => i.start < dayStart + MINUTES_PER_DAY && i.end > dayStart);
+        return { known: true, isOpen: !!hit, minutesUntilClose: null, minutesUntilOpen: null, exception: hit?.exception, evaluatedAt };
+    }
+
+    const t = openAt && !openAt.now && openAt.minutes !== null
+        ? dayOffset * MINUTES_PER_DAY + openAt.minutes
+        : today.minutes;
+
+    const current = intervals.find(i => i.start <= t && i.end > t);
+    if (current) {
+        const end = chainEnd(intervals, current);
+        return {
+            known: true,
+            isOpen: true,
+            minutesUntilClose: end >= windowEnd ? null : end - t,
+            minutesUntilOpen: null,
+            exception: current.exception,
+            evaluatedAt
+        };
+    }
+
+    const next = intervals.find(i => i.start > t);
+    const closedException = source.exceptions?.find(e => e.closed && e.date === addDays(today.date, Math.floor(t / MINUTES_PER_DAY)));
+    return {
+        known: true,
+        isOpen: false,
+        minutesUntilClose: null,
+        minutesUntilOpen: next ? next.start - t : null,
+        exception: closedException?.label,
+        evaluatedAt
+    };
+}
+
+/**
+ * Open blocks that touch a local calendar date ("YYYY-MM-DD"), as minutes
+ * relative to that date's midnight. Adjacent intervals are merged; a block
+ * spilling over from the previous evening starts below 0. Null when the
+ * source has no hours data.
+ */
+export function getOpenIntervalsOn(source: OpeningHoursSource | null | undefined, date: string): { start: number; end: number }[] | null {
+    if (!hasOpeningHours(source)) return null;
+    const weekly = getWeeklySchedule(source);
+    if (!weekly) return null;
+
+    const [y, m, d] = date.split("-").map(Number);
+    const dayOfWeek = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+    const intervals = buildIntervals(source, weekly, { date, dayOfWeek, minutes: 0 }, 0);
+
+    const merged: { start: number; end: number }[] = [];
+    for (const i of intervals) {
+        const last = merged[merged.length - 1];
+        if (last && i.start <= last.end) last.end = Math.max(last.end, i.end);
+        else merged.push({ start: i.start, end: i.end });
+    }
+    return merged.filter(i => i.end > 0);
+}
+
+/**
+ * Short status hint for result cards ("Closes in 30 min").
+ * Accounts for time elapsed since the status was evaluated on the server.
+ * Returns null when there is nothing urgent to say.
+ */
+export function getOpeningHint(status: OpenStatus | null | undefined, now: Date = new Date()): string | null {
+    if (!status?.known) return null;
+
+    const elapsed = Math.max(0, Math.floor((now.getTime() - new Date(status.evaluatedAt).getTime()) / 60_000));
+
+    if (status.isOpen && status.minutesUntilClose !== null) {
+        const remaining = status.minutesUntilClose - elapsed;
+        if (remaining <= 0) return "Closed";
+        if (remaining <= 60) return `Closes in ${remaining} min`;
+        return null;
+    }
+
+    if (!status.isOpen && status.minutesUntilOpen !== null) {
+        const remaining = status.minutesUntilOpen - elapsed;
+        if (remaining > 0 && remaining <= 60) return `Opens in ${remaining} min`;
+    }
+
+    if (status.exception) return status.isOpen ? `Special hours: ${status.exception}` : `Closed: ${status.exception}`;
+    return null;
+}
+
+/**
+ * Collects every hours source stored on a cached restaurant doc.
+ */
+export function getRestaurantOpeningHours(restaurant: Restaurant): OpeningHoursSource {
+    return {
+        periods: restaurant.details.openingHours?.periods,
+        specification: restaurant.openingHoursSpecification,
+        exceptions: restaurant.openingHoursExceptions,
+        timeZone: restaurant.timeZone,
+        utcOffsetMinutes: restaurant.details.utcOffsetMinutes
+    };
+}
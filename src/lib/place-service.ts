@@ -1,7 +1,8 @@
 import { getCache, setCache } from "@/lib/cache-utils";
+import { getProviderForPlaceId } from "@/lib/places-provider";
+import { servedMenus } from "@/lib/menu-schedule";
 import { Place } from "@/types/place";
-
-const GOOGLE_PLACES_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY;
+import type { MenuItem, RestaurantMenu } from "@/types";
 
 export async function getPlaceDetails(placeId: string): Promise<Place | null> {
     if (!placeId) throw new Error("Missing place_id");
@@ -15,9 +16,10 @@ export async function getPlaceDetails(placeId: string): Promise<Place | null> {
         const db = getAdminDb();
 
         // Parallelize Firestore reads
-        const [doc, menuSnap] = await Promise.all([
+        const [doc, menuSnap, menusSnap] = await Promise.all([
             db.collection("restaurants").doc(placeId).get(),
-            db.collection("restaurants").doc(placeId).collection("menu").get()
+            db.collection("restaurants").doc(placeId).collection("menu").get(),
+            db.collection("restaurants").doc(placeId).collection("menus").get()
         ]);
 
         if (doc.exists) {
@@ -27,13 +29,16 @@ export async function getPlaceDetails(placeId: string): Promise<Place | null> {
                 let menuItems = data.menu?.items || [];
 
                 if (!menuSnap.empty) {
-                    menuItems = menuSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as { id: string; name: string; price: number; category: string }));
+                    menuItems = menuSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as MenuItem));
                 }
+                const menus = servedMenus(menusSnap.docs.map(doc => ({ id: doc.id, ...doc.data() } as RestaurantMenu)), menuItems);
 
                 // Prepare claim data to merge later if needed
                 claimData = {
                     isClaimed: true,
                     menu: { items: menuItems },
+                    menus,
+                    ...(data.timeZone ? { timeZone: data.timeZone } : {}),
                     tableConfig: data.tableConfig,
                     customPhotos: data.customPhotos || data.images?.owner,
                     // Map root fields that we save in RestaurantEditor
@@ -105,8 +110,6 @@ export async function getPlaceDetails(placeId: string): Promise<Place | null> {
         // If the fetch failed, claimData is null, so we treat as unclaimed.
     }
 
-    if (!GOOGLE_PLACES_API_KEY) throw new Error("Server Configuration Error: Missing Map Key");
-
     // 1. Cache Check
     const cacheKey = `v4_details_${placeId}`;
     const cachedData = await getCache<Place>("place_details_cache_v2", cacheKey);
@@ -121,30 +124,19 @@ export async function getPlaceDetails(placeId: string): Promise<Place | null> {
         return cachedData;
     }
 
-    console.log(`[PlaceService] Fetching V1 for ${placeId}`);
-
-    // 2. V1 Fetch
-    const url = `https://places.googleapis.com/v1/places/${placeId}`;
-    const res = await fetch(url, {
-        headers: {
-            "X-Goog-Api-Key": GOOGLE_PLACES_API_KEY,
-            "X-Goog-FieldMask": "id,displayName,formattedAddress,location,photos,rating,userRatingCount,regularOpeningHours,reviews,editorialSummary,priceLevel,websiteUri,internationalPhoneNumber,types",
-            "Accept-Language": "en"
-        }
-    });
+    const provider = getProviderForPlaceId(placeId);
+    console.log(`[PlaceService] Fetching ${provider.name} details for ${placeId}`);
 
-    if (!res.ok) {
-        const errText = await res.text();
-        console.error(`[PlaceService] Google API Error (${res.status}):`, errText);
-        throw new Error(`Google API Error: ${errText}`);
+    // 2. Provider Fetch (full detail level incl. reviews)
+    const data = await provider.getDetails(placeId, { detail: "full", languageCode: "en" });
+    if (!data) {
+        throw new Error(`Place not found: ${placeId}`);
     }
 
-    const data = await res.json();
-
     // 3. Map Response
-    const photos = (data.photos || []).map((p: { heightPx: number; widthPx: number; name: string }) => ({
-        height: p.heightPx,
-        width: p.widthPx,
+    const photos = (data.photos || []).map(p => ({
+        height: p.heightPx || 0,
+        width: p.widthPx || 0,
         name: p.name, // V1 name
         photo_reference: p.name, // Deprecated compat
         proxyPhotoUrl: `/api/images/proxy?id=${data.id}&ref=${encodeURIComponent(p.name)}&width=800`
@@ -154,7 +146,7 @@ export async function getPlaceDetails(placeId: string): Promise<Place | null> {
         place_id: data.id,
         name: data.displayName?.text || "Unknown Place",
         formatted_address: data.formattedAddress,
-        formatted_phone_number: data.internationalPhoneNumber,
+        formatted_phone_number: data.internationalPhoneNumber || data.nationalPhoneNumber,
         website: data.websiteUri,
         rating: data.rating,
         user_ratings_total: data.userRatingCount,
@@ -162,8 +154,8 @@ export async function getPlaceDetails(placeId: string): Promise<Place | null> {
         types: data.types || [],
         geometry: {
             location: {
-                lat: data.location?.latitude,
-                lng: data.location?.longitude
+                lat: data.location?.latitude ?? 0,
+                lng: data.location?.longitude ?? 0
             }
         },
         opening_hours: {
@@ -171,11 +163,11 @@ export async function getPlaceDetails(placeId: string): Promise<Place | null> {
             weekday_text: data.regularOpeningHours?.weekdayDescriptions || []
         },
         openingHoursSpecification: mapOpeningHoursToSpec(data.regularOpeningHours?.periods),
-        reviews: (data.reviews || []).map((r: { authorAttribution?: { displayName?: string; photoUri?: string }; rating: number; relativePublishTimeDescription: string; text?: { text: string }; publishTime?: string }) => ({
+        reviews: (data.reviews || []).map(r => ({
             author_name: r.authorAttribution?.displayName || "Anonymous",
             profile_photo_url: r.authorAttribution?.photoUri || "",
             rating: r.rating,
-            relative_time_description: r.relativePublishTimeDescription,
+            relative_time_description: r.relativePublishTimeDescription || "",
             text: r.text?.text || "",
             time: r.publishTime ? new Date(r.publishTime).getTime() / 1000 : 0
         })),
@@ -260,7 +252,7 @@ export async function getPlaceDetails(placeId: string): Promise<Place | null> {
     return mappedResult;
 }
 
-function mapPriceLevel(level: string): number | undefined {
+function mapPriceLevel(level?: string): number | undefined {
     if (!level) return undefined;
     switch (level) {
         case "PRICE_LEVEL_FREE": return 0;
@@ -272,7 +264,7 @@ function mapPriceLevel(level: string): number | undefined {
     }
 }
 
-function mapOpeningHoursToSpec(periods: { open: { hour: number; minute: number; day: number }; close?: { hour: number; minute: number; day: number } }[]): { dayOfWeek: string[]; opens: string; closes: string; }[] | undefined {
+function mapOpeningHoursToSpec(periods?: { open: { hour: number; minute: number; day: number }; close?: { hour: number; minute: number; day: number } }[]): { dayOfWeek: string[]; opens: string; closes: string; }[] | undefined {
     if (!periods || !Array.isArray(periods)) return undefined;
 
     const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
@@ -0,0 +1,163 @@
+/**
+ * Places Provider Abstraction
+ *
+ * Every place lookup in the search pipeline (light discovery, enrichment,
+ * place details, photos) goes through a PlacesProvider instead of calling
+ * places.googleapis.com directly.
+ *
+ * Implementations:
+ * - google:   Google Places API (New V1) - production default
+ * - overpass: OpenStreetMap via the Overpass API (free, no photos/reviews)
+ * - fixture:  Local JSON file - offline dev & tests
+ *
+ * All providers return places in the Google V1 shape (ProviderPlace), so
+ * saveRestaurantToCache() and the search mappers work unchanged.
+ *
+ * Select with PLACES_PROVIDER=google|overpass|fixture (default: google).
+ */
+
+import { createGooglePlacesProvider } from "@/lib/places-providers/google";
+import { createOverpassPlacesProvider } from "@/lib/places-providers/overpass";
+import { createFixturePlacesProvider } from "@/lib/places-providers/fixture";
+
+export type PlacesProviderName = "google" | "overpass" | "fixture";
+
+/**
+ * How much data to request.
+ * - light: id, name, types, rating, location (Stage 1 discovery)
+ * - rich:  + address, hours, photos, phone, website, status (Stage 3 enrichment)
+ * - full:  + reviews, editorial summary (place detail page)
+ */
+export type PlaceDetailLevel = "light" | "rich" | "full";
+
+/**
+ * Normalized place payload (subset of Google Places API V1 response).
+ */
+export interface ProviderPlace {
+    id: string;
+    displayName?: { text: string; languageCode?: string };
+    formattedAddress?: string;
+    location?: { latitude: number; longitude: number };
+    types?: string[];
+    rating?: number;
+    userRatingCount?: number;
+    priceLevel?: string;
+    businessStatus?: string;
+    nationalPhoneNumber?: string;
+    internationalPhoneNumber?: string;
+    websiteUri?: string;
+    regularOpeningHours?: {
+        openNow?: boolean;
+        weekdayDescriptions?: string[];
+        periods?: {
+            open: { day: number; hour: number; minute: number };
+            close?: { day: number; hour: number; minute: number };
+        }[];
+    };
+    photos?: { name: string; widthPx?: number; heightPx?: number }[];
+    reviews?: {
+        rating: number;
+        text?: { text: string };
+        relativePublishTimeDescription?: string;
+        publishTime?: string;
+        authorAttribution?: { displayName?: string; photoUri?: string };
+    }[];
+    editorialSummary?: { text: string };
+    utcOffsetMinutes?: number;
+}
+
+export interface NearbySearchParams {
+    lat: number;
+    lng: number;
+    radius: number;              // meters
+    maxResults: number;
+    includedTypes?: string[];
+    rankBy?: "popularity" | "distance";
+    detail?: PlaceDetailLevel;
+}
+
+export interface TextSearchParams {
+    query: string;
+    lat?: number;
+    lng?: number;
+    radius?: number;             // meters (bias, not restriction)
+    maxResults: number;
+    detail?: PlaceDetailLevel;
+    // Structured constraints from SearchIntent (providers apply what they support)
+    includedType?: string;       // e.g. "italian_restaurant"
+    openNow?: boolean;
+    priceLevels?: number[];      // 1-4
+}
+
+export interface PlaceDetailsOptions {
+    detail?: PlaceDetailLevel;
+    languageCode?: string;
+}
+
+export interface PlacesProvider {
+    readonly name: PlacesProviderName;
+    searchNearby(params: NearbySearchParams): Promise<ProviderPlace[]>;
+    searchText(params: TextSearchParams): Promise<ProviderPlace[]>;
+    /** @returns null if the place does not exist */
+    getDetails(placeId: string, options?: PlaceDetailsOptions): Promise<ProviderPlace | null>;
+    /** Resolves a photo resource name to a downloadable URI (null if unsupported). */
+    getPhotoUri(photoName: string, maxWidth: number): Promise<string | null>;
+}
+
+/**
+ * Thrown when the upstream provider returns a non-OK response.
+ */
+export class PlacesProviderError extends Error {
+    constructor(
+        public readonly provider: PlacesProviderName,
+        public readonly status: number,
+        message: string
+    ) {
+        super(message);
+        this.name = "PlacesProviderError";
+    }
+}
+
+// Place ID prefixes for non-Google providers (Google IDs have no prefix)
+export const OSM_PLACE_ID_PREFIX = "osm:";
+export const FIXTURE_PLACE_ID_PREFIX = "fixture:";
+
+const providers = new Map<PlacesProviderName, PlacesProvider>();
+
+function createProvider(name: PlacesProviderName): PlacesProvider {
+    switch (name) {
+        case "overpass": return createOverpassPlacesProvider();
+        case "fixture": return createFixturePlacesProvider();
+        default: return createGooglePlacesProvider();
+    }
+}
+
+function getProviderByName(name: PlacesProviderName): PlacesProvider {
+    let provider = providers.get(name);
+    if (!provider) {
+        provider = createProvider(name);
+        providers.set(name, provider);
+    }
+    return provider;
+}
+
+/**
+ * Get the configured discovery provider (PLACES_PROVIDER env).
+ */
+export function getPlacesProvider(): PlacesProvider {
+    const configured = (process.env.PLACES_PROVIDER || "google").toLowerCase();
+    const name: PlacesProviderName =
+        configured === "overpass" || configured === "fixture" ? configured : "google";
+    return getProviderByName(name);
+}
+
+/**
+ * Get the provider that owns a place ID.
+ * Cached restaurants can come from different providers, so details/photos
+ * must be routed by ID prefix rather than by the current configuration.
+ */
+export function getProviderForPlaceId(placeId: string): PlacesProvider {
+    if (placeId.startsWith(OSM_PLACE_ID_PREFIX)) return getProviderByName("overpass");
+    if (placeId.startsWith(FIXTURE_PLACE_ID_PREFIX)) return getProviderByName("fixture");
+    return getProviderByName("google");
+}
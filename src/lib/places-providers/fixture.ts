@@ -0,0 +1,151 @@
+/**
+ * File-backed fixture provider for offline dev and tests.
+ *
+ * Reads a JSON array of ProviderPlace objects (Google V1 shape) from
+ * PLACES_FIXTURE_PATH (default: fixtures/places.json). IDs should use the
+ * "fixture:" prefix so details/photos route back here after caching.
+ *
+ * Photos may set `name` to an absolute URL (or a path under /public),
+ * which getPhotoUri returns as-is.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+    type NearbySearchParams,
+    type PlaceDetailLevel,
+    type PlaceDetailsOptions,
+    type PlacesProvider,
+    type ProviderPlace,
+    type TextSearchParams
+} from "@/lib/places-provider";
+import { haversineDistance } from "@/lib/geo";
+
+const DEFAULT_FIXTURE_PATH = "fixtures/places.json";
+
+let fixtureCache: { file: string; places: ProviderPlace[] } | null = null;
+
+async function loadFixture(): Promise<ProviderPlace[]> {
+    const file = path.resolve(process.cwd(), process.env.PLACES_FIXTURE_PATH || DEFAULT_FIXTURE_PATH);
+    if (fixtureCache?.file === file) return fixtureCache.places;
+
+    const raw = await fs.readFile(file, "utf-8");
+    const places = JSON.parse(raw) as ProviderPlace[];
+    if (!Array.isArray(places)) {
+        throw new Error(`[FixturePlaces] ${file} must contain a JSON array`);
+    }
+
+    fixtureCache = { file, places };
+    console.log(`[FixturePlaces] Loaded ${places.length} places from ${file}`);
+    return places;
+}
+
+/** Strips fields the requested detail level would not include */
+function project(place: ProviderPlace, detail: PlaceDetailLevel): ProviderPlace {
+    if (detail === "full") return place;
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { reviews, editorialSummary, internationalPhoneNumber, ...rich } = place;
+    if (detail === "rich") return rich;
+
+    return {
+        id: place.id,
+        displayName: place.displayName,
+        types: place.types,
+        rating: place.rating,
+        userRatingCount: place.userRatingCount,
+        location: place.location
+    };
+}
+
+function withinRadius(place: ProviderPlace, lat: number, lng: number, radius: number): boolean {
+    if (!place.location) return false;
+    return haversineDistance(lat, lng, place.location.latitude, place.location.longitude) <= radius;
+}
+
+function byDistance(lat: number, lng: number) {
+    return (a: ProviderPlace, b: ProviderPlace) =>
+        haversineDistance(lat, lng, a.location!.latitude, a.location!.longitude) -
+        haversineDistance(lat, lng, b.location!.latitude, b.location!.longitude);
+}
+
+const PRICE_LEVEL_NUMBERS: Record<string, number> = {
+    PRICE_LEVEL_INEXPENSIVE: 1,
+    PRICE_LEVEL_MODERATE: 2,
+    PRICE_LEVEL_EXPENSIVE: 3,
+    PRICE_LEVEL_VERY_EXPENSIVE: 4
+};
+
+function matchesConstraints(place: ProviderPlace, params: TextSearchParams): boolean {
+    if (params.includedType && !place.types?.includes(params.includedType)) return false;
+    if (params.openNow && place.regularOpeningHours?.openNow === false) return false;
+    if (params.priceLevels?.length && place.priceLevel) {
+        const level = PRICE_LEVEL_NUMBERS[place.priceLevel];
+        if (level && !params.priceLevels.includes(level)) return false;
+    }
+    return true;
+}
+
+function matchesQuery(place: ProviderPlace, query: string): boolean {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const haystack = [
+        place.displayName?.text || "",
+        (place.types || []).join(" "),
+        place.editorialSummary?.text || ""
+    ].join(" ").toLowerCase();
+
+    return terms.some(term => haystack.includes(term));
+}
+
+export function createFixturePlacesProvider(): PlacesProvider {
+    return {
+        name: "fixture",
+
+        async searchNearby(params: NearbySearchParams): Promise<ProviderPlace[]> {
+            const places = await loadFixture();
+            const included = params.includedTypes;
+
+            const sorted = places
+                .filter(p => withinRadius(p, params.lat, params.lng, params.radius))
+                .filter(p => !included || included.some(t => p.types?.includes(t)));
+
+            if (params.rankBy === "distance") {
+                sorted.sort(byDistance(params.lat, params.lng));
+            } else {
+                sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
+            }
+
+            return sorted
+                .slice(0, params.maxResults)
+                .map(p => project(p, params.detail || "light"));
+        },
+
+        async searchText(params: TextSearchParams): Promise<ProviderPlace[]> {
+            const places = await loadFixture();
+            let matches = places.filter(p => matchesQuery(p, params.query) && matchesConstraints(p, params));
+
+            if (params.lat !== undefined && params.lng !== undefined) {
+                matches = matches.sort(byDistance(params.lat, params.lng));
+            }
+
+            return matches
+                .slice(0, params.maxResults)
+                .map(p => project(p, params.detail || "light"));
+        },
+
+        async getDetails(placeId: string, options: PlaceDetailsOptions = {}): Promise<ProviderPlace | null> {
+            const places = await loadFixture();
+            const place = places.find(p => p.id === placeId);
+            return place ? project(place, options.detail || "rich") : null;
+        },
+
+        async getPhotoUri(photoName: string): Promise<string | null> {
+            if (/^https?:\/\//.test(photoName)) return photoName;
+            if (photoName.startsWith("/")) {
+                const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+                return `${baseUrl}${photoName}`;
+            }
+            return null;
+        }
+    };
+}
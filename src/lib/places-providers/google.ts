@@ -0,0 +1,183 @@
+/**
+ * Google Places API (New V1) provider.
+ * Field masks are picked per detail level to keep per-call SKU costs down.
+ */
+
+import {
+    PlacesProviderError,
+    type NearbySearchParams,
+    type PlaceDetailLevel,
+    type PlaceDetailsOptions,
+    type PlacesProvider,
+    type ProviderPlace,
+    type TextSearchParams
+} from "@/lib/places-provider";
+
+const BASE_URL = "https://places.googleapis.com/v1";
+const MAX_API_RADIUS = 50000; // Google API max radius is 50km
+
+const PRICE_LEVEL_ENUMS: Record<number, string> = {
+    1: "PRICE_LEVEL_INEXPENSIVE",
+    2: "PRICE_LEVEL_MODERATE",
+    3: "PRICE_LEVEL_EXPENSIVE",
+    4: "PRICE_LEVEL_VERY_EXPENSIVE"
+};
+
+// Stage 1: Light fields for discovery (~$0.003/call)
+const LIGHT_FIELDS = [
+    "id",
+    "displayName",
+    "types",
+    "rating",
+    "userRatingCount",
+    "location"
+];
+
+// Stage 3: Rich fields for enrichment & restaurant cache
+const RICH_FIELDS = [
+    ...LIGHT_FIELDS,
+    "formattedAddress",
+    "priceLevel",
+    "businessStatus",          // For pre-enrichment filtering
+    "nationalPhoneNumber",
+    "websiteUri",
+    "regularOpeningHours",
+    "utcOffsetMinutes",        // Restaurant-local time for the opening-hours engine
+    "photos"
+];
+
+// Place detail page: everything incl. reviews (most expensive SKU)
+const FULL_FIELDS = [
+    ...RICH_FIELDS,
+    "internationalPhoneNumber",
+    "reviews",
+    "editorialSummary"
+];
+
+function fieldsFor(detail: PlaceDetailLevel): string[] {
+    if (detail === "full") return FULL_FIELDS;
+    if (detail === "rich") return RICH_FIELDS;
+    return LIGHT_FIELDS;
+}
+
+/** Search endpoints wrap every field in "places.*" */
+function searchFieldMask(detail: PlaceDetailLevel): string {
+    return fieldsFor(detail).map(f => `places.${f}`).join(",");
+}
+
+function getApiKey(): string {
+    const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY;
+    if (!apiKey) throw new Error("Missing NEXT_PUBLIC_GOOGLE_MAPS_KEY");
+    return apiKey;
+}
+
+async function postSearch(
+    endpoint: "searchNearby" | "searchText",
+    body: Record<string, unknown>,
+    detail: PlaceDetailLevel
+): Promise<ProviderPlace[]> {
+    const res = await fetch(`${BASE_URL}/places:${endpoint}`, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "X-Goog-Api-Key": getApiKey(),
+            "X-Goog-FieldMask": searchFieldMask(detail)
+        },
+        body: JSON.stringify(body)
+    });
+
+    if (!res.ok) {
+        const errorText = await res.text();
+        console.error(`[GooglePlaces] ${endpoint} error: ${res.status}`, errorText);
+        throw new PlacesProviderError("google", res.status, `Google Places API error: ${res.status}`);
+    }
+
+    const data = await res.json();
+    return data.places || [];
+}
+
+export function createGooglePlacesProvider(): PlacesProvider {
+    return {
+        name: "google",
+
+        async searchNearby(params: NearbySearchParams): Promise<ProviderPlace[]> {
+            const body: Record<string, unknown> = {
+                maxResultCount: Math.min(params.maxResults, 20),
+                includedTypes: params.includedTypes || ["restaurant"],
+                // searchNearby: locationRestriction with circle is valid
+                locationRestriction: {
+                    circle: {
+                        center: { latitude: params.lat, longitude: params.lng },
+                        radius: Math.min(params.radius, MAX_API_RADIUS)
+                    }
+                }
+            };
+            if (params.rankBy === "distance") body.rankPreference = "DISTANCE";
+
+            return postSearch("searchNearby", body, params.detail || "light");
+        },
+
+        async searchText(params: TextSearchParams): Promise<ProviderPlace[]> {
+            const body: Record<string, unknown> = {
+                textQuery: params.query,
+                maxResultCount: Math.min(params.maxResults, 20)
+            };
+
+            if (params.lat !== undefined && params.lng !== undefined && (params.lat !== 0 || params.lng !== 0)) {
+                // searchText: Use locationBias (locationRestriction only supports rectangle)
+                body.locationBias = {
+                    circle: {
+                        center: { latitude: params.lat, longitude: params.lng },
+                        radius: Math.min(params.radius || MAX_API_RADIUS, MAX_API_RADIUS)
+                    }
+                };
+            }
+
+            if (params.includedType) body.includedType = params.includedType;
+            if (params.openNow) body.openNow = true;
+            if (params.priceLevels?.length) {
+                body.priceLevels = params.priceLevels.map(level => PRICE_LEVEL_ENUMS[level]).filter(Boolean);
+            }
+
+            return postSearch("searchText", body, params.detail || "light");
+        },
+
+        async getDetails(placeId: string, options: PlaceDetailsOptions = {}): Promise<ProviderPlace | null> {
+            const headers: Record<string, string> = {
+                "X-Goog-Api-Key": getApiKey(),
+                "X-Goog-FieldMask": fieldsFor(options.detail || "rich").join(",")
+            };
+            if (options.languageCode) headers["Accept-Language"] = options.languageCode;
+
+            const res = await fetch(`${BASE_URL}/places/${placeId}`, { headers });
+
+            if (res.status === 404) return null;
+
+            if (!res.ok) {
+                const errText = await res.text();
+                console.error(`[GooglePlaces] Details error (${res.status}):`, errText);
+                throw new PlacesProviderError("google", res.status, `Google API Error: ${errText}`);
+            }
+
+            return await res.json();
+        },
+
+        async getPhotoUri(photoName: string, maxWidth: number): Promise<string | null> {
+            if (!photoName.startsWith("places/")) {
+                console.warn(`[GooglePlaces] ⚠️ Legacy photo reference detected: ${photoName}. Use V1.`);
+            }
+
+            const metaUrl = `${BASE_URL}/${photoName}/media?maxWidthPx=${maxWidth}&key=${getApiKey()}&skipHttpRedirect=true`;
+            const metaRes = await fetch(metaUrl);
+
+            if (!metaRes.ok) {
+                const errText = await metaRes.text();
+                console.error(`[GooglePlaces] Photo metadata error ${metaRes.status}: ${errText}`);
+                return null;
+            }
+
+            const metaData = await metaRes.json();
+            return metaData.photoUri || null;
+        }
+    };
+}
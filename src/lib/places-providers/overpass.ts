@@ -0,0 +1,255 @@
+/**
+ * OpenStreetMap provider backed by the Overpass API.
+ *
+ * Free and keyless, so it is a good fit for regions with solid OSM coverage.
+ * OSM has no ratings, reviews or photos - those fields stay empty and the
+ * scorer falls back to name/types/cuisine tags.
+ *
+ * Place IDs: "osm:{node|way|relation}:{id}"
+ */
+
+import {
+    OSM_PLACE_ID_PREFIX,
+    PlacesProviderError,
+    type NearbySearchParams,
+    type PlaceDetailLevel,
+    type PlacesProvider,
+    type ProviderPlace,
+    type TextSearchParams
+} from "@/lib/places-provider";
+import { haversineDistance } from "@/lib/geo";
+
+const DEFAULT_OVERPASS_URL = "https://overpass-api.de/api/interpreter";
+const QUERY_TIMEOUT_S = 25;
+const DEFAULT_TEXT_RADIUS = 5000;
+
+// OSM amenity values we treat as food places
+const FOOD_AMENITIES = "restaurant|cafe|fast_food|bar|pub|food_court|ice_cream|biergarten";
+
+interface OverpassElement {
+    type: "node" | "way" | "relation";
+    id: number;
+    lat?: number;
+    lon?: number;
+    center?: { lat: number; lon: number };
+    tags?: Record<string, string>;
+}
+
+// OSM cuisine tag -> Google-style type
+const CUISINE_TYPE_MAP: Record<string, string> = {
+    pizza: "pizza_restaurant",
+    italian: "italian_restaurant",
+    burger: "hamburger_restaurant",
+    sushi: "sushi_restaurant",
+    japanese: "japanese_restaurant",
+    chinese: "chinese_restaurant",
+    thai: "thai_restaurant",
+    indian: "indian_restaurant",
+    mexican: "mexican_restaurant",
+    vietnamese: "vietnamese_restaurant",
+    korean: "korean_restaurant",
+    greek: "greek_restaurant",
+    turkish: "turkish_restaurant",
+    kebab: "turkish_restaurant",
+    french: "french_restaurant",
+    spanish: "spanish_restaurant",
+    seafood: "seafood_restaurant",
+    steak_house: "steak_house",
+    barbecue: "barbecue_restaurant",
+    coffee_shop: "coffee_shop",
+    breakfast: "breakfast_restaurant",
+    brunch: "brunch_restaurant",
+    ice_cream: "ice_cream_shop",
+    mediterranean: "mediterranean_restaurant",
+    middle_eastern: "middle_eastern_restaurant",
+    lebanese: "lebanese_restaurant"
+};
+
+const AMENITY_TYPE_MAP: Record<string, string> = {
+    restaurant: "restaurant",
+    cafe: "cafe",
+    fast_food: "fast_food_restaurant",
+    bar: "bar",
+    pub: "bar",
+    food_court: "restaurant",
+    ice_cream: "ice_cream_shop",
+    biergarten: "bar"
+};
+
+function getOverpassUrl(): string {
+    return process.env.OVERPASS_API_URL || DEFAULT_OVERPASS_URL;
+}
+
+function toPlaceId(el: OverpassElement): string {
+    return `${OSM_PLACE_ID_PREFIX}${el.type}:${el.id}`;
+}
+
+function parsePlaceId(placeId: string): { type: string; id: string } | null {
+    const match = /^osm:(node|way|relation):(\d+)$/.exec(placeId);
+    return match ? { type: match[1], id: match[2] } : null;
+}
+
+/** Escapes user input for use inside an Overpass regex string literal */
+function escapeOverpassRegex(value: string): string {
+    return value.replace(/[\\"]/g, "").replace(/[.*+?^${}()|[\]]/g, "\\$&");
+}
+
+function mapTypes(tags: Record<string, string>): string[] {
+    const types = new Set<string>();
+
+    for (const cuisine of (tags.cuisine || "").split(";")) {
+        const mapped = CUISINE_TYPE_MAP[cuisine.trim().toLowerCase()];
+        if (mapped) types.add(mapped);
+    }
+
+    if (tags["diet:vegan"] === "only" || tags["diet:vegan"] === "yes") types.add("vegan_restaurant");
+    if (tags["diet:vegetarian"] === "only" || tags["diet:vegetarian"] === "yes") types.add("vegetarian_restaurant");
+
+    const amenityType = AMENITY_TYPE_MAP[tags.amenity || ""];
+    if (amenityType) types.add(amenityType);
+
+    types.add("food");
+    types.add("point_of_interest");
+    types.add("establishment");
+    return [...types];
+}
+
+function formatAddress(tags: Record<string, string>): string | undefined {
+    const street = [tags["addr:street"], tags["addr:housenumber"]].filter(Boolean).join(" ");
+    const city = [tags["addr:postcode"], tags["addr:city"]].filter(Boolean).join(" ");
+    const address = [street, city].filter(Boolean).join(", ");
+    return address || undefined;
+}
+
+function mapElement(el: OverpassElement, detail: PlaceDetailLevel): ProviderPlace | null {
+    const tags = el.tags || {};
+    const lat = el.lat ?? el.center?.lat;
+    const lon = el.lon ?? el.center?.lon;
+    if (!tags.name || lat === undefined || lon === undefined) return null;
+
+    const place: ProviderPlace = {
+        id: toPlaceId(el),
+        displayName: { text: tags.name },
+        types: mapTypes(tags),
+        location: { latitude: lat, longitude: lon }
+    };
+
+    if (detail === "light") return place;
+
+    place.formattedAddress = formatAddress(tags);
+    place.nationalPhoneNumber = tags.phone || tags["contact:phone"];
+    place.websiteUri = tags.website || tags["contact:website"];
+    place.businessStatus = tags["disused:amenity"] ? "CLOSED_PERMANENTLY" : "OPERATIONAL";
+
+    if (tags.opening_hours) {
+        // OSM opening_hours syntax is kept verbatim; periods are not derived
+        place.regularOpeningHours = { weekdayDescriptions: [tags.opening_hours] };
+    }
+
+    if (detail === "full" && tags.description) {
+        place.editorialSummary = { text: tags.description };
+    }
+
+    return place;
+}
+
+async function runQuery(query: string): Promise<OverpassElement[]> {
+    const res = await fetch(getOverpassUrl(), {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: `data=${encodeURIComponent(query)}`
+    });
+
+    if (!res.ok) {
+        const errorText = await res.text();
+        console.error(`[Overpass] Query error: ${res.status}`, errorText.substring(0, 200));
+        throw new PlacesProviderError("overpass", res.status, `Overpass API error: ${res.status}`);
+    }
+
+    const data = await res.json();
+    return data.elements || [];
+}
+
+function sortAndLimit(places: ProviderPlace[], lat: number, lng: number, maxResults: number): ProviderPlace[] {
+    return places
+        .map(p => ({
+            place: p,
+            distance: haversineDistance(lat, lng, p.location!.latitude, p.location!.longitude)
+        }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, maxResults)
+        .map(entry => entry.place);
+}
+
+export function createOverpassPlacesProvider(): PlacesProvider {
+    return {
+        name: "overpass",
+
+        async searchNearby(params: NearbySearchParams): Promise<ProviderPlace[]> {
+            const { lat, lng, radius } = params;
+            const around = `(around:${Math.round(radius)},${lat},${lng})`;
+            const query = `[out:json][timeout:${QUERY_TIMEOUT_S}];
+(
+  nwr["amenity"~"^(${FOOD_AMENITIES})$"]["name"]${around};
+);
+out center tags;`;
+
+            const elements = await runQuery(query);
+            const places = elements
+                .map(el => mapElement(el, params.detail || "light"))
+                .filter((p): p is ProviderPlace => p !== null);
+
+            console.log(`[Overpass] Nearby: ${places.length} places within ${radius}m`);
+            return sortAndLimit(places, lat, lng, params.maxResults);
+        },
+
+        async searchText(params: TextSearchParams): Promise<ProviderPlace[]> {
+            if (params.lat === undefined || params.lng === undefined) {
+                // Overpass has no global text index - a location is required
+                console.warn("[Overpass] Text search without location is not supported");
+                return [];
+            }
+
+            const { lat, lng } = params;
+            const radius = Math.round(params.radius || DEFAULT_TEXT_RADIUS);
+            const term = escapeOverpassRegex(params.query.trim());
+            const around = `(around:${radius},${lat},${lng})`;
+            const filter = `["amenity"~"^(${FOOD_AMENITIES})$"]`;
+            const query = `[out:json][timeout:${QUERY_TIMEOUT_S}];
+(
+  nwr${filter}["name"~"${term}",i]${around};
+  nwr${filter}["name"]["cuisine"~"${term}",i]${around};
+);
+out center tags;`;
+
+            // includedType/openNow/priceLevels are not applied - OSM has no price data
+            // and opening_hours is free text; the search route post-filters instead
+            const elements = await runQuery(query);
+            const places = elements
+                .map(el => mapElement(el, params.detail || "light"))
+                .filter((p): p is ProviderPlace => p !== null);
+
+            console.log(`[Overpass] Text "${params.query}": ${places.length} places`);
+            return sortAndLimit(places, lat, lng, params.maxResults);
+        },
+
+        async getDetails(placeId: string, options = {}): Promise<ProviderPlace | null> {
+            const parsed = parsePlaceId(placeId);
+            if (!parsed) return null;
+
+            const query = `[out:json][timeout:${QUERY_TIMEOUT_S}];
+${parsed.type}(${parsed.id});
+out center tags;`;
+
+            const elements = await runQuery(query);
+            if (elements.length === 0) return null;
+
+            return mapElement(elements[0], options.detail || "rich");
+        },
+
+        async getPhotoUri(): Promise<string | null> {
+            // OSM has no photo hosting
+            return null;
+        }
+    };
+}
@@ -88,6 +88,11 @@ export function getBusinessLimits(plan: BusinessPlan) {
     return BUSINESS_LIMITS[plan] || BUSINESS_LIMITS.free;
 }
 
+// Business plan from an owner's user doc (subscription first, then older fields)
+export function ownerPlanOf(userData: { subscription?: { tier?: string }; tier?: string; plan?: string } | undefined): BusinessPlan {
+    return (userData?.subscription?.tier || userData?.tier || userData?.plan || "free") as BusinessPlan;
+}
+
 // Check if user has exceeded their AI check limit
 export function canUseAICheck(plan: DinerPlan, currentUsage: number): boolean {
     const limits = getDinerLimits(plan);
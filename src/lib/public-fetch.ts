@@ -0,0 +1,144 @@
+/**
+ * Public Fetch - GET an owner-entered URL without letting it reach internal hosts
+ *
+ * Used by the website menu import (/api/menu/import) - the URL comes from the
+ * restaurant doc - and by Web Push, whose endpoints the browser saves to the
+ * user's doc. Both are untrusted input for the server.
+ *
+ * RULES:
+ * - http(s) only; every address the host resolves to must be public - the
+ *   check runs inside the connection's DNS lookup, so the address checked is
+ *   the address connected to (no rebinding between check and connect)
+ * - IP literals in any form the URL parser accepts ("2130706433",
+ *   "0x7f000001", "[::1]") are normalized by it and checked the same way
+ * - Redirects are followed by hand (up to MAX_REDIRECTS), every hop checked
+ * - The body is streamed and cut at maxBytes; nothing past it is read
+ * - Clients that make their own requests (web-push) connect through
+ *   publicHttpsAgent, which runs the same DNS check
+ *
+ * Server-only (node:http).
+ */
+
+import http from "node:http";
+import https from "node:https";
+import dns from "node:dns";
+import net from "node:net";
+
+const MAX_REDIRECTS = 3;
+
+const BLOCKED = new net.BlockList();
+[
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3]
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, "ipv4"));
+[
+    ["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8], ["64:ff9b::", 96], ["2001:db8::", 32]
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, "ipv6"));
+
+export interface PublicFetchOptions {
+    headers?: Record<string, string>;
+    timeoutMs: number;
+    maxBytes: number;
+}
+
+/**
+ * Loopback, private, link-local, CGNAT, multicast and reserved addresses.
+ */
+export function isPrivateAddress(address: string): boolean {
+    // BlockList matches IPv4-mapped IPv6 (::ffff:7f00:1) against the IPv4 ranges
+    const family = net.isIP(address);
+    if (family === 4) return BLOCKED.check(address, "ipv4");
+    if (family === 6) return BLOCKED.check(address, "ipv6");
+    return true;
+}
+
+/**
+ * Parses an http(s) URL, rejecting internal host names and private IP literals.
+ * Host names that resolve to private addresses are caught at connect time.
+ */
+export function parsePublicUrl(value: string): URL | null {
+    try {
+        const url = new URL(value);
+        if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+        if (url.username || url.password) return null;
+
+        const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+        if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) return null;
+        if (net.isIP(host) && isPrivateAddress(host)) return null;
+        return url;
+    } catch {
+        return null;
+    }
+}
+
+// dns.lookup with every result checked - errors out before a private address is connected to
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, "", 4);
+        const list = addresses as dns.LookupAddress[];
+        if (list.length === 0 || list.some(entry => isPrivateAddress(entry.address))) {
+            return callback(Object.assign(new Error(`${hostname} resolves to a non-public address`), { code: "EPRIVATEADDRESS" }), "", 4);
+        }
+        if ((options as dns.LookupAllOptions).all) {
+            (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, list);
+        } else {
+            callback(null, list[0].address, list[0].family);
+        }
+    });
+};
+
+/** HTTPS agent that refuses to connect to non-public addresses */
+export const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
+
+function requestOnce(url: URL, options: PublicFetchOptions): Promise<{ status: number; location?: string; body: string }> {
+    return new Promise((resolve, reject) => {
+        const client = url.protocol === "https:" ? https : http;
+        const req = client.get(url, {
+            headers: options.headers,
+            lookup: publicLookup,
+            signal: AbortSignal.timeout(options.timeoutMs)
+        }, (res) => {
+            const status = res.statusCode || 0;
+            if (status >= 300 && status < 400) {
+                res.resume();
+                resolve({ status, location: res.headers.location, body: "" });
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            res.on("data", (chunk: Buffer) => {
+                const room = options.maxBytes - size;
+                chunks.push(chunk.length > room ? chunk.subarray(0, room) : chunk);
+                size += Math.min(chunk.length, room);
+                if (size >= options.maxBytes) {
+                    // Enough - stop reading and drop the connection
+                    res.destroy();
+                    resolve({ status, body: Buffer.concat(chunks).toString("utf8") });
+                }
+            });
+            res.on("end", () => resolve({ status, body: Buffer.concat(chunks).toString("utf8") }));
+            res.on("error", reject);
+        });
+        req.on("error", reject);
+    });
+}
+
+/**
+ * GET `url` as text, or null on a non-2xx answer / too many redirects.
+ * Throws on blocked addresses, network errors and timeouts.
+ */
+export async function fetchPublicText(url: URL, options: PublicFetchOptions): Promise<string | null> {
+    let current = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const res = await requestOnce(current, options);
+        if (res.status >= 300 && res.status < 400) {
+            const next = res.location ? parsePublicUrl(new URL(res.location, current).toString()) : null;
+            if (!next) return null;
+            current = next;
+            continue;
+        }
+        return res.status >= 200 && res.status < 300 ? res.body : null;
+    }
+    return null;
+}
@@ -19,6 +19,9 @@ export const RATE_LIMITS = {
     },
     CORE: {
         DEFAULT: { limit: 60, windowMs: 60 * 1000 }      // 60 reqs / 1 min (general API)
+    },
+    SUPPORT: {
+        ALERT: { limit: 3, windowMs: 60 * 60 * 1000 }    // 3 emails / 1 hour per user
     }
 };
 
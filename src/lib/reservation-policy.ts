@@ -0,0 +1,41 @@
+/**
+ * Reservation Policy - when guests may cancel or change their booking
+ *
+ * Stored on the restaurant doc as `reservationPolicy` (ReservationPolicyEditor).
+ *
+ * RULES:
+ * - Guests can cancel or modify pending and confirmed bookings until
+ *   `cancellationWindowHours` before the sitting starts; after that they
+ *   have to call the restaurant
+ * - A window of 0 allows changes up to the start time
+ * - A modified booking that was confirmed stays confirmed when a table is
+ *   free for the new sitting, otherwise it goes back to pending
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import type { ReservationPolicy } from "@/types";
+
+export const DEFAULT_RESERVATION_POLICY: ReservationPolicy = {
+    cancellationWindowHours: 2
+};
+
+export const MAX_CANCELLATION_WINDOW_HOURS = 7 * 24;
+
+/**
+ * Stored policy merged over the defaults (older docs have none).
+ */
+export function resolveReservationPolicy(policy: Partial<ReservationPolicy> | null | undefined): ReservationPolicy {
+    return { ...DEFAULT_RESERVATION_POLICY, ...(policy || {}) };
+}
+
+/**
+ * Last moment a guest may cancel or modify a sitting starting at `startsAt`.
+ */
+export function getChangeDeadline(policy: ReservationPolicy, startsAt: Date): Date {
+    return new Date(startsAt.getTime() - policy.cancellationWindowHours * 60 * 60 * 1000);
+}
+
+export function canGuestChange(policy: ReservationPolicy, startsAt: Date, now: Date = new Date()): boolean {
+    return now < getChangeDeadline(policy, startsAt);
+}
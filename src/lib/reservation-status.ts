@@ -0,0 +1,101 @@
+/**
+ * Reservation Status - lifecycle state machine
+ *
+ *   pending ──► confirmed ──► seated ──► finished
+ *      │            │
+ *      │            └──► no_show
+ *      └──► rejected
+ *   pending / confirmed ──► cancelled_by_guest | cancelled_by_venue
+ *
+ * RULES:
+ * - Only the transitions below exist; everything else is rejected with
+ *   INVALID_TRANSITION (transitionReservation in reservations.ts)
+ * - Diners can only cancel their own booking (within the reservationPolicy
+ *   window, see reservation-policy.ts); the owner drives the rest
+ * - "system" covers automated jobs (auto-finish, no-show sweeps) and
+ *   confirms waitlist offers the guest accepted (waitlist.ts)
+ * - finished, no_show, rejected and both cancellations are final; legacy
+ *   "cancelled" bookings are final too
+ * - Every transition appends a ReservationHistoryEntry to `historyLog`
+ * - Pending, confirmed and seated bookings hold their tables
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import type { DepositStatus, ReservationActor, ReservationStatus } from "@/types";
+
+const TRANSITIONS: Partial<Record<ReservationStatus, Partial<Record<ReservationStatus, ReservationActor[]>>>> = {
+    pending: {
+        confirmed: ["owner", "system"],
+        rejected: ["owner", "system"],
+        cancelled_by_guest: ["diner"],
+        cancelled_by_venue: ["owner"]
+    },
+    confirmed: {
+        seated: ["owner"],
+        no_show: ["owner", "system"],
+        cancelled_by_guest: ["diner"],
+        cancelled_by_venue: ["owner"]
+    },
+    seated: {
+        finished: ["owner", "system"]
+    }
+};
+
+export const ACTIVE_RESERVATION_STATUSES: ReservationStatus[] = ["pending", "confirmed", "seated"];
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+    pending: "Pending",
+    confirmed: "Confirmed",
+    seated: "Seated",
+    finished: "Finished",
+    no_show: "No-show",
+    rejected: "Rejected",
+    cancelled_by_guest: "Cancelled by guest",
+    cancelled_by_venue: "Cancelled by venue",
+    cancelled: "Cancelled"
+};
+
+export const RESERVATION_STATUS_COLORS: Record<ReservationStatus, string> = {
+    pending: "bg-yellow-100 text-yellow-700",
+    confirmed: "bg-green-100 text-green-700",
+    seated: "bg-blue-100 text-blue-700",
+    finished: "bg-gray-100 text-gray-700",
+    no_show: "bg-orange-100 text-orange-700",
+    rejected: "bg-red-100 text-red-700",
+    cancelled_by_guest: "bg-red-100 text-red-700",
+    cancelled_by_venue: "bg-red-100 text-red-700",
+    cancelled: "bg-red-100 text-red-700"
+};
+
+// Deposit state shown next to the booking status (deposits.ts)
+export const DEPOSIT_STATUS_LABELS: Record<DepositStatus, string> = {
+    requires_payment: "Deposit unpaid",
+    authorized: "Deposit held",
+    captured: "Deposit charged",
+    released: "Deposit released",
+    refunded: "Deposit refunded",
+    expired: "Deposit not paid",
+    failed: "Deposit failed"
+};
+
+export function formatDeposit(cents: number): string {
+    return `€${(cents / 100).toFixed(cents % 100 === 0 ? 0 : 2)}`;
+}
+
+export function canTransition(from: ReservationStatus, to: ReservationStatus, actor: ReservationActor): boolean {
+    return TRANSITIONS[from]?.[to]?.includes(actor) ?? false;
+}
+
+/**
+ * Statuses `actor` may move a booking to from `from` (empty when final).
+ */
+export function getNextStatuses(from: ReservationStatus, actor: ReservationActor): ReservationStatus[] {
+    return Object.entries(TRANSITIONS[from] || {})
+        .filter(([, actors]) => actors?.includes(actor))
+        .map(([status]) => status as ReservationStatus);
+}
+
+export function isFinalStatus(status: ReservationStatus): boolean {
+    return !TRANSITIONS[status];
+}
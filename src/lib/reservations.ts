@@ -0,0 +1,875 @@
+/**
+ * Reservations - availability and server-side booking (`reservations/{id}`)
+ *
+ * Bookings are created only through POST /api/reservations (Admin SDK);
+ * firestore.rules no longer allow client creates.
+ *
+ * AVAILABILITY RULES:
+ * - With a floor plan (`tableConfig.tables`), a slot is free when the party
+ *   fits the bookable tables left after seating every overlapping booking
+ *   (see floor-plan.ts)
+ * - Without one, capacity is `bookableTables` (falls back to `totalTables`)
+ *   tables of `seatsPerTable` seats and a party takes ceil(guests / seatsPerTable)
+ * - Sitting length, table reset buffer and last seating come from the
+ *   restaurant's seatingRules (see seating-rules.ts); a table is held from
+ *   the start until end + buffer
+ * - A slot is offered when it respects the last-seating rule for an open
+ *   block of the restaurant's hours (in its own timezone), starts at least
+ *   MIN_LEAD_MINUTES from now, and enough tables are free for every
+ *   overlapping booking
+ * - Pending, confirmed and seated bookings hold tables; final statuses don't
+ * - The owner's plan caps monthly bookings (canAcceptReservation)
+ * - Confirmed bookings are assigned to the best-fitting table(s); the owner
+ *   can override the assignment from the dashboard
+ * - Status changes go through transitionReservation (reservation-status.ts)
+ *   and are appended to `historyLog`
+ * - Guests cancel or modify within the restaurant's reservationPolicy
+ *   (reservation-policy.ts); the owner gets an in-app notification
+ * - New requests, confirmations, rejections, cancellations and guest changes
+ *   are sent by email / SMS / push once committed (notifications.ts)
+ * - Venues with a deposit get a `deposit` on each booking (deposits.ts)
+ * - Freed slots are offered to waitlisted parties as held bookings
+ *   (waitlist.ts)
+ * - Finished bookings are metered for the owner's per-cover fee
+ *   (cover-billing.ts)
+ * - Walk-ins are entered by the owner during service and start seated
+ *   (createWalkIn); they hold tables like bookings but don't count towards
+ *   the plan limit or per-cover fees (`source: "walk_in"`)
+ */
+
+import { z } from "zod";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { canAcceptReservation, ownerPlanOf } from "@/lib/plan-limits";
+import { getLocalTime, getOpenIntervalsOn, type OpeningHoursSource } from "@/lib/opening-hours";
+import { MAX_COMBINED_TABLES, canSeatParty, findBestTables, getMaxPartySize, getOccupiedTables, type TableSitting } from "@/lib/floor-plan";
+import { getDiningMinutes, getLastSeating, resolveSeatingRules } from "@/lib/seating-rules";
+import { ACTIVE_RESERVATION_STATUSES, RESERVATION_STATUS_LABELS, canTransition } from "@/lib/reservation-status";
+import { canGuestChange, resolveReservationPolicy } from "@/lib/reservation-policy";
+import { addNotification, notifyReservation, type ReservationNotice } from "@/lib/notifications";
+import type { NotificationEvent } from "@/lib/notification-templates";
+import { meterCovers } from "@/lib/cover-billing";
+import type { FloorTable, ReservationActor, ReservationDeposit, ReservationHistoryEntry, ReservationPolicy, ReservationStatus, ReservationWaitlistOffer, SeatingRules } from "@/types";
+
+export const RESERVATIONS_COLLECTION = "reservations";
+export const SLOT_INTERVAL_MINUTES = 30;
+export const MAX_PARTY_SIZE = 20;
+export const MIN_LEAD_MINUTES = 60;         // No bookings for the next hour
+export const BOOKING_HORIZON_DAYS = 90;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Used when a restaurant has no hours data at all
+const DEFAULT_SERVICE_HOURS = { start: 11 * 60, end: 23 * 60 };
+
+// Status changes the other side hears about outside the app
+const STATUS_NOTIFICATIONS: Partial<Record<ReservationStatus, NotificationEvent>> = {
+    confirmed: "reservation_confirmed",
+    rejected: "reservation_rejected",
+    cancelled_by_venue: "reservation_cancelled_by_venue",
+    cancelled_by_guest: "reservation_cancelled"
+};
+
+export class ReservationError extends Error {
+    constructor(public readonly status: number, public readonly code: string, message: string) {
+        super(message);
+        this.name = "ReservationError";
+    }
+}
+
+export const CreateReservationSchema = z.object({
+    placeId: z.string().trim().min(1).max(300),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+    time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM"),
+    guests: z.number().int().min(1).max(MAX_PARTY_SIZE),
+    customerName: z.string().trim().min(1).max(80),
+    customerPhone: z.string().trim().min(5).max(30),
+    notes: z.string().trim().max(500).optional()
+});
+
+export type CreateReservationInput = z.infer<typeof CreateReservationSchema>;
+
+export const ModifyReservationSchema = CreateReservationSchema
+    .pick({ date: true, time: true, guests: true })
+    .extend({ reservationId: z.string().min(1) });
+
+export type ModifyReservationInput = z.infer<typeof ModifyReservationSchema>;
+
+export const UpdateReservationStatusSchema = z.object({
+    reservationId: z.string().min(1),
+    status: z.enum(["confirmed", "seated", "finished", "no_show", "rejected", "cancelled_by_guest", "cancelled_by_venue"]),
+    reason: z.string().trim().max(300).optional()
+});
+
+export const WalkInSchema = z.object({
+    placeId: z.string().trim().min(1).max(300),
+    guests: z.number().int().min(1).max(MAX_PARTY_SIZE),
+    customerName: z.string().trim().max(80).optional(),
+    customerPhone: z.string().trim().max(30).optional(),
+    // Omitted = best free fit right now
+    tableIds: z.array(z.string().min(1)).min(1).max(MAX_COMBINED_TABLES).optional(),
+    notes: z.string().trim().max(500).optional()
+});
+
+export type WalkInInput = z.infer<typeof WalkInSchema>;
+
+export interface AvailabilitySlot {
+    time: string;            // "HH:MM", restaurant local time
+    endTime: string;         // When the table is expected back (without buffer)
+    available: boolean;
+    reason?: string;         // Why an unavailable slot can't be booked
+}
+
+export interface DayAvailability {
+    date: string;
+    guests: number;
+    slots: AvailabilitySlot[];
+    maxPartySize: number;
+    depositAmount: number;   // Cents held per booking, 0 = none (deposits.ts)
+    closedReason?: string;   // Set when nothing can be booked that day
+}
+
+/** Booking window on the restaurant's local day, in minutes after midnight */
+interface BookedSitting extends TableSitting {
+    id: string;
+    tables: number;          // Legacy counter model
+}
+
+interface RestaurantBookingData {
+    name: string;
+    ownerId: string | null;
+    isClaimed: boolean;
+    tables: number;
+    seatsPerTable: number;
+    floorPlan: FloorTable[] | null;   // All tables, when the owner drew a floor plan
+    seatingRules: SeatingRules;
+    depositAmount: number;            // Cents, 0 = no deposit
+    hours: OpeningHoursSource;
+}
+
+// =============================================================================
+// TIME HELPERS
+// =============================================================================
+
+export function formatMinutes(minutes: number): string {
+    const m = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+export function parseTime(time: string): number {
+    const [h, m] = time.split(":").map(Number);
+    return h * 60 + m;
+}
+
+function addDays(date: string, days: number): string {
+    const [y, m, d] = date.split("-").map(Number);
+    return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/** "YYYY-MM" of the current month, matches users/{uid}/usage/{monthKey} */
+export function getMonthKey(at: Date = new Date()): string {
+    return `${at.getFullYear()}-${String(at.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Instant of a wall-clock time in the restaurant's timezone.
+ */
+function localToUtc(date: string, minutes: number, hours: OpeningHoursSource): Date {
+    const [y, m, d] = date.split("-").map(Number);
+    const guess = Date.UTC(y, m - 1, d, 0, minutes);
+    const local = getLocalTime(new Date(guess), hours);
+    const [ly, lm, ld] = local.date.split("-").map(Number);
+    const offset = Date.UTC(ly, lm - 1, ld, 0, local.minutes) - guess;
+    return new Date(guess - offset);
+}
+
+// =============================================================================
+// AVAILABILITY
+// =============================================================================
+
+function tablesNeeded(guests: number, seatsPerTable: number): number {
+    return Math.ceil(guests / Math.max(1, seatsPerTable));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toBookingData(data: any): RestaurantBookingData | null {
+    const config = data?.tableConfig;
+    const tables = config?.bookableTables ?? config?.totalTables;
+    if (!tables || !config?.seatsPerTable) return null;
+
+    return {
+        name: data.details?.name || data.name || "Restaurant",
+        ownerId: data.ownerId || null,
+        isClaimed: data.isClaimed === true,
+        tables,
+        seatsPerTable: config.seatsPerTable,
+        floorPlan: config.tables?.length ? config.tables : null,
+        seatingRules: resolveSeatingRules(data.seatingRules),
+        depositAmount: Math.max(0, Math.round((Number(data.pricingStrategy?.depositAmount) || 0) * 100)),
+        hours: {
+            periods: data.details?.openingHours?.periods,
+            specification: data.openingHoursSpecification,
+            exceptions: data.openingHoursExceptions,
+            timeZone: data.timeZone,
+            utcOffsetMinutes: data.details?.utcOffsetMinutes
+        }
+    };
+}
+
+/**
+ * Active sittings overlapping `date`: that day's bookings plus late bookings
+ * from the previous evening (shifted below 0). Ends include the reset buffer.
+ */
+function toSittings(docs: FirebaseFirestore.QueryDocumentSnapshot[], date: string, restaurant: RestaurantBookingData): BookedSitting[] {
+    const { seatingRules, seatsPerTable } = restaurant;
+    return docs
+        .map(doc => ({ ...doc.data(), id: doc.id }) as FirebaseFirestore.DocumentData)
+        .filter(r => ACTIVE_RESERVATION_STATUSES.includes(r.status) && typeof r.startMinutes === "number")
+        .map(r => {
+            const shift = r.dateKey === date ? 0 : -MINUTES_PER_DAY;
+            return {
+                id: r.id,
+                start: r.startMinutes + shift,
+                end: (r.endMinutes ?? r.startMinutes + getDiningMinutes(seatingRules, r.guests || 1, r.startMinutes))
+                    + seatingRules.bufferMinutes + shift,
+                guests: r.guests || 1,
+                tableIds: r.tableIds || undefined,
+                tables: r.tablesNeeded ?? tablesNeeded(r.guests || 1, seatsPerTable)
+            };
+        });
+}
+
+function bookableTables(restaurant: RestaurantBookingData): FloorTable[] {
+    return restaurant.floorPlan?.filter(t => t.bookable) || [];
+}
+
+function dayReservationsQuery(placeId: string, date: string) {
+    return getAdminDb()
+        .collection(RESERVATIONS_COLLECTION)
+        .where("placeId", "==", placeId)
+        .where("dateKey", "in", [addDays(date, -1), date]);
+}
+
+/**
+ * Slot grid for one day. Pure - callers load the restaurant and bookings.
+ */
+function computeAvailability(
+    restaurant: RestaurantBookingData,
+    date: string,
+    guests: number,
+    sittings: BookedSitting[],
+    now: Date
+): DayAvailability {
+    const rules = restaurant.seatingRules;
+    const maxPartySize = Math.min(
+        MAX_PARTY_SIZE,
+        restaurant.floorPlan ? getMaxPartySize(bookableTables(restaurant)) : restaurant.tables * restaurant.seatsPerTable
+    );
+    const base: DayAvailability = { date, guests, slots: [], maxPartySize, depositAmount: restaurant.depositAmount };
+
+    const today = getLocalTime(now, restaurant.hours);
+    if (date < today.date) return { ...base, closedReason: "This date is in the past" };
+    if (date > addDays(today.date, BOOKING_HORIZON_DAYS)) {
+        return { ...base, closedReason: `Bookings open ${BOOKING_HORIZON_DAYS} days in advance` };
+    }
+    if (guests > maxPartySize) {
+        return { ...base, closedReason: `Online booking is limited to ${maxPartySize} guests - please call the restaurant` };
+    }
+
+    const blocks = getOpenIntervalsOn(restaurant.hours, date) ?? [DEFAULT_SERVICE_HOURS];
+    const earliest = date === today.date ? today.minutes + MIN_LEAD_MINUTES : -Infinity;
+    const needed = tablesNeeded(guests, restaurant.seatsPerTable);
+
+    for (const block of blocks) {
+        // Sittings start on this date; duration depends on the day part
+        const first = Math.ceil(Math.max(0, block.start) / SLOT_INTERVAL_MINUTES) * SLOT_INTERVAL_MINUTES;
+
+        for (let t = first; t < Math.min(block.end, MINUTES_PER_DAY); t += SLOT_INTERVAL_MINUTES) {
+            const diningMinutes = getDiningMinutes(rules, guests, t);
+            if (t > getLastSeating(rules, block.end, diningMinutes)) continue;
+
+            const slot = { time: formatMinutes(t), endTime: formatMinutes(t + diningMinutes) };
+            if (t < earliest) {
+                base.slots.push({ ...slot, available: false, reason: "Too soon to book online" });
+                continue;
+            }
+
+            const holdUntil = t + diningMinutes + rules.bufferMinutes;
+            const free = restaurant.floorPlan
+                ? canSeatParty(bookableTables(restaurant), sittings, guests, t, holdUntil)
+                : sittings
+                    .filter(s => s.start < holdUntil && t < s.end)
+                    .reduce((sum, s) => sum + s.tables, 0) + needed <= restaurant.tables;
+
+            base.slots.push(free ? { ...slot, available: true } : { ...slot, available: false, reason: "Fully booked" });
+        }
+    }
+
+    if (base.slots.length === 0) return { ...base, closedReason: "Closed on this day" };
+    if (!base.slots.some(s => s.available)) return { ...base, closedReason: "No free tables for this party size" };
+    return base;
+}
+
+function assertSlotBookable(availability: DayAvailability, time: string): void {
+    if (availability.closedReason) {
+        throw new ReservationError(409, "UNAVAILABLE", availability.closedReason);
+    }
+
+    const slot = availability.slots.find(s => s.time === time);
+    if (!slot) {
+        throw new ReservationError(409, "OUTSIDE_HOURS", `${time} isn't bookable - the restaurant is closed or the sitting would run past closing`);
+    }
+    if (!slot.available) {
+        throw new ReservationError(409, slot.reason === "Fully booked" ? "FULLY_BOOKED" : "UNAVAILABLE", `${time}: ${slot.reason}`);
+    }
+}
+
+/**
+ * Bookable slots for a date and party size. `excludeReservationId` leaves a
+ * guest's own booking out, so they can see where they could move it.
+ */
+export async function getAvailability(placeId: string, date: string, guests: number, excludeReservationId?: string): Promise<DayAvailability> {
+    const db = getAdminDb();
+    const [restaurantSnap, reservationsSnap] = await Promise.all([
+        db.collection("restaurants").doc(placeId).get(),
+        dayReservationsQuery(placeId, date).get()
+    ]);
+
+    const restaurant = toBookingData(restaurantSnap.data());
+    if (!restaurantSnap.exists || !restaurantSnap.data()?.isClaimed || !restaurant) {
+        throw new ReservationError(409, "NOT_BOOKABLE", "This restaurant doesn't take online reservations yet");
+    }
+
+    const sittings = toSittings(reservationsSnap.docs, date, restaurant).filter(s => s.id !== excludeReservationId);
+    return computeAvailability(restaurant, date, guests, sittings, new Date());
+}
+
+// =============================================================================
+// BOOKING
+// =============================================================================
+
+/**
+ * Books a table in one transaction: re-checks the slot against current
+ * bookings, enforces the owner's plan limit and counts the booking towards
+ * the owner's monthly usage. With `waitlistOffer` the booking is held for a
+ * waitlisted guest by "system" (waitlist.ts).
+ */
+export async function createReservation(
+    user: { uid: string; email?: string },
+    input: CreateReservationInput,
+    waitlistOffer?: ReservationWaitlistOffer
+): Promise<{ id: string; status: string; placeName: string; depositAmount: number }> {
+    const db = getAdminDb();
+    const restaurantRef = db.collection("restaurants").doc(input.placeId);
+    const dinerRef = db.collection("users").doc(user.uid);
+    const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc();
+    const monthKey = getMonthKey();
+
+    const booking = await db.runTransaction(async (transaction) => {
+        const [restaurantSnap, dinerSnap, reservationsSnap] = await Promise.all([
+            transaction.get(restaurantRef),
+            transaction.get(dinerRef),
+            transaction.get(dayReservationsQuery(input.placeId, input.date))
+        ]);
+
+        const restaurant = toBookingData(restaurantSnap.data());
+        if (!restaurantSnap.exists || !restaurant?.isClaimed || !restaurant.ownerId) {
+            throw new ReservationError(409, "NOT_BOOKABLE", "This restaurant doesn't take online reservations yet");
+        }
+
+        // Free diners need search credits left (same rule the client create used to enforce)
+        const diner = dinerSnap.data();
+        const dinerTier = diner?.tier || diner?.subscription?.tier || "free";
+        if (dinerTier === "free" && (diner?.credits?.remaining ?? 0) <= 0) {
+            throw new ReservationError(403, "NO_CREDITS", "You're out of credits this month - upgrade to keep booking");
+        }
+
+        const ownerRef = db.collection("users").doc(restaurant.ownerId);
+        const usageRef = ownerRef.collection("usage").doc(monthKey);
+        const [ownerSnap, usageSnap] = await Promise.all([transaction.get(ownerRef), transaction.get(usageRef)]);
+
+        const owner = ownerSnap.data();
+        const ownerPlan = ownerPlanOf(owner);
+        if (!canAcceptReservation(ownerPlan, usageSnap.data()?.reservations || 0)) {
+            throw new ReservationError(409, "OWNER_LIMIT_REACHED", "This restaurant can't take more online bookings this month - please call them");
+        }
+
+        const sittings = toSittings(reservationsSnap.docs, input.date, restaurant);
+        assertSlotBookable(computeAvailability(restaurant, input.date, input.guests, sittings, new Date()), input.time);
+
+        const startMinutes = parseTime(input.time);
+        const created: ReservationHistoryEntry = {
+            status: "pending",
+            from: null,
+            by: waitlistOffer ? "system" : "diner",
+            uid: waitlistOffer ? null : user.uid,
+            timestamp: new Date().toISOString(),
+            ...(waitlistOffer ? { reason: "Offered from the waitlist" } : {})
+        };
+        const durationMinutes = getDiningMinutes(restaurant.seatingRules, input.guests, startMinutes);
+        transaction.set(reservationRef, {
+            userId: user.uid,
+            placeId: input.placeId,
+            placeName: restaurant.name,
+            customerName: input.customerName,
+            customerEmail: user.email || "",
+            customerPhone: input.customerPhone,
+            notes: input.notes || null,
+            date: Timestamp.fromDate(localToUtc(input.date, startMinutes, restaurant.hours)),
+            dateKey: input.date,
+            time: input.time,
+            startMinutes,
+            endMinutes: startMinutes + durationMinutes,
+            durationMinutes,
+            guests: input.guests,
+            tablesNeeded: tablesNeeded(input.guests, restaurant.seatsPerTable),
+            status: "pending",  // Requires owner confirmation
+            historyLog: [created],
+            ...(waitlistOffer ? { waitlistOffer } : {}),
+            ...(restaurant.depositAmount > 0 ? {
+                deposit: {
+                    amount: restaurant.depositAmount,
+                    currency: "eur",
+                    status: "requires_payment",
+                    updatedAt: created.timestamp
+                } satisfies ReservationDeposit
+            } : {}),
+            createdAt: FieldValue.serverTimestamp()
+        });
+        transaction.set(usageRef, { reservations: FieldValue.increment(1) }, { merge: true });
+
+        return { id: reservationRef.id, status: "pending", placeName: restaurant.name, depositAmount: restaurant.depositAmount };
+    });
+
+    // Waitlist offers are announced by waitlist.ts once the entry is updated
+    if (!waitlistOffer) {
+        const notice: ReservationNotice = {
+            id: booking.id,
+            placeId: input.placeId,
+            placeName: booking.placeName,
+            userId: user.uid,
+            customerName: input.customerName,
+            customerEmail: user.email,
+            customerPhone: input.customerPhone,
+            dateKey: input.date,
+            time: input.time,
+            guests: input.guests
+        };
+        await Promise.all([notifyReservation("reservation_created", notice), notifyReservation("reservation_requested", notice)]);
+    }
+    return booking;
+}
+
+// =============================================================================
+// STATUS
+// =============================================================================
+
+/**
+ * Guests can only cancel or modify before the restaurant's policy window.
+ */
+function assertGuestCanChange(reservation: FirebaseFirestore.DocumentData, storedPolicy: unknown): void {
+    const policy = resolveReservationPolicy(storedPolicy as Partial<ReservationPolicy> | undefined);
+    const startsAt: Date | undefined = reservation.date?.toDate?.();
+    if (startsAt && !canGuestChange(policy, startsAt)) {
+        throw new ReservationError(409, "CHANGE_WINDOW_PASSED",
+            `Changes are only possible up to ${policy.cancellationWindowHours} hours before your booking - please call the restaurant`);
+    }
+}
+
+/**
+ * Moves a booking to `status` on behalf of `uid` and appends the change to
+ * `historyLog`. The restaurant owner acts as "owner", the diner who booked as
+ * "diner"; anyone else is refused. `uid` null = "system" (automated jobs).
+ */
+export async function transitionReservation(
+    reservationId: string,
+    uid: string | null,
+    status: ReservationStatus,
+    reason?: string
+): Promise<{ from: ReservationStatus; status: ReservationStatus; by: ReservationActor; hasTables: boolean; placeId: string; dateKey: string | null }> {
+    const db = getAdminDb();
+    const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc(reservationId);
+    let notice: ReservationNotice | null = null;
+
+    const result = await db.runTransaction(async (transaction) => {
+        const reservationSnap = await transaction.get(reservationRef);
+        const reservation = reservationSnap.data();
+        if (!reservation) throw new ReservationError(404, "NOT_FOUND", "Reservation not found");
+
+        const restaurantSnap = await transaction.get(db.collection("restaurants").doc(reservation.placeId));
+        const ownerId: string | undefined = restaurantSnap.data()?.ownerId;
+        const roles: ReservationActor[] = [];
+        if (uid === null) roles.push("system");
+        if (uid && ownerId === uid) roles.push("owner");
+        if (uid && reservation.userId === uid) roles.push("diner");
+        if (roles.length === 0) {
+            throw new ReservationError(403, "FORBIDDEN", "You can't change this reservation");
+        }
+
+        const from = reservation.status as ReservationStatus;
+        // An owner booking their own restaurant may act as either
+        const by = roles.find(role => canTransition(from, status, role));
+        if (!by) {
+            throw new ReservationError(409, "INVALID_TRANSITION",
+                `A ${RESERVATION_STATUS_LABELS[from]?.toLowerCase() || from} reservation can't be marked ${RESERVATION_STATUS_LABELS[status].toLowerCase()}`);
+        }
+        if (by === "diner") {
+            assertGuestCanChange(reservation, restaurantSnap.data()?.reservationPolicy);
+        }
+        if (status === "confirmed" && by === "owner" && reservation.waitlistOffer && !reservation.waitlistOffer.acceptedAt) {
+            throw new ReservationError(409, "OFFER_PENDING", "The guest hasn't accepted this waitlist offer yet");
+        }
+        if (status === "confirmed" && reservation.deposit?.status === "requires_payment") {
+            throw new ReservationError(409, "DEPOSIT_UNPAID", "The guest hasn't paid the deposit yet");
+        }
+
+        const entry: ReservationHistoryEntry = {
+            status,
+            from,
+            by,
+            uid,
+            timestamp: new Date().toISOString(),
+            ...(reason ? { reason } : {})
+        };
+        if (status === "finished" && ownerId && reservation.source !== "walk_in") {
+            await meterCovers(transaction, reservationRef, {
+                ownerId,
+                placeId: reservation.placeId,
+                placeName: reservation.placeName || restaurantSnap.data()?.details?.name || "",
+                guests: reservation.guests,
+                dateKey: reservation.dateKey,
+                finishedAt: entry.timestamp
+            });
+        }
+        transaction.update(reservationRef, {
+            status,
+            historyLog: FieldValue.arrayUnion(entry),
+            updatedAt: entry.timestamp
+        });
+
+        if (by === "diner" && ownerId) {
+            addNotification(transaction, ownerId, {
+                type: "reservation_cancelled",
+                title: "Booking cancelled by guest",
+                body: `${reservation.customerName}, ${reservation.guests} guests on ${reservation.dateKey || "their date"} at ${reservation.time}${reason ? ` - "${reason}"` : ""}`,
+                reservationId,
+                placeId: reservation.placeId
+            });
+        }
+
+        // Unaccepted waitlist offers were never the guest's booking - the waitlist tells them
+        notice = reservation.waitlistOffer && !reservation.waitlistOffer.acceptedAt ? null : {
+            id: reservationId,
+            placeId: reservation.placeId,
+            placeName: reservation.placeName || restaurantSnap.data()?.details?.name || "",
+            userId: reservation.userId || null,
+            customerName: reservation.customerName,
+            customerEmail: reservation.customerEmail,
+            customerPhone: reservation.customerPhone,
+            dateKey: reservation.dateKey,
+            time: reservation.time,
+            guests: reservation.guests,
+            reason
+        };
+
+        console.log(`[Reservations] ${reservationId}: ${from} → ${status} (${by})`);
+        return { from, status, by, hasTables: !!reservation.tableIds?.length, placeId: reservation.placeId, dateKey: reservation.dateKey || null };
+    });
+
+    const event = STATUS_NOTIFICATIONS[status];
+    if (event && notice) await notifyReservation(event, notice);
+    return result;
+}
+
+/**
+ * Moves a guest's booking to another date, time or party size in one
+ * transaction. The new sitting must be bookable (own booking excluded); a
+ * confirmed booking stays confirmed when a table is free for it, otherwise it
+ * goes back to pending. The owner is notified either way.
+ */
+export async function modifyReservation(
+    uid: string,
+    input: ModifyReservationInput
+): Promise<{ status: ReservationStatus; tableIds: string[] | null }> {
+    const db = getAdminDb();
+    const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc(input.reservationId);
+    let notice: ReservationNotice | null = null;
+
+    const result = await db.runTransaction(async (transaction) => {
+        const reservationSnap = await transaction.get(reservationRef);
+        const reservation = reservationSnap.data();
+        if (!reservation) throw new ReservationError(404, "NOT_FOUND", "Reservation not found");
+        if (reservation.userId !== uid) throw new ReservationError(403, "FORBIDDEN", "You can't change this reservation");
+
+        const from = reservation.status as ReservationStatus;
+        if (from !== "pending" && from !== "confirmed") {
+            throw new ReservationError(409, "NOT_MODIFIABLE", `A ${RESERVATION_STATUS_LABELS[from]?.toLowerCase() || from} reservation can't be changed`);
+        }
+        if (reservation.waitlistOffer && !reservation.waitlistOffer.acceptedAt) {
+            throw new ReservationError(409, "OFFER_PENDING", "Accept or decline the waitlist offer first");
+        }
+        if (!reservation.dateKey || typeof reservation.startMinutes !== "number") {
+            throw new ReservationError(409, "LEGACY_RESERVATION", "This booking was made before online changes - please call the restaurant");
+        }
+        if (reservation.dateKey === input.date && reservation.time === input.time && reservation.guests === input.guests) {
+            throw new ReservationError(400, "NO_CHANGE", "Nothing to change");
+        }
+
+        const [restaurantSnap, reservationsSnap] = await Promise.all([
+            transaction.get(db.collection("restaurants").doc(reservation.placeId)),
+            transaction.get(dayReservationsQuery(reservation.placeId, input.date))
+        ]);
+
+        const restaurant = toBookingData(restaurantSnap.data());
+        if (!restaurant?.isClaimed || !restaurant.ownerId) {
+            throw new ReservationError(409, "NOT_BOOKABLE", "This restaurant doesn't take online reservations any more - please call them");
+        }
+        assertGuestCanChange(reservation, restaurantSnap.data()?.reservationPolicy);
+
+        const sittings = toSittings(reservationsSnap.docs, input.date, restaurant).filter(s => s.id !== input.reservationId);
+        assertSlotBookable(computeAvailability(restaurant, input.date, input.guests, sittings, new Date()), input.time);
+
+        const startMinutes = parseTime(input.time);
+        const durationMinutes = getDiningMinutes(restaurant.seatingRules, input.guests, startMinutes);
+
+        // The slot check already counted free tables; with a floor plan the
+        // booking also needs a concrete table to stay confirmed
+        let status: ReservationStatus = "pending";
+        let tableIds: string[] = [];
+        if (from === "confirmed") {
+            if (restaurant.floorPlan) {
+                const holdUntil = startMinutes + durationMinutes + restaurant.seatingRules.bufferMinutes;
+                const occupied = getOccupiedTables(bookableTables(restaurant), sittings, startMinutes, holdUntil);
+                const best = occupied && findBestTables(input.guests, bookableTables(restaurant), occupied);
+                if (best) {
+                    status = "confirmed";
+                    tableIds = best.map(t => t.id);
+                }
+            } else {
+                status = "confirmed";
+            }
+        }
+
+        const change = `${reservation.dateKey} ${reservation.time}, ${reservation.guests} guests → ${input.date} ${input.time}, ${input.guests} guests`;
+        const entry: ReservationHistoryEntry = {
+            status,
+            from,
+            by: "diner",
+            uid,
+            timestamp: new Date().toISOString(),
+            change
+        };
+        transaction.update(reservationRef, {
+            date: Timestamp.fromDate(localToUtc(input.date, startMinutes, restaurant.hours)),
+            dateKey: input.date,
+            time: input.time,
+            startMinutes,
+            endMinutes: startMinutes + durationMinutes,
+            durationMinutes,
+            guests: input.guests,
+            tablesNeeded: tablesNeeded(input.guests, restaurant.seatsPerTable),
+            tableIds,
+            tableNames: tableIds.map(id => restaurant.floorPlan!.find(t => t.id === id)?.name || id),
+            status,
+            historyLog: FieldValue.arrayUnion(entry),
+            updatedAt: entry.timestamp
+        });
+
+        addNotification(transaction, restaurant.ownerId, {
+            type: "reservation_modified",
+            title: status === "pending" ? "Changed booking needs confirmation" : "Booking changed by guest",
+            body: `${reservation.customerName}: ${change}`,
+            reservationId: input.reservationId,
+            placeId: reservation.placeId
+        });
+
+        notice = {
+            id: input.reservationId,
+            placeId: reservation.placeId,
+            placeName: restaurant.name,
+            userId: uid,
+            customerName: reservation.customerName,
+            dateKey: input.date,
+            time: input.time,
+            guests: input.guests,
+            change
+        };
+
+        console.log(`[Reservations] ${input.reservationId} modified by guest: ${change} (${from} → ${status})`);
+        return { status, tableIds: restaurant.floorPlan ? tableIds : null };
+    });
+
+    if (notice) await notifyReservation("reservation_modified", notice);
+    return result;
+}
+
+// =============================================================================
+// TABLE ASSIGNMENT
+// =============================================================================
+
+/**
+ * Assigns tables to a booking in a transaction.
+ *
+ * - `tableIds` omitted: best fit among the bookable tables still free for the
+ *   sitting (used when the owner confirms). Returns null when nothing fits -
+ *   the booking stays confirmed but unassigned.
+ * - `tableIds` given: manual override by the owner; any table on the plan,
+ *   rejected if one is held by an overlapping booking.
+ */
+export async function assignTables(reservationId: string, tableIds?: string[]): Promise<string[] | null> {
+    const db = getAdminDb();
+    const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc(reservationId);
+
+    return db.runTransaction(async (transaction) => {
+        const reservationSnap = await transaction.get(reservationRef);
+        const reservation = reservationSnap.data();
+        if (!reservation) throw new ReservationError(404, "NOT_FOUND", "Reservation not found");
+        if (!reservation.dateKey || typeof reservation.startMinutes !== "number") {
+            throw new ReservationError(409, "LEGACY_RESERVATION", "This booking was made before table assignment and has no time slot");
+        }
+
+        const [restaurantSnap, reservationsSnap] = await Promise.all([
+            transaction.get(db.collection("restaurants").doc(reservation.placeId)),
+            transaction.get(dayReservationsQuery(reservation.placeId, reservation.dateKey))
+        ]);
+
+        const restaurant = toBookingData(restaurantSnap.data());
+        if (!restaurant?.floorPlan) {
+            if (tableIds) throw new ReservationError(409, "NO_FLOOR_PLAN", "Set up your floor plan before assigning tables");
+            return null;
+        }
+
+        const start = reservation.startMinutes;
+        const end = (reservation.endMinutes ?? start + getDiningMinutes(restaurant.seatingRules, reservation.guests || 1, start))
+            + restaurant.seatingRules.bufferMinutes;
+        const others = toSittings(reservationsSnap.docs, reservation.dateKey, restaurant)
+            .filter(s => s.id !== reservationId);
+
+        let assigned: string[] | null;
+        if (tableIds) {
+            const unknown = tableIds.find(id => !restaurant.floorPlan!.some(t => t.id === id));
+            if (unknown) throw new ReservationError(400, "UNKNOWN_TABLE", "That table is not on your floor plan");
+
+            // Only bookings that already hold tables block a manual choice
+            const held = new Set(others.filter(s => s.start < end && start < s.end).flatMap(s => s.tableIds || []));
+            const clash = tableIds.find(id => held.has(id));
+            if (clash) {
+                const name = restaurant.floorPlan.find(t => t.id === clash)?.name || clash;
+                throw new ReservationError(409, "TABLE_TAKEN", `${name} is already taken at that time`);
+            }
+            assigned = tableIds;
+        } else {
+            const occupied = getOccupiedTables(restaurant.floorPlan, others.filter(s => s.tableIds?.length), start, end) || new Set<string>();
+            assigned = findBestTables(reservation.guests || 1, bookableTables(restaurant), occupied)?.map(t => t.id) || null;
+        }
+
+        transaction.update(reservationRef, {
+            tableIds: assigned || [],
+            tableNames: (assigned || []).map(id => restaurant.floorPlan!.find(t => t.id === id)?.name || id),
+            updatedAt: new Date().toISOString()
+        });
+        return assigned;
+    });
+}
+
+// =============================================================================
+// WALK-INS
+// =============================================================================
+
+/**
+ * Seats a walk-in party now, in one transaction. Tables are picked like an
+ * assignment: `tableIds` is the owner's choice (rejected if held), otherwise
+ * the best fit that still leaves room for the bookings due during the sitting.
+ */
+export async function createWalkIn(uid: string, input: WalkInInput): Promise<{ id: string; time: string; tableIds: string[] | null }> {
+    const db = getAdminDb();
+    const restaurantRef = db.collection("restaurants").doc(input.placeId);
+    const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc();
+
+    return db.runTransaction(async (transaction) => {
+        const restaurantSnap = await transaction.get(restaurantRef);
+        if (restaurantSnap.data()?.ownerId !== uid) {
+            throw new ReservationError(403, "FORBIDDEN", "You are not the owner of this restaurant");
+        }
+        const restaurant = toBookingData(restaurantSnap.data());
+        if (!restaurant) {
+            throw new ReservationError(409, "NO_TABLES", "Set up your tables before seating walk-ins");
+        }
+
+        const now = getLocalTime(new Date(), restaurant.hours);
+        const start = now.minutes;
+        const durationMinutes = getDiningMinutes(restaurant.seatingRules, input.guests, start);
+        const holdUntil = start + durationMinutes + restaurant.seatingRules.bufferMinutes;
+
+        const reservationsSnap = await transaction.get(dayReservationsQuery(input.placeId, now.date));
+        const sittings = toSittings(reservationsSnap.docs, now.date, restaurant);
+
+        // Walk-ins may take any table, including ones kept off online booking
+        let tableIds: string[] | null = null;
+        if (restaurant.floorPlan) {
+            const floorPlan = restaurant.floorPlan;
+            if (input.tableIds) {
+                const unknown = input.tableIds.find(id => !floorPlan.some(t => t.id === id));
+                if (unknown) throw new ReservationError(400, "UNKNOWN_TABLE", "That table is not on your floor plan");
+
+                const held = new Set(sittings.filter(s => s.start < holdUntil && start < s.end).flatMap(s => s.tableIds || []));
+                const clash = input.tableIds.find(id => held.has(id));
+                if (clash) {
+                    const name = floorPlan.find(t => t.id === clash)?.name || clash;
+                    throw new ReservationError(409, "TABLE_TAKEN", `${name} is already taken at that time`);
+                }
+                tableIds = input.tableIds;
+            } else {
+                const occupied = getOccupiedTables(floorPlan, sittings, start, holdUntil);
+                const best = occupied && findBestTables(input.guests, floorPlan, occupied);
+                if (!best) {
+                    throw new ReservationError(409, "NO_TABLE_FREE", `No free table fits ${input.guests} guests until ${formatMinutes(holdUntil)} - pick one manually`);
+                }
+                tableIds = best.map(t => t.id);
+            }
+        } else {
+            const used = sittings
+                .filter(s => s.start < holdUntil && start < s.end)
+                .reduce((sum, s) => sum + s.tables, 0);
+            if (used + tablesNeeded(input.guests, restaurant.seatsPerTable) > restaurant.tables) {
+                throw new ReservationError(409, "NO_TABLE_FREE", `No free table for ${input.guests} guests right now`);
+            }
+        }
+
+        const seated: ReservationHistoryEntry = {
+            status: "seated",
+            from: null,
+            by: "owner",
+            uid,
+            timestamp: new Date().toISOString(),
+            reason: "Walk-in"
+        };
+        transaction.set(reservationRef, {
+            userId: null,
+            source: "walk_in",
+            placeId: input.placeId,
+            placeName: restaurant.name,
+            customerName: input.customerName || "Walk-in",
+            customerEmail: "",
+            customerPhone: input.customerPhone || "",
+            notes: input.notes || null,
+            date: Timestamp.fromDate(new Date(seated.timestamp)),
+            dateKey: now.date,
+            time: formatMinutes(start),
+            startMinutes: start,
+            endMinutes: start + durationMinutes,
+            durationMinutes,
+            guests: input.guests,
+            tablesNeeded: tablesNeeded(input.guests, restaurant.seatsPerTable),
+            tableIds: tableIds || [],
+            tableNames: (tableIds || []).map(id => restaurant.floorPlan!.find(t => t.id === id)?.name || id),
+            status: "seated",
+            historyLog: [seated],
+            createdAt: FieldValue.serverTimestamp(),
+            updatedAt: seated.timestamp
+        });
+
+        console.log(`[Reservations] ${reservationRef.id}: walk-in of ${input.guests} seated at ${formatMinutes(start)}`);
+        return { id: reservationRef.id, time: formatMinutes(start), tableIds };
+    });
+}
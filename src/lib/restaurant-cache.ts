@@ -10,6 +10,7 @@
 
 import { getAdminDb } from "@/lib/firebase-admin";
 import type { Restaurant, RestaurantImage } from "@/types";
+import { getProviderForPlaceId, type ProviderPlace } from "@/lib/places-provider";
 import geohash from "ngeohash";
 
 const CACHE_TTL_DAYS = 7;
@@ -17,10 +18,10 @@ const CACHE_TTL_MS = CACHE_TTL_DAYS * 24 * 60 * 60 * 1000;
 const GEOHASH_PRECISION = 6; // ~1.2km precision for geo-queries
 
 /**
- * Get restaurant from Firestore cache or fetch from Google Places API
+ * Get restaurant from Firestore cache or fetch from the places provider
  * Implements cache-first strategy with 7-day TTL
  * 
- * @param placeId - Google Place ID
+ * @param placeId - Provider Place ID (Google ID, "osm:..." or "fixture:...")
  * @param forceRefresh - Bypass cache and fetch fresh data
  * @returns Restaurant data with resolved images
  */
@@ -44,12 +45,13 @@ export async function getOrFetchRestaurant(
         console.log(`[RestaurantCache] ⏰ STALE: ${placeId}. Refreshing...`);
     }
 
-    // Cache MISS or STALE - Fetch from Google
-    console.log(`[RestaurantCache] ❌ MISS: ${placeId}. Fetching from Google...`);
+    // Cache MISS or STALE - Fetch from provider
+    console.log(`[RestaurantCache] ❌ MISS: ${placeId}. Fetching from provider...`);
 
     try {
-        const googleData = await fetchFromGooglePlaces(placeId);
-        if (!googleData) return null;
+        const googleData = await fetchFromPlacesProvider(placeId);
+        // Return stale cache if available
+        if (!googleData) return doc.exists ? (doc.data() as Restaurant) : null;
 
         const restaurant = await saveRestaurantToCache(placeId, googleData, doc.data() as Restaurant | undefined);
         return restaurant;
@@ -101,45 +103,17 @@ function isCacheStale(expiresAt: string): boolean {
 }
 
 /**
- * Fetch place details from Google Places API V1
- * @param placeId - Google Place ID
- * @returns Place data or null if not found
+ * Fetch rich place details from the provider that owns the place ID
+ * @param placeId - Provider Place ID
+ * @returns Place data or null if not found / upstream failed
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function fetchFromGooglePlaces(placeId: string): Promise<any> {
-    const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_KEY;
-    if (!apiKey) throw new Error('Missing NEXT_PUBLIC_GOOGLE_MAPS_KEY');
-
-    const url = `https://places.googleapis.com/v1/places/${placeId}`;
-    const fieldMask = [
-        'id',
-        'displayName',
-        'formattedAddress',
-        'location',
-        'rating',
-        'userRatingCount',
-        'priceLevel',
-        'types',
-        'businessStatus',          // For pre-enrichment filtering
-        'nationalPhoneNumber',
-        'websiteUri',
-        'regularOpeningHours',
-        'photos'
-    ].join(',');
-
-    const response = await fetch(url, {
-        headers: {
-            'X-Goog-Api-Key': apiKey,
-            'X-Goog-FieldMask': fieldMask
-        }
-    });
-
-    if (!response.ok) {
-        console.error(`[RestaurantCache] Google API failed: ${response.status}`);
+async function fetchFromPlacesProvider(placeId: string): Promise<ProviderPlace | null> {
+    try {
+        return await getProviderForPlaceId(placeId).getDetails(placeId, { detail: 'rich' });
+    } catch (error) {
+        console.error(`[RestaurantCache] Provider fetch failed for ${placeId}:`, error);
         return null;
     }
-
-    return await response.json();
 }
 
 /**
@@ -192,6 +166,7 @@ export async function saveRestaurantToCache(
             phoneNumber: googleData.nationalPhoneNumber,
             website: googleData.websiteUri,
             openingHours: googleData.regularOpeningHours, // RICH only
+            utcOffsetMinutes: googleData.utcOffsetMinutes, // RICH only
             userRatingCount: googleData.userRatingCount,
             formattedAddress: googleData.formattedAddress,
             editorialSummary: googleData.editorialSummary?.text // RICH only
@@ -208,7 +183,7 @@ export async function saveRestaurantToCache(
         cacheMetadata: {
             lastFetched: now,
             expiresAt,
-            source: 'google',
+            source: getProviderForPlaceId(placeId).name,
             // CRITICAL: Upgrade logic. If we already had RICH, keep it RICH (unless we just fetched LIGHT, which shouldn't happen in enrichment flow)
             // Actually, if we are saving, we trust the new data's level, OR we preserve 'rich' if we are doing a partial update? 
             // In our current flow, we either fetch LIGHT or RICH. 
@@ -334,14 +309,14 @@ export async function getEnrichedRestaurants(placeIds: string[]): Promise<Restau
         }
     });
 
-    // 2. Batch Fetch Missing/Stale from Google
+    // 2. Batch Fetch Missing/Stale from provider
     if (needsFetchIds.length > 0) {
-        console.log(`[Enrich] Fetching ${needsFetchIds.length} places from Google...`);
+        console.log(`[Enrich] Fetching ${needsFetchIds.length} places from provider...`);
 
         // Parallel fetch for speed
         const fetchPromises = needsFetchIds.map(async (id) => {
             try {
-                const googleData = await fetchFromGooglePlaces(id); // Returns RICH data by default mask
+                const googleData = await fetchFromPlacesProvider(id); // Returns RICH data
                 if (googleData) {
                     // Get existing doc to preserve owner data if any
                     const existingDoc = snapshots.find(s => s.id === id);
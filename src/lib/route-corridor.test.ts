@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { haversineDistance, type LatLng } from "@/lib/geo";
+import {
+    MAX_ROUTE_SAMPLES,
+    MAX_SAMPLE_RADIUS_METERS,
+    decodePolyline,
+    encodePolyline,
+    measureDetour,
+    pathLength,
+    sampleCorridor
+} from "@/lib/route-corridor";
+
+const BRATISLAVA: LatLng = { lat: 48.1486, lng: 17.1077 };
+const VIENNA: LatLng = { lat: 48.2082, lng: 16.3738 };
+const PRAGUE: LatLng = { lat: 50.0755, lng: 14.4378 };
+
+function distance(a: LatLng, b: LatLng): number {
+    return haversineDistance(a.lat, a.lng, b.lat, b.lng);
+}
+
+const METERS_PER_DEG_LAT = 111320;
+
+// Points every ~100 m along the route, pushed about `offset` meters off it sideways
+function corridorEdge(from: LatLng, to: LatLng, offset: number): LatLng[] {
+    const steps = Math.ceil(distance(from, to) / 100);
+
+    return Array.from({ length: steps + 1 }, (_, i) => {
+        const lat = from.lat + ((to.lat - from.lat) * i) / steps;
+        const lng = from.lng + ((to.lng - from.lng) * i) / steps;
+        const metersPerDegLng = METERS_PER_DEG_LAT * Math.cos((lat * Math.PI) / 180);
+        // Unit normal to the route, in local meters
+        const dx = (to.lng - from.lng) * metersPerDegLng;
+        const dy = (to.lat - from.lat) * METERS_PER_DEG_LAT;
+        const length = Math.hypot(dx, dy);
+        return {
+            lat: lat + (dx / length) * offset / METERS_PER_DEG_LAT,
+            lng: lng - (dy / length) * offset / metersPerDegLng
+        };
+    });
+}
+
+function uncovered(points: LatLng[], centers: LatLng[], radius: number): LatLng[] {
+    return points.filter(point => !centers.some(center => distance(point, center) <= radius));
+}
+
+describe("sampleCorridor", () => {
+    it("samples short routes every 1.5x the corridor width", () => {
+        const { centers, radius } = sampleCorridor([BRATISLAVA, { lat: 48.1486, lng: 17.1877 }], 2000);
+
+        expect(centers).toHaveLength(Math.ceil(5940 / 3000) + 1);
+        expect(radius).toBeGreaterThanOrEqual(2000);
+    });
+
+    it("caps long routes at MAX_ROUTE_SAMPLES and widens the circles", () => {
+        const { centers, radius } = sampleCorridor([BRATISLAVA, VIENNA], 2000);
+        const step = pathLength([BRATISLAVA, VIENNA]) / (MAX_ROUTE_SAMPLES - 1);
+
+        expect(centers).toHaveLength(MAX_ROUTE_SAMPLES);
+        expect(radius).toBeGreaterThanOrEqual(step / 2);
+    });
+
+    it.each([
+        ["Bratislava → Vienna", BRATISLAVA, VIENNA, 2000],
+        ["Bratislava → Vienna, narrow", BRATISLAVA, VIENNA, 500],
+        ["Vienna → Prague", VIENNA, PRAGUE, 5000]
+    ])("leaves no gap along the corridor edge (%s)", (_, from, to, width) => {
+        const { centers, radius } = sampleCorridor([from, to], width);
+
+        // Some slack for the flat-earth offset in corridorEdge
+        expect(uncovered(corridorEdge(from, to, width * 0.95), centers, radius)).toEqual([]);
+        expect(uncovered(corridorEdge(from, to, -width * 0.95), centers, radius)).toEqual([]);
+    });
+
+    it("never exceeds the provider's radius limit", () => {
+        const { radius } = sampleCorridor([BRATISLAVA, { lat: 41.9028, lng: 12.4964 }], 2000);
+        expect(radius).toBe(MAX_SAMPLE_RADIUS_METERS);
+    });
+
+    it("handles empty and single-point paths", () => {
+        expect(sampleCorridor([], 2000)).toEqual({ centers: [], radius: 2000 });
+        expect(sampleCorridor([VIENNA], 2000)).toEqual({ centers: [VIENNA], radius: 2000 });
+    });
+});
+
+describe("polyline", () => {
+    it("round-trips through the encoded format", () => {
+        const path = [BRATISLAVA, VIENNA, PRAGUE];
+        const decoded = decodePolyline(encodePolyline(path));
+
+        decoded.forEach((point, i) => {
+            expect(point.lat).toBeCloseTo(path[i].lat, 5);
+            expect(point.lng).toBeCloseTo(path[i].lng, 5);
+        });
+    });
+});
+
+describe("measureDetour", () => {
+    it("is twice the distance to the route", () => {
+        const [offRoute] = corridorEdge(BRATISLAVA, VIENNA, 1000).slice(300, 301);
+        const { detourMeters, progressMeters } = measureDetour(offRoute, [BRATISLAVA, VIENNA]);
+
+        expect(detourMeters).toBeGreaterThan(1800);
+        expect(detourMeters).toBeLessThan(2200);
+        expect(progressMeters).toBeGreaterThan(29000);
+        expect(progressMeters).toBeLessThan(31000);
+    });
+});
@@ -0,0 +1,204 @@
+/**
+ * Route / corridor geometry for "somewhere vegan between Bratislava and Vienna".
+ *
+ * - decodePolyline/encodePolyline: Google encoded polyline format (precision 5)
+ * - sampleCorridor: circles that cover a corridor along the path, so each
+ *   segment can reuse the grid + geohash caches like a normal radius search
+ * - measureDetour: extra meters to leave the route, visit a place and come back
+ *
+ * Pure module - no Firestore, safe for client use.
+ */
+
+import { haversineDistance, type LatLng } from "@/lib/geo";
+
+export const DEFAULT_CORRIDOR_METERS = 2000;
+export const MAX_CORRIDOR_METERS = 10000;
+export const MAX_ROUTE_SAMPLES = 8;      // Caps cache/provider lookups per route search
+export const MAX_SAMPLE_RADIUS_METERS = 50000;
+
+export interface CorridorSamples {
+    centers: LatLng[];
+    radius: number;          // Meters to search around each center
+}
+
+export interface DetourInfo {
+    detourMeters: number;    // Out-and-back distance from the closest point on the route
+    progressMeters: number;  // Distance from origin along the route to the closest point
+}
+
+// =============================================================================
+// POLYLINE ENCODING
+// =============================================================================
+
+export function decodePolyline(encoded: string): LatLng[] {
+    const points: LatLng[] = [];
+    let index = 0;
+    let lat = 0;
+    let lng = 0;
+
+    const readValue = (): number | null => {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            if (index >= encoded.length) return null;
+            byte = encoded.charCodeAt(index++) - 63;
+            result |= (byte & 0x1f) << shift;
+            shift += 5;
+        } while (byte >= 0x20);
+        return result & 1 ? ~(result >> 1) : result >> 1;
+    };
+
+    while (index < encoded.length) {
+        const dLat = readValue();
+        const dLng = readValue();
+        if (dLat === null || dLng === null) break; // Truncated input
+        lat += dLat;
+        lng += dLng;
+        points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+    }
+
+    return points;
+}
+
+export function encodePolyline(points: LatLng[]): string {
+    let output = "";
+    let prevLat = 0;
+    let prevLng = 0;
+
+    const writeValue = (value: number) => {
+        let v = value < 0 ? ~(value << 1) : value << 1;
+        while (v >= 0x20) {
+            output += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+            v >>= 5;
+        }
+        output += String.fromCharCode(v + 63);
+    };
+
+    for (const point of points) {
+        const lat = Math.round(point.lat * 1e5);
+        const lng = Math.round(point.lng * 1e5);
+        writeValue(lat - prevLat);
+        writeValue(lng - prevLng);
+        prevLat = lat;
+        prevLng = lng;
+    }
+
+    return output;
+}
+
+// =============================================================================
+// PATH HELPERS
+// =============================================================================
+
+function segmentLength(a: LatLng, b: LatLng): number {
+    return haversineDistance(a.lat, a.lng, b.lat, b.lng);
+}
+
+export function pathLength(path: LatLng[]): number {
+    let total = 0;
+    for (let i = 1; i < path.length; i++) total += segmentLength(path[i - 1], path[i]);
+    return total;
+}
+
+function interpolate(a: LatLng, b: LatLng, t: number): LatLng {
+    return { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+}
+
+/**
+ * Point at `distance` meters along the path (linear within a segment -
+ * fine at corridor scale).
+ */
+function pointAlong(path: LatLng[], distance: number): LatLng {
+    let travelled = 0;
+    for (let i = 1; i < path.length; i++) {
+        const length = segmentLength(path[i - 1], path[i]);
+        if (travelled + length >= distance) {
+            return interpolate(path[i - 1], path[i], length === 0 ? 0 : (distance - travelled) / length);
+        }
+        travelled += length;
+    }
+    return path[path.length - 1];
+}
+
+/**
+ * Drops points closer than `minSpacing` meters to the previous kept point.
+ * Keeps responses small when echoing a long road polyline back to the map.
+ */
+export function simplifyPath(path: LatLng[], minSpacing: number): LatLng[] {
+    if (path.length <= 2) return path;
+    const kept = [path[0]];
+    for (let i = 1; i < path.length - 1; i++) {
+        if (segmentLength(kept[kept.length - 1], path[i]) >= minSpacing) kept.push(path[i]);
+    }
+    kept.push(path[path.length - 1]);
+    return kept;
+}
+
+// =============================================================================
+// CORRIDOR SAMPLING & DETOUR
+// =============================================================================
+
+/**
+ * Evenly spaced sample centers along the path plus the radius to search each
+ * one with. The radius reaches corridorWidth off the route halfway to the next
+ * center - √((spacing/2)² + width²) - so neighbouring circles leave no gap in
+ * the corridor. Short routes get a sample every 1.5x the width; long routes
+ * are capped at MAX_ROUTE_SAMPLES and get wider circles instead (up to
+ * MAX_SAMPLE_RADIUS_METERS, the provider's limit).
+ */
+export function sampleCorridor(path: LatLng[], corridorWidth: number, maxSamples: number = MAX_ROUTE_SAMPLES): CorridorSamples {
+    if (path.length === 0) return { centers: [], radius: corridorWidth };
+    if (path.length === 1) return { centers: [path[0]], radius: corridorWidth };
+
+    const total = pathLength(path);
+    const idealCount = Math.ceil(total / (corridorWidth * 1.5)) + 1;
+    const count = Math.max(2, Math.min(maxSamples, idealCount));
+    const step = total / (count - 1);
+    // +2%: pointAlong interpolates in degrees, so long segments aren't spaced evenly in meters
+    const radius = Math.min(MAX_SAMPLE_RADIUS_METERS, Math.ceil(Math.hypot(step / 2, corridorWidth) * 1.02));
+
+    return {
+        centers: Array.from({ length: count }, (_, i) => pointAlong(path, i * step)),
+        radius
+    };
+}
+
+/**
+ * Detour to visit `point`: out and back from the closest point on the route
+ * (2x the distance to the nearest segment). Roads rarely leave at the perfect
+ * spot, so this slightly under-estimates - good enough for ranking.
+ */
+export function measureDetour(point: LatLng, path: LatLng[]): DetourInfo {
+    if (path.length === 0) return { detourMeters: 0, progressMeters: 0 };
+    if (path.length === 1) {
+        return { detourMeters: Math.round(2 * segmentLength(path[0], point)), progressMeters: 0 };
+    }
+
+    let bestDistance = Infinity;
+    let bestProgress = 0;
+    let travelled = 0;
+
+    for (let i = 1; i < path.length; i++) {
+        const a = path[i - 1];
+        const b = path[i];
+        const length = segmentLength(a, b);
+        const toA = segmentLength(a, point);
+        const toB = segmentLength(point, b);
+
+        // Projection of the point onto the segment (law of cosines), clamped to the ends
+        const along = length === 0 ? 0 : Math.max(0, Math.min(length, (toA ** 2 - toB ** 2 + length ** 2) / (2 * length)));
+        const distance = along <= 0 ? toA : along >= length ? toB : Math.sqrt(Math.max(0, toA ** 2 - along ** 2));
+
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            bestProgress = travelled + along;
+        }
+        travelled += length;
+    }
+
+    return {
+        detourMeters: Math.round(2 * bestDistance),
+        progressMeters: Math.round(bestProgress)
+    };
+}
@@ -0,0 +1,103 @@
+/**
+ * Saved Lists - client helpers for `lists/{id}`
+ *
+ * Writes go straight to Firestore; firestore.rules enforce owner-only writes
+ * and read access (owner, or anyone when isPublic). Shared lists are rendered
+ * server-side at /lists/{id}.
+ */
+
+import { db } from "@/lib/firebase";
+import { collection, deleteDoc, doc, getDocs, query, runTransaction, setDoc, updateDoc, where } from "firebase/firestore";
+import type { Place } from "@/types/place";
+import type { SavedList, SavedListPlace } from "@/types";
+
+export const LISTS_COLLECTION = "lists";
+export const MAX_LIST_PLACES = 100;  // Mirrors isValidList() in firestore.rules
+
+export function toSavedListPlace(place: Place): SavedListPlace {
+    const photoUrl = place.proxyPhotoUrl || place.imageSrc || undefined;
+    return {
+        placeId: place.place_id,
+        name: place.name,
+        address: place.vicinity || place.formatted_address,
+        rating: place.rating,
+        types: place.types || [],
+        // Firestore rejects undefined - only keep set fields
+        ...(photoUrl ? { photoUrl } : {}),
+        addedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Lists owned by the user, most recently updated first.
+ */
+export async function getUserLists(userId: string): Promise<SavedList[]> {
+    const snap = await getDocs(query(collection(db, LISTS_COLLECTION), where("ownerId", "==", userId)));
+    return snap.docs
+        .map(d => ({ ...d.data(), id: d.id }) as SavedList)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function createList(userId: string, ownerName: string, name: string, firstPlace?: Place): Promise<SavedList> {
+    const ref = doc(collection(db, LISTS_COLLECTION));
+    const now = new Date().toISOString();
+    const list: SavedList = {
+        id: ref.id,
+        ownerId: userId,
+        ownerName,
+        name: name.trim().slice(0, 60),
+        isPublic: false,
+        places: firstPlace ? [toSavedListPlace(firstPlace)] : [],
+        createdAt: now,
+        updatedAt: now
+    };
+    await setDoc(ref, list);
+    return list;
+}
+
+/**
+ * Adds the place if missing, removes it otherwise. Returns the updated places.
+ */
+export async function togglePlaceInList(listId: string, place: Place): Promise<SavedListPlace[]> {
+    const ref = doc(db, LISTS_COLLECTION, listId);
+
+    return runTransaction(db, async (transaction) => {
+        const snap = await transaction.get(ref);
+        if (!snap.exists()) throw new Error("List not found");
+
+        const current = (snap.data() as SavedList).places || [];
+        const exists = current.some(p => p.placeId === place.place_id);
+        if (!exists && current.length >= MAX_LIST_PLACES) {
+            throw new Error(`A list can hold at most ${MAX_LIST_PLACES} places`);
+        }
+
+        const places = exists
+            ? current.filter(p => p.placeId !== place.place_id)
+            : [...current, toSavedListPlace(place)];
+
+        transaction.update(ref, { places, updatedAt: new Date().toISOString() });
+        return places;
+    });
+}
+
+export async function removePlaceFromList(listId: string, placeId: string): Promise<void> {
+    const ref = doc(db, LISTS_COLLECTION, listId);
+    await runTransaction(db, async (transaction) => {
+        const snap = await transaction.get(ref);
+        if (!snap.exists()) return;
+        const places = ((snap.data() as SavedList).places || []).filter(p => p.placeId !== placeId);
+        transaction.update(ref, { places, updatedAt: new Date().toISOString() });
+    });
+}
+
+export async function updateList(listId: string, patch: Partial<Pick<SavedList, "name" | "description" | "isPublic">>): Promise<void> {
+    await updateDoc(doc(db, LISTS_COLLECTION, listId), { ...patch, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteList(listId: string): Promise<void> {
+    await deleteDoc(doc(db, LISTS_COLLECTION, listId));
+}
+
+export function getListShareUrl(listId: string): string {
+    return `${window.location.origin}/lists/${listId}`;
+}
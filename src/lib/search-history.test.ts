@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/firebase-admin", () => ({ getAdminDb: vi.fn() }));
+
+import { searchPreferencesKey } from "@/lib/search-history";
+
+const preferences = { allergies: ["gluten"], dietary: ["vegetarian"], cuisines: ["italian"], budget: "$$" };
+const anna = { memberId: "uid_anna", allergies: ["peanuts"], dietary: [], cuisines: ["thai"] };
+const marek = { memberId: "guest_1", allergies: [], dietary: ["vegan"], cuisines: [] };
+
+describe("searchPreferencesKey", () => {
+    it("ignores case, whitespace, duplicates and order", () => {
+        expect(searchPreferencesKey({ ...preferences, cuisines: [" Italian ", "italian"] }, [anna, marek]))
+            .toBe(searchPreferencesKey(preferences, [marek, anna]));
+    });
+
+    it("changes with the diner's cuisines", () => {
+        expect(searchPreferencesKey({ ...preferences, cuisines: ["japanese"] }))
+            .not.toBe(searchPreferencesKey(preferences));
+    });
+
+    it("changes with a group member's cuisines", () => {
+        expect(searchPreferencesKey(preferences, [{ ...anna, cuisines: ["indian"] }, marek]))
+            .not.toBe(searchPreferencesKey(preferences, [anna, marek]));
+    });
+
+    it("changes with allergies, diet and budget", () => {
+        const key = searchPreferencesKey(preferences);
+
+        expect(searchPreferencesKey({ ...preferences, allergies: [] })).not.toBe(key);
+        expect(searchPreferencesKey({ ...preferences, dietary: ["vegan"] })).not.toBe(key);
+        expect(searchPreferencesKey({ ...preferences, budget: "$" })).not.toBe(key);
+    });
+});
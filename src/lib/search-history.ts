@@ -0,0 +1,186 @@
+/**
+ * Search History - `users/{uid}/searches/{fingerprint}`
+ *
+ * Every signed-in search that returns results is stored with its query,
+ * parsed intent, location, radius, results and AI scores. The doc id is a
+ * fingerprint of the search inputs, so repeating a search updates one entry.
+ *
+ * REPLAY RULES:
+ * - A scored search repeated within REPLAY_WINDOW_MS is served from history
+ *   (no discovery, no LLM, no credit)
+ * - The fingerprint includes the diner's allergies, dietary needs and budget
+ *   (and every group member's) - scores are only reused for the preferences
+ *   they were computed for; a new allergy means a new, paid search
+ * - Replayed results still go through the menu allergen check (allergens.ts),
+ *   menus may have changed since
+ * - Opening hints stay correct: OpenStatus carries evaluatedAt and the card
+ *   subtracts the elapsed time (see getOpeningHint)
+ * - `?fresh=1` skips the replay and runs (and charges) a normal search
+ *
+ * The client reads/deletes its own history directly (owner-only rules on users/**).
+ */
+
+import { createHash } from "crypto";
+import { getAdminDb } from "@/lib/firebase-admin";
+import type { SearchIntent } from "@/lib/search-intent";
+import type { LatLng } from "@/lib/geo";
+import type { GeminiScore } from "@/types";
+
+export const SEARCH_HISTORY_SUBCOLLECTION = "searches";
+export const REPLAY_WINDOW_MS = 60 * 60 * 1000;  // 1 hour
+export const HISTORY_LIMIT = 50;                  // Entries kept per user
+
+export interface SearchInputs {
+    keyword: string;                 // Raw query as typed
+    location: LatLng;
+    radius: number;
+    route?: { origin: LatLng; destination: LatLng; corridor: number } | null;
+    groupId?: string | null;
+    preferencesKey?: string;         // searchPreferencesKey() of what the scores were computed for
+}
+
+export interface SearchHistoryEntry extends SearchInputs {
+    id: string;
+    intent: SearchIntent;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    results: any[];                  // Result places without ai_score / reviews
+    scores: Record<string, GeminiScore>;
+    scored: boolean;                 // false = basic (light) results, never replayed
+    resultCount: number;
+    source: string;
+    runCount: number;
+    createdAt: string;
+    lastRunAt: string;
+    scoredAt: number | null;         // ms epoch of the last paid scoring run
+}
+
+/**
+ * Hash of everything the AI scores depend on besides the query: the
+ * (merged) preferences and, in group mode, each member's allergies, diet
+ * and cuisines.
+ */
+export function searchPreferencesKey(
+    preferences: { allergies: string[]; dietary: string[]; cuisines: string[]; budget: string },
+    diners: { memberId: string; allergies: string[]; dietary: string[]; cuisines: string[] }[] = []
+): string {
+    const normalize = (values: string[]) => [...new Set(values.map(v => v.trim().toLowerCase()).filter(Boolean))].sort();
+    const key = JSON.stringify({
+        allergies: normalize(preferences.allergies || []),
+        dietary: normalize(preferences.dietary || []),
+        cuisines: normalize(preferences.cuisines || []),
+        budget: preferences.budget || "any",
+        diners: diners
+            .map(d => ({
+                id: d.memberId,
+                allergies: normalize(d.allergies),
+                dietary: normalize(d.dietary),
+                cuisines: normalize(d.cuisines || [])
+            }))
+            .sort((a, b) => a.id.localeCompare(b.id))
+    });
+    return createHash("sha1").update(key).digest("hex").slice(0, 16);
+}
+
+/**
+ * Stable id for "the same search": normalized query, location rounded to
+ * ~100m, radius, route endpoints, group and preferences.
+ */
+export function searchFingerprint(inputs: SearchInputs): string {
+    const round = (point: LatLng) => `${point.lat.toFixed(3)},${point.lng.toFixed(3)}`;
+    const key = [
+        inputs.keyword.trim().toLowerCase().replace(/\s+/g, " "),
+        inputs.route ? `${round(inputs.route.origin)}>${round(inputs.route.destination)}@${inputs.route.corridor}` : round(inputs.location),
+        inputs.route ? "" : inputs.radius,
+        inputs.groupId || "",
+        inputs.preferencesKey || ""
+    ].join("|");
+
+    return createHash("sha1").update(key).digest("hex").slice(0, 24);
+}
+
+function historyCollection(userId: string) {
+    return getAdminDb().collection("users").doc(userId).collection(SEARCH_HISTORY_SUBCOLLECTION);
+}
+
+/**
+ * Returns the stored entry if it can be replayed for free, else null.
+ */
+export async function findReplayableSearch(userId: string, inputs: SearchInputs): Promise<SearchHistoryEntry | null> {
+    const snap = await historyCollection(userId).doc(searchFingerprint(inputs)).get();
+    if (!snap.exists) return null;
+
+    const entry = snap.data() as SearchHistoryEntry;
+    if (!entry.scored || !entry.scoredAt || Date.now() - entry.scoredAt > REPLAY_WINDOW_MS) return null;
+    if (entry.results.length === 0) return null;
+
+    return entry;
+}
+
+/**
+ * Upserts the history entry for a finished search. Best effort - callers
+ * should not fail the search if this throws.
+ */
+export async function recordSearch(
+    userId: string,
+    inputs: SearchInputs,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    data: { intent: SearchIntent; results: any[]; source: string; scored: boolean }
+): Promise<void> {
+    const id = searchFingerprint(inputs);
+    const ref = historyCollection(userId).doc(id);
+    const now = new Date();
+
+    const scores: Record<string, GeminiScore> = {};
+    const results = data.results.map(place => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { ai_score, reviews, ...rest } = place;
+        if (ai_score) scores[place.place_id] = ai_score;
+        return rest;
+    });
+
+    await getAdminDb().runTransaction(async (transaction) => {
+        const snap = await transaction.get(ref);
+        const previous = snap.data() as SearchHistoryEntry | undefined;
+
+        const entry: SearchHistoryEntry = {
+            ...inputs,
+            id,
+            intent: data.intent,
+            // Firestore rejects class instances / undefined-only nesting - store plain JSON
+            results: JSON.parse(JSON.stringify(results)),
+            scores: JSON.parse(JSON.stringify(scores)),
+            scored: data.scored,
+            resultCount: results.length,
+            source: data.source,
+            runCount: (previous?.runCount || 0) + 1,
+            createdAt: previous?.createdAt || now.toISOString(),
+            lastRunAt: now.toISOString(),
+            scoredAt: data.scored ? now.getTime() : previous?.scoredAt ?? null
+        };
+
+        // A basic run must not overwrite paid results that are still replayable
+        if (!data.scored && previous?.scored) {
+            transaction.update(ref, { runCount: entry.runCount, lastRunAt: entry.lastRunAt });
+            return;
+        }
+        transaction.set(ref, entry);
+    });
+
+    await pruneHistory(userId);
+}
+
+/**
+ * Keeps the newest HISTORY_LIMIT entries.
+ */
+async function pruneHistory(userId: string): Promise<void> {
+    const stale = await historyCollection(userId)
+        .orderBy("lastRunAt", "desc")
+        .offset(HISTORY_LIMIT)
+        .limit(20)
+        .get();
+    if (stale.empty) return;
+
+    const batch = getAdminDb().batch();
+    stale.docs.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+}
@@ -0,0 +1,305 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+    describeSearchIntent,
+    getIntentMatchTerm,
+    isExcludedByIntent,
+    parseSearchIntent
+} from "@/lib/search-intent";
+
+beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("parseSearchIntent - documented examples", () => {
+    it("parses the English brunch example", () => {
+        const intent = parseSearchIntent("vegan brunch with terrace open sunday under 20 eur");
+
+        expect(intent.cleanKeyword).toBe("vegan brunch");
+        expect(intent.dish).toBe("brunch");
+        expect(intent.dietary).toEqual(["vegan", "vegetarian"]);
+        expect(intent.ambience).toEqual(["terrace"]);
+        expect(intent.openAt).toEqual({ now: false, dayOfWeek: 0, minutes: null });
+        expect(intent.price).toEqual({ band: null, maxPerPerson: 20, priceLevels: [1, 2] });
+    });
+
+    it("parses the miles + superlative example", () => {
+        const intent = parseSearchIntent("pizza 3 miles from me best one ever");
+
+        expect(intent.cleanKeyword).toBe("pizza best");
+        expect(intent.detectedRadius).toBe(4828);
+        expect(intent.hasSuperlative).toBe(true);
+        expect(intent.dish).toBe("pizza");
+    });
+});
+
+describe("parseSearchIntent - radius", () => {
+    it.each([
+        ["sushi 500m", 500],
+        ["sushi 500 meters", 500],
+        ["sushi 500 metrov", 500],
+        ["sushi 5km", 5000],
+        ["sushi 2,5 km", 2500],
+        ["sushi 5 kilometrov", 5000],
+        ["sushi 3mi", 4828],
+        ["sushi 2 míle", 3219],
+        ["sushi within 2 km", 2000],
+        ["sushi do 3 km", 3000],
+        ["sushi v okruhu 800 m", 800]
+    ])("%s → %i m", (query, meters) => {
+        const intent = parseSearchIntent(query);
+        expect(intent.detectedRadius).toBe(meters);
+        expect(intent.cleanKeyword).toBe("sushi");
+    });
+
+    it("keeps only the first radius", () => {
+        expect(parseSearchIntent("pizza 2 km or 5 km").detectedRadius).toBe(2000);
+    });
+
+    it("has no radius when none is given", () => {
+        expect(parseSearchIntent("ramen").detectedRadius).toBeNull();
+    });
+});
+
+describe("parseSearchIntent - cuisine & dish", () => {
+    it.each([
+        ["italian restaurant", "italian", "italian_restaurant"],
+        ["talianska reštaurácia", "italian", "italian_restaurant"],
+        ["čínske jedlo", "chinese", "chinese_restaurant"],
+        ["thajská kuchyňa", "thai", "thai_restaurant"],
+        ["lebanese food", "middle_eastern", "middle_eastern_restaurant"],
+        ["plody mora", "seafood", "seafood_restaurant"],
+        ["slovenská kuchyňa", "slovak", "restaurant"]
+    ])("%s → %s", (query, cuisine, type) => {
+        const intent = parseSearchIntent(query);
+        expect(intent.cuisine).toBe(cuisine);
+        expect(intent.cuisineType).toBe(type);
+    });
+
+    it.each([
+        ["pizzeria", "pizza"],
+        ["hamburgery", "burger"],
+        ["raňajky", "breakfast"],
+        ["kaviareň", "coffee"],
+        ["zmrzlina", "ice cream"],
+        ["bryndzové halušky", "halusky"],
+        ["rezeň", "schnitzel"],
+        ["döner", "kebab"]
+    ])("%s → %s", (query, dish) => {
+        expect(parseSearchIntent(query).dish).toBe(dish);
+    });
+
+    it("matches Slovak words with diacritics as whole words", () => {
+        // \b would split "kávy" at "á"
+        expect(parseSearchIntent("šálka kávy").dish).toBe("coffee");
+        expect(parseSearchIntent("kávovar").dish).toBe("coffee");
+    });
+});
+
+describe("parseSearchIntent - dietary", () => {
+    it.each([
+        ["vegan food", ["vegan", "vegetarian"]],
+        ["vegánske jedlo", ["vegan", "vegetarian"]],
+        ["plant-based burger", ["vegan", "vegetarian"]],
+        ["vegetarian pasta", ["vegetarian"]],
+        ["jedlo bez mäsa", ["vegetarian"]],
+        ["gluten free pizza", ["gluten_free"]],
+        ["bezlepková pizza", ["gluten_free"]],
+        ["pizza bez lepku", ["gluten_free"]],
+        ["dairy-free dessert", ["lactose_free"]],
+        ["bezlaktózová zmrzlina", ["lactose_free"]],
+        ["halal kebab", ["halal"]],
+        ["košer reštaurácia", ["kosher"]]
+    ])("%s → %j", (query, tags) => {
+        expect(parseSearchIntent(query).dietary).toEqual(tags);
+    });
+
+    it("keeps dietary words in the keyword", () => {
+        expect(parseSearchIntent("gluten free pizza").cleanKeyword).toBe("gluten free pizza");
+    });
+
+    it("does not read dietary negations as exclusions", () => {
+        expect(parseSearchIntent("pizza bez lepku").excludedTerms).toEqual([]);
+        expect(parseSearchIntent("burger no meat").excludedTerms).toEqual([]);
+    });
+});
+
+describe("parseSearchIntent - open at", () => {
+    it.each([
+        ["pizza open now", { now: true, dayOfWeek: null, minutes: null }],
+        ["pizza otvorené teraz", { now: true, dayOfWeek: null, minutes: null }],
+        ["pizza open", { now: true, dayOfWeek: null, minutes: null }],
+        ["pizza otvorená", { now: true, dayOfWeek: null, minutes: null }],
+        ["pizza after 22:00", { now: false, dayOfWeek: null, minutes: 1320 }],
+        ["pizza at 8pm", { now: false, dayOfWeek: null, minutes: 1200 }],
+        ["pizza po 22:00", { now: false, dayOfWeek: null, minutes: 1320 }],
+        ["pizza tonight", { now: false, dayOfWeek: null, minutes: 1140 }],
+        ["pizza dnes večer", { now: false, dayOfWeek: null, minutes: 1140 }],
+        ["pizza late night", { now: false, dayOfWeek: null, minutes: 1320 }],
+        ["pizza on monday", { now: false, dayOfWeek: 1, minutes: null }],
+        ["pizza v nedeľu", { now: false, dayOfWeek: 0, minutes: null }],
+        ["pizza vo štvrtok", { now: false, dayOfWeek: 4, minutes: null }],
+        ["pizza cez víkend", { now: false, dayOfWeek: 6, minutes: null }],
+        ["pizza open friday at 21:30", { now: false, dayOfWeek: 5, minutes: 1290 }]
+    ])("%s", (query, openAt) => {
+        const intent = parseSearchIntent(query);
+        expect(intent.openAt).toEqual(openAt);
+        expect(intent.cleanKeyword).toBe("pizza");
+    });
+
+    it("has no open-at constraint when none is given", () => {
+        expect(parseSearchIntent("pizza").openAt).toBeNull();
+    });
+});
+
+describe("parseSearchIntent - price", () => {
+    it.each([
+        ["sushi under 20 eur", 20, [1, 2]],
+        ["sushi max 10€", 10, [1]],
+        ["sushi do 15€", 15, [1, 2]],
+        ["sushi najviac 40 eur", 40, [1, 2, 3]],
+        ["sushi menej ako 30 eur", 30, [1, 2, 3]],
+        ["sushi €60", 60, [1, 2, 3, 4]],
+        ["sushi 12,50 eur", 12.5, [1, 2]]
+    ])("%s → max €%d", (query, maxPerPerson, priceLevels) => {
+        const intent = parseSearchIntent(query);
+        expect(intent.price).toEqual({ band: null, maxPerPerson, priceLevels });
+        expect(intent.cleanKeyword).toBe("sushi");
+    });
+
+    it("needs a currency after the ambiguous Slovak \"do\" / \"pod\"", () => {
+        const intent = parseSearchIntent("pizza do 20 minút");
+        expect(intent.price).toBeNull();
+    });
+
+    it.each([
+        ["cheap pizza", "cheap", [1, 2]],
+        ["lacná pizza", "cheap", [1, 2]],
+        ["pizza za babku", "cheap", [1, 2]],
+        ["mid-range pizza", "moderate", [2, 3]],
+        ["fine dining", "upscale", [3, 4]],
+        ["luxusná reštaurácia", "upscale", [3, 4]]
+    ])("%s → %s", (query, band, priceLevels) => {
+        expect(parseSearchIntent(query).price).toEqual({ band, maxPerPerson: null, priceLevels });
+    });
+
+    it("intersects a band with an amount", () => {
+        expect(parseSearchIntent("cheap pizza under 12 eur").price?.priceLevels).toEqual([1]);
+    });
+
+    it("trusts the amount when it contradicts the band", () => {
+        expect(parseSearchIntent("fancy dinner under 10€").price?.priceLevels).toEqual([1]);
+    });
+});
+
+describe("parseSearchIntent - party size", () => {
+    it.each([
+        ["pizza for 4", 4],
+        ["table for two", 2],
+        ["pizza party of 6", 6],
+        ["pizza 6 people", 6],
+        ["pizza pre 4 osoby", 4],
+        ["stôl pre dvoch", 2],
+        ["pizza traja ľudia", 3]
+    ])("%s → %i", (query, size) => {
+        expect(parseSearchIntent(query).partySize).toBe(size);
+    });
+
+    it("ignores implausible party sizes", () => {
+        expect(parseSearchIntent("pizza for 99 people").partySize).toBeNull();
+    });
+});
+
+describe("parseSearchIntent - ambience", () => {
+    it.each([
+        ["pizza with terrace", ["terrace"]],
+        ["pizza na terase", ["terrace"]],
+        ["cafe dog-friendly", ["dog_friendly"]],
+        ["kaviareň so psom", ["dog_friendly"]],
+        ["romantic dinner", ["romantic"]],
+        ["večera na rande", ["romantic"]],
+        ["pizza s deťmi", ["kid_friendly"]],
+        ["tichá kaviareň", ["quiet"]],
+        ["bar so živou hudbou", ["live_music"]],
+        ["cafe with wifi", ["wifi"]],
+        ["rooftop bar", ["view"]],
+        ["reštaurácia s výhľadom", ["view"]]
+    ])("%s → %j", (query, ambience) => {
+        expect(parseSearchIntent(query).ambience).toEqual(ambience);
+    });
+});
+
+describe("parseSearchIntent - exclusions", () => {
+    it.each([
+        ["asian no sushi", ["sushi"]],
+        ["dinner without pizza", ["pizza"]],
+        ["kebab bez cibule", ["cibule"]],
+        ["jedlo okrem pizze", ["pizze"]]
+    ])("%s → %j", (query, terms) => {
+        expect(parseSearchIntent(query).excludedTerms).toEqual(terms);
+    });
+
+    it("never takes an excluded dish as the dish", () => {
+        const intent = parseSearchIntent("japanese no sushi");
+        expect(intent.dish).toBeNull();
+        expect(intent.cuisine).toBe("japanese");
+    });
+});
+
+describe("parseSearchIntent - superlatives & filler", () => {
+    it.each([
+        ["best ramen", true],
+        ["amazing tacos", true],
+        ["najlepšia pizza", true],
+        ["výborná polievka", true],
+        ["ramen", false]
+    ])("%s → %s", (query, expected) => {
+        expect(parseSearchIntent(query).hasSuperlative).toBe(expected);
+    });
+
+    it("strips English filler", () => {
+        expect(parseSearchIntent("show me a place with pizza near me").cleanKeyword).toBe("pizza");
+    });
+
+    it("strips Slovak filler", () => {
+        expect(parseSearchIntent("hľadám pizzu v okolí").cleanKeyword).toBe("pizzu");
+    });
+
+    it("parses a combined Slovak query", () => {
+        const intent = parseSearchIntent("chcem lacnú vegánsku pizzu s terasou pre 4 osoby v piatok po 19:00 do 5 km");
+
+        expect(intent.cleanKeyword).toBe("vegánsku pizzu");
+        expect(intent.detectedRadius).toBe(5000);
+        expect(intent.dish).toBe("pizza");
+        expect(intent.dietary).toEqual(["vegan", "vegetarian"]);
+        expect(intent.ambience).toEqual(["terrace"]);
+        expect(intent.partySize).toBe(4);
+        expect(intent.price?.band).toBe("cheap");
+        expect(intent.openAt).toEqual({ now: false, dayOfWeek: 5, minutes: 1140 });
+    });
+});
+
+describe("consumers", () => {
+    it("getIntentMatchTerm prefers dish, then cuisine, then keyword", () => {
+        expect(getIntentMatchTerm(parseSearchIntent("italian pizza"))).toBe("pizza");
+        expect(getIntentMatchTerm(parseSearchIntent("Italian restaurant"))).toBe("italian");
+        expect(getIntentMatchTerm(parseSearchIntent("Bistro"))).toBe("bistro");
+    });
+
+    it("isExcludedByIntent matches name and types", () => {
+        const intent = parseSearchIntent("asian no sushi");
+        expect(isExcludedByIntent(intent, "Sushi Bar Tokyo", ["restaurant"])).toBe(true);
+        expect(isExcludedByIntent(intent, "Tokyo", ["sushi_restaurant"])).toBe(true);
+        expect(isExcludedByIntent(intent, "Pho Saigon", ["vietnamese_restaurant"])).toBe(false);
+    });
+
+    it("describeSearchIntent lists the constraints", () => {
+        expect(describeSearchIntent(parseSearchIntent("cheap italian for 2 open saturday at 20:00 no pizza"))).toEqual([
+            "Cuisine: italian",
+            "Price: cheap",
+            "Must be open: Saturday 20:00",
+            "Party size: 2",
+            "EXCLUDE places serving/named: pizza"
+        ]);
+        expect(describeSearchIntent(parseSearchIntent("ramen"))).toEqual(["Dish / meal: ramen"]);
+    });
+});
@@ -0,0 +1,506 @@
+/**
+ * Search Intent Parser (English & Slovak)
+ *
+ * Turns a free-text query like "vegan brunch with terrace open sunday under 20 eur"
+ * into a typed SearchIntent. The intent drives:
+ * - the provider request (cleanKeyword, includedType, openNow, priceLevels)
+ * - filterLightCandidates() (price, exclusions, open-now)
+ * - the Scout & deep-scoring prompts (describeSearchIntent)
+ *
+ * Constraint phrases (radius, price, time, party size, ambience, exclusions, filler)
+ * are removed from cleanKeyword. Cuisine, dish and dietary words stay in it -
+ * they are what the provider should actually search for.
+ */
+
+export type PriceBand = "cheap" | "moderate" | "upscale";
+
+export type AmbienceTag =
+    | "terrace"
+    | "dog_friendly"
+    | "romantic"
+    | "kid_friendly"
+    | "quiet"
+    | "live_music"
+    | "wifi"
+    | "view";
+
+export type DietaryTag = "vegan" | "vegetarian" | "gluten_free" | "lactose_free" | "halal" | "kosher";
+
+export interface PriceConstraint {
+    band: PriceBand | null;
+    maxPerPerson: number | null;   // EUR
+    priceLevels: number[];         // Allowed Google price levels (1-4)
+}
+
+export interface OpenAtConstraint {
+    now: boolean;
+    dayOfWeek: number | null;      // 0 = Sunday ... 6 = Saturday (Google periods convention)
+    minutes: number | null;        // Minutes after midnight, e.g. 22:00 -> 1320
+}
+
+export interface SearchIntent {
+    rawQuery: string;              // Original user query for Gemini context
+    cleanKeyword: string;          // Query without constraint phrases, for the provider
+    detectedRadius: number | null; // Radius in METERS (null = use default)
+    hasSuperlative: boolean;       // "best", "najlepšia", "amazing" etc.
+    cuisine: string | null;        // Canonical cuisine, e.g. "italian"
+    cuisineType: string | null;    // Matching Google place type, e.g. "italian_restaurant"
+    dish: string | null;           // Canonical dish / meal, e.g. "pizza", "brunch"
+    price: PriceConstraint | null;
+    openAt: OpenAtConstraint | null;
+    partySize: number | null;
+    ambience: AmbienceTag[];
+    dietary: DietaryTag[];
+    excludedTerms: string[];       // "no sushi" -> ["sushi"]
+}
+
+// =============================================================================
+// VOCABULARY
+// =============================================================================
+
+/**
+ * Builds a case-insensitive regex with Unicode-aware word boundaries.
+ * (\b treats "é", "ľ" etc. as non-word characters, which breaks Slovak words)
+ */
+function word(pattern: string): RegExp {
+    return new RegExp(`(?<![\\p{L}\\d])(?:${pattern})(?![\\p{L}\\d])`, "giu");
+}
+
+const CUISINES: { name: string; type: string; pattern: RegExp }[] = [
+    { name: "italian", type: "italian_restaurant", pattern: word("italian|taliansk\\p{L}*") },
+    { name: "japanese", type: "japanese_restaurant", pattern: word("japanese|japonsk\\p{L}*") },
+    { name: "chinese", type: "chinese_restaurant", pattern: word("chinese|čínsk\\p{L}*|cinsk\\p{L}*") },
+    { name: "thai", type: "thai_restaurant", pattern: word("thai|thajsk\\p{L}*") },
+    { name: "indian", type: "indian_restaurant", pattern: word("indian|indick\\p{L}*") },
+    { name: "mexican", type: "mexican_restaurant", pattern: word("mexican|mexick\\p{L}*") },
+    { name: "vietnamese", type: "vietnamese_restaurant", pattern: word("vietnamese|vietnamsk\\p{L}*") },
+    { name: "korean", type: "korean_restaurant", pattern: word("korean|kórejsk\\p{L}*|korejsk\\p{L}*") },
+    { name: "greek", type: "greek_restaurant", pattern: word("greek|gréck\\p{L}*|greck\\p{L}*") },
+    { name: "turkish", type: "turkish_restaurant", pattern: word("turkish|tureck\\p{L}*") },
+    { name: "french", type: "french_restaurant", pattern: word("french|francúzsk\\p{L}*|francuzsk\\p{L}*") },
+    { name: "spanish", type: "spanish_restaurant", pattern: word("spanish|španielsk\\p{L}*|spanielsk\\p{L}*") },
+    { name: "american", type: "american_restaurant", pattern: word("american|americk\\p{L}*") },
+    { name: "mediterranean", type: "mediterranean_restaurant", pattern: word("mediterranean|stredomorsk\\p{L}*") },
+    { name: "middle_eastern", type: "middle_eastern_restaurant", pattern: word("middle eastern|lebanese|blízkovýchodn\\p{L}*|libanonsk\\p{L}*") },
+    { name: "seafood", type: "seafood_restaurant", pattern: word("seafood|morsk\\p{L}* plody|plody mora|rybac\\p{L}*") },
+    { name: "slovak", type: "restaurant", pattern: word("slovak|slovensk\\p{L}*") }
+];
+
+const DISHES: { name: string; pattern: RegExp }[] = [
+    { name: "pizza", pattern: word("pizz\\p{L}*") },
+    { name: "sushi", pattern: word("sushi") },
+    { name: "burger", pattern: word("burger\\p{L}*|hamburger\\p{L}*") },
+    { name: "ramen", pattern: word("ramen") },
+    { name: "pho", pattern: word("pho") },
+    { name: "kebab", pattern: word("kebab\\p{L}*|döner|doner|gyros") },
+    { name: "steak", pattern: word("steak\\p{L}*|steaky|stejk\\p{L}*") },
+    { name: "pasta", pattern: word("pasta|cestovin\\p{L}*") },
+    { name: "tacos", pattern: word("tacos?|burrito\\p{L}*") },
+    { name: "brunch", pattern: word("brunch\\p{L}*") },
+    { name: "breakfast", pattern: word("breakfast|raňajk\\p{L}*|ranajk\\p{L}*") },
+    { name: "coffee", pattern: word("coffee|káv\\p{L}*|kaviare\\p{L}*|cafe|café") },
+    { name: "dessert", pattern: word("desserts?|dezert\\p{L}*|zákusk\\p{L}*|cukráre\\p{L}*") },
+    { name: "ice cream", pattern: word("ice cream|gelato|zmrzlin\\p{L}*") },
+    { name: "soup", pattern: word("soups?|polievk\\p{L}*") },
+    { name: "schnitzel", pattern: word("schnitzel|rezeň|rezne\\p{L}*") },
+    { name: "halusky", pattern: word("halušk\\p{L}*|halusk\\p{L}*") }
+];
+
+const DIETARY: { tag: DietaryTag; pattern: RegExp }[] = [
+    { tag: "vegan", pattern: word("vegan\\p{L}*|vegán\\p{L}*|plant[- ]based|rastlinn\\p{L}*") },
+    { tag: "vegetarian", pattern: word("vegetarian\\p{L}*|vegetarián\\p{L}*|veggie|meatless|no meat|without meat|bez mäsa|bezmäsit\\p{L}*") },
+    { tag: "gluten_free", pattern: word("gluten[- ]free|no gluten|without gluten|celiac|bezlepkov\\p{L}*|bez lepku|celiatik\\p{L}*") },
+    { tag: "lactose_free", pattern: word("lactose[- ]free|dairy[- ]free|no dairy|bezlaktózov\\p{L}*|bez laktózy|bez mlieka") },
+    { tag: "halal", pattern: word("halal") },
+    { tag: "kosher", pattern: word("kosher|košer\\p{L}*") }
+];
+
+// Terms after "no"/"bez" that belong to a dietary phrase, not an exclusion
+const DIETARY_NEGATION_TERMS = new Set(["meat", "gluten", "dairy", "mäsa", "lepku", "laktózy", "mlieka"]);
+
+const AMBIENCE: { tag: AmbienceTag; pattern: RegExp }[] = [
+    { tag: "terrace", pattern: word("terrace|patio|outdoor seating|outdoors?|outside|garden|teras\\p{L}*|vonku|záhrad\\p{L}*|zahradk\\p{L}*") },
+    { tag: "dog_friendly", pattern: word("dog[- ]friendly|pet[- ]friendly|dogs? allowed|with (?:my|a) dog|so psom|s psom|psy povolené|pes povolený|psíkom") },
+    { tag: "romantic", pattern: word("romantic|date night|romantick\\p{L}*|na rande|rande") },
+    { tag: "kid_friendly", pattern: word("kid[- ]friendly|family[- ]friendly|with kids|for kids|s deťmi|pre deti|detsk\\p{L}* kútik") },
+    { tag: "quiet", pattern: word("quiet|calm|tich\\p{L}*|pokojn\\p{L}*") },
+    { tag: "live_music", pattern: word("live music|živá hudba|živou hudbou|ziva hudba") },
+    { tag: "wifi", pattern: word("wi-?fi") },
+    { tag: "view", pattern: word("with a view|nice view|rooftop|s výhľadom|výhľad\\p{L}*") }
+];
+
+const PRICE_BANDS: { band: PriceBand; pattern: RegExp }[] = [
+    { band: "cheap", pattern: word("cheap|cheapest|budget|inexpensive|affordable|low[- ]cost|lacn\\p{L}*|za babku") },
+    { band: "moderate", pattern: word("mid[- ]range|moderate|moderately priced|stredn\\p{L}* cen\\p{L}*") },
+    { band: "upscale", pattern: word("upscale|fancy|fine dining|luxury|luxurious|high[- ]end|expensive|luxusn\\p{L}*|drah\\p{L}*|noblesn\\p{L}*") }
+];
+
+// Mirrors budgetRanges in filterLightCandidates (search route)
+const BAND_PRICE_LEVELS: Record<PriceBand, number[]> = {
+    cheap: [1, 2],
+    moderate: [2, 3],
+    upscale: [3, 4]
+};
+
+const DAYS: { day: number; pattern: RegExp }[] = [
+    { day: 0, pattern: word("(?:on )?sundays?|(?:v )?nedeľ\\p{L}*|(?:v )?nedel\\p{L}*") },
+    { day: 1, pattern: word("(?:on )?mondays?|(?:v )?pondelok|(?:v )?pondelk\\p{L}*") },
+    { day: 2, pattern: word("(?:on )?tuesdays?|(?:v )?utorok|(?:v )?utork\\p{L}*") },
+    { day: 3, pattern: word("(?:on )?wednesdays?|(?:v )?stred[au]") },
+    { day: 4, pattern: word("(?:on )?thursdays?|(?:vo )?štvrt\\p{L}*|(?:vo )?stvrt\\p{L}*") },
+    { day: 5, pattern: word("(?:on )?fridays?|(?:v )?piat\\p{L}*") },
+    { day: 6, pattern: word("(?:on )?saturdays?|(?:this |on the )?weekend|(?:v )?sobot\\p{L}*|(?:cez )?víkend") }
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    jedného: 1, dvoch: 2, troch: 3, štyroch: 4, piatich: 5, šiestich: 6, siedmich: 7, ôsmich: 8,
+    dvaja: 2, traja: 3, štyria: 4
+};
+
+const PARTY_NOUNS = "people|persons|person|guests|pax|ľudí|ľudia|ludi|osoby|osôb|osob|hostí|hostia";
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/**
+ * Runs `pattern` over `text`; each match the handler accepts (returns true)
+ * is cut out of the text.
+ */
+function consume(text: string, pattern: RegExp, handler: (match: string, groups: string[]) => boolean): string {
+    return text.replace(pattern, (match: string, ...rest: unknown[]) => {
+        const groups = rest.filter((g): g is string => typeof g === "string" || g === undefined)
+            .map(g => (g as string | undefined) ?? "");
+        return handler(match, groups) ? " " : match;
+    });
+}
+
+function toNumber(value: string): number {
+    return parseFloat(value.replace(",", "."));
+}
+
+function priceLevelsForAmount(maxPerPerson: number): number[] {
+    if (maxPerPerson <= 12) return [1];
+    if (maxPerPerson <= 25) return [1, 2];
+    if (maxPerPerson <= 50) return [1, 2, 3];
+    return [1, 2, 3, 4];
+}
+
+/**
+ * Parses complex natural language search input into a typed SearchIntent.
+ *
+ * @example
+ * parseSearchIntent("vegan brunch with terrace open sunday under 20 eur")
+ * → { cleanKeyword: "vegan brunch", dish: "brunch", dietary: ["vegan"], ambience: ["terrace"],
+ *     openAt: { now: false, dayOfWeek: 0, minutes: null }, price: { maxPerPerson: 20, ... } }
+ *
+ * parseSearchIntent("pizza 3 miles from me best one ever")
+ * → { cleanKeyword: "pizza best", detectedRadius: 4828, hasSuperlative: true, ... }
+ */
+export function parseSearchIntent(rawQuery: string): SearchIntent {
+    let query = rawQuery.trim();
+
+    // --- Radius with unit conversion ---
+    let detectedRadius: number | null = null;
+    // Leading "within" / "do" / "v okruhu" goes with the distance
+    const within = "(?:(?:within|up to|do|v okruhu)\\s+)?";
+    const unitPatterns: { pattern: RegExp; factor: number }[] = [
+        // Meters: "500m", "500 m", "500 meters", "500 metrov"
+        { pattern: word(`${within}(\\d+(?:[.,]\\d+)?)\\s*(?:m|meters?|metrov)`), factor: 1 },
+        // Kilometers: "5km", "5 km", "5 kilometers", "5 kilometrov"
+        { pattern: word(`${within}(\\d+(?:[.,]\\d+)?)\\s*(?:km|kilometers?|kilometrov?)`), factor: 1000 },
+        // Miles: "3mi", "3 miles", "3 mile", "3 míle", "3 míľ"
+        { pattern: word(`${within}(\\d+(?:[.,]\\d+)?)\\s*(?:mi|miles?|míle?|míľ)`), factor: 1609.34 }
+    ];
+
+    for (const { pattern, factor } of unitPatterns) {
+        if (detectedRadius !== null) break; // Only process first match
+        query = consume(query, pattern, (_, [value]) => {
+            const amount = toNumber(value);
+            if (detectedRadius !== null || isNaN(amount) || amount <= 0) return false;
+            detectedRadius = Math.round(amount * factor); // Convert to meters
+            return true;
+        });
+    }
+
+    // --- Open-at: explicit time ("after 22:00", "at 8pm", "po 22:00") ---
+    let openNow = false;
+    let openDay: number | null = null;
+    let openMinutes: number | null = null;
+
+    query = consume(
+        query,
+        word("(?:after|from|at|around|by|before|until|po|od|o|okolo|pred|do)?\\s*(\\d{1,2})(?::(\\d{2})\\s*(am|pm|h)?|\\s*(am|pm))"),
+        (_, [hours, minutes, suffixWithMinutes, suffix]) => {
+            let h = parseInt(hours, 10);
+            const m = minutes ? parseInt(minutes, 10) : 0;
+            const meridiem = (suffixWithMinutes || suffix).toLowerCase();
+            if (meridiem === "pm" && h < 12) h += 12;
+            if (meridiem === "am" && h === 12) h = 0;
+            if (h > 23 || m > 59) return false;
+            openMinutes = h * 60 + m;
+            return true;
+        }
+    );
+
+    query = consume(query, word("tonight|dnes večer|dnes vecer"), () => {
+        openMinutes = openMinutes ?? 19 * 60;
+        return true;
+    });
+    query = consume(query, word("late night|late|neskoro v noci|neskoro"), () => {
+        openMinutes = openMinutes ?? 22 * 60;
+        return true;
+    });
+
+    for (const { day, pattern } of DAYS) {
+        query = consume(query, pattern, () => {
+            openDay = openDay ?? day;
+            return true;
+        });
+    }
+
+    query = consume(
+        query,
+        word("open now|open right now|now open|currently open|otvoren\\p{L}* teraz|teraz otvoren\\p{L}*|práve otvoren\\p{L}*|otvoren\\p{L}* hneď"),
+        () => {
+            openNow = true;
+            return true;
+        }
+    );
+
+    // A bare "open" / "otvorené" means "open now" unless a day or time was given
+    let bareOpen = false;
+    query = consume(query, word("open|opened|otvoren\\p{L}*|otvorene"), () => {
+        bareOpen = true;
+        return true;
+    });
+    if (bareOpen && openDay === null && openMinutes === null) openNow = true;
+
+    const openAt: OpenAtConstraint | null = openNow || openDay !== null || openMinutes !== null
+        ? { now: openNow, dayOfWeek: openDay, minutes: openMinutes }
+        : null;
+
+    // --- Price: amount ("under 20 eur", "do 15€") then band ("cheap", "lacné") ---
+    let maxPerPerson: number | null = null;
+    let priceBand: PriceBand | null = null;
+
+    query = consume(
+        query,
+        word("(under|below|less than|max(?:imum)?|up to|at most|cheaper than|do|pod|najviac|maximálne|menej ako)\\s*(€)?\\s*(\\d+(?:[.,]\\d+)?)\\s*(€|eur(?:o|os|a|ov)?)?"),
+        (_, [keyword, prefix, amount, currency]) => {
+            // Slovak "do"/"pod" also mean "to"/"under (something)" - require a currency
+            const ambiguous = ["do", "pod"].includes(keyword.toLowerCase());
+            if (ambiguous && !prefix && !currency) return false;
+            maxPerPerson = toNumber(amount);
+            return true;
+        }
+    );
+
+    if (maxPerPerson === null) {
+        query = consume(query, word("€\\s*(\\d+(?:[.,]\\d+)?)|(\\d+(?:[.,]\\d+)?)\\s*(?:€|eur(?:o|os|a|ov)?)"), (_, [a, b]) => {
+            maxPerPerson = toNumber(a || b);
+            return true;
+        });
+    }
+
+    for (const { band, pattern } of PRICE_BANDS) {
+        query = consume(query, pattern, () => {
+            priceBand = priceBand ?? band;
+            return true;
+        });
+    }
+
+    let price: PriceConstraint | null = null;
+    if (maxPerPerson !== null || priceBand !== null) {
+        const amountLevels = maxPerPerson !== null ? priceLevelsForAmount(maxPerPerson) : [1, 2, 3, 4];
+        const bandLevels = priceBand ? BAND_PRICE_LEVELS[priceBand] : [1, 2, 3, 4];
+        const intersection = amountLevels.filter(level => bandLevels.includes(level));
+        price = {
+            band: priceBand,
+            maxPerPerson,
+            // Contradictions ("fancy under 10€") trust the explicit amount
+            priceLevels: intersection.length > 0 ? intersection : amountLevels
+        };
+    }
+
+    // --- Party size ("for 4", "table for two", "pre 4 osoby", "6 people") ---
+    let partySize: number | null = null;
+    const numberWords = Object.keys(NUMBER_WORDS).join("|");
+    const partyPatterns = [
+        word(`(?:for|party of|table for|a table for|pre|stôl pre|stol pre)\\s+(\\d{1,2}|${numberWords})(?:\\s+(?:${PARTY_NOUNS}))?`),
+        word(`(\\d{1,2}|${numberWords})\\s+(?:${PARTY_NOUNS})`)
+    ];
+    for (const pattern of partyPatterns) {
+        query = consume(query, pattern, (_, [count]) => {
+            const size = NUMBER_WORDS[count.toLowerCase()] ?? parseInt(count, 10);
+            if (partySize !== null || !(size >= 1 && size <= 30)) return false;
+            partySize = size;
+            return true;
+        });
+    }
+
+    // --- Ambience ---
+    const ambience: AmbienceTag[] = [];
+    for (const { tag, pattern } of AMBIENCE) {
+        query = consume(query, pattern, () => {
+            if (!ambience.includes(tag)) ambience.push(tag);
+            return true;
+        });
+    }
+
+    // --- Dietary (kept in keyword - "vegan brunch" is a better provider query) ---
+    const dietary: DietaryTag[] = DIETARY
+        .filter(({ pattern }) => new RegExp(pattern.source, pattern.flags).test(query))
+        .map(({ tag }) => tag);
+    if (dietary.includes("vegan") && !dietary.includes("vegetarian")) {
+        // Vegan implies vegetarian for downstream filters
+        dietary.push("vegetarian");
+    }
+
+    // --- Exclusions ("no sushi", "without pizza", "bez cibule", "okrem pizze") ---
+    const excludedTerms: string[] = [];
+    query = consume(
+        query,
+        word("(?:no|not|without|except|but not|bez|nie|okrem|žiadn\\p{L}*)\\s+([\\p{L}-]{3,})"),
+        (_, [term]) => {
+            const normalized = term.toLowerCase();
+            if (DIETARY_NEGATION_TERMS.has(normalized)) return false;
+            if (!excludedTerms.includes(normalized)) excludedTerms.push(normalized);
+            return true;
+        }
+    );
+
+    // --- Cuisine & dish (detected on what is left, so "no sushi" never becomes the dish) ---
+    const cuisineMatch = CUISINES.find(c => new RegExp(c.pattern.source, c.pattern.flags).test(query));
+    const dishMatch = DISHES.find(d => new RegExp(d.pattern.source, d.pattern.flags).test(query));
+
+    // --- Superlatives (quality modifiers) ---
+    const superlativePatterns = [
+        // English
+        word("best|amazing|incredible|fantastic|top.?tier|premium|excellent|perfect|outstanding"),
+        // Slovak
+        word("najlepš\\p{L}*|úžasn\\p{L}*|skvel\\p{L}*|perfektn\\p{L}*|výborn\\p{L}*|super|top")
+    ];
+    const hasSuperlative = superlativePatterns.some(p => p.test(query));
+
+    // --- Clean up the keyword ---
+    // Remove common filler phrases (English & Slovak)
+    const fillerPatterns = [
+        word("i want|i need|give me|show me|find me|looking for|somewhere|a place|place"),
+        word("chcem|potrebujem|daj mi|ukáž mi|nájdi mi|hľadám|niečo|podnik|miesto"),
+        word("from me|near me|close to me|nearby|around here"),
+        word("odo mňa|blízko mňa|v okolí|v blízkosti|neďaleko"),
+        word("make it|make them"),
+        word("nech je to|urob to"),
+        word("one ever|in my life|of all time"),
+        word("v živote|aké som mal|zo všetkých"),
+        // Connectors left behind once constraints are cut out
+        word("with|and|that is|which is|that's|on|at|for|is|s|so|a|v|vo|na|pre|ktorá|ktoré|ktorý|kde je")
+    ];
+
+    let cleanKeyword = query;
+    for (const filler of fillerPatterns) {
+        cleanKeyword = cleanKeyword.replace(filler, " ");
+    }
+
+    // Normalize whitespace & stray punctuation
+    cleanKeyword = cleanKeyword
+        .replace(/\s+[,.!-]+(?=\s|$)/g, " ")
+        .replace(/^[\s,.!-]+|[\s,.!-]+$/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+
+    const intent: SearchIntent = {
+        rawQuery,
+        cleanKeyword,
+        detectedRadius,
+        hasSuperlative,
+        cuisine: cuisineMatch?.name ?? null,
+        cuisineType: cuisineMatch?.type ?? null,
+        dish: dishMatch?.name ?? null,
+        price,
+        openAt,
+        partySize,
+        ambience,
+        dietary,
+        excludedTerms
+    };
+
+    console.log(`[SearchIntent] Raw: "${rawQuery}" → Clean: "${cleanKeyword}"`, JSON.stringify({
+        radius: detectedRadius,
+        cuisine: intent.cuisine,
+        dish: intent.dish,
+        price,
+        openAt,
+        partySize,
+        ambience,
+        dietary,
+        excludedTerms,
+        superlative: hasSuperlative
+    }));
+
+    return intent;
+}
+
+// =============================================================================
+// CONSUMERS
+// =============================================================================
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function formatMinutes(minutes: number): string {
+    const h = Math.floor(minutes / 60).toString().padStart(2, "0");
+    const m = (minutes % 60).toString().padStart(2, "0");
+    return `${h}:${m}`;
+}
+
+/**
+ * Human-readable constraint lines for the Scout & scoring prompts.
+ * Returns [] when the query carried no structured constraints.
+ */
+export function describeSearchIntent(intent: SearchIntent): string[] {
+    const lines: string[] = [];
+
+    if (intent.cuisine) lines.push(`Cuisine: ${intent.cuisine.replace(/_/g, " ")}`);
+    if (intent.dish) lines.push(`Dish / meal: ${intent.dish}`);
+    if (intent.dietary.length) lines.push(`Dietary (from query): ${intent.dietary.join(", ")}`);
+    if (intent.price) {
+        const parts = [
+            intent.price.band ? `${intent.price.band}` : null,
+            intent.price.maxPerPerson !== null ? `max €${intent.price.maxPerPerson} per person` : null
+        ].filter(Boolean);
+        lines.push(`Price: ${parts.join(", ")}`);
+    }
+    if (intent.openAt) {
+        const when = intent.openAt.now
+            ? "right now"
+            : [
+                intent.openAt.dayOfWeek !== null ? DAY_NAMES[intent.openAt.dayOfWeek] : null,
+                intent.openAt.minutes !== null ? formatMinutes(intent.openAt.minutes) : null
+            ].filter(Boolean).join(" ");
+        lines.push(`Must be open: ${when}`);
+    }
+    if (intent.partySize !== null) lines.push(`Party size: ${intent.partySize}`);
+    if (intent.ambience.length) lines.push(`Ambience: ${intent.ambience.map(a => a.replace(/_/g, " ")).join(", ")}`);
+    if (intent.excludedTerms.length) lines.push(`EXCLUDE places serving/named: ${intent.excludedTerms.join(", ")}`);
+
+    return lines;
+}
+
+/**
+ * Term used to match cached places by name/type
+ * (the full keyword rarely substring-matches, "vegan brunch" vs "brunch_restaurant").
+ */
+export function getIntentMatchTerm(intent: SearchIntent): string {
+    return (intent.dish || intent.cuisine || intent.cleanKeyword).toLowerCase();
+}
+
+/**
+ * True if the place name/types hit one of the excluded terms.
+ */
+export function isExcludedByIntent(intent: SearchIntent, name: string, types: string[]): boolean {
+    if (!intent.excludedTerms.length) return false;
+    const haystack = `${name} ${types.join(" ")}`.toLowerCase();
+    return intent.excludedTerms.some(term => haystack.includes(term));
+}
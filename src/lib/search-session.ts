@@ -0,0 +1,218 @@
+/**
+ * Search Sessions - "Load more" without re-running discovery
+ *
+ * A paid search stores its candidate pool in `search_sessions/{id}` (Admin SDK only):
+ * - scoredQueue: places already enriched + AI-scored but not shown yet
+ * - pendingIds:  filtered light candidates not enriched yet (scout picks first)
+ *
+ * The client only ever sees an opaque cursor (session id + page). Each
+ * continuation claims the page transactionally, so a double-click cannot
+ * serve (or charge) the same page twice.
+ *
+ * CREDIT RULES:
+ * - The initial search costs 1 credit (unchanged)
+ * - Pages served from scoredQueue are always free - they were paid for already
+ * - One credit covers BATCHES_PER_CREDIT scoring batches: the initial search plus
+ *   the next batch are covered, the batch after that reserves a new credit
+ * - Premium users never pay (reserveUserCredit handles it)
+ * - A failed scoring batch refunds its credit, like the initial search
+ */
+
+import { randomBytes } from "crypto";
+import { getAdminDb } from "@/lib/firebase-admin";
+import type { SearchIntent } from "@/lib/search-intent";
+import type { GroupDiner } from "@/lib/dining-groups";
+import type { GeminiScore } from "@/types";
+
+const COLLECTION = "search_sessions";
+
+export const SESSION_TTL_MS = 30 * 60 * 1000;  // 30 minutes
+export const BATCHES_PER_CREDIT = 2;
+
+export interface ScoredEntry {
+    placeId: string;
+    score: GeminiScore;
+}
+
+export interface SearchSession {
+    userId: string;
+    keyword: string;
+    intent: SearchIntent;
+    preferences: {
+        allergies: string[];
+        dietary: string[];
+        cuisines: string[];
+        budget: string;
+    };
+    source: string;
+    routePolyline?: string;        // Route mode: encoded path for detour ranking
+    group?: GroupDiner[];          // Group mode: diners to score every page against
+    page: number;                  // Last page served (1 = initial search)
+    servedIds: string[];
+    scoredQueue: ScoredEntry[];
+    pendingIds: string[];
+    freeBatchesRemaining: number;  // Scoring batches still covered by the last credit
+    createdAt: string;
+    expiresAt: number;             // ms epoch
+}
+
+export type ContinuationPlan =
+    | { kind: "scored"; entries: ScoredEntry[] }
+    | { kind: "score"; placeIds: string[]; chargesCredit: boolean };
+
+export class SearchSessionError extends Error {
+    constructor(public readonly status: number, public readonly code: string, message: string) {
+        super(message);
+        this.name = "SearchSessionError";
+    }
+}
+
+// =============================================================================
+// CURSOR
+// =============================================================================
+
+export function encodeCursor(sessionId: string, page: number): string {
+    return Buffer.from(`${sessionId}:${page}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): { sessionId: string; page: number } | null {
+    try {
+        const [sessionId, page] = Buffer.from(cursor, "base64url").toString("utf8").split(":");
+        const pageNumber = parseInt(page, 10);
+        if (!/^[A-Za-z0-9_-]{16,64}$/.test(sessionId) || !Number.isInteger(pageNumber) || pageNumber < 1) return null;
+        return { sessionId, page: pageNumber };
+    } catch {
+        return null;
+    }
+}
+
+export function hasMoreResults(session: Pick<SearchSession, "scoredQueue" | "pendingIds">): boolean {
+    return session.scoredQueue.length > 0 || session.pendingIds.length > 0;
+}
+
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+
+/**
+ * Stores the pool of a paid search. Returns the cursor for page 2,
+ * or null when nothing is left to show.
+ */
+export async function createSearchSession(
+    data: Omit<SearchSession, "page" | "freeBatchesRemaining" | "createdAt" | "expiresAt">
+): Promise<string | null> {
+    if (!hasMoreResults(data)) return null;
+
+    const sessionId = randomBytes(18).toString("base64url");
+    const now = Date.now();
+
+    const session: SearchSession = {
+        ...data,
+        page: 1,
+        freeBatchesRemaining: BATCHES_PER_CREDIT - 1,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: now + SESSION_TTL_MS
+    };
+
+    await getAdminDb().collection(COLLECTION).doc(sessionId).set(session);
+    console.log(`[SearchSession] Created ${sessionId}: ${data.scoredQueue.length} scored, ${data.pendingIds.length} pending`);
+    return encodeCursor(sessionId, 1);
+}
+
+/**
+ * Loads a session for a continuation request and validates owner, expiry and page.
+ */
+export async function loadSearchSession(cursor: string, userId: string): Promise<{ sessionId: string; session: SearchSession }> {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) throw new SearchSessionError(400, "INVALID_CURSOR", "Invalid cursor");
+
+    const snap = await getAdminDb().collection(COLLECTION).doc(decoded.sessionId).get();
+    if (!snap.exists) throw new SearchSessionError(410, "SESSION_EXPIRED", "Search session expired. Please search again.");
+
+    const session = snap.data() as SearchSession;
+    if (session.userId !== userId) throw new SearchSessionError(403, "FORBIDDEN", "Search session belongs to another user");
+    if (session.expiresAt < Date.now()) throw new SearchSessionError(410, "SESSION_EXPIRED", "Search session expired. Please search again.");
+    if (session.page !== decoded.page) throw new SearchSessionError(409, "CURSOR_STALE", "This page was already loaded");
+    if (!hasMoreResults(session)) throw new SearchSessionError(404, "NO_MORE_RESULTS", "No more results for this search");
+
+    return { sessionId: decoded.sessionId, session };
+}
+
+/**
+ * Decides what the next page is made of and whether it costs a credit.
+ */
+export function planContinuation(session: SearchSession, pageSize: number, batchSize: number): ContinuationPlan {
+    if (session.scoredQueue.length > 0) {
+        return { kind: "scored", entries: session.scoredQueue.slice(0, pageSize) };
+    }
+    return {
+        kind: "score",
+        placeIds: session.pendingIds.slice(0, batchSize),
+        chargesCredit: session.freeBatchesRemaining <= 0
+    };
+}
+
+/**
+ * Claims the next page atomically: removes the planned items from the pool and
+ * advances the page. Throws CURSOR_STALE if another request claimed it first.
+ */
+export async function claimContinuation(sessionId: string, expectedPage: number, plan: ContinuationPlan): Promise<void> {
+    const ref = getAdminDb().collection(COLLECTION).doc(sessionId);
+
+    await getAdminDb().runTransaction(async (transaction) => {
+        const snap = await transaction.get(ref);
+        const session = snap.data() as SearchSession | undefined;
+        if (!session || session.page !== expectedPage) {
+            throw new SearchSessionError(409, "CURSOR_STALE", "This page was already loaded");
+        }
+
+        if (plan.kind === "scored") {
+            transaction.update(ref, {
+                page: expectedPage + 1,
+                scoredQueue: session.scoredQueue.slice(plan.entries.length)
+            });
+            return;
+        }
+
+        transaction.update(ref, {
+            page: expectedPage + 1,
+            pendingIds: session.pendingIds.slice(plan.placeIds.length),
+            freeBatchesRemaining: plan.chargesCredit ? BATCHES_PER_CREDIT - 1 : session.freeBatchesRemaining - 1
+        });
+    });
+}
+
+/**
+ * True if loading the page after this one will reserve a credit.
+ */
+export function nextPageCostsCredit(session: Pick<SearchSession, "scoredQueue" | "pendingIds" | "freeBatchesRemaining">): boolean {
+    return session.scoredQueue.length === 0 && session.pendingIds.length > 0 && session.freeBatchesRemaining <= 0;
+}
+
+/**
+ * Records the outcome of a page: served ids and scored leftovers for the next page.
+ * Returns the next cursor (null when the pool is exhausted) and whether it costs a credit.
+ */
+export async function completeContinuation(
+    sessionId: string,
+    page: number,
+    servedIds: string[],
+    leftovers: ScoredEntry[]
+): Promise<{ nextCursor: string | null; nextCostsCredit: boolean }> {
+    const ref = getAdminDb().collection(COLLECTION).doc(sessionId);
+    const snap = await ref.get();
+    const session = snap.data() as SearchSession | undefined;
+    if (!session) return { nextCursor: null, nextCostsCredit: false };
+
+    const updated = {
+        ...session,
+        servedIds: [...session.servedIds, ...servedIds],
+        scoredQueue: [...session.scoredQueue, ...leftovers]
+    };
+    await ref.update({ servedIds: updated.servedIds, scoredQueue: updated.scoredQueue });
+
+    return {
+        nextCursor: hasMoreResults(updated) ? encodeCursor(sessionId, page) : null,
+        nextCostsCredit: nextPageCostsCredit(updated)
+    };
+}
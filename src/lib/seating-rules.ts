@@ -0,0 +1,80 @@
+/**
+ * Seating Rules - dining duration and turn times
+ *
+ * Stored on the restaurant doc as `seatingRules` (SeatingRulesEditor).
+ *
+ * RULES:
+ * - Seatings before `dinnerStartsAt` are lunch, the rest dinner
+ * - The most specific duration rule wins: an exact day part beats "all",
+ *   then the narrowest party-size range; `defaultMinutes` otherwise
+ * - A table is blocked for the sitting plus `bufferMinutes` (reset time)
+ * - Last seating: `lastSeatingBeforeClose` minutes before closing (the
+ *   sitting may run past closing); null = the sitting must end by closing
+ *
+ * Pure module - safe to import from client components.
+ */
+
+import type { DiningDurationRule, SeatingRules } from "@/types";
+
+export const DEFAULT_SEATING_RULES: SeatingRules = {
+    defaultMinutes: 90,
+    durations: [],
+    dinnerStartsAt: "16:00",
+    bufferMinutes: 0,
+    lastSeatingBeforeClose: null
+};
+
+export const MIN_DINING_MINUTES = 30;
+export const MAX_DINING_MINUTES = 6 * 60;
+
+function parseTime(time: string): number {
+    const [h, m] = time.split(":").map(Number);
+    return h * 60 + m;
+}
+
+/**
+ * Stored rules merged over the defaults (older docs have none).
+ */
+export function resolveSeatingRules(rules: Partial<SeatingRules> | null | undefined): SeatingRules {
+    return { ...DEFAULT_SEATING_RULES, ...(rules || {}) };
+}
+
+export function getDayPart(rules: SeatingRules, startMinutes: number): "lunch" | "dinner" {
+    return startMinutes < parseTime(rules.dinnerStartsAt) ? "lunch" : "dinner";
+}
+
+function ruleMatches(rule: DiningDurationRule, dayPart: "lunch" | "dinner", guests: number): boolean {
+    return (rule.dayPart === "all" || rule.dayPart === dayPart)
+        && guests >= rule.minGuests
+        && (rule.maxGuests === undefined || guests <= rule.maxGuests);
+}
+
+function specificity(rule: DiningDurationRule): [number, number] {
+    const span = rule.maxGuests === undefined ? Infinity : rule.maxGuests - rule.minGuests;
+    return [rule.dayPart === "all" ? 1 : 0, span];
+}
+
+/**
+ * How long a party of `guests` seated at `startMinutes` keeps its table.
+ */
+export function getDiningMinutes(rules: SeatingRules, guests: number, startMinutes: number): number {
+    const dayPart = getDayPart(rules, startMinutes);
+    const best = rules.durations
+        .filter(rule => ruleMatches(rule, dayPart, guests))
+        .sort((a, b) => {
+            const [aPart, aSpan] = specificity(a);
+            const [bPart, bSpan] = specificity(b);
+            return aPart - bPart || aSpan - bSpan;
+        })[0];
+
+    return best?.minutes ?? rules.defaultMinutes;
+}
+
+/**
+ * Latest start that still respects the last-seating rule for an open block.
+ */
+export function getLastSeating(rules: SeatingRules, closeMinutes: number, diningMinutes: number): number {
+    return rules.lastSeatingBeforeClose === null
+        ? closeMinutes - diningMinutes
+        : closeMinutes - rules.lastSeatingBeforeClose;
+}
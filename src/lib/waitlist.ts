@@ -0,0 +1,344 @@
+/**
+ * Waitlist - parties waiting for a fully booked slot (`waitlist/{id}`)
+ *
+ * RULES:
+ * - A diner joins with a date, a preferred time, how flexible they are
+ *   (± minutes) and a party size - one open entry per diner, restaurant and
+ *   date, and only when nothing in their window is free
+ * - Entries are offered in `position` order: join order, the owner can
+ *   reorder from the dashboard (the only field clients may write)
+ * - When a booking is rejected or cancelled, promoteWaitlist offers the
+ *   freed capacity to the first waiting party that now fits a slot in its
+ *   window, at the slot closest to their preferred time
+ * - An offer is a pending booking held by "system" for
+ *   WAITLIST_HOLD_MINUTES (`waitlistOffer` on the booking). Accepting
+ *   confirms it - after the deposit at deposit venues. Declining or letting
+ *   it run out releases the table and the next party gets its turn
+ * - The owner can't confirm an offer the guest hasn't accepted
+ * - /api/cron/waitlist expires overdue offers and retries promotion, which
+ *   also picks up capacity freed by guest changes and unpaid deposits
+ */
+
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import {
+    CreateReservationSchema,
+    RESERVATIONS_COLLECTION,
+    ReservationError,
+    createReservation,
+    getAvailability,
+    parseTime,
+    transitionReservation,
+    type DayAvailability
+} from "@/lib/reservations";
+import { addNotification, notifyReservation } from "@/lib/notifications";
+import type { WaitlistEntry, WaitlistStatus } from "@/types";
+
+export const WAITLIST_COLLECTION = "waitlist";
+export const WAITLIST_HOLD_MINUTES = 30;
+export const WAITLIST_FLEXIBILITY_OPTIONS = [0, 30, 60, 120] as const;
+
+const OPEN_STATUSES: WaitlistStatus[] = ["waiting", "offered"];
+
+export const JoinWaitlistSchema = CreateReservationSchema
+    .pick({ placeId: true, date: true, time: true, guests: true, customerName: true, customerPhone: true })
+    .extend({
+        flexibilityMinutes: z.number().int().refine(
+            value => (WAITLIST_FLEXIBILITY_OPTIONS as readonly number[]).includes(value),
+            "Unsupported flexibility"
+        )
+    });
+
+export type JoinWaitlistInput = z.infer<typeof JoinWaitlistSchema>;
+
+export const RespondWaitlistSchema = z.object({
+    entryId: z.string().min(1),
+    action: z.enum(["accept", "decline", "leave"])
+});
+
+function entryRef(entryId: string) {
+    return getAdminDb().collection(WAITLIST_COLLECTION).doc(entryId);
+}
+
+function toEntry(doc: FirebaseFirestore.DocumentSnapshot): WaitlistEntry {
+    return { id: doc.id, ...doc.data() } as WaitlistEntry;
+}
+
+/**
+ * Free slot inside the entry's window closest to the preferred time, or null.
+ */
+function findOfferTime(availability: DayAvailability, entry: Pick<WaitlistEntry, "time" | "flexibilityMinutes">): string | null {
+    const preferred = parseTime(entry.time);
+    const candidates = availability.slots
+        .filter(slot => slot.available && Math.abs(parseTime(slot.time) - preferred) <= entry.flexibilityMinutes)
+        .sort((a, b) => Math.abs(parseTime(a.time) - preferred) - Math.abs(parseTime(b.time) - preferred));
+    return candidates[0]?.time || null;
+}
+
+// =============================================================================
+// JOIN
+// =============================================================================
+
+/**
+ * Puts a diner on the waitlist for a date and time window. Refused when the
+ * day can't be booked at all or a table in the window is free right now.
+ */
+export async function joinWaitlist(
+    user: { uid: string; email?: string },
+    input: JoinWaitlistInput
+): Promise<{ id: string; position: number }> {
+    const db = getAdminDb();
+    const availability = await getAvailability(input.placeId, input.date, input.guests);
+
+    const fullyBooked = availability.slots.some(slot => slot.reason === "Fully booked");
+    if (availability.closedReason && !fullyBooked) {
+        throw new ReservationError(409, "UNAVAILABLE", availability.closedReason);
+    }
+    const freeTime = findOfferTime(availability, input);
+    if (freeTime) {
+        throw new ReservationError(409, "SLOT_AVAILABLE", `A table is free at ${freeTime} - book it directly`);
+    }
+
+    // Single-field query - the rest is filtered here to avoid a composite index
+    const mine = await db.collection(WAITLIST_COLLECTION).where("userId", "==", user.uid).get();
+    if (mine.docs.some(doc => doc.data().placeId === input.placeId && doc.data().date === input.date && OPEN_STATUSES.includes(doc.data().status))) {
+        throw new ReservationError(409, "ALREADY_WAITLISTED", "You're already on the waitlist for this day");
+    }
+
+    const restaurant = (await db.collection("restaurants").doc(input.placeId).get()).data();
+    const now = new Date().toISOString();
+    const position = Date.now();
+    const ref = await db.collection(WAITLIST_COLLECTION).add({
+        placeId: input.placeId,
+        placeName: restaurant?.details?.name || restaurant?.name || "Restaurant",
+        userId: user.uid,
+        customerName: input.customerName,
+        customerEmail: user.email || "",
+        customerPhone: input.customerPhone,
+        date: input.date,
+        time: input.time,
+        flexibilityMinutes: input.flexibilityMinutes,
+        guests: input.guests,
+        status: "waiting",
+        position,
+        createdAt: now,
+        updatedAt: now
+    } satisfies Omit<WaitlistEntry, "id">);
+
+    console.log(`[Waitlist] ➕ ${user.uid} waiting for ${input.placeId} ${input.date} ${input.time}±${input.flexibilityMinutes} (${input.guests}p)`);
+    return { id: ref.id, position };
+}
+
+// =============================================================================
+// PROMOTION
+// =============================================================================
+
+/**
+ * Holds `time` for a waiting party and notifies them. Returns false when the
+ * slot or the entry was taken meanwhile.
+ */
+async function offerSlot(entry: WaitlistEntry, time: string): Promise<boolean> {
+    const db = getAdminDb();
+    const expiresAt = new Date(Date.now() + WAITLIST_HOLD_MINUTES * 60 * 1000).toISOString();
+
+    const reservation = await createReservation(
+        { uid: entry.userId, email: entry.customerEmail },
+        {
+            placeId: entry.placeId,
+            date: entry.date,
+            time,
+            guests: entry.guests,
+            customerName: entry.customerName,
+            customerPhone: entry.customerPhone,
+            notes: "From the waitlist"
+        },
+        { entryId: entry.id, expiresAt }
+    );
+
+    const offered = await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(entryRef(entry.id));
+        if (current.data()?.status !== "waiting") return false;
+
+        transaction.update(current.ref, {
+            status: "offered",
+            offer: { reservationId: reservation.id, time, expiresAt },
+            updatedAt: new Date().toISOString()
+        });
+        addNotification(transaction, entry.userId, {
+            type: "waitlist_offer",
+            title: "A table opened up",
+            body: `${entry.placeName}, ${entry.guests} guests on ${entry.date} at ${time} - accept within ${WAITLIST_HOLD_MINUTES} minutes`,
+            reservationId: reservation.id,
+            placeId: entry.placeId
+        });
+        return true;
+    });
+
+    if (!offered) {
+        // Left the waitlist or got an offer from a parallel run
+        await transitionReservation(reservation.id, null, "rejected", "Waitlist offer withdrawn").catch(() => null);
+        return false;
+    }
+
+    console.log(`[Waitlist] 🎟️ Offered ${entry.placeId} ${entry.date} ${time} to ${entry.id} (hold until ${expiresAt})`);
+    await notifyReservation("waitlist_offer", {
+        id: reservation.id,
+        placeId: entry.placeId,
+        placeName: entry.placeName,
+        userId: entry.userId,
+        customerName: entry.customerName,
+        customerEmail: entry.customerEmail,
+        customerPhone: entry.customerPhone,
+        dateKey: entry.date,
+        time,
+        guests: entry.guests,
+        holdMinutes: WAITLIST_HOLD_MINUTES
+    });
+    return true;
+}
+
+/**
+ * Offers freed capacity on `date` to waiting parties, in position order.
+ * Returns how many offers went out.
+ */
+export async function promoteWaitlist(placeId: string, date: string): Promise<number> {
+    const snap = await getAdminDb().collection(WAITLIST_COLLECTION)
+        .where("placeId", "==", placeId)
+        .where("date", "==", date)
+        .get();
+    const waiting = snap.docs
+        .map(toEntry)
+        .filter(entry => entry.status === "waiting")
+        .sort((a, b) => a.position - b.position);
+
+    let offers = 0;
+    for (const entry of waiting) {
+        const time = findOfferTime(await getAvailability(placeId, date, entry.guests), entry);
+        if (!time) continue;
+
+        try {
+            if (await offerSlot(entry, time)) offers++;
+        } catch (error) {
+            if (error instanceof ReservationError && error.code === "OWNER_LIMIT_REACHED") break;
+            // Slot taken meanwhile, or the diner can't book (credits) - next party
+            console.warn(`[Waitlist] Could not offer ${time} to ${entry.id}:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return offers;
+}
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+/**
+ * Guest accepts or declines an offer, or leaves the waitlist. Accepting
+ * confirms the held booking unless a deposit is still due; the caller then
+ * sends the guest to checkout (`depositDue`).
+ */
+export async function respondToWaitlist(
+    uid: string,
+    entryId: string,
+    action: "accept" | "decline" | "leave"
+): Promise<{ status: WaitlistStatus; entry: WaitlistEntry; depositDue: number }> {
+    const db = getAdminDb();
+
+    const { status, entry, depositDue } = await db.runTransaction(async (transaction) => {
+        const snap = await transaction.get(entryRef(entryId));
+        if (!snap.exists) throw new ReservationError(404, "NOT_FOUND", "Waitlist entry not found");
+        const entry = toEntry(snap);
+        if (entry.userId !== uid) throw new ReservationError(403, "FORBIDDEN", "You can't change this waitlist entry");
+
+        const now = new Date().toISOString();
+        if (action === "accept") {
+            if (entry.status !== "offered" || !entry.offer) {
+                throw new ReservationError(409, "NO_OFFER", "There's no open offer for this entry");
+            }
+            if (entry.offer.expiresAt < now) {
+                throw new ReservationError(410, "OFFER_EXPIRED", "This offer has expired - you're still welcome to book another time");
+            }
+            const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc(entry.offer.reservationId);
+            const reservation = (await transaction.get(reservationRef)).data();
+            if (reservation?.status !== "pending") {
+                throw new ReservationError(409, "OFFER_WITHDRAWN", "This offer is no longer available");
+            }
+
+            transaction.update(snap.ref, { status: "accepted", updatedAt: now });
+            transaction.update(reservationRef, { "waitlistOffer.acceptedAt": now, updatedAt: now });
+            const depositDue = reservation.deposit?.status === "requires_payment" ? reservation.deposit.amount as number : 0;
+            return { status: "accepted" as WaitlistStatus, entry, depositDue };
+        }
+
+        if (!OPEN_STATUSES.includes(entry.status)) {
+            throw new ReservationError(409, "NOT_OPEN", "This waitlist entry is already closed");
+        }
+        const next: WaitlistStatus = entry.status === "offered" ? "declined" : "cancelled";
+        transaction.update(snap.ref, { status: next, updatedAt: now });
+        return { status: next, entry, depositDue: 0 };
+    });
+
+    if (status === "accepted" && !depositDue) {
+        await transitionReservation(entry.offer!.reservationId, null, "confirmed", "Accepted from the waitlist");
+    }
+    if (status === "declined" && entry.offer) {
+        await transitionReservation(entry.offer.reservationId, null, "rejected", "Guest declined the waitlist offer").catch(() => null);
+    }
+
+    console.log(`[Waitlist] ${entryId}: ${action} → ${status}`);
+    return { status, entry, depositDue };
+}
+
+// =============================================================================
+// SWEEP
+// =============================================================================
+
+/**
+ * Expires overdue offers (releasing their tables), closes entries for past
+ * dates and retries promotion for every date with waiting parties.
+ */
+export async function sweepWaitlist(): Promise<{ expired: number; closed: number; offers: number }> {
+    const db = getAdminDb();
+    const now = new Date().toISOString();
+    // A day of slack so no restaurant timezone loses a date that's still today
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    let expired = 0;
+    const offeredSnap = await db.collection(WAITLIST_COLLECTION).where("status", "==", "offered").get();
+    for (const entry of offeredSnap.docs.map(toEntry)) {
+        if (!entry.offer || entry.offer.expiresAt >= now) continue;
+
+        const didExpire = await db.runTransaction(async (transaction) => {
+            const current = await transaction.get(entryRef(entry.id));
+            if (current.data()?.status !== "offered") return false;
+            transaction.update(current.ref, { status: "expired", updatedAt: now });
+            return true;
+        });
+        if (!didExpire) continue;
+
+        await transitionReservation(entry.offer.reservationId, null, "rejected", "Waitlist offer expired").catch(() => null);
+        expired++;
+    }
+
+    let closed = 0;
+    const days = new Map<string, { placeId: string; date: string }>();
+    const waitingSnap = await db.collection(WAITLIST_COLLECTION).where("status", "==", "waiting").get();
+    for (const entry of waitingSnap.docs.map(toEntry)) {
+        if (entry.date < yesterday) {
+            await entryRef(entry.id).update({ status: "expired", updatedAt: now });
+            closed++;
+            continue;
+        }
+        days.set(`${entry.placeId}_${entry.date}`, { placeId: entry.placeId, date: entry.date });
+    }
+
+    let offers = 0;
+    for (const { placeId, date } of days.values()) {
+        try {
+            offers += await promoteWaitlist(placeId, date);
+        } catch (error) {
+            console.error(`[Waitlist] Promotion failed for ${placeId} ${date}:`, error);
+        }
+    }
+
+    return { expired, closed, offers };
+}
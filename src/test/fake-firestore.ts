@@ -0,0 +1,62 @@
+/**
+ * Test helper - an in-memory stand-in for the Admin SDK's Firestore
+ *
+ * Documents are keyed by path ("reservations/res_1"). Supports what the
+ * webhook and deposit code uses: doc get/set/update (dotted paths)/delete and
+ * runTransaction with get/set/update. Transactions run straight through.
+ *
+ * Usage in a test file:
+ *   vi.mock("@/lib/firebase-admin", async () => (await import("@/test/fake-firestore")).firebaseAdminModule());
+ */
+
+import { vi } from "vitest";
+
+type Data = Record<string, unknown>;
+
+/** All documents, by path. Clear between tests. */
+export const fakeDocs = new Map<string, Data>();
+
+function update(path: string, fields: Data): void {
+    const data = fakeDocs.get(path);
+    if (!data) throw new Error(`No document to update: ${path}`);
+    for (const [field, value] of Object.entries(fields)) {
+        const keys = field.split(".");
+        let node = data;
+        keys.slice(0, -1).forEach(key => { node = (node[key] ??= {}) as Data; });
+        node[keys[keys.length - 1]] = value;
+    }
+}
+
+function docRef(path: string) {
+    return {
+        id: path.split("/").pop()!,
+        path,
+        get: async () => ({ exists: fakeDocs.has(path), id: path.split("/").pop()!, data: () => fakeDocs.get(path) }),
+        set: async (data: Data) => { fakeDocs.set(path, structuredClone(data)); },
+        update: async (fields: Data) => update(path, fields),
+        delete: async () => { fakeDocs.delete(path); }
+    };
+}
+
+type DocRef = ReturnType<typeof docRef>;
+
+const db = {
+    collection: (name: string) => ({
+        doc: (id: string) => docRef(`${name}/${id}`)
+    }),
+    runTransaction: async <T>(fn: (transaction: unknown) => Promise<T>): Promise<T> => fn({
+        get: (ref: DocRef) => ref.get(),
+        set: (ref: DocRef, data: Data) => { fakeDocs.set(ref.path, structuredClone(data)); },
+        update: (ref: DocRef, fields: Data) => update(ref.path, fields)
+    })
+};
+
+/** Module factory for vi.mock("@/lib/firebase-admin") */
+export function firebaseAdminModule() {
+    return {
+        getAdminDb: () => db,
+        getAdminAuth: vi.fn(() => {
+            throw new Error("Auth is not available in this test");
+        })
+    };
+}
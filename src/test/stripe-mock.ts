@@ -0,0 +1,61 @@
+/**
+ * Test helper - the real Stripe SDK pointed at stripe-mock
+ *
+ * stripe-mock (https://github.com/stripe/stripe-mock) validates every request
+ * against Stripe's OpenAPI spec and answers with fixture objects, so tests
+ * catch params Stripe would reject without talking to Stripe.
+ *
+ *   docker run --rm -p 12111-12112:12111-12112 stripe/stripe-mock
+ *
+ * STRIPE_MOCK_HOST / STRIPE_MOCK_PORT override localhost:12111.
+ *
+ * Usage in a test file:
+ *   vi.mock("stripe", async () => (await import("@/test/stripe-mock")).stripeMockModule());
+ *   describe.skipIf(!(await isStripeMockRunning()))(...)
+ */
+
+import { vi } from "vitest";
+import type Stripe from "stripe";
+
+export const STRIPE_MOCK = {
+    host: process.env.STRIPE_MOCK_HOST || "localhost",
+    port: Number(process.env.STRIPE_MOCK_PORT || 12111),
+    protocol: "http" as const
+};
+
+export interface StripeMockRequest {
+    method: string;
+    path: string;
+    idempotencyKey?: string;
+}
+
+/** Every request the SDK sent, oldest first. Clear between tests. */
+export const stripeMockRequests: StripeMockRequest[] = [];
+
+/** Module factory for vi.mock("stripe"): the real SDK, any key, sent to stripe-mock */
+export async function stripeMockModule() {
+    const { default: RealStripe } = await vi.importActual<{ default: typeof Stripe }>("stripe");
+
+    function StripeMock(key: string | undefined, config?: Stripe.StripeConfig): Stripe {
+        const client = new RealStripe(key || "sk_test_123", { ...config, ...STRIPE_MOCK, maxNetworkRetries: 0 });
+        client.on("request", event => {
+            stripeMockRequests.push({ method: event.method, path: event.path, idempotencyKey: event.idempotency_key });
+        });
+        return client;
+    }
+
+    return { default: Object.assign(StripeMock, RealStripe) };
+}
+
+export async function isStripeMockRunning(): Promise<boolean> {
+    try {
+        await fetch(`${STRIPE_MOCK.protocol}://${STRIPE_MOCK.host}:${STRIPE_MOCK.port}/v1/balance`, {
+            headers: { Authorization: "Bearer sk_test_123" },
+            signal: AbortSignal.timeout(1000)
+        });
+        return true;
+    } catch {
+        console.warn(`⚠️ [stripe-mock] Not reachable at ${STRIPE_MOCK.host}:${STRIPE_MOCK.port} - skipping Stripe API tests`);
+        return false;
+    }
+}
@@ -13,6 +13,17 @@ declare namespace NodeJS {
         NEXT_PUBLIC_GOOGLE_MAPS_KEY: string;
         NEXT_PUBLIC_GOOGLE_MAP_ID: string;
 
+        // Places Provider (google | overpass | fixture)
+        PLACES_PROVIDER?: string;
+        PLACES_FIXTURE_PATH?: string;
+        OVERPASS_API_URL?: string;
+
+        // LLM Client (gemini | openai | mock), per-operation LLM_MODEL_<OPERATION>
+        LLM_PROVIDER?: string;
+        LLM_MODEL?: string;
+        OPENAI_BASE_URL?: string;
+        OPENAI_API_KEY?: string;
+
         // Server-side Secrets
         GEMINI_API_KEY: string;
         STRIPE_SECRET_KEY: string;
@@ -67,6 +67,7 @@ export interface User {
     subscription: UserSubscription;
     credits: UserCredits;
     profile: UserProfile;
+    notificationPreferences?: Partial<NotificationPreferences>;
 
     createdAt: string;
     updatedAt: string;
@@ -86,6 +87,49 @@ export interface GeminiScore {
     recommendedDish: string;   // Single best dish recommendation
     warnings: string[];        // Dietary/allergy warnings
     warning?: boolean;         // Critical warning flag (e.g. cross-contamination)
+    memberFits?: MemberFit[];  // Group mode: per-diner fit (matchScore is then the group score)
+}
+
+/**
+ * One diner's fit for a place in a group search.
+ */
+export interface MemberFit {
+    memberId: string;
+    displayName: string;
+    fitScore: number;          // 0-100
+    safetyFlag: boolean;       // Allergy risk for this diner
+    reason: string;
+}
+
+/**
+ * Dining group member: a NearSpotty user (profile read at search time)
+ * or an ad-hoc guest whose needs the organizer typed in.
+ */
+export interface GroupMember {
+    id: string;                       // uid for users, generated for guests and email invites
+    kind: 'user' | 'guest';
+    displayName: string;
+    status: 'invited' | 'accepted';   // Guests are always accepted
+    email?: string;                   // Pending email invites only - matched on accept
+    dietary: string[];                // Guests only - users bring their profile
+    allergies: string[];
+}
+
+/**
+ * Group of diners searched together (`dining_groups/{id}`, Admin SDK only).
+ * Group searches are charged to the organizer.
+ */
+export interface DiningGroup {
+    id: string;
+    ownerId: string;                  // Organizer
+    ownerName: string;
+    name: string;
+    members: GroupMember[];           // Everyone except the organizer
+    memberUserIds: string[];          // Accepted users (array-contains queries)
+    invitedUserIds: string[];         // Pending invites by uid (groups from before email invites)
+    invitedEmails?: string[];         // Pending invites by email
+    createdAt: string;
+    updatedAt: string;
 }
 
 /**
@@ -108,6 +152,154 @@ export interface OwnerImage {
     caption?: string;        // Optional description
 }
 
+/**
+ * Owner-edited weekly hours (OpeningHoursEditor).
+ * closes earlier than opens = overnight span.
+ */
+export interface OpeningHoursSpecification {
+    dayOfWeek: string[];     // "Monday", "Tuesday", etc.
+    opens: string;           // "HH:MM"
+    closes: string;          // "HH:MM"
+}
+
+/**
+ * Owner holiday override for a single date (restaurant's local date)
+ */
+export interface OpeningHoursException {
+    date: string;            // "YYYY-MM-DD"
+    closed: boolean;
+    opens?: string;          // "HH:MM" when not closed
+    closes?: string;
+    label?: string;          // e.g. "Christmas Eve"
+}
+
+/**
+ * Result of the opening-hours engine for a place at a given time
+ */
+export interface OpenStatus {
+    known: boolean;                    // false = no hours data, don't filter on it
+    isOpen: boolean;
+    minutesUntilClose: number | null;  // null if closed or open 24h
+    minutesUntilOpen: number | null;   // null if open or no opening within a week
+    exception?: string;                // Label of the holiday override in effect
+    evaluatedAt: string;               // ISO timestamp the status was computed at
+}
+
+/**
+ * One table on the owner's floor plan (TableManager).
+ * Position is a percentage of the floor plan canvas.
+ */
+export interface FloorTable {
+    id: string;
+    name: string;                // "T1", "Window 2"
+    minCovers: number;
+    maxCovers: number;
+    zone: string;                // "main" | "terrace" | "bar" | "window" | "private"
+    shape: "round" | "square" | "rect";
+    x: number;                   // 0-100
+    y: number;                   // 0-100
+    combinableWith: string[];    // Table ids that can be pushed together with this one
+    bookable: boolean;           // Offered for online bookings
+}
+
+/**
+ * How long a party keeps its table, matched by day part and party size.
+ */
+export interface DiningDurationRule {
+    dayPart: "lunch" | "dinner" | "all";
+    minGuests: number;
+    maxGuests?: number;          // Open-ended when missing ("6+")
+    minutes: number;
+}
+
+/**
+ * Owner turn-time settings (SeatingRulesEditor), see seating-rules.ts.
+ */
+export interface SeatingRules {
+    defaultMinutes: number;              // When no duration rule matches
+    durations: DiningDurationRule[];
+    dinnerStartsAt: string;              // "HH:MM" - earlier seatings are lunch
+    bufferMinutes: number;               // Table reset between seatings
+    lastSeatingBeforeClose: number | null; // Minutes; null = sitting must end by closing
+}
+
+/**
+ * Owner rules for guest changes (ReservationPolicyEditor), see reservation-policy.ts.
+ */
+export interface ReservationPolicy {
+    cancellationWindowHours: number;     // Guests can cancel or modify until this many hours before
+}
+
+/**
+ * Dish or drink on a claimed restaurant's menu (`restaurants/{placeId}/menu/{itemId}`).
+ * These are the owner's working copy; diners see the published snapshot of each menu.
+ */
+export interface MenuItem {
+    id: string;
+    name: string;
+    description?: string;
+    price: number;
+    weight?: string;         // "350g" / "0.33l"
+    imageUrl?: string;
+    allergens?: string[];    // AllergenId (allergens.ts) - older items may hold labels
+    dietary?: string[];      // MENU_DIETARY labels
+    category: string;        // One of MENU_CATEGORIES
+    menuId?: string;         // RestaurantMenu id, missing = DEFAULT_MENU_ID
+}
+
+/**
+ * When a menu is served, in the restaurant's timezone (menu-schedule.ts).
+ * Every field is optional - an empty schedule means always.
+ */
+export interface MenuSchedule {
+    days?: number[];         // 0 = Sunday
+    startTime?: string;      // "HH:MM"
+    endTime?: string;        // "HH:MM", earlier than startTime = past midnight
+    startDate?: string;      // "YYYY-MM-DD", inclusive
+    endDate?: string;        // "YYYY-MM-DD", inclusive
+}
+
+/**
+ * Published snapshot of a menu, also kept as history in
+ * `restaurants/{placeId}/menus/{menuId}/versions/{version}`.
+ */
+export interface MenuVersion {
+    version: number;
+    name: string;
+    schedule: MenuSchedule;
+    items: MenuItem[];
+    publishedAt: string;     // ISO
+    publishedBy: string;     // Owner UID
+    restoredFrom?: number;   // Rollback: the version this one copies
+}
+
+/**
+ * Named menu (`restaurants/{placeId}/menus/{menuId}`) - lunch, weekend brunch,
+ * a seasonal menu... `name` / `schedule` and the tagged items are the draft,
+ * `published` is what diners see (null = draft only).
+ */
+export interface RestaurantMenu {
+    id: string;
+    name: string;
+    schedule: MenuSchedule;
+    position: number;        // Order in the editor and on the place page
+    published: MenuVersion | null;
+    latestVersion: number;   // Highest version ever published (survives unpublishing)
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A menu as diners see it - a published version, or the legacy item list.
+ */
+export interface ServedMenu {
+    id: string;
+    name: string;
+    schedule: MenuSchedule;
+    items: MenuItem[];
+    version: number;         // 0 = legacy items, never published
+}
+
 /**
  * Restaurant entity - cached in Firestore for cost optimization
  * Supports owner claiming and image overrides
@@ -130,6 +322,7 @@ export interface Restaurant {
         website?: string;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         openingHours?: any;
+        utcOffsetMinutes?: number;   // Google's offset, used when no timeZone is set
         userRatingCount?: number;
         formattedAddress?: string;
         editorialSummary?: string;
@@ -148,31 +341,29 @@ export interface Restaurant {
     claimedBy?: string;      // User UID of claimer
     claimedAt?: string;      // ISO timestamp
 
+    // Owner-edited hours (OpeningHoursEditor) - take priority over Google periods
+    openingHoursSpecification?: OpeningHoursSpecification[];
+    openingHoursExceptions?: OpeningHoursException[];
+    timeZone?: string;       // IANA zone, e.g. "Europe/Bratislava"
+
     // Managed Content (Claimed features)
     menu?: {
-        items: {
-            id: string;
-            name: string;
-            description?: string;
-            price: number;
-            weight?: string;
-            imageUrl?: string;
-            allergens?: string[];
-            dietary?: string[];
-            category: string;
-        }[];
+        items: MenuItem[];   // Legacy - items live in `restaurants/{placeId}/menu/{itemId}`
     };
     tableConfig?: {
         totalTables: number;
         seatsPerTable: number;
         bookableTables?: number;
+        tables?: FloorTable[];   // Floor plan - when set, availability uses real tables
     };
+    seatingRules?: SeatingRules;
+    reservationPolicy?: ReservationPolicy;
 
     // Cache Metadata for staleness detection
     cacheMetadata: {
         lastFetched: string;  // ISO timestamp
         expiresAt: string;    // ISO timestamp (lastFetched + 7 days)
-        source: 'google' | 'manual'; // How data was obtained
+        source: 'google' | 'overpass' | 'fixture' | 'manual'; // How data was obtained
         dataLevel: 'light' | 'rich'; // Tracks how complete the data is (light=Stage1, rich=Stage3)
     };
 
@@ -183,6 +374,220 @@ export interface Restaurant {
     updatedAt: string;
 }
 
+/**
+ * One of an owner's restaurants in the dashboard location switcher
+ * (`restaurants` where ownerId = uid, see locations.ts).
+ */
+export interface OwnerLocation {
+    placeId: string;
+    name: string;
+    address: string;
+}
+
+/**
+ * Place snapshot stored in a saved list (enough to render without a lookup).
+ */
+export interface SavedListPlace {
+    placeId: string;
+    name: string;
+    address?: string;
+    rating?: number;
+    types: string[];
+    photoUrl?: string;
+    addedAt: string;
+}
+
+/**
+ * User-owned list of places (`lists/{id}`). Public lists are readable by
+ * anyone via /lists/{id}; only the owner can write (firestore.rules).
+ */
+export interface SavedList {
+    id: string;
+    ownerId: string;
+    ownerName: string;
+    name: string;
+    description?: string;
+    isPublic: boolean;
+    places: SavedListPlace[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Reservation lifecycle, see reservation-status.ts for the allowed transitions.
+ * "cancelled" is only found on bookings made before the state machine.
+ */
+export type ReservationStatus =
+    | "pending"
+    | "confirmed"
+    | "seated"
+    | "finished"
+    | "no_show"
+    | "rejected"
+    | "cancelled_by_guest"
+    | "cancelled_by_venue"
+    | "cancelled";
+
+export type ReservationActor = "diner" | "owner" | "system";
+
+/**
+ * One entry of a reservation's `historyLog` (append-only, server-written).
+ */
+export interface ReservationHistoryEntry {
+    status: ReservationStatus;
+    from: ReservationStatus | null;  // null for the creation entry
+    by: ReservationActor;
+    uid: string | null;              // Who made the change (null = system)
+    timestamp: string;               // ISO
+    reason?: string;
+    change?: string;                 // Guest modification, "old → new" summary
+}
+
+export type DepositStatus =
+    | "requires_payment"   // Checkout not completed yet - the table is held meanwhile
+    | "authorized"         // Card hold (manual capture), card kept on file
+    | "captured"           // Charged for a no-show
+    | "released"           // Hold voided - the guest came or cancelled in time
+    | "refunded"
+    | "expired"            // Checkout never completed
+    | "failed";
+
+/**
+ * Deposit on a reservation (`reservations/{id}.deposit`), see deposits.ts.
+ * Written by the server and the Stripe webhook only.
+ */
+export interface ReservationDeposit {
+    amount: number;                  // Minor units (cents)
+    currency: string;
+    status: DepositStatus;
+    checkoutSessionId?: string;
+    paymentIntentId?: string;
+    customerId?: string;
+    paymentMethodId?: string;
+    holdExpired?: boolean;           // Stripe dropped the hold; no-shows are charged off-session
+    updatedAt: string;
+}
+
+/**
+ * Set on a booking created from a waitlist offer (`reservations/{id}.waitlistOffer`).
+ * The table is held until `expiresAt`; the guest accepting confirms it.
+ */
+export interface ReservationWaitlistOffer {
+    entryId: string;
+    expiresAt: string;               // ISO
+    acceptedAt?: string;
+}
+
+export type WaitlistStatus = "waiting" | "offered" | "accepted" | "declined" | "expired" | "cancelled";
+
+/**
+ * A party waiting for a table (`waitlist/{id}`), see waitlist.ts. Written by
+ * the server; the owner may only change `position`.
+ */
+export interface WaitlistEntry {
+    id: string;
+    placeId: string;
+    placeName: string;
+    userId: string;
+    customerName: string;
+    customerEmail: string;
+    customerPhone: string;
+    date: string;                    // "YYYY-MM-DD", restaurant local
+    time: string;                    // Preferred "HH:MM"
+    flexibilityMinutes: number;      // Accepts any slot within ± this of `time`
+    guests: number;
+    status: WaitlistStatus;
+    position: number;                // Lower is offered first
+    offer?: {
+        reservationId: string;
+        time: string;
+        expiresAt: string;           // ISO
+    };
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Per-cover fee metered on a finished reservation (`reservations/{id}.coverFee`),
+ * see cover-billing.ts.
+ */
+export interface ReservationCoverFee {
+    period: string;                  // "YYYY-MM" of the service date
+    covers: number;
+    cents: number;                   // At the owner's rate when it finished
+}
+
+/**
+ * Covers served by one restaurant in one month (`cover_usage/{placeId}_{period}`).
+ * Written by the server only; the owner can read their own.
+ */
+export interface CoverUsage {
+    id: string;
+    ownerId: string;
+    placeId: string;
+    placeName: string;
+    period: string;                  // "YYYY-MM"
+    covers: number;
+    reservations: number;
+    feeCents: number;
+    invoicedCents?: number;          // Already sent to Stripe as invoice items
+    invoiceItemIds?: string[];
+    invoicedAt?: string;
+    pendingInvoice?: PendingCoverInvoice;
+    updatedAt: string;
+}
+
+/**
+ * Invoice item being sent to Stripe, saved before the call so a retried run
+ * resends the same amount under the same key instead of recomputing it.
+ */
+export interface PendingCoverInvoice {
+    cents: number;
+    idempotencyKey: string;
+    createdAt: string;
+}
+
+/**
+ * In-app notice for a user (`users/{uid}/notifications/{id}`), written by the
+ * server, marked read by the user.
+ */
+export interface UserNotification {
+    id: string;
+    type: "reservation_cancelled" | "reservation_modified" | "waitlist_offer";
+    title: string;
+    body: string;
+    reservationId?: string;
+    placeId?: string;
+    read: boolean;
+    createdAt: string;
+}
+
+export type NotificationChannel = "email" | "sms" | "push";
+export type NotificationLocale = "en" | "sk";
+
+/**
+ * Which outbound channels a user wants (`users/{uid}.notificationPreferences`).
+ * In-app notices are always on.
+ */
+export interface NotificationPreferences {
+    email: boolean;
+    sms: boolean;                    // Only for restaurants on a plan with SMS
+    push: boolean;                   // Needs a browser subscription as well
+    locale: NotificationLocale;
+    phone?: string;                  // SMS number; diners fall back to the booking's phone
+}
+
+/**
+ * A browser's Web Push subscription (`users/{uid}/push_subscriptions/{id}`),
+ * saved by the client, dropped by the server once the browser reports it gone.
+ */
+export interface PushSubscriptionRecord {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+    userAgent?: string;
+    createdAt: string;
+}
+
 /**
  * @deprecated Use UserCredits instead
  * Legacy AI Usage tracking - kept for backward compatibility
@@ -1,3 +1,5 @@
+import type { FloorTable, OpeningHoursException, OpenStatus, ServedMenu } from "./index";
+
 export interface Place {
     place_id: string;
     name: string;
@@ -45,6 +47,10 @@ export interface Place {
         opens: string;
         closes: string;
     }[];
+    openingHoursExceptions?: OpeningHoursException[];
+    timeZone?: string;
+    // Opening-hours engine result at search time (drives "Closes in 30 min" hints)
+    openStatus?: OpenStatus;
     types: string[];
     formatted_phone_number?: string;
     website?: string;
@@ -75,10 +81,13 @@ export interface Place {
             category: string; // e.g. "Starters"
         }[];
     };
+    // Published named menus with their schedules (menu-schedule.ts picks the one served now)
+    menus?: ServedMenu[];
     tableConfig?: {
         totalTables: number;
         seatsPerTable: number; // Simplified for now, can be array of tables later
         bookableTables?: number;
+        tables?: FloorTable[];
     };
     customPhotos?: {
         url: string;
@@ -0,0 +1,18 @@
+/**
+ * Streamed search events (GET /api/search?stream=1, one JSON object per line).
+ * Emitted in pipeline order; `done` always comes last and carries the same
+ * body the non-streamed endpoint would have returned.
+ */
+
+import type { Place } from './place';
+import type { GeminiScore } from './index';
+
+export type SearchStage = "discovery" | "scout" | "enrichment" | "scoring";
+
+export type SearchStreamEvent<P extends { place_id: string } = Place> =
+    | { type: "stage"; stage: SearchStage }
+    | { type: "candidates"; results: P[] }                      // Light data, pre-filtered
+    | { type: "scout"; placeIds: string[] }                     // Picks chosen for enrichment
+    | { type: "enriched"; results: P[] }                        // Rich details, not scored yet
+    | { type: "scores"; scores: Record<string, GeminiScore> }   // Final AI scores
+    | { type: "done"; status: number; body: unknown };